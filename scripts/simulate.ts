@@ -0,0 +1,145 @@
+// scripts/simulate.ts
+// Usage: npm run simulate -- --games 500 --seed 1 --developer balanced --community aggressive --out sim-results
+
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { useLoggerStore } from '@/stores/loggerStore';
+import { runSimulation, resultsToCsv, cardsToCsv, SimulationSummary } from '@/simulation/simulate';
+import { AI_STRATEGIES, getStrategy } from '@/ai/strategies';
+import { RULE_SET_PRESETS, describeRuleSet } from '@/data/rules';
+import { DeckFile, DeckMode } from '@/data/types';
+import { setActiveDeck } from '@/data/deckData';
+import { parseDeck } from '@/data/decks';
+import { DEFAULT_SCENARIO, SCENARIOS, scenarioDeck, scenarioRules } from '@/data/scenarios';
+
+const USAGE = `Options:
+  --games <n>          Number of games to play (default 100)
+  --seed <n>           Seed of the first game; game i uses seed + i (default 1)
+  --developer <name>   Strategy for the Developer (default balanced)
+  --community <name>   Strategy for the Community (default balanced)
+  --budget <ms>        Thinking time per decision for search strategies (default 1000)
+  --rules <preset>     Rule set preset (default standard)
+  --min-yield <pct>    Enforce the developer feasibility rule at this minimum yield (default: the preset's)
+  --deck <mode>        How cards are drawn: openDraft, drawPile or drafted (default openDraft)
+  --deck-file <path>   Play with a custom deck exported from the deck editor (default: the built-in deck)
+  --scenario <name>    Site to build on; may replace the rules, cap the height and remove cards (default generic)
+  --out <dir>          Also write summary.json, games.csv and cards.csv to this directory
+Strategies: ${Object.keys(AI_STRATEGIES).join(', ')}
+Rule sets: ${Object.keys(RULE_SET_PRESETS).join(', ')}
+Scenarios: ${Object.keys(SCENARIOS).join(', ')}`;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith('--')) throw new Error(`Unexpected argument '${key}'`);
+    if (key === '--help') return { help: 'true' };
+    const value = argv[++i];
+    if (value === undefined) throw new Error(`Missing value for ${key}`);
+    args[key.slice(2)] = value;
+  }
+  return args;
+}
+
+function parseCount(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new Error(`--${name} must be a non-negative integer`);
+  return n;
+}
+
+function strategyNamed(name: string | undefined) {
+  const strategy = getStrategy(name ?? 'balanced');
+  if (!strategy) throw new Error(`Unknown strategy '${name}'`);
+  return strategy;
+}
+
+function rulesNamed(name: string | undefined) {
+  const preset = RULE_SET_PRESETS[name ?? 'standard'];
+  if (!preset) throw new Error(`Unknown rule set '${name}'`);
+  return preset.rules;
+}
+
+function deckModeNamed(name: string | undefined): DeckMode {
+  if (name === undefined || name === 'openDraft' || name === 'drawPile' || name === 'drafted') return name ?? 'openDraft';
+  throw new Error(`Unknown deck mode '${name}'`);
+}
+
+function scenarioNamed(name: string | undefined): string {
+  if (name === undefined) return DEFAULT_SCENARIO;
+  if (!SCENARIOS[name]) throw new Error(`Unknown scenario '${name}'`);
+  return name;
+}
+
+function loadDeckFile(path: string | undefined): DeckFile | null {
+  if (path === undefined) return null;
+  const result = parseDeck(readFileSync(path, 'utf8'));
+  if (!result.isValid || !result.deck) throw new Error(`Cannot use deck ${path}: ${result.reason}`);
+  return result.deck;
+}
+
+const percent = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+function printReport(summary: SimulationSummary): void {
+  const { winRates, winRatesByLeadRole, score } = summary;
+  console.log(`\n${summary.games} games (seeds ${summary.seed}-${summary.seed + summary.games - 1}), developer=${summary.strategies.developer}, community=${summary.strategies.community}, rules=${describeRuleSet(summary.rules)}, deck=${summary.deckMode}, scenario=${summary.scenario}\n`);
+  console.log(`Winner         developer ${percent(winRates.developer)}  community ${percent(winRates.community)}  balanced ${percent(winRates.balanced)}  infeasible ${percent(winRates.infeasible)}  unfinished ${percent(winRates.unfinished)}`);
+  Object.entries(winRatesByLeadRole).forEach(([role, r]) => {
+    console.log(`  ${role} leads first (${r.games}): developer ${percent(r.developer)}  community ${percent(r.community)}  balanced ${percent(r.balanced)}`);
+  });
+  console.log(`\nFinal score    mean ${score.mean.toFixed(1)}  min ${score.min}  max ${score.max}  within ±${summary.balanceThreshold}: ${percent(score.withinBalance)}`);
+  score.histogram.forEach(b => console.log(`  ${String(b.from).padStart(6)} … ${String(b.to).padEnd(6)} ${'#'.repeat(Math.ceil((b.count / summary.games) * 60))} ${b.count}`));
+  const axisBand = summary.rules.axisBalanceThreshold;
+  console.log(`\nAxes           every axis within ${axisBand === undefined ? 'range (no axis band)' : `±${axisBand}`}: ${percent(summary.axesWithin)}`);
+  Object.entries(summary.axes).forEach(([axis, a]) => {
+    console.log(`  ${axis.padEnd(15)} mean ${a.mean.toFixed(1).padStart(7)}  min ${String(a.min).padStart(5)}  max ${String(a.max).padStart(5)}  within ${percent(a.within)}`);
+  });
+  console.log(`\nRecalls/game   ${summary.averageRecalls.toFixed(2)}`);
+  console.log(`Skipped/game   ${summary.averageSkipped.toFixed(2)} of ${summary.rules.maxStories} floors`);
+  summary.zoning.forEach(z => console.log(`Zoning         ${z.label}: met in ${percent(z.met)}`));
+  console.log('\nCard           proposed  floors won');
+  summary.cards.forEach(c => console.log(`  ${c.name.padEnd(28)} ${String(c.proposed).padStart(6)}  ${String(c.floorsWon).padStart(6)}`));
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  // Engine and strategies log every step at debug level; only errors are useful here.
+  useLoggerStore.getState().setDebug(false);
+  const scenario = scenarioNamed(args.scenario);
+  setActiveDeck(scenarioDeck(scenario, loadDeckFile(args['deck-file'])));
+  const rules = scenarioRules(scenario, rulesNamed(args.rules));
+
+  const summary = runSimulation({
+    games: parseCount(args.games, 100, 'games'),
+    seed: parseCount(args.seed, 1, 'seed'),
+    developerStrategy: strategyNamed(args.developer),
+    communityStrategy: strategyNamed(args.community),
+    searchBudgetMs: args.budget === undefined ? undefined : parseCount(args.budget, 0, 'budget'),
+    rules: args['min-yield'] === undefined
+      ? rules
+      : { ...rules, minDeveloperYieldPct: parseCount(args['min-yield'], 0, 'min-yield') },
+    deckMode: deckModeNamed(args.deck),
+    scenario,
+  });
+  printReport(summary);
+
+  if (args.out) {
+    mkdirSync(args.out, { recursive: true });
+    writeFileSync(join(args.out, 'summary.json'), JSON.stringify(summary, null, 2));
+    writeFileSync(join(args.out, 'games.csv'), resultsToCsv(summary));
+    writeFileSync(join(args.out, 'cards.csv'), cardsToCsv(summary));
+    console.log(`\nWrote summary.json, games.csv and cards.csv to ${args.out}`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(1);
+}
@@ -0,0 +1,57 @@
+// scripts/validate-deck.ts
+// Usage: npm run validate-deck -- my-deck.json [more.json …] [--fix] [--schema]
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { DECK_JSON_SCHEMA, findMissingImages, formatDeckIssue, serializeDeck, validateDeckJson } from '@/data/decks';
+import { getValidatedImagePath } from '@/lib/server/imageValidation';
+import { jsonValueLines } from '@/utils/jsonLines';
+
+const USAGE = `Usage: npm run validate-deck -- <deck.json> [more.json …] [--fix] [--schema]
+  --fix      Rewrite each valid file with legacy card fields normalized
+  --schema   Print the deck file JSON Schema and exit
+Exits with status 1 if any file has errors; warnings alone pass.`;
+
+const imageExists = async (path: string) => (await getValidatedImagePath(path)) === path;
+
+/** Validates one file, prints its issues and returns whether it is usable. */
+async function checkFile(file: string, fix: boolean): Promise<boolean> {
+  const json = readFileSync(file, 'utf8');
+  const report = validateDeckJson(json);
+  const issues = report.deck ? [...report.issues, ...(await findMissingImages(report.deck, imageExists, jsonValueLines(json)))] : report.issues;
+  issues.forEach(issue => console.log(formatDeckIssue(issue, file)));
+
+  if (!report.deck) {
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    console.log(`${file}: invalid (${errors} ${errors === 1 ? 'error' : 'errors'})`);
+    return false;
+  }
+  if (fix) writeFileSync(file, `${serializeDeck(report.deck)}\n`);
+  console.log(`${file}: "${report.deck.name}" is valid, ${report.deck.cards.length} cards${fix ? ', normalized' : ''}`);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  if (args.includes('--schema')) {
+    console.log(JSON.stringify(DECK_JSON_SCHEMA, null, 2));
+    return;
+  }
+  const unknown = args.find(arg => arg.startsWith('--') && arg !== '--fix');
+  if (unknown) throw new Error(`Unknown option '${unknown}'`);
+  const files = args.filter(arg => !arg.startsWith('--'));
+  if (files.length === 0) throw new Error('No deck files given');
+
+  let allValid = true;
+  for (const file of files) allValid = (await checkFile(file, args.includes('--fix'))) && allValid;
+  if (!allValid) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exit(1);
+});
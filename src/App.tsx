@@ -16,9 +16,19 @@ import { ThemeProvider } from "@/components/theme-provider";
 import LoadingIndicator from "@/components/ui/LoadingIndicator";
 
 // Game Components
-import TitleScreen from "@/components/TitleScreen";
+import TitleScreen, { AIOpponentSettings } from "@/components/TitleScreen";
 import GameInterface from "@/components/GameInterface";
+import DraftBoard from "@/components/DraftBoard";
 import GameOverScreen, { GameOverScreenProps } from "@/components/GameOverScreen";
+import ReplayViewer from "@/components/ReplayViewer";
+import HeadToHeadGame from "@/components/HeadToHeadGame";
+import { ReplayFile } from "@/replay/replay";
+import { RuleSet, describeRuleSet } from "@/data/rules";
+import { DeckFile, DeckMode, PlayerNames } from "@/data/types";
+import { setActiveDeck } from "@/data/deckData";
+import { BUILT_IN_DECK_NAME } from "@/data/decks";
+import { scenarioDeck } from "@/data/scenarios";
+import { hasPrivatePiles } from "@/engine/deck";
 
 // Stores
 import { useGameFlowStore, GamePhase } from "@/stores/useGameFlowStore";
@@ -33,6 +43,7 @@ import {
 } from "@/stores/useFloorStore";
 import { useBuildingStore } from "@/stores/useBuildingStore";
 import { useAIStore } from "@/stores/useAIStore";
+import { useHeadToHeadStore } from "@/stores/useHeadToHeadStore";
 
 // Utils
 import { logDebug, logError, logInfo, logWarn } from "@/utils/logger";
@@ -51,11 +62,15 @@ export default function App() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(true);
   const [showDebug, setShowDebug] = useState(false);
+  const [activeReplay, setActiveReplay] = useState<ReplayFile | null>(null);
 
   // ——— All hooks, unconditionally at top ————————————————————————
   const gamePhase               = useGameFlowStore(s => s.gamePhase);
   const gameOverReason          = useGameFlowStore(s => s.gameOverReason);
   const winnerMessage           = useGameFlowStore(s => s.winnerMessage);
+  const gameSeed                = useGameFlowStore(s => s.seed);
+  const headToHeadStatus        = useHeadToHeadStore(s => s.status);
+  const lobbyClosedReason       = useHeadToHeadStore(s => s.closedReason);
 
   const deckCardDefinitionsCount = usePlayersStore(
     s => s.deckCardDefinitions.length
@@ -81,13 +96,14 @@ export default function App() {
   );
 
   // Grab stable actions directly
-  const { startGame, resetGame } = useGameFlowStore.getState();
+  const { startGame, startDraft, resetGame, resumeGame } = useGameFlowStore.getState();
   const {
     initializePlayers,
     cycleProposalCountForCard,
     cycleCounterProposalCountForCard,
   } = usePlayersStore.getState();
-  const { setDifficultyLevel: setAIDifficulty } = useAIStore.getState();
+  const { setDifficultyLevel: setAIDifficulty, setStrategy: setAIStrategy } = useAIStore.getState();
+  const { createLobby, joinLobby, resumeSeat } = useHeadToHeadStore.getState();
 
   // ——— Effects ———————————————————————————————————————————————
   useEffect(() => {
@@ -112,15 +128,38 @@ export default function App() {
     }
   }, [initializePlayers, setAIDifficulty, toast]);
 
+  // A reload during a head-to-head game rejoins the same seat
+  useEffect(() => {
+    if (resumeSeat()) logInfo("Rejoining the head-to-head lobby saved in this tab.", "AppBoot");
+  }, [resumeSeat]);
+
   // ——— Callbacks & DnD ————————————————————————————————————————
   const handleStartGame = useCallback(
-    (role: PlayerRole) => {
-      logDebug(`Starting game as ${role}`, "AppEvents");
-      startGame(role);
+    (role: PlayerRole, aiSettings: AIOpponentSettings, rules: RuleSet, deckMode: DeckMode, deck: DeckFile | null, scenarioId: string, hotSeatNames: PlayerNames | null) => {
+      const opponent = hotSeatNames ? "a second player on this device" : `${aiSettings.difficulty} AI`;
+      logDebug(`Starting game as ${role} vs ${opponent} (${describeRuleSet(rules)}, ${deckMode}, ${deck?.name ?? BUILT_IN_DECK_NAME} deck, ${scenarioId} scenario)`, "AppEvents");
+      setActiveDeck(scenarioDeck(scenarioId, deck)); // Before the players store copies the card definitions
+      setAIDifficulty(aiSettings.difficulty);
+      if (aiSettings.strategyName) setAIStrategy(aiSettings.strategyName);
+      // A drafted deck is picked on the draft board first; the draft starts the game when it is done.
+      if (hasPrivatePiles(deckMode)) startDraft(role, undefined, rules, scenarioId);
+      else startGame(role, undefined, rules, deckMode, undefined, scenarioId, hotSeatNames ?? undefined);
     },
-    [startGame]
+    [startGame, startDraft, setAIDifficulty, setAIStrategy]
   );
 
+  const handleResumeGame = useCallback(() => {
+    logDebug("Resuming saved game", "AppEvents");
+    const result = resumeGame();
+    if (!result.isValid) {
+      toast({
+        title: "Cannot Resume Game",
+        description: result.reason,
+        variant: "destructive",
+      });
+    }
+  }, [resumeGame, toast]);
+
   const handleResetGame = useCallback(() => {
     logDebug("Resetting game", "AppEvents");
     resetGame();
@@ -171,9 +210,28 @@ export default function App() {
 
   // ——— Pure render function, no hooks inside —————————————————————
   const renderAppContent = () => {
+    if (activeReplay) {
+      return <ReplayViewer replay={activeReplay} onExit={() => setActiveReplay(null)} />;
+    }
+    if (headToHeadStatus !== 'idle') {
+      return <HeadToHeadGame />;
+    }
+
     switch (gamePhase) {
       case GamePhase.Title:
-        return <TitleScreen onStartGame={handleStartGame} />;
+        return (
+          <TitleScreen
+            onStartGame={handleStartGame}
+            onLoadReplay={setActiveReplay}
+            onResumeGame={handleResumeGame}
+            onHostGame={createLobby}
+            onJoinGame={joinLobby}
+            lobbyError={lobbyClosedReason}
+          />
+        );
+
+      case GamePhase.Drafting:
+        return <DraftBoard onResetGame={handleResetGame} />;
 
       case GamePhase.Playing:
         return <GameInterface onResetGame={handleResetGame} />;
@@ -233,6 +291,7 @@ export default function App() {
           <div className="fixed bottom-10 right-2 bg-slate-800/95 text-white p-3 rounded shadow-lg max-w-md max-h-72 overflow-auto text-xs z-[99] border border-slate-600 backdrop-blur-sm">
             <h4 className="font-bold mb-1">Debug Info</h4>
             <p>Phase: {gamePhase}</p>
+            <p>Seed: {gameSeed ?? "—"}</p>
             <p>
               Player: {currentPlayer?.name.slice(0, 10)} (
               {currentPlayer?.id.slice(0, 3)})
@@ -0,0 +1,38 @@
+// src/ai/engineBridge.ts
+// Builds the engine's view of a live store-driven game so planners can use GameEngine as a forward model.
+
+import { GameState, GamePhase, CardInstance, PlayerType } from '@/data/types';
+import { usePlayersStore } from '@/stores/usePlayersStore';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+
+/** Hand stacks become one engine card each; the first copy keeps the stack's instance id. */
+const expandStacks = (hand: CardInstance[]): CardInstance[] =>
+    hand.flatMap(stack => Array.from({ length: Math.max(0, stack.stack ?? 1) }, (_, i) => ({
+        ...stack,
+        instanceId: i === 0 ? stack.instanceId : `${stack.instanceId}#${i}`,
+        stack: 1,
+    })));
+
+export function buildEngineStateFromStores(): GameState {
+    const { players, currentPlayerIndex, deckMode, drawPile, discardPile, reshuffles } = usePlayersStore.getState();
+    const { floors, currentFloor } = useFloorStore.getState();
+    const { seed, rules } = useGameFlowStore.getState();
+
+    return JSON.parse(JSON.stringify({
+        phase: GamePhase.Playing,
+        currentFloor,
+        currentPlayerIndex,
+        isAiTurn: players[currentPlayerIndex]?.type === PlayerType.AI,
+        players: players.map(player => ({ ...player, hand: expandStacks(player.hand) })),
+        floors,
+        gameLog: [],
+        seed: seed ?? undefined,
+        rules,
+        cardsDrawn: 0,
+        deckMode,
+        deck: drawPile,
+        discardPile,
+        reshuffles,
+    }));
+}
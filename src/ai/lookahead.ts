@@ -0,0 +1,281 @@
+// src/ai/lookahead.ts
+// Monte Carlo lookahead: scores each legal move by playing the rest of the game out through GameEngine.
+
+import { GameEngine, GameAction } from '@/engine/GameEngine';
+import { GameState, GameEvent, CardDefinition, CardInstance, DeckFile, FloorStatus, GamePhase, Player, PlayerRole } from '@/data/types';
+import { getActiveDeck, withActiveDeck } from '@/data/deckData';
+import { rulesOf } from '@/data/rules';
+import { bundleScoreImpact, floorScoreImpact } from '@/engine/bundles';
+import { hasPrivatePiles, isDrawPileMode, pilesOf } from '@/engine/deck';
+import { checkFloorRequirements } from '@/engine/floorRules';
+import { shuffle } from '@/utils/shuffle';
+import { createSeededRandom, randomInt, RandomSource } from '@/utils/random';
+import { withQuietLogging } from '@/utils/logger';
+
+export interface LookaheadRequest {
+    state: GameState;              // Engine view of the game with the searching player to move
+    playerId: string;              // The searching player
+    drawPool: CardDefinition[];    // Cards still drawable; also used to guess the opponent's hidden hand
+    scoreOffset: number;           // Score the engine state doesn't account for (live baseline impacts, recall penalties)
+    budgetMs: number;
+    seed: number;
+    horizonFloors?: number;        // Floors to play out before scoring heuristically (default: to the end)
+    deck?: DeckFile | null;        // Custom deck in play; a worker has its own deckData, so the catalog travels with the request
+}
+
+export interface CandidateStats {
+    action: GameAction;
+    label: string;
+    visits: number;
+    meanValue: number;             // Expected utility in [0, 1] for the searching player
+}
+
+export interface LookaheadResult {
+    action: GameAction | null;     // null when the player has no legal move
+    rationale: string;
+    rollouts: number;
+    elapsedMs: number;
+    candidates: CandidateStats[];
+}
+
+// Safety cap so a tiny state cannot spin for the whole budget doing nothing useful.
+const MAX_ROLLOUTS = 20_000;
+const MAX_ROLLOUT_STEPS = 400;
+const UCB_EXPLORATION = Math.SQRT2;
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/** +1 when a positive final score wins for this role (Community), -1 for the Developer. */
+const directionFor = (role: PlayerRole) => (role === PlayerRole.Developer ? -1 : 1);
+
+/**
+ * Utility of a final (or horizon) score for `role`, following the engine's win rule:
+ * inside ±balanceThreshold is a draw (0.5), beyond it the side the score leans to wins.
+ * A logistic keeps the value smooth so rollouts that end near the band still differ.
+ */
+const utility = (score: number, role: PlayerRole, balanceThreshold: number) =>
+    1 / (1 + Math.exp(-(directionFor(role) * score) / Math.max(1, balanceThreshold)));
+
+/** Score the engine state itself accounts for: the scenario baseline plus agreed floors. */
+const agreedScore = (state: GameState) =>
+    (state.baselineScore ?? 0) + (state.floors ?? []).reduce((sum, f) => sum + floorScoreImpact(f), 0);
+
+const adjustmentsIn = (events: GameEvent[]) =>
+    events.reduce((sum, e) => (e.type === 'SCORE_ADJUSTED' ? sum + e.amount : sum), 0);
+
+const currentFloorOf = (state: GameState) => state.floors?.find(f => f.floorNumber === state.currentFloor);
+
+const bundleOrNone = (cards: CardInstance[] | undefined) => (cards?.length ? cards : undefined);
+
+const proposalsFor = (state: GameState, player: Player) => {
+    const floor = currentFloorOf(state);
+    const isA = state.players?.[0].id === player.id;
+    return {
+        own: bundleOrNone(isA ? floor?.proposalA : floor?.proposalB),
+        opponent: bundleOrNone(isA ? floor?.proposalB : floor?.proposalA),
+    };
+};
+
+const describeAction = (action: GameAction, state: GameState): string => {
+    const cardName = (instanceId: string) =>
+        state.players?.flatMap(p => p.hand).find(c => c.instanceId === instanceId)?.name ?? instanceId;
+    switch (action.type) {
+        case 'PROPOSE_CARD': return `Propose ${cardName(action.instanceId)}`;
+        case 'COUNTER_PROPOSE': return `Counter with ${cardName(action.instanceId)}`;
+        case 'ACCEPT_PROPOSAL': return 'Accept';
+        case 'PASS_PROPOSAL': return 'Pass';
+        case 'USE_RECALL': return `Recall floor ${action.floorNumber}`;
+        default: return action.type;
+    }
+};
+
+/** Every move the engine accepts from `playerId` right now, one per distinct card. */
+function legalActions(engine: GameEngine, state: GameState, playerId: string): GameAction[] {
+    const player = state.players?.find(p => p.id === playerId);
+    if (!player) return [];
+    const distinctCards = new Map<string, CardInstance>();
+    player.hand.forEach(card => { if (!distinctCards.has(card.id)) distinctCards.set(card.id, card); });
+
+    const options: GameAction[] = [
+        ...[...distinctCards.values()].flatMap((card): GameAction[] => [
+            { type: 'PROPOSE_CARD', playerId, instanceId: card.instanceId },
+            { type: 'COUNTER_PROPOSE', playerId, instanceId: card.instanceId },
+        ]),
+        { type: 'ACCEPT_PROPOSAL', playerId },
+        { type: 'PASS_PROPOSAL', playerId },
+    ];
+    return options.filter(action => !engine.handleAction(state, action).events.some(e => e.type === 'ERROR'));
+}
+
+/**
+ * A stuck player's way out: with a full hand holding nothing for the current floor, the DISCARD_CARD that makes
+ * room for a draw, dropping a card no open floor can take if there is one. Undefined when the player isn't stuck,
+ * or when nothing in `drawable` (the cards their next draw may bring) could go on the floor either.
+ */
+export function discardToDraw(state: GameState, drawable: readonly CardDefinition[], rng: RandomSource): GameAction | undefined {
+    const player = state.players![state.currentPlayerIndex];
+    if (player.hand.length === 0 || player.hand.length < rulesOf(state).maxHandSize) return undefined;
+    const floors = state.floors!;
+    const fits = (card: CardDefinition, floorNumber: number) =>
+        checkFloorRequirements(card, { floorNumber, maxStories: floors.length, floors }).isValid;
+    if (player.hand.some(card => fits(card, state.currentFloor)) || !drawable.some(card => fits(card, state.currentFloor))) return undefined;
+    const openFloors = floors.filter(floor => floor.status === FloorStatus.Pending || floor.status === FloorStatus.Reopened);
+    const unplayable = player.hand.filter(card => !openFloors.some(floor => fits(card, floor.floorNumber)));
+    const pool = unplayable.length > 0 ? unplayable : player.hand;
+    return { type: 'DISCARD_CARD', playerId: player.id, instanceId: pool[randomInt(rng, pool.length)].instanceId };
+}
+
+/**
+ * Cheap opponent/self model used inside rollouts. Leans toward its own side, keeps an eye
+ * on the balance band and is occasionally random, so rollouts cover a spread of plausible play.
+ */
+function rolloutPolicy(engine: GameEngine, state: GameState, drawPool: CardDefinition[], scoreOffset: number, rng: RandomSource): GameAction {
+    const player = state.players![state.currentPlayerIndex];
+    const playerId = player.id;
+    const rules = rulesOf(state);
+    const piles = pilesOf(player, { drawPile: state.deck ?? [], discardPile: state.discardPile ?? [] }, state.deckMode);
+    const drawable = isDrawPileMode(state.deckMode) ? [...piles.drawPile, ...piles.discardPile] : drawPool;
+    if (drawable.length > 0 && player.hand.length < rules.maxHandSize) {
+        return isDrawPileMode(state.deckMode)
+            ? { type: 'DRAW_CARD', playerId }
+            : { type: 'DRAW_CARD', playerId, cardId: drawPool[randomInt(rng, drawPool.length)].id };
+    }
+    const discard = discardToDraw(state, drawable, rng);
+    if (discard) return discard;
+
+    const direction = directionFor(player.role);
+    const score = agreedScore(state) + scoreOffset;
+    const gain = (card: CardDefinition) => direction * (card.netScoreImpact ?? 0);
+    const bundleGain = (cards: CardInstance[]) => direction * bundleScoreImpact(cards);
+    const { own, opponent } = proposalsFor(state, player);
+    const pickCard = (): CardInstance | undefined => {
+        const hand = player.hand.filter(c => engine.checkFloorRestriction(c, state.currentFloor, state.floors!).isValid);
+        if (hand.length === 0) return undefined;
+        const roll = rng();
+        if (roll < 0.2) return hand[randomInt(rng, hand.length)];
+        const key = roll < 0.7 ? (c: CardInstance) => gain(c) : (c: CardInstance) => -Math.abs(score + (c.netScoreImpact ?? 0));
+        return hand.reduce((best, c) => (key(c) > key(best) ? c : best));
+    };
+
+    if (!own && !opponent) {
+        // A player holding recall tokens reopens a floor that went badly against them.
+        if (player.recallTokens > 0 && rng() < 0.5) {
+            const target = state.floors!.find(f => f.floorNumber < state.currentFloor && f.floorNumber <= rules.recallMaxFloor
+                && f.status === FloorStatus.Agreed && direction * floorScoreImpact(f) <= -2 * rules.balanceThreshold);
+            if (target) return { type: 'USE_RECALL', playerId, floorNumber: target.floorNumber };
+        }
+        const card = pickCard();
+        return card ? { type: 'PROPOSE_CARD', playerId, instanceId: card.instanceId } : { type: 'PASS_PROPOSAL', playerId };
+    }
+    if (!own && opponent) {
+        if (bundleGain(opponent) >= -rules.balanceThreshold) return { type: 'ACCEPT_PROPOSAL', playerId };
+        const card = pickCard();
+        return card && gain(card) > bundleGain(opponent) ? { type: 'COUNTER_PROPOSE', playerId, instanceId: card.instanceId } : { type: 'PASS_PROPOSAL', playerId };
+    }
+    return own && opponent && bundleGain(opponent) >= bundleGain(own) - rules.balanceThreshold
+        ? { type: 'ACCEPT_PROPOSAL', playerId }
+        : { type: 'PASS_PROPOSAL', playerId };
+}
+
+/**
+ * Replaces the opponent's hidden hand with an equally sized sample from the draw pool. In draw pile
+ * mode the order of the pile is hidden too, so each rollout draws from its own shuffle of it. The
+ * draft is played face up, so in drafted games the opponent's hand is sampled from their own cards.
+ */
+function determinize(state: GameState, playerId: string, drawPool: CardDefinition[], rng: RandomSource): GameState {
+    if (drawPool.length === 0) return state;
+    const privatePiles = hasPrivatePiles(state.deckMode);
+    const poolOf = (p: Player): CardDefinition[] => {
+        const drafted = privatePiles ? [...(p.drawPile ?? []), ...(p.discardPile ?? [])] : [];
+        return drafted.length ? drafted : drawPool;
+    };
+    return {
+        ...state,
+        deck: state.deck && isDrawPileMode(state.deckMode) ? shuffle(state.deck, rng) : state.deck,
+        players: state.players!.map(p => {
+            const own = privatePiles && p.drawPile ? { ...p, drawPile: shuffle(p.drawPile, rng) } : p;
+            if (p.id === playerId) return own;
+            const pool = poolOf(p);
+            return { ...own, hand: p.hand.map((_, i) => ({ ...pool[randomInt(rng, pool.length)], instanceId: `guess-${i}`, ownerId: p.id, stack: 1 })) };
+        }),
+    };
+}
+
+function rollout(engine: GameEngine, root: GameState, action: GameAction, request: LookaheadRequest, role: PlayerRole, rng: RandomSource): number {
+    const events: GameEvent[] = [];
+    const step = (s: GameState, a: GameAction) => {
+        const result = engine.handleAction(s, a);
+        events.push(...result.events);
+        return result;
+    };
+
+    let state = step(determinize(root, request.playerId, request.drawPool, rng), action).newState;
+    const horizon = request.horizonFloors ? root.currentFloor + request.horizonFloors : Infinity;
+
+    for (let steps = 0; state.phase === GamePhase.Playing && state.currentFloor < horizon && steps < MAX_ROLLOUT_STEPS; steps++) {
+        const scoreOffset = request.scoreOffset + adjustmentsIn(events);
+        const next = rolloutPolicy(engine, state, request.drawPool, scoreOffset, rng);
+        let result = step(state, next);
+        if (result.events.some(e => e.type === 'ERROR')) {
+            result = step(state, { type: 'PASS_PROPOSAL', playerId: state.players![state.currentPlayerIndex].id });
+            if (result.events.some(e => e.type === 'ERROR')) break;
+        }
+        state = result.newState;
+    }
+
+    const gameOver = events.find((e): e is Extract<GameEvent, { type: 'GAME_OVER' }> => e.type === 'GAME_OVER');
+    const finalScore = (gameOver?.finalScore ?? agreedScore(state)) + request.scoreOffset + adjustmentsIn(events);
+    return utility(finalScore, role, rulesOf(root).balanceThreshold);
+}
+
+/**
+ * Flat Monte Carlo search with UCB1 allocation: each root move is tried in turn, then
+ * rollouts go to the moves whose upper confidence bound is highest until the budget runs out.
+ * The move with the most rollouts is returned, which is less noisy than the best mean.
+ */
+export function runLookahead(request: LookaheadRequest, engine: GameEngine = new GameEngine()): LookaheadResult {
+    return withActiveDeck(request.deck ?? getActiveDeck(), () => withQuietLogging(() => search(request, engine)));
+}
+
+function search(request: LookaheadRequest, engine: GameEngine): LookaheadResult {
+    const start = now();
+    const player = request.state.players?.find(p => p.id === request.playerId);
+    const actions = player ? legalActions(engine, request.state, request.playerId) : [];
+    const candidates: CandidateStats[] = actions.map(action => ({
+        action, label: describeAction(action, request.state), visits: 0, meanValue: 0,
+    }));
+
+    if (!player || candidates.length === 0) {
+        return { action: null, rationale: 'No legal move available.', rollouts: 0, elapsedMs: now() - start, candidates };
+    }
+    if (candidates.length === 1) {
+        return { action: candidates[0].action, rationale: `${candidates[0].label} is the only legal move.`, rollouts: 0, elapsedMs: now() - start, candidates };
+    }
+
+    const rng = createSeededRandom(request.seed);
+    let rollouts = 0;
+    while (rollouts < MAX_ROLLOUTS && (rollouts < candidates.length || now() - start < request.budgetMs)) {
+        const candidate = rollouts < candidates.length
+            ? candidates[rollouts]
+            : candidates.reduce((best, c) => {
+                const bound = (x: CandidateStats) => x.meanValue + UCB_EXPLORATION * Math.sqrt(Math.log(rollouts) / x.visits);
+                return bound(c) > bound(best) ? c : best;
+            });
+        const value = rollout(engine, request.state, candidate.action, request, player.role, rng);
+        candidate.visits++;
+        candidate.meanValue += (value - candidate.meanValue) / candidate.visits;
+        rollouts++;
+    }
+
+    const ranked = [...candidates].sort((a, b) => b.visits - a.visits);
+    const [best, runnerUp] = ranked;
+    const percent = (x: number) => `${Math.round(x * 100)}%`;
+    return {
+        action: best.action,
+        rationale: `${best.label}: ${percent(best.meanValue)} expected over ${best.visits} playouts`
+            + (runnerUp ? ` (next best: ${runnerUp.label}, ${percent(runnerUp.meanValue)}).` : '.'),
+        rollouts,
+        elapsedMs: now() - start,
+        candidates: ranked,
+    };
+}
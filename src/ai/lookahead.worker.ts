@@ -0,0 +1,16 @@
+// src/ai/lookahead.worker.ts
+// Runs lookahead searches off the main thread. Receives { id, request }, replies { id, result } or { id, error }.
+
+import { GameEngine } from '@/engine/GameEngine';
+import { runLookahead, LookaheadRequest } from './lookahead';
+
+const engine = new GameEngine();
+
+self.onmessage = (event: MessageEvent<{ id: number; request: LookaheadRequest }>) => {
+    const { id, request } = event.data;
+    try {
+        self.postMessage({ id, result: runLookahead(request, engine) });
+    } catch (error) {
+        self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+};
@@ -0,0 +1,58 @@
+// src/ai/lookaheadClient.ts
+// Promise wrapper around the lookahead worker; falls back to an inline search where workers don't exist (Node, SSR).
+
+import { runLookahead, LookaheadRequest, LookaheadResult } from './lookahead';
+import { logWarn } from '@/utils/logger';
+
+type PendingRequest = { resolve: (result: LookaheadResult) => void; reject: (error: Error) => void };
+
+// How long past its own budget a search may run before the request is abandoned.
+const WORKER_GRACE_MS = 2_000;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+const rejectAll = (message: string) => {
+    pending.forEach(request => request.reject(new Error(message)));
+    pending.clear();
+};
+
+function getWorker(): Worker | null {
+    if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+    if (worker) return worker;
+
+    worker = new Worker(new URL('./lookahead.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<{ id: number; result?: LookaheadResult; error?: string }>) => {
+        const request = pending.get(event.data.id);
+        if (!request) return; // Already timed out
+        pending.delete(event.data.id);
+        if (event.data.result) request.resolve(event.data.result);
+        else request.reject(new Error(event.data.error ?? 'Lookahead failed'));
+    };
+    worker.onerror = event => {
+        logWarn(`[Lookahead] Worker crashed: ${event.message}`, 'AI');
+        rejectAll('Lookahead worker crashed');
+        worker?.terminate();
+        worker = null;
+    };
+    return worker;
+}
+
+/** Runs a lookahead search in the background worker and resolves with its result. */
+export function requestLookahead(request: LookaheadRequest): Promise<LookaheadResult> {
+    const activeWorker = getWorker();
+    if (!activeWorker) return Promise.resolve(runLookahead(request));
+
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        const timeout = setTimeout(() => {
+            if (pending.delete(id)) reject(new Error(`Lookahead did not answer within ${request.budgetMs + WORKER_GRACE_MS}ms`));
+        }, request.budgetMs + WORKER_GRACE_MS);
+        pending.set(id, {
+            resolve: result => { clearTimeout(timeout); resolve(result); },
+            reject: error => { clearTimeout(timeout); reject(error); },
+        });
+        activeWorker.postMessage({ id, request });
+    });
+}
@@ -0,0 +1,111 @@
+// src/ai/opponentModel.ts
+// Running belief about the score the human opponent is steering toward and the card categories they reach for.
+
+import { CardData, GameEvent } from '@/data/types';
+import { STANDARD_RULES } from '@/data/rules';
+
+export type OpponentEvent = Extract<GameEvent, { type: 'PROPOSAL_MADE' | 'COUNTER_MADE' | 'PROPOSAL_ACCEPTED' }>;
+
+export interface OpponentModel {
+    observations: number;
+    /** Weighted mean/standard deviation of the scores the opponent's moves would leave. */
+    targetScore: { mean: number; spread: number };
+    /** Evidence behind targetScore (prior included) and the weighted sum of squared deviations. */
+    weight: number;
+    sumSquares: number;
+    /** Evidence weight per card category the opponent proposed, countered with or accepted. */
+    categoryWeights: Record<string, number>;
+    /** Narrowest the inferred range may get, scaled to the game's balance threshold. */
+    minSpread: number;
+}
+
+// Before any evidence the opponent is assumed to aim for balance, loosely (in multiples of the balance threshold).
+const PRIOR_WEIGHT = 2;
+const PRIOR_SPREAD_THRESHOLDS = 3;
+const MIN_SPREAD_THRESHOLDS = 0.5;
+
+// A counter is a deliberate rejection of our card, so it says the most; accepting may just be making do.
+const EVENT_WEIGHTS: Record<OpponentEvent['type'], number> = {
+    PROPOSAL_MADE: 1,
+    COUNTER_MADE: 1.5,
+    PROPOSAL_ACCEPTED: 0.5,
+};
+
+// How much of an acceptance estimate comes from category taste rather than the score target.
+const CATEGORY_INFLUENCE = 0.25;
+
+export const createOpponentModel = (balanceThreshold: number = STANDARD_RULES.balanceThreshold): OpponentModel => {
+    const spread = Math.max(1, balanceThreshold * PRIOR_SPREAD_THRESHOLDS);
+    return {
+        observations: 0,
+        targetScore: { mean: 0, spread },
+        weight: PRIOR_WEIGHT,
+        sumSquares: PRIOR_WEIGHT * spread * spread,
+        categoryWeights: {},
+        minSpread: Math.max(1, balanceThreshold * MIN_SPREAD_THRESHOLDS),
+    };
+};
+
+/**
+ * Folds one opponent move into the model. `scoreBefore` is the running score when the move
+ * was made, so the card's impact on top of it is the score the opponent was willing to see.
+ */
+export function updateOpponentModel(model: OpponentModel, event: OpponentEvent, card: CardData, scoreBefore: number): OpponentModel {
+    const w = EVENT_WEIGHTS[event.type];
+    const target = scoreBefore + (card.netScoreImpact ?? 0);
+
+    // Weighted Welford update of mean and variance.
+    const weight = model.weight + w;
+    const delta = target - model.targetScore.mean;
+    const mean = model.targetScore.mean + (w / weight) * delta;
+    const sumSquares = model.sumSquares + w * delta * (target - mean);
+
+    const categoryWeights = { ...model.categoryWeights };
+    if (card.category) categoryWeights[card.category] = (categoryWeights[card.category] ?? 0) + w;
+
+    return {
+        observations: model.observations + 1,
+        targetScore: { mean, spread: Math.max(model.minSpread, Math.sqrt(sumSquares / weight)) },
+        weight,
+        sumSquares,
+        categoryWeights,
+        minSpread: model.minSpread,
+    };
+}
+
+/** Categories ordered by how strongly the opponent favours them, with their share of the evidence. */
+export function favouredCategories(model: OpponentModel): { category: string; share: number }[] {
+    const total = Object.values(model.categoryWeights).reduce((sum, w) => sum + w, 0);
+    if (total === 0) return [];
+    return Object.entries(model.categoryWeights)
+        .map(([category, w]) => ({ category, share: w / total }))
+        .sort((a, b) => b.share - a.share);
+}
+
+/**
+ * Estimated probability (0..1) that the opponent accepts `card` when the score stands at
+ * `currentScore`: how close the resulting score is to their target, nudged by category taste.
+ */
+export function acceptanceProbability(model: OpponentModel, card: CardData, currentScore: number): number {
+    const { mean, spread } = model.targetScore;
+    const z = (currentScore + (card.netScoreImpact ?? 0) - mean) / spread;
+    const scoreFit = Math.exp(-0.5 * z * z);
+
+    const favoured = favouredCategories(model);
+    if (favoured.length === 0) return scoreFit;
+    const categoryFit = (favoured.find(f => f.category === card.category)?.share ?? 0) / favoured[0].share;
+    return (1 - CATEGORY_INFLUENCE) * scoreFit + CATEGORY_INFLUENCE * categoryFit;
+}
+
+/** One-line summary of the current belief, for debugging displays. */
+export function describeOpponentModel(model: OpponentModel): string {
+    if (model.observations === 0) return 'No moves observed yet.';
+    const { mean, spread } = model.targetScore;
+    const low = Math.round(mean - spread);
+    const high = Math.round(mean + spread);
+    const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+    const categories = favouredCategories(model).slice(0, 2).map(f => `${f.category} ${Math.round(f.share * 100)}%`);
+    return `Aims for ${signed(low)}…${signed(high)}`
+        + (categories.length ? `, favours ${categories.join(', ')}` : '')
+        + ` (${model.observations} move${model.observations === 1 ? '' : 's'})`;
+}
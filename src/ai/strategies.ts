@@ -0,0 +1,343 @@
+// src/ai/strategies.ts
+// Registry of AI negotiation strategies and the difficulty presets that pick between them.
+
+import { CardData, CardDefinition, CardInstance, FloorState, GameState, Player, PlayerRole, RuleSet } from '@/data/types';
+import { AI_SEARCH_BUDGET_MS } from '@/data/constants';
+import { GameAction } from '@/engine/GameEngine';
+import { LookaheadRequest, LookaheadResult, runLookahead } from './lookahead';
+import { requestLookahead } from './lookaheadClient';
+import { OpponentModel, acceptanceProbability } from './opponentModel';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { getActiveDeck } from '@/data/deckData';
+import { RandomSource, randomInt } from '@/utils/random';
+import { deepCopy } from '@/utils/deepCopy';
+import { logDebug } from '@/utils/logger';
+
+const logStrategy = (message: string) => logDebug(message, 'AI');
+
+export interface GameStateSnapshot {
+    building: { currentNetScore: number };
+    currentPlayer: Readonly<Player> | null;
+    currentFloor: number;
+    floorState: FloorState | null;
+    difficultyLevel: string;
+    noise: number;      // 0..1 from the difficulty preset; how much evaluations are jittered
+    deckSize: number;   // Number of unique card definitions
+    floorsRemaining: number;
+    rules: RuleSet;     // Rule set of the game being played
+    rng: RandomSource;  // Seeded game RNG; strategies must use this instead of Math.random
+    /** What the AI has inferred about its opponent; absent or empty means play without it. */
+    opponentModel?: OpponentModel;
+    /** Forward-model inputs for search strategies; absent when the caller cannot provide them. */
+    search?: {
+        state: GameState;
+        drawPool: CardDefinition[];
+        scoreOffset: number;    // Live score minus the engine's agreed-floor score
+        budgetMs: number;
+    };
+}
+
+export interface AIStrategy {
+    name: string;
+    label: string;
+    /** One-line summary of what the strategy is trying to achieve, shown to the player. */
+    description: string;
+    evaluateProposal: (card: CardData, gameState: GameStateSnapshot) => number;
+    selectInitialProposal: (hand: CardInstance[], gameState: GameStateSnapshot) => CardData[] | null;
+    shouldAcceptProposal: (opponentProposal: CardData[], gameState: GameStateSnapshot) => boolean;
+    selectCounterProposal: (hand: CardInstance[], opponentProposal: CardData[], gameState: GameStateSnapshot) => CardData[] | null;
+    shouldAcceptCounter: (aiOriginalProposal: CardData[], opponentCounter: CardData[], gameState: GameStateSnapshot) => boolean;
+    /** Short explanation of why `card` is attractive (or not) right now. */
+    explain: (card: CardData, gameState: GameStateSnapshot) => string;
+    /**
+     * Search strategies think here, off the main thread, before any decision method is called
+     * with the same snapshot; the decision methods then answer from the cached plan.
+     */
+    prepare?: (gameState: GameStateSnapshot) => Promise<void>;
+}
+
+// Score points of jitter added to an evaluation at noise = 1.
+const NOISE_SCALE = 40;
+
+/** +1 if the player's role wins on a positive score (Community), -1 otherwise. */
+const roleDirection = (gameState: GameStateSnapshot): number =>
+    gameState.currentPlayer?.role === PlayerRole.Developer ? -1 : 1;
+
+const scoreAfter = (card: CardData, gameState: GameStateSnapshot) =>
+    gameState.building.currentNetScore + (card.netScoreImpact ?? 0);
+
+const formatScore = (score: number) => (score > 0 ? `+${score}` : `${score}`);
+
+const playableStacks = (hand: CardInstance[], gameState: GameStateSnapshot) =>
+    hand.filter(stack => useFloorStore.getState().canPlayOnFloor(stack, gameState.currentFloor) && (stack.stack ?? 0) > 0);
+
+const jitter = (gameState: GameStateSnapshot) =>
+    gameState.noise > 0 ? (gameState.rng() * 2 - 1) * gameState.noise * NOISE_SCALE : 0;
+
+/** Playable hand stacks ordered best-first by `strategy`, with difficulty noise applied once per card. */
+const rankPlayable = (strategy: AIStrategy, hand: CardInstance[], gameState: GameStateSnapshot) =>
+    playableStacks(hand, gameState)
+        .map(stack => ({ stack, value: strategy.evaluateProposal(stack, gameState) + jitter(gameState) }))
+        .sort((a, b) => b.value - a.value);
+
+/** The opponent model when it has seen at least one move, otherwise undefined. */
+const informedModel = (gameState: GameStateSnapshot) =>
+    gameState.opponentModel && gameState.opponentModel.observations > 0 ? gameState.opponentModel : undefined;
+
+/**
+ * Expected value of countering `opponentCard` with `card`. If the opponent turns the counter
+ * down they pass, and mediation keeps whichever card leaves the score closer to zero.
+ */
+const counterExpectation = (
+    evaluate: (card: CardData, gameState: GameStateSnapshot) => number,
+    card: CardData,
+    opponentCard: CardData,
+    gameState: GameStateSnapshot,
+): number => {
+    const value = evaluate(card, gameState);
+    const model = informedModel(gameState);
+    if (!model) return value;
+    const p = acceptanceProbability(model, card, gameState.building.currentNetScore);
+    const mediated = Math.abs(scoreAfter(card, gameState)) <= Math.abs(scoreAfter(opponentCard, gameState)) ? card : opponentCard;
+    return p * value + (1 - p) * evaluate(mediated, gameState);
+};
+
+/**
+ * Builds a strategy whose proposals, counters and acceptances all follow from one
+ * evaluation function. `acceptMargin` is how much worse than "ideal" (value 0) an
+ * opponent's card may be before it is rejected; `counterMargin` is how much better a
+ * counter must be than the card on the table to be worth playing.
+ */
+const createEvaluatingStrategy = (config: {
+    name: string;
+    label: string;
+    description: string;
+    evaluate: (card: CardData, gameState: GameStateSnapshot) => number;
+    acceptMargin: (gameState: GameStateSnapshot) => number;
+    counterMargin: number;
+    explain: (card: CardData, gameState: GameStateSnapshot) => string;
+}): AIStrategy => {
+    const strategy: AIStrategy = {
+        name: config.name,
+        label: config.label,
+        description: config.description,
+        evaluateProposal: config.evaluate,
+        explain: config.explain,
+        selectInitialProposal: (hand, gameState) => {
+            const best = rankPlayable(strategy, hand, gameState)[0];
+            if (!best) return null;
+            logStrategy(`${config.name} proposes [${best.stack.name}] (value ${best.value.toFixed(1)}).`);
+            return [deepCopy(best.stack)];
+        },
+        shouldAcceptProposal: (opponentProposal, gameState) => {
+            const card = opponentProposal?.[0];
+            if (!card) return false;
+            const value = config.evaluate(card, gameState) + jitter(gameState);
+            let decision = value >= -config.acceptMargin(gameState);
+            if (!decision && informedModel(gameState) && gameState.currentPlayer) {
+                // No point holding out if the opponent is unlikely to take any counter we could make.
+                const bestCounter = Math.max(...playableStacks(gameState.currentPlayer.hand, gameState)
+                    .map(stack => counterExpectation(config.evaluate, stack, card, gameState)));
+                decision = value >= bestCounter;
+            }
+            logStrategy(`${config.name} ${decision ? 'accepts' : 'rejects'} [${card.name}] (value ${value.toFixed(1)}).`);
+            return decision;
+        },
+        selectCounterProposal: (hand, opponentProposal, gameState) => {
+            const card = opponentProposal?.[0];
+            if (!card) return null;
+            const opponentValue = config.evaluate(card, gameState);
+            const best = rankPlayable(strategy, hand, gameState)
+                .map(c => ({ ...c, value: c.value - config.evaluate(c.stack, gameState) + counterExpectation(config.evaluate, c.stack, card, gameState) }))
+                .sort((a, b) => b.value - a.value)
+                .find(c => c.value > opponentValue + config.counterMargin);
+            if (!best) return null;
+            logStrategy(`${config.name} counters [${card.name}] with [${best.stack.name}].`);
+            return [deepCopy(best.stack)];
+        },
+        shouldAcceptCounter: (aiOriginalProposal, opponentCounter, gameState) => {
+            const original = aiOriginalProposal?.[0];
+            const counter = opponentCounter?.[0];
+            if (!original || !counter) return false;
+            // Passing sends both cards to mediation, so take the counter if it is no worse than that gamble.
+            return config.evaluate(counter, gameState) + jitter(gameState) >= config.evaluate(original, gameState) - config.counterMargin;
+        },
+    };
+    return strategy;
+};
+
+/** Steers the running score toward zero; the original AI behaviour. */
+export const balancedStrategy: AIStrategy = createEvaluatingStrategy({
+    name: 'balanced',
+    label: 'Balanced',
+    description: 'Keeps the running score as close to zero as it can, floor by floor.',
+    evaluate: (card, gameState) => -Math.abs(scoreAfter(card, gameState)),
+    acceptMargin: gameState => gameState.rules.balanceThreshold * 0.75,
+    counterMargin: 1,
+    explain: (card, gameState) => `${card.name} leaves the score at ${formatScore(scoreAfter(card, gameState))}, near balance.`,
+});
+
+/** Pulls the score as far toward its own role's win condition as the opponent will allow. */
+export const aggressiveStrategy: AIStrategy = createEvaluatingStrategy({
+    name: 'aggressive',
+    label: 'Aggressive',
+    description: "Pushes the score toward its own side and only concedes floors that cost it little.",
+    evaluate: (card, gameState) => (card.netScoreImpact ?? 0) * roleDirection(gameState),
+    // Tolerates small concessions early, none once the building is nearly finished.
+    acceptMargin: gameState => Math.min(gameState.floorsRemaining, 10),
+    counterMargin: 5,
+    explain: (card, gameState) => {
+        const gain = (card.netScoreImpact ?? 0) * roleDirection(gameState);
+        return gain >= 0
+            ? `${card.name} moves the score ${Math.abs(card.netScoreImpact ?? 0)} points toward my side.`
+            : `${card.name} gives up ${Math.abs(gain)} points to the other side.`;
+    },
+});
+
+/**
+ * Aims for the balanced band rather than exactly zero: anything that keeps the score
+ * inside ±balanceThreshold is fine, and it only pushes back on cards that leave it.
+ */
+export const cooperativeStrategy: AIStrategy = createEvaluatingStrategy({
+    name: 'cooperative',
+    label: 'Cooperative',
+    description: 'Happy with any floor that keeps the project inside the balanced band.',
+    evaluate: (card, gameState) => -Math.max(0, Math.abs(scoreAfter(card, gameState)) - gameState.rules.balanceThreshold),
+    acceptMargin: gameState => gameState.rules.balanceThreshold,
+    counterMargin: 0,
+    explain: (card, gameState) => {
+        const after = scoreAfter(card, gameState);
+        const { balanceThreshold } = gameState.rules;
+        return Math.abs(after) <= balanceThreshold
+            ? `${card.name} keeps the score (${formatScore(after)}) inside ±${balanceThreshold}.`
+            : `${card.name} would take the score to ${formatScore(after)}, outside the balanced band.`;
+    },
+});
+
+/** Baseline for comparisons: plays any legal card and accepts or counters on a coin flip. */
+export const randomStrategy: AIStrategy = {
+    name: 'random',
+    label: 'Random',
+    description: 'Plays a random legal card and decides offers on a coin flip.',
+    evaluateProposal: (_card, gameState) => gameState.rng(),
+    selectInitialProposal: (hand, gameState) => {
+        const playable = playableStacks(hand, gameState);
+        return playable.length ? [deepCopy(playable[randomInt(gameState.rng, playable.length)])] : null;
+    },
+    shouldAcceptProposal: (opponentProposal, gameState) => !!opponentProposal?.length && gameState.rng() < 0.5,
+    selectCounterProposal: (hand, _opponentProposal, gameState) => {
+        const playable = playableStacks(hand, gameState);
+        if (!playable.length || gameState.rng() < 0.5) return null;
+        return [deepCopy(playable[randomInt(gameState.rng, playable.length)])];
+    },
+    shouldAcceptCounter: (_original, opponentCounter, gameState) => !!opponentCounter?.length && gameState.rng() < 0.5,
+    explain: card => `${card.name} was picked at random.`,
+};
+
+// Plans keyed by the snapshot they were computed for, so one turn's decision methods share a search.
+const lookaheadPlans = new WeakMap<GameStateSnapshot, LookaheadResult>();
+
+const lookaheadRequestFor = (gameState: GameStateSnapshot): LookaheadRequest | null => {
+    if (!gameState.search || !gameState.currentPlayer) return null;
+    return {
+        state: gameState.search.state,
+        playerId: gameState.currentPlayer.id,
+        drawPool: gameState.search.drawPool,
+        scoreOffset: gameState.search.scoreOffset,
+        budgetMs: gameState.search.budgetMs,
+        seed: Math.floor(gameState.rng() * 0xffffffff),
+        deck: getActiveDeck(),
+    };
+};
+
+/** The cached plan for this snapshot, searching synchronously if nobody called prepare() (e.g. the simulator). */
+const lookaheadPlanFor = (gameState: GameStateSnapshot): LookaheadResult | null => {
+    const cached = lookaheadPlans.get(gameState);
+    if (cached) return cached;
+    const request = lookaheadRequestFor(gameState);
+    if (!request) return null;
+    const plan = runLookahead(request);
+    lookaheadPlans.set(gameState, plan);
+    return plan;
+};
+
+/** The hand stack holding the card the plan wants to play, if the plan is a move of `type`. */
+const plannedCard = (hand: CardInstance[], plan: LookaheadResult, type: GameAction['type'], gameState: GameStateSnapshot): CardData[] | null => {
+    const action = plan.action;
+    if (!action || action.type !== type || !('instanceId' in action)) return null;
+    const cardId = gameState.search?.state.players?.flatMap(p => p.hand).find(c => c.instanceId === action.instanceId)?.id;
+    const stack = hand.find(s => s.id === cardId);
+    return stack ? [deepCopy(stack)] : null;
+};
+
+/**
+ * Monte Carlo search over the rest of the game using GameEngine as the forward model.
+ * Falls back to the balanced strategy when no forward-model inputs are available.
+ */
+export const lookaheadStrategy: AIStrategy = {
+    name: 'lookahead',
+    label: 'Lookahead',
+    description: 'Plays each option out to the end of the game many times and takes the one that wins most often.',
+    evaluateProposal: balancedStrategy.evaluateProposal,
+    prepare: async gameState => {
+        const request = lookaheadRequestFor(gameState);
+        if (!request || lookaheadPlans.has(gameState)) return;
+        const plan = await requestLookahead(request);
+        logStrategy(`lookahead: ${plan.rollouts} playouts in ${Math.round(plan.elapsedMs)}ms. ${plan.rationale}`);
+        lookaheadPlans.set(gameState, plan);
+    },
+    selectInitialProposal: (hand, gameState) => {
+        const plan = lookaheadPlanFor(gameState);
+        return plan ? plannedCard(hand, plan, 'PROPOSE_CARD', gameState) : balancedStrategy.selectInitialProposal(hand, gameState);
+    },
+    shouldAcceptProposal: (opponentProposal, gameState) => {
+        const plan = lookaheadPlanFor(gameState);
+        return plan ? plan.action?.type === 'ACCEPT_PROPOSAL' : balancedStrategy.shouldAcceptProposal(opponentProposal, gameState);
+    },
+    selectCounterProposal: (hand, opponentProposal, gameState) => {
+        const plan = lookaheadPlanFor(gameState);
+        return plan ? plannedCard(hand, plan, 'COUNTER_PROPOSE', gameState) : balancedStrategy.selectCounterProposal(hand, opponentProposal, gameState);
+    },
+    shouldAcceptCounter: (aiOriginalProposal, opponentCounter, gameState) => {
+        const plan = lookaheadPlanFor(gameState);
+        return plan ? plan.action?.type === 'ACCEPT_PROPOSAL' : balancedStrategy.shouldAcceptCounter(aiOriginalProposal, opponentCounter, gameState);
+    },
+    explain: (card, gameState) => lookaheadPlans.get(gameState)?.rationale ?? balancedStrategy.explain(card, gameState),
+};
+
+/**
+ * The market stack `strategy` would draft before the game: the card its own evaluation rates highest
+ * from the opening score, with the difficulty noise applied once per stack. Bigger stacks win ties.
+ */
+export const selectDraftPick = (strategy: AIStrategy, market: readonly CardDefinition[], gameState: GameStateSnapshot): CardDefinition | null => {
+    const best = market
+        .map(definition => ({ definition, value: strategy.evaluateProposal({ ...definition, instanceId: definition.id }, gameState) + jitter(gameState) }))
+        .sort((a, b) => b.value - a.value || (b.definition.quantity ?? 1) - (a.definition.quantity ?? 1))[0];
+    if (!best) return null;
+    logStrategy(`${strategy.name} drafts [${best.definition.name}] (value ${best.value.toFixed(1)}).`);
+    return best.definition;
+};
+
+export const AI_STRATEGIES: Readonly<Record<string, AIStrategy>> = {
+    balanced: balancedStrategy,
+    aggressive: aggressiveStrategy,
+    cooperative: cooperativeStrategy,
+    random: randomStrategy,
+    lookahead: lookaheadStrategy,
+};
+
+export const getStrategy = (name: string): AIStrategy | undefined => AI_STRATEGIES[name.toLowerCase()];
+
+export interface DifficultyPreset {
+    label: string;
+    strategyName: string;
+    noise: number;
+    searchBudgetMs?: number;    // Thinking time for search strategies (default AI_SEARCH_BUDGET_MS)
+}
+
+export const DIFFICULTY_PRESETS: Readonly<Record<string, DifficultyPreset>> = {
+    easy: { label: 'Easy', strategyName: 'cooperative', noise: 0.5 },
+    normal: { label: 'Normal', strategyName: 'balanced', noise: 0.15 },
+    hard: { label: 'Hard', strategyName: 'aggressive', noise: 0 },
+    expert: { label: 'Expert', strategyName: 'lookahead', noise: 0, searchBudgetMs: AI_SEARCH_BUDGET_MS * 2 },
+};
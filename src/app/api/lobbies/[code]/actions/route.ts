@@ -0,0 +1,17 @@
+// src/app/api/lobbies/[code]/actions/route.ts
+// Applies one GameAction for the seat whose token comes with it. The resulting events reach both
+// players over their event streams; the response only says whether the action was accepted.
+
+import { NextResponse } from 'next/server';
+import { submitAction } from '@/lib/server/lobbies';
+import { ActionRequest } from '@/multiplayer/protocol';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request, { params }: { params: Promise<{ code: string }> }) {
+    const { code } = await params;
+    const body = await request.json().catch(() => null) as ActionRequest | null;
+    if (!body?.token || !body.action) return NextResponse.json({ isValid: false, reason: 'Send { token, action }.' }, { status: 400 });
+    const result = submitAction(code, body.token, body.action);
+    return NextResponse.json(result, { status: result.isValid ? 200 : 409 });
+}
@@ -0,0 +1,47 @@
+// src/app/api/lobbies/[code]/events/route.ts
+// Server-sent event stream of one seat's view of a lobby. EventSource can't send headers, so the
+// seat's token comes as ?token=. The stream opens with a snapshot, which is also how a client reconnects.
+
+import { NextResponse } from 'next/server';
+import { subscribe } from '@/lib/server/lobbies';
+import { ServerMessage } from '@/multiplayer/protocol';
+
+export const dynamic = 'force-dynamic';
+
+/** A comment line every so often keeps proxies from closing a quiet stream. */
+const KEEP_ALIVE_MS = 25_000;
+
+export async function GET(request: Request, { params }: { params: Promise<{ code: string }> }) {
+    const { code } = await params;
+    const token = new URL(request.url).searchParams.get('token') ?? '';
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            const send = (message: ServerMessage) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+            const subscription = subscribe(code, token, send);
+            if (!subscription.isValid || !subscription.unsubscribe) {
+                controller.enqueue(encoder.encode(`event: rejected\ndata: ${JSON.stringify({ reason: subscription.reason })}\n\n`));
+                controller.close();
+                return;
+            }
+            const keepAlive = setInterval(() => controller.enqueue(encoder.encode(': keep-alive\n\n')), KEEP_ALIVE_MS);
+            close = () => {
+                clearInterval(keepAlive);
+                subscription.unsubscribe!();
+            };
+            request.signal.addEventListener('abort', () => {
+                close();
+                try { controller.close(); } catch { /* already closed */ }
+            });
+        },
+        cancel() {
+            close();
+        },
+    });
+
+    return new NextResponse(stream, {
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache, no-transform', Connection: 'keep-alive' },
+    });
+}
@@ -0,0 +1,13 @@
+// src/app/api/lobbies/[code]/route.ts
+// Takes the second seat of a lobby, which starts its game.
+
+import { NextResponse } from 'next/server';
+import { joinLobby } from '@/lib/server/lobbies';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(_request: Request, { params }: { params: Promise<{ code: string }> }) {
+    const { code } = await params;
+    const result = joinLobby(code);
+    return NextResponse.json(result, { status: result.isValid ? 200 : 409 });
+}
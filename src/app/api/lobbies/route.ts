@@ -0,0 +1,15 @@
+// src/app/api/lobbies/route.ts
+// Opens a head-to-head lobby; see src/multiplayer/protocol.ts for the whole relay API.
+
+import { NextResponse } from 'next/server';
+import { createLobby } from '@/lib/server/lobbies';
+import { LobbySettings } from '@/multiplayer/protocol';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+    const settings = await request.json().catch(() => null) as LobbySettings | null;
+    if (!settings) return NextResponse.json({ isValid: false, reason: 'Lobby settings must be JSON.' }, { status: 400 });
+    const result = createLobby(settings);
+    return NextResponse.json(result, { status: result.isValid ? 201 : 400 });
+}
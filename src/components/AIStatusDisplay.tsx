@@ -8,6 +8,7 @@ import { CardData } from '@/data/types';
 import { Brain, Check, X, Send, ArrowLeftRight, AlertCircle, ShuffleIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { logWarn } from '@/utils/logger'; // Added import
+import { describeOpponentModel } from '@/ai/opponentModel';
 
 const getPendingActionIcon = (actionType: PendingAIAction['type'] | undefined) => {
     switch (actionType) {
@@ -51,13 +52,19 @@ const getPendingActionText = (action: PendingAIAction | null): string => {
 const AIStatusDisplay: React.FC = () => {
     const isAIThinking = useAIStore(state => state.isAIThinking);
     const pendingAIAction = useAIStore(state => state.pendingAIAction);
-    const strategyName = useAIStore(state => state.strategy.name);
+    const strategyLabel = useAIStore(state => state.strategy.label);
+    const strategyDescription = useAIStore(state => state.strategy.description);
+    const difficultyLevel = useAIStore(state => state.difficultyLevel);
+    const opponentModel = useAIStore(state => state.opponentModel);
+    const opponentBelief = <p className="text-[10px] text-slate-500">Read on you: {describeOpponentModel(opponentModel)}</p>;
 
     let icon: React.ReactNode = <Brain className="h-5 w-5 text-purple-400" />;
     let textContent: React.ReactNode = (
         <div>
             <p className="text-slate-200 text-sm font-medium">AI is thinking...</p>
-            <p className="text-xs text-slate-400">Strategy: {strategyName}</p>
+            <p className="text-xs text-slate-400">Strategy: {strategyLabel} ({difficultyLevel})</p>
+            <p className="text-xs text-slate-500 italic">{strategyDescription}</p>
+            {opponentBelief}
         </div>
     );
     let showDisplay = isAIThinking;
@@ -72,6 +79,8 @@ const AIStatusDisplay: React.FC = () => {
                 {pendingAIAction.reason && (
                     <p className="text-xs text-slate-400 italic">[{pendingAIAction.reason}]</p>
                 )}
+                <p className="text-[10px] text-slate-500">{strategyLabel} strategy · {difficultyLevel}</p>
+                {opponentBelief}
             </div>
         );
         showDisplay = true; 
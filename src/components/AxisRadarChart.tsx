@@ -0,0 +1,71 @@
+// src/components/AxisRadarChart.tsx
+// Radar chart of the final per-axis totals, drawn as plain SVG. Zero sits on the middle ring, so an axis
+// leaning toward the community falls outside it and one leaning toward the developer inside; the dashed
+// rings mark the axis band when the rules have one.
+"use client";
+import React from 'react';
+import { ImpactAxis } from '@/data/types';
+import { AXIS_LABELS, AxisTotals, IMPACT_AXES } from '@/engine/axes';
+
+/** Colour of each axis wherever the UI tells axes apart (tower floors, score chips, this chart). */
+export const AXIS_COLORS: Readonly<Record<ImpactAxis, { rgb: string; text: string }>> = {
+  affordability: { rgb: '56, 189, 248', text: 'text-sky-400' },
+  sustainability: { rgb: '74, 222, 128', text: 'text-green-400' },
+  profit: { rgb: '251, 191, 36', text: 'text-amber-400' },
+  culture: { rgb: '232, 121, 249', text: 'text-fuchsia-400' },
+};
+
+export interface AxisRadarChartProps {
+  totals: AxisTotals;
+  band?: number;                 // rules.axisBalanceThreshold
+  size?: number;
+}
+
+const AxisRadarChart: React.FC<AxisRadarChartProps> = ({ totals, band, size = 220 }) => {
+  const width = size + 140;      // Room for the labels either side
+  const center = { x: width / 2, y: size / 2 };
+  const radius = size / 2 - 30;
+  // The outer ring is a little past the largest total (or the band), so nothing is drawn off the chart.
+  const extent = Math.max(1, band ?? 0, ...IMPACT_AXES.map(axis => Math.abs(totals[axis]))) * 1.15;
+  const angleOf = (index: number) => -Math.PI / 2 + (index * 2 * Math.PI) / IMPACT_AXES.length;
+  const pointAt = (index: number, value: number) => {
+    const r = radius * (0.5 + Math.max(-0.5, Math.min(0.5, value / (2 * extent))));
+    return { x: center.x + r * Math.cos(angleOf(index)), y: center.y + r * Math.sin(angleOf(index)) };
+  };
+  const ring = (value: number) => IMPACT_AXES.map((_, index) => pointAt(index, value)).map(p => `${p.x},${p.y}`).join(' ');
+  const shape = IMPACT_AXES.map((axis, index) => pointAt(index, totals[axis])).map(p => `${p.x},${p.y}`).join(' ');
+
+  return (
+    <svg width={width} height={size} viewBox={`0 0 ${width} ${size}`} role="img" aria-label="Per-axis totals">
+      <polygon points={ring(extent)} fill="none" stroke="rgb(71, 85, 105)" />
+      <polygon points={ring(0)} fill="none" stroke="rgb(148, 163, 184)" />
+      {band !== undefined && (
+        <>
+          <polygon points={ring(band)} fill="none" stroke="rgb(52, 211, 153)" strokeDasharray="4 3" />
+          <polygon points={ring(-band)} fill="none" stroke="rgb(52, 211, 153)" strokeDasharray="4 3" />
+        </>
+      )}
+      {IMPACT_AXES.map((axis, index) => {
+        const end = pointAt(index, extent);
+        return <line key={axis} x1={center.x} y1={center.y} x2={end.x} y2={end.y} stroke="rgb(71, 85, 105)" />;
+      })}
+      <polygon points={shape} fill="rgba(56, 189, 248, 0.25)" stroke="rgb(56, 189, 248)" strokeWidth={2} />
+      {IMPACT_AXES.map((axis, index) => {
+        const point = pointAt(index, totals[axis]);
+        const cos = Math.cos(angleOf(index));
+        const label = { x: center.x + (radius + 10) * cos, y: center.y + (radius + 16) * Math.sin(angleOf(index)) };
+        const anchor = cos > 0.1 ? 'start' : cos < -0.1 ? 'end' : 'middle';
+        return (
+          <g key={axis}>
+            <circle cx={point.x} cy={point.y} r={3.5} fill={`rgb(${AXIS_COLORS[axis].rgb})`} />
+            <text x={label.x} y={label.y} textAnchor={anchor} dominantBaseline="middle" fontSize={11} fill={`rgb(${AXIS_COLORS[axis].rgb})`}>
+              {AXIS_LABELS[axis]} {totals[axis] > 0 ? '+' : ''}{totals[axis]}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default AxisRadarChart;
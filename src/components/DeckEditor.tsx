@@ -0,0 +1,312 @@
+// src/components/DeckEditor.tsx
+// Deck editor opened from the title screen: build custom decks card by card, save them in the browser,
+// and import or export them as JSON files.
+
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, FilePlus, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+import { CardData, CardDefinition, DeckFile } from '@/data/types';
+import { playableCardDefinitions } from '@/data/deckData';
+import {
+    BUILT_IN_DECK_NAME, CARD_FIELD_LIMITS, DeckIssue, cardIdFromName, createDeckFile, findMissingImages, formatDeckIssue,
+    serializeDeck, validateCardDefinition, validateDeckData, validateDeckJson,
+} from '@/data/decks';
+import { deleteDeck, loadSavedDecks, saveDeck } from '@/persistence/deckLibrary';
+import { findMissingImagePaths } from '@/lib/server/deckImages';
+import { deepCopy } from '@/utils/deepCopy';
+import { jsonValueLines } from '@/utils/jsonLines';
+import { logWarn } from '@/utils/logger';
+import CardComponent from '@/components/ui/Card';
+import { Button } from '@/components/ui/button';
+
+export interface DeckEditorProps {
+    onClose: () => void;
+}
+
+/** The deck being edited; `savedName` is the name it is stored under, null until first saved. */
+interface EditingDeck {
+    savedName: string | null;
+    name: string;
+    cards: CardDefinition[];
+}
+
+type NumericField = keyof typeof CARD_FIELD_LIMITS;
+
+/** Card fields as the form holds them: text, converted and validated on apply. */
+interface CardForm {
+    name: string;
+    category: string;
+    image: string;
+    requiresFloor: string;  // Comma-separated, e.g. "1-3, max:2" or "roof"
+    numbers: Record<NumericField, string>;
+}
+
+const NUMERIC_FIELDS = Object.keys(CARD_FIELD_LIMITS) as NumericField[];
+
+const BLANK_FORM: CardForm = {
+    name: '', category: '', image: '', requiresFloor: '',
+    numbers: { netScoreImpact: '0', cost: '', cashFlow: '', minimumSqft: '', quantity: '1' },
+};
+
+const formFromCard = (card: CardDefinition): CardForm => ({
+    name: card.name,
+    category: card.category ?? '',
+    image: card.image ?? '',
+    requiresFloor: (card.requiresFloor ?? []).join(', '),
+    numbers: Object.fromEntries(NUMERIC_FIELDS.map(key => [key, card[key] === undefined ? '' : String(card[key])])) as Record<NumericField, string>,
+});
+
+/** The card the form describes. Fields the editor doesn't show (display info, units) carry over from `base`. */
+function cardFromForm(form: CardForm, base: CardDefinition | undefined): CardDefinition {
+    const card: CardDefinition = { ...base, id: base?.id ?? cardIdFromName(form.name), name: form.name.trim(), category: form.category.trim() };
+    for (const key of NUMERIC_FIELDS) {
+        const text = form.numbers[key].trim();
+        if (text === '' && key !== 'netScoreImpact') delete card[key];
+        else card[key] = text === '' ? NaN : Number(text);
+    }
+    const floors = form.requiresFloor.split(',').map(entry => entry.trim()).filter(Boolean);
+    if (floors.length > 0) card.requiresFloor = floors.map(entry => (/^\d+$/.test(entry) ? Number(entry) : entry));
+    else delete card.requiresFloor;
+    if (form.image.trim()) card.image = form.image.trim();
+    else delete card.image;
+    return card;
+}
+
+function downloadDeck(deck: DeckFile) {
+    const url = URL.createObjectURL(new Blob([serializeDeck(deck)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${cardIdFromName(deck.name) || 'deck'}.deck.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/** Warnings for images missing from /public; the lookup runs on the server, and is skipped if it can't be reached. */
+async function imageWarnings(deck: DeckFile, lines?: ReadonlyMap<string, number>): Promise<DeckIssue[]> {
+    try {
+        const missing = await findMissingImagePaths(deck.cards.flatMap(card => (card.image ? [card.image] : [])));
+        return await findMissingImages(deck, async path => !missing.includes(path), lines);
+    } catch (error) {
+        logWarn(`Could not check deck images: ${error instanceof Error ? error.message : String(error)}`, 'DeckEditor');
+        return [];
+    }
+}
+
+const inputClass = "w-full rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-sm text-slate-200";
+
+const DeckEditor: React.FC<DeckEditorProps> = ({ onClose }) => {
+    const [savedDecks, setSavedDecks] = useState<DeckFile[]>([]);
+    const [deck, setDeck] = useState<EditingDeck | null>(null);
+    const [cardIndex, setCardIndex] = useState<number | null>(null);  // null while adding a new card
+    const [form, setForm] = useState<CardForm>(BLANK_FORM);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [issues, setIssues] = useState<{ source: string; list: DeckIssue[] }>({ source: '', list: [] });
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => { setSavedDecks(loadSavedDecks()); }, []);
+
+    const editedCard = deck && cardIndex !== null ? deck.cards[cardIndex] : undefined;
+    const formCard = useMemo(() => cardFromForm(form, editedCard), [form, editedCard]);
+    const formCheck = validateCardDefinition(formCard);
+
+    const openDeck = (next: EditingDeck) => {
+        setDeck(next);
+        setCardIndex(null);
+        setForm(BLANK_FORM);
+        setMessage(null);
+        setIssues({ source: '', list: [] });
+    };
+
+    const selectCard = (index: number) => {
+        if (!deck) return;
+        setCardIndex(index);
+        setForm(formFromCard(deck.cards[index]));
+    };
+
+    const applyCard = () => {
+        if (!deck || !formCheck.isValid) return;
+        if (deck.cards.some((card, index) => card.id === formCard.id && index !== cardIndex)) {
+            setMessage({ text: `The deck already has a card with the id '${formCard.id}'.`, isError: true });
+            return;
+        }
+        const cards = cardIndex === null ? [...deck.cards, formCard] : deck.cards.map((card, index) => (index === cardIndex ? formCard : card));
+        setDeck({ ...deck, cards });
+        setCardIndex(cardIndex ?? cards.length - 1);
+        setMessage(null);
+    };
+
+    const removeCard = () => {
+        if (!deck || cardIndex === null) return;
+        setDeck({ ...deck, cards: deck.cards.filter((_, index) => index !== cardIndex) });
+        setCardIndex(null);
+        setForm(BLANK_FORM);
+    };
+
+    /** Validates the open deck, listing its issues; returns the deck file if it has no errors. */
+    const checkDeck = async (): Promise<DeckFile | null> => {
+        if (!deck) return null;
+        const report = validateDeckData(createDeckFile(deck.name, deck.cards));
+        const list = report.deck ? [...report.issues, ...(await imageWarnings(report.deck))] : report.issues;
+        setIssues({ source: deck.name.trim() || 'deck', list });
+        if (!report.deck) setMessage({ text: 'Fix the errors below first.', isError: true });
+        return report.deck ?? null;
+    };
+
+    const handleSave = async () => {
+        if (!deck) return;
+        const file = await checkDeck();
+        if (!file) return;
+        const result = saveDeck(file);
+        if (!result.isValid) {
+            setMessage({ text: result.reason, isError: true });
+            return;
+        }
+        if (deck.savedName && deck.savedName !== file.name) deleteDeck(deck.savedName);  // Renamed
+        setDeck({ ...deck, name: file.name, savedName: file.name });
+        setSavedDecks(loadSavedDecks());
+        setMessage({ text: `Saved "${file.name}".`, isError: false });
+    };
+
+    const handleDelete = () => {
+        if (!deck?.savedName || !window.confirm(`Delete the deck "${deck.savedName}"?`)) return;
+        deleteDeck(deck.savedName);
+        setSavedDecks(loadSavedDecks());
+        setDeck(null);
+    };
+
+    const handleExport = async () => {
+        const file = await checkDeck();
+        if (file) downloadDeck(file);
+    };
+
+    const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ""; // Allow re-selecting the same file
+        if (!file) return;
+        const json = await file.text();
+        const report = validateDeckJson(json);
+        if (!report.deck) {
+            setIssues({ source: file.name, list: report.issues });
+            setMessage({ text: `${file.name} is not a usable deck.`, isError: true });
+            return;
+        }
+        // Imported decks open unsaved, so importing never silently overwrites a deck of the same name.
+        openDeck({ savedName: null, name: report.deck.name, cards: report.deck.cards });
+        setIssues({ source: file.name, list: [...report.issues, ...(await imageWarnings(report.deck, jsonValueLines(json)))] });
+        setMessage({ text: `Imported "${report.deck.name}". Save it to use it in a game.`, isError: false });
+    };
+
+    const setNumber = (key: NumericField, value: string) => setForm(current => ({ ...current, numbers: { ...current.numbers, [key]: value } }));
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+            <div className="bg-slate-900 text-white w-full max-w-6xl rounded-lg shadow-xl border border-slate-700 p-6 flex flex-col max-h-[90vh]">
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-emerald-400">Deck Editor</h2>
+                    <button onClick={onClose} aria-label="Close" className="p-1 hover:bg-slate-700 rounded-full"><X size={20} /></button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-[14rem_1fr_16rem] gap-4 overflow-hidden flex-grow min-h-0">
+                    {/* Deck list */}
+                    <div className="space-y-2 overflow-y-auto custom-scrollbar">
+                        <Button size="sm" className="w-full bg-emerald-700 hover:bg-emerald-600"
+                            onClick={() => openDeck({ savedName: null, name: 'My Deck', cards: deepCopy([...playableCardDefinitions]) })}>
+                            <FilePlus className="mr-2 h-4 w-4" /> New from {BUILT_IN_DECK_NAME}
+                        </Button>
+                        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImportFile} />
+                        <Button size="sm" variant="outline" className="w-full border-slate-600 text-slate-300 hover:bg-slate-700" onClick={() => importInputRef.current?.click()}>
+                            <Upload className="mr-2 h-4 w-4" /> Import JSON
+                        </Button>
+                        <p className="pt-2 text-xs uppercase tracking-wide text-slate-400">Saved decks</p>
+                        {savedDecks.map(saved => (
+                            <button key={saved.name}
+                                onClick={() => openDeck({ savedName: saved.name, name: saved.name, cards: deepCopy(saved.cards) })}
+                                className={`w-full text-left rounded-md px-2 py-1 text-sm ${deck?.savedName === saved.name ? 'bg-slate-700 text-white' : 'text-slate-300 hover:bg-slate-800'}`}>
+                                {saved.name} <span className="text-xs text-slate-500">({saved.cards.length})</span>
+                            </button>
+                        ))}
+                        {savedDecks.length === 0 && <p className="text-xs text-slate-500">No saved decks yet.</p>}
+                    </div>
+
+                    {/* Cards of the open deck */}
+                    <div className="flex flex-col min-h-0">
+                        {deck ? (
+                            <>
+                                <div className="flex gap-2 mb-2">
+                                    <input value={deck.name} onChange={e => setDeck({ ...deck, name: e.target.value })} aria-label="Deck name" className={inputClass} />
+                                    <Button size="sm" onClick={handleSave} className="bg-sky-700 hover:bg-sky-600"><Save className="mr-1 h-4 w-4" /> Save</Button>
+                                    <Button size="sm" variant="outline" onClick={handleExport} className="border-slate-600 text-slate-300 hover:bg-slate-700"><Download className="mr-1 h-4 w-4" /> Export</Button>
+                                    {deck.savedName && (
+                                        <Button size="sm" variant="outline" onClick={handleDelete} className="border-red-700 text-red-400 hover:bg-red-900/30" aria-label="Delete deck"><Trash2 className="h-4 w-4" /></Button>
+                                    )}
+                                </div>
+                                <ul className="overflow-y-auto custom-scrollbar flex-grow space-y-0.5 text-sm">
+                                    {deck.cards.map((card, index) => (
+                                        <li key={`${card.id}-${index}`}>
+                                            <button onClick={() => selectCard(index)}
+                                                className={`w-full flex justify-between rounded px-2 py-1 ${cardIndex === index ? 'bg-slate-700' : 'hover:bg-slate-800'}`}>
+                                                <span>{card.name} <span className="text-xs text-slate-500">{card.category} ×{card.quantity ?? 1}</span></span>
+                                                <span className={(card.netScoreImpact ?? 0) >= 0 ? 'text-lime-400' : 'text-amber-400'}>
+                                                    {(card.netScoreImpact ?? 0) > 0 ? '+' : ''}{card.netScoreImpact ?? 0}
+                                                </span>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <Button size="sm" variant="outline" onClick={() => { setCardIndex(null); setForm(BLANK_FORM); }}
+                                    className="mt-2 border-slate-600 text-slate-300 hover:bg-slate-700">
+                                    <Plus className="mr-1 h-4 w-4" /> New card
+                                </Button>
+                            </>
+                        ) : (
+                            <p className="m-auto text-sm text-slate-400">Start a new deck, import one, or open a saved deck.</p>
+                        )}
+                        {message && <p className={`mt-2 text-sm ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+                        {issues.list.length > 0 && (
+                            <ul className="mt-2 max-h-32 overflow-y-auto custom-scrollbar rounded-md border border-slate-700 bg-slate-950 p-2 font-mono text-xs space-y-0.5">
+                                {issues.list.map((issue, index) => (
+                                    <li key={index} className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-300'}>{formatDeckIssue(issue, issues.source)}</li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {/* Card form and preview */}
+                    {deck && (
+                        <div className="space-y-2 overflow-y-auto custom-scrollbar text-sm">
+                            <p className="font-medium text-slate-300">{cardIndex === null ? 'New card' : `Editing ${editedCard?.id}`}</p>
+                            <label className="block">Name<input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={inputClass} /></label>
+                            <label className="block">Category<input value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClass} /></label>
+                            {NUMERIC_FIELDS.map(key => (
+                                <label key={key} className="block">
+                                    {CARD_FIELD_LIMITS[key].label}
+                                    <input type="number" value={form.numbers[key]} onChange={e => setNumber(key, e.target.value)}
+                                        min={CARD_FIELD_LIMITS[key].min} max={CARD_FIELD_LIMITS[key].max} step={CARD_FIELD_LIMITS[key].integer ? 1 : 'any'} className={inputClass} />
+                                </label>
+                            ))}
+                            <label className="block">Floor rules (e.g. 1-3, roof, max:2)<input value={form.requiresFloor} onChange={e => setForm({ ...form, requiresFloor: e.target.value })} className={inputClass} /></label>
+                            <label className="block">Image<input value={form.image} onChange={e => setForm({ ...form, image: e.target.value })} placeholder="/cards/library.png" className={inputClass} /></label>
+                            {!formCheck.isValid && form.name !== '' && <p className="text-xs text-red-400">{formCheck.reason}</p>}
+                            <div className="flex gap-2">
+                                <Button size="sm" onClick={applyCard} disabled={!formCheck.isValid} className="flex-1 bg-emerald-700 hover:bg-emerald-600">
+                                    {cardIndex === null ? 'Add card' : 'Update card'}
+                                </Button>
+                                {cardIndex !== null && (
+                                    <Button size="sm" variant="outline" onClick={removeCard} className="border-red-700 text-red-400 hover:bg-red-900/30" aria-label="Remove card"><Trash2 className="h-4 w-4" /></Button>
+                                )}
+                            </div>
+                            {formCheck.isValid && (
+                                <div className="flex justify-center pt-2">
+                                    <CardComponent card={{ ...formCard, instanceId: formCard.id } as CardData} />
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DeckEditor;
@@ -1,14 +1,19 @@
 // src/components/DeckSelectorPopup.tsx
 // F.4: Added visual cues for card definitions not immediately playable on the current floor.
+// In draw pile mode it shows the piles instead and only offers the top card (in drafted games, the player's own piles).
 
 'use client';
 import React, { FC, useCallback } from 'react';
-import { usePlayersStore, Player } from '@/stores/usePlayersStore';
+import { usePlayersStore, Player, PlayersStoreState } from '@/stores/usePlayersStore';
 import { useFloorStore } from '@/stores/useFloorStore'; // F.4: Import useFloorStore
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { hasPrivatePiles, isDrawPileMode } from '@/engine/deck';
 import CardComponent from '@/components/ui/Card'; 
 import { CardDefinition, CardData } from '@/data/types'; // CardData might be used for casting
 import { logDebug, logError } from '@/utils/logger';
-import { X, PackagePlus, Layers, Info } from 'lucide-react';
+import { X, PackagePlus, Layers, Info, Shuffle } from 'lucide-react';
+
+const humanPiles = (state: PlayersStoreState) => state.getPiles(state.players.findIndex(p => p.id === state.getSeatedPlayer()?.id));
 
 interface DeckSelectorPopupProps {
   onClose: () => void;
@@ -17,7 +22,12 @@ interface DeckSelectorPopupProps {
 const DeckSelectorPopup: FC<DeckSelectorPopupProps> = ({ onClose }) => {
   const deckCardDefinitions = usePlayersStore(state => state.deckCardDefinitions);
   const drawCardInstanceToHandById = usePlayersStore(state => state.drawCardInstanceToHandById);
-  const humanPlayer = usePlayersStore(state => state.getHumanPlayer());
+  const humanPlayer = usePlayersStore(state => state.getSeatedPlayer());
+  const deckMode = usePlayersStore(state => state.deckMode);
+  const drawPileCount = usePlayersStore(state => humanPiles(state).drawPile.length);
+  const discardPile = usePlayersStore(state => humanPiles(state).discardPile);
+  const drawTopCardToHand = usePlayersStore(state => state.drawTopCardToHand);
+  const maxHandSize = useGameFlowStore(state => state.rules.maxHandSize);
 
   // F.4: Get current floor context for playability check
   const currentFloor = useFloorStore(state => state.currentFloor);
@@ -46,6 +56,10 @@ const DeckSelectorPopup: FC<DeckSelectorPopupProps> = ({ onClose }) => {
     logDebug(`${event?.shiftKey ? "Shift+Click" : "Click"} on '${definition.name}' (ID: ${definitionId}): Attempting to draw ${drawCount} instance(s).`, 'DeckSelector');
 
     for (let i = 0; i < drawCount; i++) {
+      if (usePlayersStore.getState().getHandSize(humanPlayerIndex) >= maxHandSize) {
+        logDebug(`DeckSelectorPopup: Hand is full (${maxHandSize} cards); nothing more drawn.`, 'DeckSelector');
+        break;
+      }
       const drawnInstance = drawCardInstanceToHandById(humanPlayerIndex, definitionId);
       if (!drawnInstance) {
         logDebug(`DeckSelectorPopup: Failed to draw instance ${i+1} of ${definition.name}.`, 'DeckSelector');
@@ -55,7 +69,64 @@ const DeckSelectorPopup: FC<DeckSelectorPopupProps> = ({ onClose }) => {
     if (event?.shiftKey && drawCount > 0) {
         onClose();
     }
-  }, [humanPlayer, deckCardDefinitions, drawCardInstanceToHandById, onClose]);
+  }, [humanPlayer, deckCardDefinitions, drawCardInstanceToHandById, maxHandSize, onClose]);
+
+  const handleDrawTopCard = useCallback(() => {
+    if (!humanPlayer) {
+      logError("DeckSelectorPopup: Cannot draw card, human player not found.", undefined);
+      return;
+    }
+    const humanPlayerIndex = usePlayersStore.getState().players.findIndex(p => p.id === humanPlayer.id);
+    const drawn = drawTopCardToHand(humanPlayerIndex, maxHandSize);
+    logDebug(drawn ? `Drew ${drawn.name} from the top of the draw pile.` : 'Nothing drawn from the draw pile.', 'DeckSelector');
+  }, [humanPlayer, drawTopCardToHand, maxHandSize]);
+
+  if (isDrawPileMode(deckMode)) {
+    const handSize = humanPlayer?.hand.reduce((sum, stack) => sum + (stack.stack ?? 1), 0) ?? 0;
+    const handFull = handSize >= maxHandSize;
+    const nothingToDraw = drawPileCount === 0 && discardPile.length === 0;
+    const discardCounts = discardPile.reduce<Record<string, { name: string; count: number }>>((counts, card) => {
+      counts[card.id] = { name: card.name, count: (counts[card.id]?.count ?? 0) + 1 };
+      return counts;
+    }, {});
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+        <div className="bg-card max-w-lg w-full rounded-lg p-6 shadow-xl border">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-bold flex items-center"><Layers className="mr-2 h-6 w-6 text-primary" /> {hasPrivatePiles(deckMode) ? 'Your Drafted Pile' : 'Draw Pile'}</h2>
+            <button onClick={onClose} aria-label="Close" className="p-1 hover:bg-muted rounded-full"><X size={20} /></button>
+          </div>
+          <div className="grid grid-cols-3 gap-3 text-center mb-4">
+            <div className="rounded-md border p-2"><div className="text-2xl font-bold">{drawPileCount}</div><div className="text-xs text-muted-foreground">to draw</div></div>
+            <div className="rounded-md border p-2"><div className="text-2xl font-bold">{discardPile.length}</div><div className="text-xs text-muted-foreground">discarded</div></div>
+            <div className="rounded-md border p-2"><div className="text-2xl font-bold">{handSize}/{maxHandSize}</div><div className="text-xs text-muted-foreground">in hand</div></div>
+          </div>
+          {drawPileCount === 0 && discardPile.length > 0 && (
+            <p className="text-xs text-muted-foreground mb-3 flex items-center"><Shuffle size={14} className="mr-1" /> The discard pile will be shuffled into a new draw pile.</p>
+          )}
+          {discardPile.length > 0 && (
+            <div className="mb-4">
+              <p className="text-sm font-medium mb-1">Discard pile</p>
+              <ul className="text-xs text-muted-foreground space-y-0.5 max-h-32 overflow-y-auto custom-scrollbar">
+                {Object.entries(discardCounts).map(([id, { name, count }]) => <li key={id}>{name}{count > 1 ? ` ×${count}` : ''}</li>)}
+              </ul>
+            </div>
+          )}
+          <div className="flex justify-end gap-3 pt-4 border-t border-border">
+            <button onClick={onClose} className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:opacity-90">Close</button>
+            <button
+              onClick={handleDrawTopCard}
+              disabled={handFull || nothingToDraw}
+              title={handFull ? `Hand is full (${maxHandSize} cards)` : nothingToDraw ? 'No cards left to draw' : 'Draw the top card'}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:opacity-90 disabled:opacity-50 flex items-center"
+            >
+              <PackagePlus className="mr-2 h-5 w-5" /> Draw top card
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
 
   if (deckCardDefinitions.length === 0) {
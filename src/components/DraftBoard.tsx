@@ -0,0 +1,114 @@
+// src/components/DraftBoard.tsx
+// Pre-game draft for drafted-deck games: the face-up market of card stacks and both players' picks so far.
+
+"use client";
+
+import React, { useMemo } from 'react';
+import { Layers, Bot, User, RefreshCw } from 'lucide-react';
+import { useDraftStore } from '@/stores/useDraftStore';
+import { CardData, CardDefinition } from '@/data/types';
+import { draftPicker } from '@/engine/draft';
+import CardComponent from '@/components/ui/Card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+export interface DraftBoardProps {
+    onResetGame: () => void;
+}
+
+const cardsIn = (definitions: CardDefinition[]) => definitions.reduce((sum, definition) => sum + (definition.quantity ?? 1), 0);
+
+/** One player's drafted stacks as a compact list. */
+const PickList: React.FC<{ title: string; icon: React.ReactNode; picks: CardDefinition[]; active: boolean }> = ({ title, icon, picks, active }) => (
+    <div className={`rounded-lg border p-3 bg-slate-800/60 ${active ? 'border-emerald-500' : 'border-slate-700'}`}>
+        <p className="flex items-center text-sm font-medium text-slate-200 mb-2">
+            {icon}<span className="ml-2">{title}</span>
+            <span className="ml-auto text-xs text-slate-400">{picks.length} stacks · {cardsIn(picks)} cards</span>
+        </p>
+        <ul className="text-xs text-slate-300 space-y-0.5 max-h-48 overflow-y-auto custom-scrollbar">
+            {picks.map(definition => (
+                <li key={definition.id} className="flex justify-between">
+                    <span>{definition.name}{(definition.quantity ?? 1) > 1 ? ` ×${definition.quantity}` : ''}</span>
+                    <span className={(definition.netScoreImpact ?? 0) >= 0 ? 'text-lime-400' : 'text-amber-400'}>
+                        {(definition.netScoreImpact ?? 0) > 0 ? '+' : ''}{definition.netScoreImpact ?? 0}
+                    </span>
+                </li>
+            ))}
+            {picks.length === 0 && <li className="text-slate-500">Nothing yet</li>}
+        </ul>
+    </div>
+);
+
+const DraftBoard: React.FC<DraftBoardProps> = ({ onResetGame }) => {
+    const { toast } = useToast();
+    const draft = useDraftStore(s => s.draft);
+    const humanRole = useDraftStore(s => s.humanRole);
+    const aiRole = useDraftStore(s => s.aiRole);
+    const isAIPicking = useDraftStore(s => s.isAIPicking);
+    const pickStack = useDraftStore(s => s.pickStack);
+
+    // The getters build fresh arrays, so they are read once per draft change rather than subscribed to.
+    const { getMarket, getPicks } = useDraftStore.getState();
+    const market = useMemo(() => getMarket(), [draft, getMarket]);
+    const humanPicks = useMemo(() => (humanRole ? getPicks(humanRole) : []), [draft, humanRole, getPicks]);
+    const aiPicks = useMemo(() => (aiRole ? getPicks(aiRole) : []), [draft, aiRole, getPicks]);
+
+    if (!draft || !humanRole || !aiRole) {
+        return <div className="flex items-center justify-center h-full text-slate-400">Preparing the draft…</div>;
+    }
+
+    const picker = draftPicker(draft);
+    const humanToPick = picker === humanRole && !isAIPicking;
+
+    const handlePick = (definition: CardDefinition) => {
+        const result = pickStack(definition.id);
+        if (!result.isValid) toast({ title: "Cannot take that stack", description: result.reason, variant: "destructive" });
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-slate-800 via-slate-900 to-black text-white p-4 sm:p-6">
+            <div className="max-w-7xl mx-auto space-y-4">
+                <div className="flex items-center justify-between">
+                    <h1 className="text-2xl font-bold flex items-center text-emerald-400"><Layers className="mr-2 h-6 w-6" /> Draft Your Deck</h1>
+                    <Button size="sm" variant="outline" onClick={onResetGame} className="border-slate-600 text-slate-300 hover:bg-slate-700">
+                        <RefreshCw className="mr-2 h-4 w-4" /> Back to Title
+                    </Button>
+                </div>
+                <p className="text-sm text-slate-300">
+                    {humanToPick
+                        ? `Your pick (${humanRole}): click a stack to take every copy of it. `
+                        : `The AI (${aiRole}) is choosing… `}
+                    <span className="text-slate-400">Stacks you take become your private draw pile; the AI's become its own.</span>
+                </p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-[1fr_18rem] gap-4">
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-4 content-start">
+                        {market.map(definition => (
+                            <div
+                                key={definition.id}
+                                onClick={() => humanToPick && handlePick(definition)}
+                                onKeyDown={e => { if (humanToPick && (e.key === 'Enter' || e.key === ' ')) handlePick(definition); }}
+                                role="button"
+                                tabIndex={humanToPick ? 0 : -1}
+                                aria-label={`Draft ${definition.name} (${definition.quantity ?? 1} copies)`}
+                                className={`relative flex justify-center rounded-lg transition-transform ${humanToPick ? 'cursor-pointer hover:scale-105' : 'cursor-not-allowed'}`}
+                            >
+                                <CardComponent card={{ ...definition, instanceId: definition.id } as CardData} isPlayable={humanToPick} />
+                                <span className="absolute top-1 right-1 rounded-full bg-emerald-600 px-2 py-0.5 text-xs font-bold text-white shadow" title="Copies in this stack">
+                                    ×{definition.quantity ?? 1}
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-3">
+                        <PickList title={`You (${humanRole})`} icon={<User className="h-4 w-4 text-emerald-400" />} picks={humanPicks} active={picker === humanRole} />
+                        <PickList title={`AI (${aiRole})`} icon={<Bot className="h-4 w-4 text-cyan-400" />} picks={aiPicks} active={picker === aiRole} />
+                        <p className="text-xs text-slate-400 text-center">{market.length} stacks left in the market</p>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DraftBoard;
@@ -0,0 +1,24 @@
+// src/components/EarlyEndOffer.tsx
+// Banner offering to end the game once no play can bring the score back into the balanced band.
+"use client";
+import React from 'react';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { Button } from '@/components/ui/button';
+import { Flag } from 'lucide-react';
+
+const EarlyEndOffer: React.FC = () => {
+  const offer = useGameFlowStore(state => state.earlyEndOffer);
+  const isAiTurn = useGameFlowStore(state => state.isAiTurn);
+  if (!offer) return null;
+  const { endGameEarly, dismissEarlyEnd } = useGameFlowStore.getState();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-amber-900/40 border-b border-amber-700/60 text-sm">
+      <Flag className="h-4 w-4 text-amber-400 flex-shrink-0" />
+      <span className="flex-grow text-amber-100">{offer.explanation}</span>
+      <Button size="sm" className="bg-amber-600 hover:bg-amber-700" onClick={endGameEarly} disabled={isAiTurn}>End game now</Button>
+      <Button size="sm" variant="outline" className="border-slate-600 hover:bg-slate-700" onClick={dismissEarlyEnd}>Keep playing</Button>
+    </div>
+  );
+};
+export default EarlyEndOffer;
@@ -10,7 +10,6 @@ import { FloorState, FloorStatus, Committer } from '@/data/types';
 import { Button } from "@/components/ui/button";
 import { Layers, RefreshCcw, Check, Clock, AlertTriangle, Info, X as IconX, ArrowUp, Ban, HelpCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { RECALL_MAX_FLOOR, MAX_STORIES } from '@/data/constants';
 import { logDebug } from '@/utils/logger';
 
 const FloorTimeline = () => {
@@ -20,6 +19,8 @@ const FloorTimeline = () => {
     
     const useRecallTokenAction = useGameFlowStore(state => state.useRecallToken);
     const isAiTurn = useGameFlowStore(state => state.isAiTurn);
+    const maxStories = useGameFlowStore(state => state.rules.maxStories);
+    const recallMaxFloor = useGameFlowStore(state => state.rules.recallMaxFloor);
     
     const players = usePlayersStore(state => state.players);
     const currentPlayerIndex = usePlayersStore(state => state.currentPlayerIndex);
@@ -33,12 +34,12 @@ const FloorTimeline = () => {
     const visibleFloors = useMemo(() => {
         const range = 3;
         const visibleSet = new Set<number>([1]);
-        for (let i = Math.max(1, currentFloorNum - range); i <= Math.min(MAX_STORIES, currentFloorNum + range); i++) {
+        for (let i = Math.max(1, currentFloorNum - range); i <= Math.min(maxStories, currentFloorNum + range); i++) {
             visibleSet.add(i);
         }
-        if (MAX_STORIES > 0) visibleSet.add(MAX_STORIES);
+        if (maxStories > 0) visibleSet.add(maxStories);
         return floors.filter(f => visibleSet.has(f.floorNumber)).sort((a, b) => a.floorNumber - b.floorNumber);
-    }, [floors, currentFloorNum]);
+    }, [floors, currentFloorNum, maxStories]);
 
     const handleTileClick = useCallback((floorNumber: number) => {
         setActiveTooltip(prev => (prev === floorNumber ? null : floorNumber));
@@ -95,7 +96,7 @@ const FloorTimeline = () => {
             }
 
             const impact = floor.winnerCard.netScoreImpact ?? 0;
-            const committerDisplay = floor.committedBy === Committer.PlayerA ? 'Player A' : floor.committedBy === Committer.PlayerB ? 'Player B' : floor.committedBy === Committer.Auto ? 'Mediator' : 'Unknown';
+            const committerDisplay = floor.committedBy === Committer.PlayerA ? 'Player A' : floor.committedBy === Committer.PlayerB ? 'Player B' : floor.committedBy === Committer.Auto ? 'Mediator' : floor.committedBy === Committer.Majority ? 'Majority vote' : 'Unknown';
             
             return (
                 <div className="w-60 p-3 text-xs">
@@ -235,10 +236,10 @@ const FloorTimeline = () => {
                     <div className="flex items-center gap-1"><div className="w-2.5 h-2.5 bg-slate-600 rounded-sm border border-slate-500"></div>Skipped</div>
                     <div className="flex items-center gap-1"><div className="w-2.5 h-2.5 bg-slate-700 rounded-sm border border-slate-600"></div>Pending</div>
                 </div>
-                {currentFloorNum >= RECALL_MAX_FLOOR && hasRecallTokens && (
+                {currentFloorNum >= recallMaxFloor && hasRecallTokens && (
                     <div className="flex items-center justify-center text-[0.7rem] text-amber-400/80 mt-1">
                         <AlertTriangle size={11} className="mr-1 flex-shrink-0" />
-                        <span>Recall only usable up to Floor {RECALL_MAX_FLOOR - 1}</span>
+                        <span>Recall only usable up to Floor {recallMaxFloor - 1}</span>
                     </div>
                 )}
             </div>
@@ -6,7 +6,7 @@ import { useGameFlowStore } from '@/stores/useGameFlowStore';
 import { usePlayersStore } from '@/stores/usePlayersStore';
 import { useAIStore } from '@/stores/useAIStore';
 import { logDebug } from '@/utils/logger';
-import { AI_TURN_DELAY_MS, PROPOSAL_TIMER_MS } from '@/data/constants';
+import { AI_TURN_DELAY_MS } from '@/data/constants';
 import { GamePhase, PlayerType } from "@/data/types"
 
 /**
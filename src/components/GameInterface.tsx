@@ -24,6 +24,7 @@ import PlayerStatsPanel, { PlayerStatsPanelProps } from './PlayerStatsPanel';
 import ScoreDisplay from './ScoreDisplay';           
 import GameLog from './GameLog';                     
 import FloorProgressionIndicator, { FloorProgressionIndicatorProps } from './FloorProgressionIndicator'; 
+import EarlyEndOffer from './EarlyEndOffer';
 import LoadingIndicator from './ui/LoadingIndicator';
 
 // Icon Imports
@@ -36,8 +37,8 @@ import { Button } from "@/components/ui/button";
 
 // Types
 import { CardInstance, PhaseInfo, PlayerType, PlayerRole } from '@/data/types';
-import { MAX_STORIES } from '@/data/constants';
 import { logDebug, logWarn } from '@/utils/logger';
+import { isDrawPileMode } from '@/engine/deck';
 
 const MOBILE_BREAKPOINT = 768;
 
@@ -49,18 +50,21 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
   const [isMobile, setIsMobile] = useState(false);
   const [isHandExpanded, setIsHandExpanded] = useState(false);
 
-  const { gamePhase, isAiTurn, waitForPlayerAcknowledgement, canAccessDeckSelector } = 
+  const { gamePhase, isAiTurn, waitForPlayerAcknowledgement, canAccessDeckSelector, maxStories } = 
     useStoreWithEqualityFn(useGameFlowStore, state => ({
         gamePhase: state.gamePhase,
         isAiTurn: state.isAiTurn,
         waitForPlayerAcknowledgement: state.waitForPlayerAcknowledgement,
         canAccessDeckSelector: state.canAccessDeckSelector,
+        maxStories: state.rules.maxStories,
     }), shallow);
 
-  const { humanPlayer, deckCardDefinitionsCount, players, currentPlayer } = 
+  const { humanPlayer, isHotSeat, deckCardDefinitionsCount, drawPileCount, players, currentPlayer } = 
     useStoreWithEqualityFn(usePlayersStore, (state: PlayersStoreState) => ({
-        humanPlayer: state.getHumanPlayer(),
+        humanPlayer: state.getSeatedPlayer(),
+        isHotSeat: state.isHotSeat(),
         deckCardDefinitionsCount: state.deckCardDefinitions.length,
+        drawPileCount: isDrawPileMode(state.deckMode) ? state.getPiles(state.players.findIndex(p => p.id === state.getSeatedPlayer()?.id)).drawPile.length : null,
         players: state.players,
         currentPlayer: state.getCurrentPlayer(),
     }), shallow);
@@ -156,12 +160,13 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
       <div className={`flex-grow grid ${isMobile ? 'grid-rows-[auto_1fr_auto]' : 'grid-cols-[1fr_350px]'} gap-0 overflow-hidden`}>
         <main className="flex flex-col overflow-hidden bg-slate-800">
           <div className="p-2 sm:p-4 flex-shrink-0">
-            <FloorProgressionIndicator currentFloor={currentFloor} maxFloors={MAX_STORIES} />
+            <FloorProgressionIndicator currentFloor={currentFloor} maxFloors={maxStories} />
           </div>
           <div className="flex-grow p-1 md:p-2 overflow-y-auto custom-scrollbar relative">
             <TowerVisualization floors={buildingFloorSummary} currentFloor={currentFloor} />
           </div>
           <div className="border-t border-slate-700 flex-shrink-0">
+            <EarlyEndOffer />
             <NegotiationPanel isMobile={isMobile && !isHandExpanded} />
           </div>
         </main>
@@ -169,8 +174,8 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
         {!isMobile && (
           <aside className="w-[350px] border-l border-slate-700 bg-slate-800 flex flex-col overflow-hidden">
             <PlayerStatsPanel 
-                humanPlayer={humanPlayer} 
-                aiPlayer={players.find(p => p.type === PlayerType.AI)}
+                humanPlayer={isHotSeat ? players[0] : humanPlayer} 
+                opponent={isHotSeat ? players[1] : players.find(p => p.type === PlayerType.AI)}
                 currentPlayerId={currentPlayer.id} 
             />
             <div className="p-3 border-b border-slate-700">
@@ -178,9 +183,9 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
                     onClick={handleToggleDeckSelector} 
                     disabled={!canAccessDeckSelector()} 
                     className="w-full bg-sky-600 hover:bg-sky-700"
-                    title={!canAccessDeckSelector() ? "Cannot access deck now" : `View Deck (${deckCardDefinitionsCount} card types)`}
+                    title={!canAccessDeckSelector() ? "Cannot access deck now" : drawPileCount !== null ? `Draw Pile (${drawPileCount} cards left)` : `View Deck (${deckCardDefinitionsCount} card types)`}
                 >
-                    <PackagePlus className="mr-2 h-5 w-5" /> View Deck ({deckCardDefinitionsCount} Types)
+                    <PackagePlus className="mr-2 h-5 w-5" /> {drawPileCount !== null ? `Draw Pile (${drawPileCount} Left)` : `View Deck (${deckCardDefinitionsCount} Types)`}
                 </Button>
             </div>
             <GameLog enableDevMode={process.env.NODE_ENV === 'development'} />
@@ -202,9 +207,9 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
                 onClick={handleToggleDeckSelector} 
                 disabled={!canAccessDeckSelector()}
                 className="flex flex-col items-center h-auto py-1"
-                title={!canAccessDeckSelector() ? "Cannot access deck now" : `View Deck (${deckCardDefinitionsCount} card types)`}
+                title={!canAccessDeckSelector() ? "Cannot access deck now" : drawPileCount !== null ? `Draw Pile (${drawPileCount} cards left)` : `View Deck (${deckCardDefinitionsCount} card types)`}
             >
-                <PackagePlus size={20}/> <span className="text-xs mt-0.5">Deck ({deckCardDefinitionsCount})</span>
+                <PackagePlus size={20}/> <span className="text-xs mt-0.5">{drawPileCount !== null ? `Pile (${drawPileCount})` : `Deck (${deckCardDefinitionsCount})`}</span>
             </Button>
           <Button variant="ghost" onClick={() => logDebug("Mobile Stats Clicked", "GameInterface")}  className="flex flex-col items-center h-auto py-1">
             <Users size={20}/> <span className="text-xs mt-0.5">Stats</span>
@@ -221,6 +226,7 @@ export default function GameInterface({ onResetGame }: GameInterfaceProps) {
             isAiTurn={isAiTurn}
             onCardClick={handleMobileHandCardClick}
             currentFloor={currentFloor}
+            isHotSeat={isHotSeat}
           />
         </div>
       )}
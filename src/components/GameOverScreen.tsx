@@ -4,15 +4,55 @@
 "use client";
 
 import React from 'react';
-import { RefreshCw, Building, Users, Scale, CircleHelp, Clock } from "lucide-react";
+import { RefreshCw, Building, Users, Scale, CircleHelp, Clock, Landmark, Ban, CheckCircle2, XCircle, Bot, User, Download } from "lucide-react";
 import { useGameFlowStore } from "@/stores/useGameFlowStore";
+import { usePlayersStore } from "@/stores/usePlayersStore";
+import { Player, PlayerRole, PlayerType } from "@/data/types";
 import { useBuildingStore } from "@/stores/useBuildingStore";
+import { useFloorStore } from "@/stores/useFloorStore";
+import { buildProForma, formatMoney, formatPayback, formatPercent } from "@/engine/finance";
+import { checkZoning } from "@/engine/zoning";
+import { AXIS_LABELS, axisTotals, checkAxisBalance, scenarioAxisBaseline } from "@/engine/axes";
+import { getScenario } from "@/data/scenarios";
+import { roleLabel } from "@/data/stakeholders";
+import { RoleStanding, roleStandings } from "@/engine/standings";
+import { ReplayFile, serializeReplay } from "@/replay/replay";
+import { getLiveReplay } from "@/orchestration/liveGame";
 // Corrected: Import TelemetryStoreState
 import { useTelemetryStore, TelemetryStoreState, GameTelemetry } from "@/stores/useTelemetryStore"; 
 import { Button } from "@/components/ui/button";
+import AxisRadarChart, { AXIS_COLORS } from "@/components/AxisRadarChart";
 import { shallow } from 'zustand/shallow'; 
 import { useStoreWithEqualityFn } from 'zustand/traditional';
 
+/**
+ * What the outcome means for one player: whether their role won (winningRoles, judged by each role's objective)
+ * and why. The Community and the Developer read the balance; other roles read their standing.
+ */
+const creditFor = (player: Player, winnerMessage: string, winningRoles: PlayerRole[] | null, standing: RoleStanding | undefined): { text: string; color: string } => {
+    const outcome = winnerMessage.toLowerCase();
+    if (outcome.includes("infeasible")) return { text: "No one wins: the project can't be financed", color: "text-red-400" };
+    if (!winningRoles) return { text: "Outcome undecided", color: "text-slate-400" };
+    const won = winningRoles.includes(player.role);
+    if (player.role === PlayerRole.Community || player.role === PlayerRole.Developer) {
+        if (outcome.includes("balanced")) return { text: "Shares the win: the project is balanced", color: "text-emerald-400" };
+        return won
+            ? { text: "Wins: the project favors their side", color: player.role === PlayerRole.Developer ? "text-amber-400" : "text-lime-400" }
+            : { text: "Loses: the project favors the other side", color: "text-slate-400" };
+    }
+    const detail = standing ? `: ${standing.detail}` : "";
+    return won ? { text: `Wins${detail}`, color: "text-emerald-400" } : { text: `Loses${detail}`, color: "text-slate-400" };
+};
+
+function downloadReplay(replay: ReplayFile) {
+    const url = URL.createObjectURL(new Blob([serializeReplay(replay)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `urban-balance-${replay.seed}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
 export interface GameOverScreenProps {
   reason: string;
   winnerMessage: string;
@@ -25,6 +65,23 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ reason, winnerMessage,
     
     const height = useBuildingStore(s => s.getTotalHeight());
     const currentNetScore = useBuildingStore(s => s.getCurrentNetScore());
+    const floors = useFloorStore(s => s.floors);
+    const minYield = useGameFlowStore(s => s.rules.minDeveloperYieldPct);
+    const proForma = React.useMemo(() => buildProForma(floors), [floors]);
+    const scenarioId = useGameFlowStore(s => s.scenarioId);
+    const scenario = getScenario(scenarioId);
+    const zoning = React.useMemo(() => checkZoning(floors, scenario.zoning), [floors, scenario]);
+    const rules = useGameFlowStore(s => s.rules);
+    const axes = React.useMemo(() => axisTotals(floors, scenarioAxisBaseline(scenarioId)), [floors, scenarioId]);
+    const axisBalance = React.useMemo(() => checkAxisBalance(axes, rules), [axes, rules]);
+    const players = usePlayersStore(s => s.players);
+    const winningRoles = useGameFlowStore(s => s.winningRoles);
+    const standings = React.useMemo(
+        () => roleStandings(players.map(p => p.role), floors, currentNetScore, rules, axes),
+        [players, floors, currentNetScore, rules, axes],
+    );
+    // Read once: the game is over, so its recording no longer changes.
+    const replay = React.useMemo(() => getLiveReplay(), []);
     
     const telemetryData = useStoreWithEqualityFn(
         useTelemetryStore, 
@@ -39,6 +96,7 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ reason, winnerMessage,
         const defaultResult = { OutcomeIcon: CircleHelp, outcomeColor: "text-slate-400", outcomeText: "Outcome Undecided" };
         if (!finalWinnerMessage) return defaultResult;
         const lowerWinnerMessage = finalWinnerMessage.toLowerCase();
+        if (lowerWinnerMessage.includes("infeasible")) return { OutcomeIcon: Ban, outcomeColor: "text-red-400", outcomeText: finalWinnerMessage };
         if (lowerWinnerMessage.includes("developer")) return { OutcomeIcon: Building, outcomeColor: "text-amber-400", outcomeText: finalWinnerMessage };
         if (lowerWinnerMessage.includes("community")) return { OutcomeIcon: Users, outcomeColor: "text-lime-400", outcomeText: finalWinnerMessage };
         if (lowerWinnerMessage.includes("balanced")) return { OutcomeIcon: Scale, outcomeColor: "text-emerald-400", outcomeText: finalWinnerMessage };
@@ -61,9 +119,26 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ reason, winnerMessage,
             <OutcomeIcon size={64} className={`mb-4 ${outcomeColor} drop-shadow-lg`} />
             <h1 className="mb-3 text-center text-4xl md:text-5xl font-bold">Game Over</h1>
             <p className={`mb-4 text-center text-xl font-semibold ${outcomeColor}`}>{outcomeText}</p>
-            <p className="mb-8 max-w-lg text-center text-base text-slate-400">{finalGameOverReason}</p>
+            <p className="mb-6 max-w-lg text-center text-base text-slate-400">{finalGameOverReason}</p>
+            {players.length > 0 && (
+                <ul className="mb-8 w-full max-w-xl space-y-2">
+                    {players.map(player => {
+                        const credit = creditFor(player, finalWinnerMessage, winningRoles, standings.find(standing => standing.role === player.role));
+                        return (
+                            <li key={player.id} className="flex items-center justify-between rounded-lg border border-slate-600 bg-slate-700/40 px-4 py-2 text-sm">
+                                <span className="flex items-center gap-2 text-slate-200">
+                                    {player.type === PlayerType.AI ? <Bot className="h-4 w-4 text-red-400" /> : <User className="h-4 w-4 text-sky-400" />}
+                                    <span className="font-semibold">{player.name}</span>
+                                    <span className="text-slate-400">({roleLabel(player.role)})</span>
+                                </span>
+                                <span className={`font-semibold ${credit.color}`}>{credit.text}</span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
 
-            <div className="mb-8 grid w-full max-w-2xl grid-cols-1 gap-6 md:grid-cols-2">
+            <div className="mb-8 grid w-full max-w-4xl grid-cols-1 gap-6 md:grid-cols-3">
                 <div className="rounded-lg border border-slate-600 bg-slate-700/40 p-4 text-center shadow-md">
                     <h3 className="mb-3 text-lg font-semibold text-slate-300 border-b border-slate-600 pb-2">Final Project</h3>
                     <p className="text-slate-200 text-lg">Height: <span className='font-bold'>{height}</span> stories</p>
@@ -71,6 +146,27 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ reason, winnerMessage,
                         Final Balance: <span className={`font-bold ${outcomeColor}`}>{currentNetScore >= 0 ? "+" : ""}{currentNetScore}</span>
                     </p>
                 </div>
+                <div className="rounded-lg border border-slate-600 bg-slate-700/40 p-4 shadow-md">
+                    <h3 className="mb-3 text-center text-lg font-semibold text-slate-300 border-b border-slate-600 pb-2">Pro Forma</h3>
+                    <div className="space-y-2 text-slate-300 text-sm">
+                        <div className="flex items-center justify-between">
+                            <span className="flex items-center gap-1.5"><Landmark className="h-4 w-4 text-amber-400" /> Development Cost:</span>
+                            <span className="font-semibold">{formatMoney(proForma.totalCost)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span>Annual Cash Flow:</span>
+                            <span className="font-semibold">{formatMoney(proForma.annualCashFlow)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span>Yield:</span>
+                            <span className="font-semibold">{formatPercent(proForma.yieldPct)}{minYield > 0 && <span className="text-slate-400 font-normal"> (min {minYield}%)</span>}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span>Payback:</span>
+                            <span className="font-semibold">{formatPayback(proForma.paybackYears)}</span>
+                        </div>
+                    </div>
+                </div>
                 <div className="rounded-lg border border-slate-600 bg-slate-700/40 p-4 shadow-md">
                     <h3 className="mb-3 text-center text-lg font-semibold text-slate-300 border-b border-slate-600 pb-2">Analytics</h3>
                     <div className="space-y-2 text-slate-300 text-sm">
@@ -88,9 +184,60 @@ const GameOverScreen: React.FC<GameOverScreenProps> = ({ reason, winnerMessage,
                     </div>
                 </div>
             </div>
-            <Button size="lg" onClick={onRestart} className="bg-emerald-600 hover:bg-emerald-500 text-lg font-semibold tracking-wide py-3 px-6 shadow-lg hover:shadow-emerald-500/30 transition-shadow">
-                <RefreshCw className="mr-2 h-5 w-5" /> Play Again
-            </Button>
+            <div className="mb-8 w-full max-w-4xl rounded-lg border border-slate-600 bg-slate-700/40 p-4 shadow-md">
+                <h3 className="mb-3 text-center text-lg font-semibold text-slate-300 border-b border-slate-600 pb-2">
+                    Impact Axes{rules.axisBalanceThreshold !== undefined && <span className="text-sm font-normal text-slate-400"> (balanced within ±{rules.axisBalanceThreshold})</span>}
+                </h3>
+                <div className="flex flex-col items-center gap-4 md:flex-row md:justify-around">
+                    <AxisRadarChart totals={axes} band={rules.axisBalanceThreshold} />
+                    <ul className="w-full max-w-xs space-y-2 text-sm text-slate-300">
+                        {axisBalance.map(({ axis, total, within }) => (
+                            <li key={axis} className="flex items-center justify-between">
+                                <span className={`flex items-center gap-1.5 ${AXIS_COLORS[axis].text}`}>
+                                    {within ? <CheckCircle2 className="h-4 w-4 text-emerald-400" /> : <XCircle className="h-4 w-4 text-red-400" />}
+                                    {AXIS_LABELS[axis]}
+                                </span>
+                                <span className={`font-semibold ${within ? 'text-emerald-400' : 'text-red-400'}`}>{total > 0 ? "+" : ""}{total}</span>
+                            </li>
+                        ))}
+                        <li className="flex items-center justify-between border-t border-slate-600 pt-2">
+                            <span title="The sum of the axes, plus card effects, synergies and recall penalties">Net balance</span>
+                            <span className="font-semibold">{currentNetScore >= 0 ? "+" : ""}{currentNetScore}</span>
+                        </li>
+                    </ul>
+                </div>
+            </div>
+            {zoning.length > 0 && (
+                <div className="mb-8 w-full max-w-4xl rounded-lg border border-slate-600 bg-slate-700/40 p-4 shadow-md">
+                    <h3 className="mb-3 text-center text-lg font-semibold text-slate-300 border-b border-slate-600 pb-2">Zoning: {scenario.label}</h3>
+                    <ul className="space-y-2 text-sm text-slate-300">
+                        {zoning.map(({ requirement, met, detail }) => (
+                            <li key={requirement.label} className="flex items-center justify-between">
+                                <span className="flex items-center gap-1.5">
+                                    {met ? <CheckCircle2 className="h-4 w-4 text-emerald-400" /> : <XCircle className="h-4 w-4 text-red-400" />}
+                                    {requirement.label}
+                                </span>
+                                <span className={`font-semibold ${met ? 'text-emerald-400' : 'text-red-400'}`}>{met ? 'Met' : 'Not met'} ({detail})</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            <div className="flex flex-col items-center gap-3 sm:flex-row">
+                <Button size="lg" onClick={onRestart} className="bg-emerald-600 hover:bg-emerald-500 text-lg font-semibold tracking-wide py-3 px-6 shadow-lg hover:shadow-emerald-500/30 transition-shadow">
+                    <RefreshCw className="mr-2 h-5 w-5" /> Play Again
+                </Button>
+                <Button
+                    size="lg"
+                    variant="outline"
+                    disabled={!replay}
+                    onClick={() => replay && downloadReplay(replay)}
+                    title={replay ? "Save this game's actions to watch in the replay viewer" : "No replay was recorded for this game"}
+                    className="border-slate-500 bg-transparent text-lg text-slate-200 hover:bg-slate-700 py-3 px-6"
+                >
+                    <Download className="mr-2 h-5 w-5" /> Download Replay
+                </Button>
+            </div>
         </div>
     );
 };
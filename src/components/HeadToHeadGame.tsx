@@ -0,0 +1,261 @@
+// src/components/HeadToHeadGame.tsx
+// Board for a head-to-head game against one to three other people. Everything shown comes from the relay's
+// redacted state; every move is sent to the relay as a GameAction and only takes effect once it comes back.
+
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Users, Wifi, WifiOff, LogOut, RefreshCw, Scale, Layers, CheckCircle2, XCircle } from 'lucide-react';
+import { useHeadToHeadStore } from '@/stores/useHeadToHeadStore';
+import { CardDefinition, FloorStatus, GamePhase, PlayerRole } from '@/data/types';
+import { playableCardDefinitions } from '@/data/deckData';
+import { getScenario, scenarioDeck } from '@/data/scenarios';
+import { rulesOf } from '@/data/rules';
+import { GameAction, GameEngine } from '@/engine/GameEngine';
+import { describeBundle, floorCards, floorScoreImpact } from '@/engine/bundles';
+import { roleStandings } from '@/engine/standings';
+import { axisTotals, scenarioAxisBaseline } from '@/engine/axes';
+import { roleLabel, STAKEHOLDERS } from '@/data/stakeholders';
+import CardComponent from '@/components/ui/Card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+// Only used for its pure score calculation; the relay runs the real game.
+const scoringEngine = new GameEngine();
+
+const formatScore = (score: number) => (score > 0 ? `+${score}` : String(score));
+
+const HeadToHeadGame: React.FC = () => {
+    const { toast } = useToast();
+    const seat = useHeadToHeadStore(s => s.seat);
+    const status = useHeadToHeadStore(s => s.status);
+    const settings = useHeadToHeadStore(s => s.settings);
+    const game = useHeadToHeadStore(s => s.game);
+    const seats = useHeadToHeadStore(s => s.seats);
+    const log = useHeadToHeadStore(s => s.log);
+    const gameOver = useHeadToHeadStore(s => s.gameOver);
+    const balanceUnreachable = useHeadToHeadStore(s => s.balanceUnreachable);
+    const isSending = useHeadToHeadStore(s => s.isSending);
+    const { sendAction, leaveLobby } = useHeadToHeadStore.getState();
+
+    const [selected, setSelected] = useState<string[]>([]);
+    const [drawCardId, setDrawCardId] = useState('');
+    const [recallFloor, setRecallFloor] = useState('');
+
+    const drawableCards = useMemo<CardDefinition[]>(() =>
+        settings ? (scenarioDeck(settings.scenario, settings.deck)?.cards ?? [...playableCardDefinitions]) : [],
+    [settings]);
+
+    if (!seat) return null;
+    const otherSeats = seats.filter(s => s.role !== seat.role);
+    const openSeats = seats.filter(s => !s.joined).length;
+
+    const header = (
+        <div className="mb-4 flex w-full max-w-5xl flex-wrap items-center gap-3 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+            <Users className="h-5 w-5 text-emerald-400" />
+            <span className="font-semibold">Head-to-head · Lobby <span className="font-mono tracking-widest">{seat.code}</span></span>
+            <span className="text-sm text-slate-300">You play {roleLabel(seat.role)}</span>
+            {otherSeats.map(other => (
+                <span key={other.role} className={`flex items-center gap-1 text-sm ${other.connected ? 'text-emerald-400' : 'text-amber-400'}`}>
+                    {other.connected ? <Wifi className="h-4 w-4" /> : <WifiOff className="h-4 w-4" />}
+                    {roleLabel(other.role)} {!other.joined ? 'not joined yet' : other.connected ? 'connected' : 'disconnected'}
+                </span>
+            ))}
+            {status === 'reconnecting' && <span className="flex items-center gap-1 text-sm text-amber-400"><RefreshCw className="h-4 w-4 animate-spin" /> Reconnecting…</span>}
+            <Button size="sm" variant="outline" onClick={leaveLobby} className="ml-auto border-slate-600 text-slate-300 hover:bg-slate-700">
+                <LogOut className="mr-1 h-4 w-4" /> Leave
+            </Button>
+        </div>
+    );
+
+    if (!game) {
+        return (
+            <div className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-br from-slate-800 via-slate-900 to-black p-6 text-white">
+                {header}
+                <p className="mb-2 text-slate-300">{status === 'connecting' ? 'Connecting to the lobby…' : `Share this code with ${otherSeats.length > 1 ? 'the other players' : 'your opponent'}:`}</p>
+                <p className="mb-4 font-mono text-5xl font-bold tracking-[0.3em] text-emerald-400">{seat.code}</p>
+                {openSeats > 0 && seats.length > 2 && <p className="mb-2 text-sm text-slate-300">Waiting for {openSeats} more of {seats.length} players.</p>}
+                <p className="max-w-md text-center text-sm text-slate-400">
+                    They choose &quot;Join a Friend&quot; on the title screen and enter it. To try it alone, open this page in further tabs.
+                </p>
+            </div>
+        );
+    }
+
+    const rules = rulesOf(game);
+    const players = game.players ?? [];
+    const me = players.find(p => p.id === seat.playerId);
+    const opponents = players.filter(p => p.id !== seat.playerId);
+    // With three or four players the lead's proposal is put to a vote instead of countered.
+    const isRoundTable = players.length > 2;
+    const currentPlayer = players[game.currentPlayerIndex];
+    const isMyTurn = currentPlayer?.id === seat.playerId && game.phase === GamePhase.Playing;
+    const floor = game.floors?.find(f => f.floorNumber === game.currentFloor);
+    const score = scoringEngine.currentScore(game);
+    const standings = roleStandings(players.map(p => p.role), game.floors ?? [], score, rules, axisTotals(game.floors ?? [], scenarioAxisBaseline(game.scenarioId)));
+    const proposalOnTable = [...(floor?.proposalA ?? []), ...(floor?.proposalB ?? [])];
+    const isVoteOpen = isRoundTable && proposalOnTable.length > 0;
+    // Everyone but the proposer votes.
+    const voters = isVoteOpen ? players.filter(p => p.id !== proposalOnTable[0].ownerId) : [];
+    const scenario = getScenario(game.scenarioId);
+    const recallableFloors = (game.floors ?? []).filter(f =>
+        f.status === FloorStatus.Agreed && f.spanOf === undefined && f.floorNumber < game.currentFloor && f.floorNumber <= rules.recallMaxFloor);
+
+    const send = async (action: GameAction) => {
+        const result = await sendAction(action);
+        if (!result.isValid) toast({ title: 'Move not allowed', description: result.reason, variant: 'destructive' });
+        return result.isValid;
+    };
+    const playSelected = async (type: 'PROPOSE_CARD' | 'COUNTER_PROPOSE') => {
+        const [instanceId, ...extraInstanceIds] = selected;
+        if (!instanceId) return;
+        if (await send({ type, playerId: seat.playerId, instanceId, extraInstanceIds })) setSelected([]);
+    };
+    const toggle = (instanceId: string) =>
+        setSelected(current => current.includes(instanceId) ? current.filter(id => id !== instanceId) : [...current, instanceId]);
+
+    return (
+        <div className="flex min-h-screen flex-col items-center bg-gradient-to-br from-slate-800 via-slate-900 to-black p-6 text-white">
+            {header}
+            <div className="grid w-full max-w-5xl grid-cols-1 gap-4 md:grid-cols-3">
+                <div className="space-y-4 md:col-span-2">
+                    <div className="flex flex-wrap items-center gap-4 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                        <span className="flex items-center gap-1"><Layers className="h-4 w-4 text-cyan-400" /> Floor {game.currentFloor} of {rules.maxStories}</span>
+                        <span className="flex items-center gap-1"><Scale className="h-4 w-4 text-emerald-400" /> Score {formatScore(score)} (balanced within ±{rules.balanceThreshold}{rules.axisBalanceThreshold !== undefined && `, ±${rules.axisBalanceThreshold} per axis`})</span>
+                        <span className="text-sm text-slate-400">{scenario.label}</span>
+                        <span className={`ml-auto text-sm font-semibold ${isMyTurn ? 'text-emerald-400' : 'text-slate-400'}`}>
+                            {game.phase !== GamePhase.Playing ? 'Game over' : isMyTurn ? 'Your move' : `Waiting for ${currentPlayer?.name ?? 'opponent'}`}
+                        </span>
+                    </div>
+
+                    {isRoundTable ? (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="min-h-40 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                                <p className="mb-2 text-sm font-medium text-slate-300">Proposal</p>
+                                <div className="flex flex-wrap gap-2">
+                                    {proposalOnTable.map(card => <CardComponent key={card.instanceId} card={card} isPlayed />)}
+                                    {!isVoteOpen && <p className="text-xs text-slate-500">None yet</p>}
+                                </div>
+                            </div>
+                            <div className="min-h-40 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                                <p className="mb-2 text-sm font-medium text-slate-300">Votes (a majority of the other players carries it)</p>
+                                <ul className="space-y-1 text-sm">
+                                    {voters.map(p => {
+                                        const vote = floor?.votes?.[p.id];
+                                        return (
+                                            <li key={p.id} className="flex items-center gap-2 text-slate-300">
+                                                {vote === true ? <CheckCircle2 className="h-4 w-4 text-emerald-400" /> : vote === false ? <XCircle className="h-4 w-4 text-red-400" /> : <span className="h-4 w-4" />}
+                                                {p.name}{vote === undefined && p.id === currentPlayer?.id && <span className="text-xs text-slate-500">(voting)</span>}
+                                            </li>
+                                        );
+                                    })}
+                                    {!isVoteOpen && <li className="text-xs text-slate-500">No proposal on the table</li>}
+                                </ul>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-3">
+                            {([['Proposal', floor?.proposalA], ['Counter', floor?.proposalB]] as const).map(([title, cards]) => (
+                                <div key={title} className="min-h-40 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                                    <p className="mb-2 text-sm font-medium text-slate-300">{title}</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {cards?.map(card => <CardComponent key={card.instanceId} card={card} isPlayed />)}
+                                        {!cards?.length && <p className="text-xs text-slate-500">None yet</p>}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                        <p className="mb-2 text-sm font-medium text-slate-300">
+                            Your hand ({me?.hand.length ?? 0}) · {me?.recallTokens ?? 0} recall tokens
+                            {opponents.map(p => <span key={p.id} className="ml-2 text-slate-500">{p.name} holds {p.hand.length} cards</span>)}
+                        </p>
+                        <div className="mb-3 flex flex-wrap gap-2">
+                            {me?.hand.map(card => (
+                                <div key={card.instanceId} role="button" tabIndex={0} onClick={() => toggle(card.instanceId)} onKeyDown={e => e.key === 'Enter' && toggle(card.instanceId)}>
+                                    <CardComponent card={card} isSelected={selected.includes(card.instanceId)} />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <Button size="sm" disabled={!isMyTurn || isSending || selected.length === 0} onClick={() => playSelected('PROPOSE_CARD')}>Propose</Button>
+                            {!isRoundTable && <Button size="sm" disabled={!isMyTurn || isSending || selected.length === 0} onClick={() => playSelected('COUNTER_PROPOSE')}>Counter</Button>}
+                            <Button size="sm" disabled={!isMyTurn || isSending} onClick={() => send({ type: 'ACCEPT_PROPOSAL', playerId: seat.playerId })}>{isVoteOpen ? 'Vote for' : 'Accept'}</Button>
+                            <Button size="sm" variant="outline" disabled={!isMyTurn || isSending} onClick={() => send({ type: 'PASS_PROPOSAL', playerId: seat.playerId })} className="border-slate-600 text-slate-300">{isVoteOpen ? 'Vote against' : 'Pass'}</Button>
+                            {settings?.deckMode === 'openDraft' ? (
+                                <>
+                                    <select value={drawCardId} onChange={e => setDrawCardId(e.target.value)} aria-label="Card to draw"
+                                        className="rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-sm text-slate-200">
+                                        <option value="">Card to draw…</option>
+                                        {drawableCards.map(card => <option key={card.id} value={card.id}>{card.name}</option>)}
+                                    </select>
+                                    <Button size="sm" variant="outline" disabled={!isMyTurn || isSending || !drawCardId} className="border-slate-600 text-slate-300"
+                                        onClick={() => send({ type: 'DRAW_CARD', playerId: seat.playerId, cardId: drawCardId })}>Draw</Button>
+                                </>
+                            ) : (
+                                <Button size="sm" variant="outline" disabled={!isMyTurn || isSending} className="border-slate-600 text-slate-300"
+                                    onClick={() => send({ type: 'DRAW_CARD', playerId: seat.playerId })}>Draw ({game.deck?.length ?? 0} left)</Button>
+                            )}
+                            <select value={recallFloor} onChange={e => setRecallFloor(e.target.value)} aria-label="Floor to recall"
+                                className="rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-sm text-slate-200">
+                                <option value="">Floor to recall…</option>
+                                {recallableFloors.map(f => <option key={f.floorNumber} value={f.floorNumber}>Floor {f.floorNumber}</option>)}
+                            </select>
+                            <Button size="sm" variant="outline" disabled={!isMyTurn || isSending || !recallFloor || (me?.recallTokens ?? 0) === 0} className="border-slate-600 text-slate-300"
+                                onClick={() => send({ type: 'USE_RECALL', playerId: seat.playerId, floorNumber: Number(recallFloor) }).then(ok => ok && setRecallFloor(''))}>Recall</Button>
+                            {balanceUnreachable && game.phase === GamePhase.Playing && (
+                                <Button size="sm" variant="outline" disabled={isSending} className="border-amber-600 text-amber-400"
+                                    onClick={() => send({ type: 'END_GAME_EARLY', playerId: seat.playerId })}>End early ({roleLabel(balanceUnreachable.winner as PlayerRole)} wins)</Button>
+                            )}
+                        </div>
+                    </div>
+
+                    {game.phase === GamePhase.GameOver && (
+                        <div className="rounded-lg border border-emerald-600 bg-slate-800/80 p-4 text-center">
+                            <p className="text-xl font-bold text-emerald-400">{gameOver ? (gameOver.winners.length ? `Winners: ${gameOver.winners.map(roleLabel).join(', ')}` : 'No one wins') : 'Game over'}</p>
+                            <p className="text-slate-300">{gameOver?.reason} Final score {formatScore(gameOver?.finalScore ?? score)}.</p>
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-4">
+                    <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                        <p className="mb-2 text-sm font-medium text-slate-300">Standings</p>
+                        <ul className="space-y-1.5 text-xs">
+                            {standings.map(standing => (
+                                <li key={standing.role} title={STAKEHOLDERS[standing.role].objective} className="flex items-center justify-between gap-2 text-slate-300">
+                                    <span className="flex items-center gap-1.5">
+                                        {standing.met ? <CheckCircle2 className="h-4 w-4 text-emerald-400" /> : <XCircle className="h-4 w-4 text-slate-500" />}
+                                        {roleLabel(standing.role)}{standing.role === seat.role && ' (you)'}
+                                    </span>
+                                    <span className={standing.met ? 'text-emerald-400' : 'text-slate-400'}>{standing.detail}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                        <p className="mb-2 text-sm font-medium text-slate-300">Building</p>
+                        <ul className="max-h-64 space-y-0.5 overflow-y-auto text-xs text-slate-300 custom-scrollbar">
+                            {(game.floors ?? []).filter(f => f.status !== FloorStatus.Pending).map(f => (
+                                <li key={f.floorNumber} className="flex justify-between gap-2">
+                                    <span>{f.floorNumber}. {f.status === FloorStatus.Agreed ? (f.spanOf ? `(part of floor ${f.spanOf})` : describeBundle(floorCards(f))) : f.status}</span>
+                                    {f.status === FloorStatus.Agreed && !f.spanOf && <span>{formatScore(floorScoreImpact(f))}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                        <p className="mb-2 text-sm font-medium text-slate-300">Log</p>
+                        <ul className="max-h-80 space-y-0.5 overflow-y-auto text-xs text-slate-400 custom-scrollbar">
+                            {log.map((line, index) => <li key={index}>{line}</li>)}
+                        </ul>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default HeadToHeadGame;
@@ -19,12 +19,10 @@ import RenderCard from '@/components/game/RenderCard';
 // PlayerHandAreaInternal is not directly used by NegotiationPanel in my F.4 structure, but was in user's.
 // For now, I'll assume it's not directly here unless NegotiationPanel itself renders a hand.
 // import PlayerHandAreaInternal from './game/PlayerHandArea'; 
-import { logDebug, logError } from '@/utils/logger';
+import { logError } from '@/utils/logger';
 import { deepCopy } from '@/utils/deepCopy';
 
-const LEAD_PLAYER_BLOCK_SIZE = 5;
 const TIMER_ALERT_THRESHOLD = 10;
-const AUTO_PASS_DELAY = 1000;
 
 interface NegotiationPanelProps {
     isMobile?: boolean; // For responsive adjustments if needed by NegotiationPanel itself
@@ -67,17 +65,14 @@ const useNegotiationPanelState = (timerHookValue: number | null): NegotiationSta
     const currentPlayer = useMemo(() => players[currentPlayerIndex] ? deepCopy(players[currentPlayerIndex]) : undefined, [players, currentPlayerIndex]);
     
     const leadPlayer = useMemo(() => {
-        if (players.length < 2) return undefined;
-        const blockNumber = Math.ceil(currentFloor / LEAD_PLAYER_BLOCK_SIZE);
-        const isPlayerALead = blockNumber % 2 === 1; 
-        return players[isPlayerALead ? 0 : 1] ? deepCopy(players[isPlayerALead ? 0 : 1]) : undefined;
+        const lead = usePlayersStore.getState().getLeadPlayer(currentFloor);
+        return lead ? deepCopy(lead) : undefined;
     }, [players, currentFloor]);
 
     const respondingPlayer = useMemo(() => {
-        if (players.length < 2 || !leadPlayer) return undefined;
-        const responder = players.find(p => p.id !== leadPlayer.id);
+        const responder = usePlayersStore.getState().getRespondingPlayer(currentFloor);
         return responder ? deepCopy(responder) : undefined;
-    }, [players, leadPlayer]);
+    }, [players, currentFloor]);
     
     const phaseInfo = useMemo((): PhaseInfo => {
         const localCurrentPlayer = currentPlayer; 
@@ -372,22 +367,6 @@ const NegotiationPanel: React.FC<NegotiationPanelProps> = ({ isMobile }) => {
     // This panel only submits the results from the proposalBasket/counterProposalBasket.
 
     useEffect(() => { setShowTimerAlert(timer !== null && timer <= TIMER_ALERT_THRESHOLD && timer > 0); }, [timer]);
-    useEffect(() => { 
-      let timeoutId: NodeJS.Timeout | null = null;
-      if (timerFromHook === 0 && !isAiTurn && !waitForPlayerAcknowledgement) { // Use timerFromHook
-          timeoutId = setTimeout(() => {
-               const currentIsAiTurn = useGameFlowStore.getState().isAiTurn; 
-               const currentWaitForAck = useGameFlowStore.getState().waitForPlayerAcknowledgement;
-               // Use timerFromHook here as well for the re-check
-               if (timerFromHook === 0 && !currentIsAiTurn && !currentWaitForAck) { 
-                  logDebug("Timer expired, auto-passing.", "NegotiationPanel");
-                  passProposal();
-               }
-          }, AUTO_PASS_DELAY);
-      }
-      return () => { if (timeoutId) clearTimeout(timeoutId); };
-    // Add timerFromHook to dependency array if it's not just 'timer' from panelState
-    }, [timerFromHook, isAiTurn, waitForPlayerAcknowledgement, passProposal]); 
 
     const handleSubmitProposal = useCallback(() => { if (!isAiTurn && !waitForPlayerAcknowledgement && proposalBasket.length > 0) proposeCard(); }, [isAiTurn, proposalBasket, proposeCard, waitForPlayerAcknowledgement]);
     const handleSubmitCounterProposal = useCallback(() => { if (!isAiTurn && !waitForPlayerAcknowledgement && counterProposalBasket.length > 0) counterPropose(); }, [isAiTurn, counterProposalBasket, counterPropose, waitForPlayerAcknowledgement]);
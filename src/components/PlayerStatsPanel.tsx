@@ -1,29 +1,35 @@
 // src/components/PlayerStatsPanel.tsx (Corrected)
 "use client";
-import React from 'react';
-import { Player, PlayerRole, PlayerType } from '@/data/types'; // Import PlayerRole
-import { User, Bot, Users as UsersIcon } from 'lucide-react'; // Changed Users to UsersIcon to avoid conflict
+import React, { useMemo } from 'react';
+import { Player, PlayerType } from '@/data/types';
+import { User, Bot, Users as UsersIcon, Landmark } from 'lucide-react'; // Changed Users to UsersIcon to avoid conflict
+import { useFloorStore } from '@/stores/useFloorStore';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { buildProForma, formatMoney, formatPayback, formatPercent } from '@/engine/finance';
+import { roleLabel } from '@/data/stakeholders';
 
 export interface PlayerStatsPanelProps {
   humanPlayer?: Player;
-  aiPlayer?: Player;
+  opponent?: Player;        // The AI, or in hot-seat games the second person
   currentPlayerId?: string;
 }
 
-const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ humanPlayer, aiPlayer, currentPlayerId }) => {
-  const renderPlayerInfo = (player?: Player, isHuman = false) => {
+const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ humanPlayer, opponent, currentPlayerId }) => {
+  const isHotSeat = opponent?.type === PlayerType.Human;
+  const renderPlayerInfo = (player?: Player, isYou = false) => {
     if (!player) return null;
+    const isHuman = player.type === PlayerType.Human;
     const isActive = player.id === currentPlayerId;
     const bgColor = isActive ? 'bg-sky-700/30' : 'bg-slate-700/50';
     const borderColor = isActive ? 'border-sky-500' : 'border-slate-600';
-    const roleText = player.role === PlayerRole.Developer ? "Developer" : "Community"; // Use imported PlayerRole
+    const roleText = roleLabel(player.role);
 
     return (
       <div className={`p-3 rounded mb-2 border ${borderColor} ${bgColor} transition-all`}>
         <div className="flex items-center justify-between mb-1">
             <p className="font-medium text-slate-100 flex items-center">
                 {isHuman ? <User size={16} className="mr-2 text-sky-400"/> : <Bot size={16} className="mr-2 text-red-400"/>}
-                {player.name} {isHuman && "(You)"}
+                {player.name} {isYou && "(You)"}
             </p>
             {isActive && <span className="text-xs bg-sky-500 text-white px-2 py-0.5 rounded-full">Active</span>}
         </div>
@@ -33,13 +39,30 @@ const PlayerStatsPanel: React.FC<PlayerStatsPanelProps> = ({ humanPlayer, aiPlay
     );
   };
 
+  const floors = useFloorStore(state => state.floors);
+  const minYield = useGameFlowStore(state => state.rules.minDeveloperYieldPct);
+  const proForma = useMemo(() => buildProForma(floors), [floors]);
+  const belowMinimum = minYield > 0 && proForma.yieldPct !== null && proForma.yieldPct < minYield;
+
   return (
     <div className="p-3 border-b border-slate-700 bg-slate-800">
       <h3 className="text-md font-semibold text-slate-200 mb-3 flex items-center">
         <UsersIcon className="h-5 w-5 mr-2 text-slate-400"/>Player Status {/* Corrected to UsersIcon */}
       </h3>
-      {renderPlayerInfo(humanPlayer, true)}
-      {renderPlayerInfo(aiPlayer, false)}
+      {renderPlayerInfo(humanPlayer, !isHotSeat)}
+      {renderPlayerInfo(opponent, false)}
+      <div className="p-3 rounded border border-slate-600 bg-slate-700/50">
+        <p className="font-medium text-slate-100 flex items-center mb-1 text-sm"><Landmark size={16} className="mr-2 text-amber-400"/>Pro Forma</p>
+        <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-xs text-slate-400">
+          <span>Development cost</span><span className="text-right font-semibold text-slate-200">{formatMoney(proForma.totalCost)}</span>
+          <span>Annual cash flow</span><span className="text-right font-semibold text-slate-200">{formatMoney(proForma.annualCashFlow)}</span>
+          <span>Yield</span>
+          <span className={`text-right font-semibold ${belowMinimum ? 'text-red-400' : 'text-slate-200'}`} title={minYield > 0 ? `Developer needs at least ${minYield}% when the building is finished` : undefined}>
+            {formatPercent(proForma.yieldPct)}{minYield > 0 && ` / ${minYield}% min`}
+          </span>
+          <span>Payback</span><span className="text-right font-semibold text-slate-200">{formatPayback(proForma.paybackYears)}</span>
+        </div>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,153 @@
+// src/components/ReplayViewer.tsx
+// Steps through a recorded game by re-running its actions through the engine.
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Film, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { FloorStatus } from '@/data/types';
+import { getScenario } from '@/data/scenarios';
+import { GameAction } from '@/engine/GameEngine';
+import { describeBundle, floorCards, floorScoreImpact } from '@/engine/bundles';
+import { ReplayFile, runReplay, findFirstStepOnFloor } from '@/replay/replay';
+
+export interface ReplayViewerProps {
+  replay: ReplayFile;
+  onExit: () => void;
+}
+
+const describeAction = (action: GameAction): string => {
+  switch (action.type) {
+    case 'START_GAME': return `Game started (human: ${action.humanRole}, AI: ${action.aiRole}${action.deckMode === 'drawPile' ? ', draw pile' : action.deckMode === 'drafted' ? ', drafted decks' : ''}${action.scenario ? `, ${getScenario(action.scenario).label}` : ''})`;
+    case 'RESET_GAME': return 'Game reset';
+    case 'PROPOSE_CARD': return `${action.playerId} proposes ${[action.instanceId, ...(action.extraInstanceIds ?? [])].join(' + ')}`;
+    case 'COUNTER_PROPOSE': return `${action.playerId} counters with ${[action.instanceId, ...(action.extraInstanceIds ?? [])].join(' + ')}`;
+    case 'ACCEPT_PROPOSAL': return `${action.playerId} accepts`;
+    case 'PASS_PROPOSAL': return `${action.playerId} passes`;
+    case 'USE_RECALL': return `${action.playerId} recalls floor ${action.floorNumber}`;
+    case 'DRAW_CARD': return `${action.playerId} draws a card`;
+    case 'DISCARD_CARD': return `${action.playerId} discards ${action.instanceId}`;
+    case 'TIMEOUT': return `${action.playerId} runs out of time`;
+    default: return (action as GameAction).type;
+  }
+};
+
+const formatScore = (score: number) => (score > 0 ? `+${score}` : score.toString());
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+  const steps = useMemo(() => runReplay(replay), [replay]);
+  const [stepIndex, setStepIndex] = useState(0);
+
+  const lastIndex = steps.length - 1;
+  const step = steps[Math.min(stepIndex, lastIndex)];
+  const floors = step?.state.floors ?? [];
+
+  // Scenario baseline and floor score plus any SCORE_ADJUSTED penalties emitted up to and including this step.
+  const baselineScore = step?.state.baselineScore ?? 0;
+  const score = useMemo(() => {
+    const floorScore = floors.reduce((sum, f) => sum + floorScoreImpact(f), 0);
+    const adjustments = steps.slice(0, stepIndex + 1).reduce((sum, s) =>
+      sum + s.events.reduce((acc, e) => (e.type === 'SCORE_ADJUSTED' ? acc + e.amount : acc), 0), 0);
+    return baselineScore + floorScore + adjustments;
+  }, [baselineScore, floors, steps, stepIndex]);
+
+  const handleScrub = (floorNumber: number) => {
+    const target = findFirstStepOnFloor(steps, floorNumber);
+    if (target !== -1) setStepIndex(target);
+  };
+
+  if (!step) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center bg-slate-900 text-slate-300">
+        <p className="mb-4">This replay contains no playable steps.</p>
+        <Button variant="outline" onClick={onExit}><LogOut className="mr-2 h-4 w-4" /> Back</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-slate-900 text-slate-50">
+      <header className="p-3 border-b border-slate-700 bg-slate-800/70 flex justify-between items-center">
+        <div className="flex items-center">
+          <Film className="h-6 w-6 text-sky-400 mr-2" />
+          <h1 className="text-lg font-bold">Replay</h1>
+          <span className="ml-3 text-xs text-slate-400">Seed {replay.seed} · recorded {new Date(replay.recordedAt).toLocaleString()}</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={onExit} className="border-slate-600 hover:bg-slate-700">
+          <LogOut className="h-4 w-4 mr-1.5" /> Exit Replay
+        </Button>
+      </header>
+
+      <div className="p-4 border-b border-slate-700 bg-slate-800 space-y-3">
+        <div className="flex items-center justify-center gap-2">
+          <Button size="sm" variant="outline" className="border-slate-600" onClick={() => setStepIndex(0)} disabled={stepIndex === 0}><ChevronsLeft className="h-4 w-4" /></Button>
+          <Button size="sm" variant="outline" className="border-slate-600" onClick={() => setStepIndex(i => Math.max(0, i - 1))} disabled={stepIndex === 0}><ChevronLeft className="h-4 w-4" /></Button>
+          <span className="text-sm text-slate-300 w-32 text-center">Step {stepIndex + 1} / {steps.length}</span>
+          <Button size="sm" variant="outline" className="border-slate-600" onClick={() => setStepIndex(i => Math.min(lastIndex, i + 1))} disabled={stepIndex === lastIndex}><ChevronRight className="h-4 w-4" /></Button>
+          <Button size="sm" variant="outline" className="border-slate-600" onClick={() => setStepIndex(lastIndex)} disabled={stepIndex === lastIndex}><ChevronsRight className="h-4 w-4" /></Button>
+        </div>
+        <label className="flex items-center gap-3 text-xs text-slate-400">
+          <span className="whitespace-nowrap">Floor {step.state.currentFloor}</span>
+          <input
+            type="range"
+            min={1}
+            max={replay.rules.maxStories}
+            value={Math.max(1, Math.min(step.state.currentFloor, replay.rules.maxStories))}
+            onChange={e => handleScrub(Number(e.target.value))}
+            className="flex-grow accent-sky-500"
+          />
+          <span className="whitespace-nowrap">of {replay.rules.maxStories}</span>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_320px] flex-grow overflow-hidden">
+        <main className="p-4 overflow-y-auto">
+          <div className="grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-6 gap-2">
+            {floors.map(floor => {
+              const impact = floorScoreImpact(floor);
+              const agreedName = floor.winnerCard ? describeBundle(floorCards(floor)) : undefined;
+              const isCurrent = floor.floorNumber === step.state.currentFloor;
+              const tone = floor.status !== FloorStatus.Agreed ? 'border-slate-700 bg-slate-800/60 text-slate-500'
+                : impact > 0 ? 'border-amber-600 bg-amber-950/40 text-amber-300'
+                : impact < 0 ? 'border-emerald-600 bg-emerald-950/40 text-emerald-300'
+                : 'border-slate-600 bg-slate-700/50 text-slate-300';
+              return (
+                <div key={floor.floorNumber} className={`rounded border p-2 text-xs ${tone} ${isCurrent ? 'ring-2 ring-sky-400' : ''}`}>
+                  <p className="font-semibold">Floor {floor.floorNumber}</p>
+                  <p className="truncate" title={agreedName}>{agreedName ?? floor.status}</p>
+                  {floor.winnerCard && <p className="font-bold">{formatScore(impact)}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </main>
+        <aside className="border-l border-slate-700 bg-slate-800 p-4 space-y-3 overflow-y-auto">
+          <div>
+            <p className="text-xs text-slate-400">Balance</p>
+            <p className={`text-2xl font-bold ${score > 0 ? 'text-amber-400' : score < 0 ? 'text-emerald-400' : 'text-slate-300'}`}>{formatScore(score)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400">Action</p>
+            <p className="text-sm text-slate-200">{describeAction(step.action)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-slate-400 mb-1">Events</p>
+            <ul className="space-y-1 text-xs text-slate-300">
+              {step.events.map((event, i) => (
+                <li key={i} className={event.type === 'ERROR' ? 'text-red-400' : ''}>
+                  {event.type}{event.type === 'ERROR' ? `: ${event.message}` : ''}
+                  {event.type === 'SCORE_ADJUSTED' ? `: ${event.reason} (${formatScore(event.amount)})` : ''}
+                  {event.type === 'BALANCE_UNREACHABLE' ? `: ${event.reason}` : ''}
+                  {event.type === 'DECK_RESHUFFLED' ? `: ${event.cards} cards` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -2,10 +2,24 @@
 "use client";
 import React from 'react';
 import { useBuildingStore } from '@/stores/useBuildingStore';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { usePlayersStore } from '@/stores/usePlayersStore';
+import { roleStandings } from '@/engine/standings';
+import { AXIS_LABELS, axisTotals, checkAxisBalance, scenarioAxisBaseline } from '@/engine/axes';
+import { AXIS_COLORS } from '@/components/AxisRadarChart';
+import { roleLabel, STAKEHOLDERS } from '@/data/stakeholders';
 import { Scale } from 'lucide-react';
 
 const ScoreDisplay: React.FC = () => {
   const netScore = useBuildingStore(state => state.getCurrentNetScore());
+  const floors = useFloorStore(state => state.floors);
+  const rules = useGameFlowStore(state => state.rules);
+  const players = usePlayersStore(state => state.players);
+  const scenarioId = useGameFlowStore(state => state.scenarioId);
+  const totals = React.useMemo(() => axisTotals(floors, scenarioAxisBaseline(scenarioId)), [floors, scenarioId]);
+  const axes = React.useMemo(() => checkAxisBalance(totals, rules), [totals, rules]);
+  const standings = React.useMemo(() => roleStandings(players.map(p => p.role), floors, netScore, rules, totals), [players, floors, netScore, rules, totals]);
   const scoreColor = netScore > 0 ? 'text-amber-400' : netScore < 0 ? 'text-emerald-400' : 'text-slate-300';
 
   return (
@@ -13,7 +27,21 @@ const ScoreDisplay: React.FC = () => {
       <Scale className={`h-4 w-4 ${scoreColor} flex-shrink-0`} />
       <span className={`font-bold ${scoreColor}`}>{netScore >= 0 ? "+" : ""}{netScore}</span>
       <span className="text-xs text-slate-400 ml-1">Balance</span>
+      {/* The net score split by impact axis; red when an axis is outside its band */}
+      {axes.map(({ axis, total, within }) => (
+        <span key={axis} title={`${AXIS_LABELS[axis]}${rules.axisBalanceThreshold !== undefined ? ` (balanced within ±${rules.axisBalanceThreshold})` : ''}`}
+          className={`text-xs ml-2 ${within ? AXIS_COLORS[axis].text : 'text-red-400'}`}>
+          {AXIS_LABELS[axis].slice(0, 4)} {total > 0 ? "+" : ""}{total}
+        </span>
+      ))}
+      {/* Each role's standing against its own objective */}
+      {standings.map(standing => (
+        <span key={standing.role} title={`${STAKEHOLDERS[standing.role].objective} ${standing.detail}.`}
+          className={`text-xs ml-2 ${standing.met ? 'text-emerald-400' : 'text-slate-400'}`}>
+          {roleLabel(standing.role)} {standing.value > 0 ? "+" : ""}{standing.value}
+        </span>
+      ))}
     </div>
   );
 };
-export default ScoreDisplay;
\ No newline at end of file
+export default ScoreDisplay;
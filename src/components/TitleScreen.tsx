@@ -2,23 +2,128 @@
 // Added onStartGame prop.
 
 'use client';
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useGameFlowStore } from "@/stores/useGameFlowStore";
-import { PlayerRole } from "@/data/types"; 
+import { DeckFile, DeckMode, PlayerNames, PlayerRole, RuleSet, TimeoutPolicy } from "@/data/types"; 
 import { Button } from "@/components/ui/button"; // Assuming path is correct
-import { Building, Users, Scale, Layers, ArrowRightLeft, RefreshCcw } from 'lucide-react';
-import { RECALL_MAX_FLOOR } from "@/data/constants";
+import { Building, Users, Scale, Layers, ArrowRightLeft, RefreshCcw, Film, PlayCircle, Bot, SlidersHorizontal, Pencil, MapPin } from 'lucide-react';
+import { RULE_SET_PRESETS, RULE_LIMITS, STANDARD_RULES, validateRuleSet, describeRuleSet, NumericRule } from "@/data/rules";
+import { TIMEOUT_POLICIES } from "@/engine/timeout";
+import { DECK_MODES, playableCardDefinitions } from "@/data/deckData";
+import { hasPrivatePiles } from "@/engine/deck";
+import { DEFAULT_SCENARIO, SCENARIOS, scenarioBaseline, scenarioRules } from "@/data/scenarios";
+import { ReplayFile, parseReplay } from "@/replay/replay";
+import { BUILT_IN_DECK_NAME } from "@/data/decks";
+import { hasSavedGame } from "@/persistence/gameSnapshot";
+import { loadSavedDecks } from "@/persistence/deckLibrary";
+import DeckEditor from "@/components/DeckEditor";
+import { AI_STRATEGIES, DIFFICULTY_PRESETS } from "@/ai/strategies";
+import { LobbySettings } from "@/multiplayer/protocol";
+import { MAX_PLAYERS, MIN_PLAYERS, STAKEHOLDERS, extraRolesFor } from "@/data/stakeholders";
+import { ValidationResult } from "@/utils/validation";
+
+export interface AIOpponentSettings {
+  difficulty: string;
+  strategyName?: string; // Overrides the difficulty's default strategy when set
+}
 
 // Define Props for TitleScreen
 export interface TitleScreenProps { // Exporting if App.tsx needs to import it (optional)
-  onStartGame: (selectedRole: PlayerRole) => void;
+  // hotSeatNames is null against the AI; otherwise both roles are played by people sharing this device
+  onStartGame: (selectedRole: PlayerRole, aiSettings: AIOpponentSettings, rules: RuleSet, deckMode: DeckMode, deck: DeckFile | null, scenarioId: string, hotSeatNames: PlayerNames | null) => void;
+  onLoadReplay?: (replay: ReplayFile) => void;
+  onResumeGame?: () => void;
+  onHostGame?: (settings: LobbySettings) => Promise<ValidationResult>; // Opens a head-to-head lobby
+  onJoinGame?: (code: string) => Promise<ValidationResult>;
+  lobbyError?: string | null;  // Why the last head-to-head lobby was closed, if it was
 }
 
-const TitleScreen: React.FC<TitleScreenProps> = ({ onStartGame }) => {
+const TitleScreen: React.FC<TitleScreenProps> = ({ onStartGame, onLoadReplay, onResumeGame, onHostGame, onJoinGame, lobbyError }) => {
     const [selectedRole, setSelectedRole] = useState<PlayerRole>(PlayerRole.Community);
+    const [canResume, setCanResume] = useState(false);
+    const [difficulty, setDifficulty] = useState('normal');
+    const [strategyOverride, setStrategyOverride] = useState('');
+    const [isHotSeat, setIsHotSeat] = useState(false);
+    const [hotSeatNames, setHotSeatNames] = useState<PlayerNames>({});
+    const activeStrategy = AI_STRATEGIES[strategyOverride || DIFFICULTY_PRESETS[difficulty].strategyName];
+    const [scenarioId, setScenarioId] = useState(DEFAULT_SCENARIO);
+    const scenario = SCENARIOS[scenarioId];
+    const excludedCardNames = (scenario.excludedCardIds ?? [])
+        .map(id => playableCardDefinitions.find(card => card.id === id)?.name ?? id);
+    const [rulePreset, setRulePreset] = useState<string>('standard'); // A RULE_SET_PRESETS key, or 'custom'
+    const [customRules, setCustomRules] = useState<RuleSet>(STANDARD_RULES);
+    const chosenRules = rulePreset === 'custom' ? customRules : RULE_SET_PRESETS[rulePreset].rules;
+    const selectedRules = scenarioRules(scenarioId, chosenRules); // The scenario may replace or cap the chosen rules
+    const rulesCheck = validateRuleSet(selectedRules);
+    const [deckMode, setDeckMode] = useState<DeckMode>('openDraft');
+    const [savedDecks, setSavedDecks] = useState<DeckFile[]>([]);
+    const [deckName, setDeckName] = useState(BUILT_IN_DECK_NAME);
+    const [isEditingDecks, setIsEditingDecks] = useState(false);
+    const selectedDeck = savedDecks.find(deck => deck.name === deckName) ?? null; // null plays the built-in deck
+
+    // localStorage is only readable after mount
+    useEffect(() => {
+        setCanResume(hasSavedGame());
+        setSavedDecks(loadSavedDecks());
+    }, []);
+    const [replayError, setReplayError] = useState<string | null>(null);
+    const replayInputRef = useRef<HTMLInputElement>(null);
+    const [lobbyCode, setLobbyCode] = useState('');
+    const [friendError, setFriendError] = useState<string | null>(null);
+    const [isContactingLobby, setIsContactingLobby] = useState(false);
+    const [tablePlayers, setTablePlayers] = useState(MIN_PLAYERS); // Seats in a hosted lobby; past two, extra stakeholders join
+    const canHost = rulesCheck.isValid && (deckMode === 'openDraft' || deckMode === 'drawPile'); // Drafted decks are single-player for now
+
+    const canDraft = !isHotSeat; // The draft board deals picks between a person and the AI
+    const canStart = rulesCheck.isValid && (canDraft || !hasPrivatePiles(deckMode));
 
     const handleStart = () => {
-        onStartGame(selectedRole); // Call the prop
+        if (!canStart) return;
+        onStartGame(selectedRole, { difficulty, strategyName: strategyOverride || undefined }, selectedRules, deckMode, selectedDeck, scenarioId, isHotSeat ? hotSeatNames : null);
+    };
+
+    const contactLobby = async (request: () => Promise<ValidationResult>) => {
+        setIsContactingLobby(true);
+        const result = await request();
+        setIsContactingLobby(false);
+        setFriendError(result.isValid ? null : result.reason);
+    };
+
+    const handleHost = () => {
+        if (!onHostGame || !canHost) return;
+        contactLobby(() => onHostGame({ hostRole: selectedRole, extraRoles: extraRolesFor(tablePlayers), rules: selectedRules, deckMode, scenario: scenarioId, deck: selectedDeck }));
+    };
+
+    const handleJoin = () => {
+        if (!onJoinGame || !lobbyCode.trim()) return;
+        contactLobby(() => onJoinGame(lobbyCode));
+    };
+
+    const editCustomRules = () => {
+        setCustomRules(chosenRules); // Start from whatever was selected
+        setRulePreset('custom');
+    };
+
+    const setCustomRule = (key: NumericRule, value: string) => {
+        setCustomRules(rules => ({ ...rules, [key]: value === '' ? NaN : Number(value) }));
+    };
+
+    const closeDeckEditor = () => {
+        setIsEditingDecks(false);
+        setSavedDecks(loadSavedDecks()); // The chosen deck may have been edited, renamed or deleted
+    };
+
+    const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ""; // Allow re-selecting the same file
+        if (!file || !onLoadReplay) return;
+        const result = parseReplay(await file.text());
+        if (!result.isValid || !result.replay) {
+            setReplayError(result.reason);
+            return;
+        }
+        setReplayError(null);
+        onLoadReplay(result.replay);
     };
 
     return (
@@ -44,7 +149,7 @@ const TitleScreen: React.FC<TitleScreenProps> = ({ onStartGame }) => {
                     </li>
                     <li className="flex items-start">
                         <RefreshCcw className="mr-2 h-5 w-5 text-emerald-400 mt-0.5 flex-shrink-0" />
-                        <span>Use limited recall tokens to strategically reopen past floors (below floor {RECALL_MAX_FLOOR}).</span>
+                        <span>Use limited recall tokens to strategically reopen past floors (below floor {selectedRules.recallMaxFloor}).</span>
                     </li>
                      <li className="flex items-start">
                         <Scale className="mr-2 h-5 w-5 text-emerald-400 mt-0.5 flex-shrink-0" />
@@ -53,6 +158,15 @@ const TitleScreen: React.FC<TitleScreenProps> = ({ onStartGame }) => {
                 </ul>
             </div>
             <div className="space-y-4 mb-8 w-full max-w-sm">
+                {onResumeGame && canResume && (
+                    <Button
+                        size="lg"
+                        onClick={onResumeGame}
+                        className="w-full bg-sky-600 hover:bg-sky-500 text-lg font-semibold tracking-wide py-3 shadow-lg"
+                    >
+                        <PlayCircle className="mr-2 h-5 w-5" /> Resume Game
+                    </Button>
+                )}
                 <p className="text-center font-medium text-slate-300">Choose Your Role:</p>
                 <div className="flex gap-4">
                     <Button
@@ -70,17 +184,289 @@ const TitleScreen: React.FC<TitleScreenProps> = ({ onStartGame }) => {
                         <Building className="mr-2 h-5 w-5" /> Developer
                     </Button>
                 </div>
+                <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 space-y-2">
+                    <p className="flex items-center justify-center text-sm font-medium text-slate-300">
+                        <Bot className="mr-2 h-4 w-4 text-purple-400" /> Opponent
+                    </p>
+                    <div className="flex gap-2">
+                        {[false, true].map(hotSeat => (
+                            <Button
+                                key={String(hotSeat)}
+                                size="sm"
+                                variant={isHotSeat === hotSeat ? "default" : "outline"}
+                                onClick={() => setIsHotSeat(hotSeat)}
+                                className={`flex-1 ${isHotSeat === hotSeat ? 'bg-purple-600 hover:bg-purple-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {hotSeat ? 'Friend on this device' : 'AI'}
+                            </Button>
+                        ))}
+                    </div>
+                    {isHotSeat ? (
+                        <>
+                            {[PlayerRole.Developer, PlayerRole.Community].map(role => (
+                                <input
+                                    key={role}
+                                    value={hotSeatNames[role] ?? ''}
+                                    onChange={e => setHotSeatNames(names => ({ ...names, [role]: e.target.value }))}
+                                    placeholder={`${role === PlayerRole.Developer ? 'Developer' : 'Community'} player's name`}
+                                    aria-label={`${role} player's name`}
+                                    maxLength={24}
+                                    className="w-full rounded-md border border-slate-600 bg-slate-900 px-2 py-1.5 text-sm text-slate-200"
+                                />
+                            ))}
+                            <p className="text-xs text-slate-400 text-center">Take turns on one device; each hand stays covered until its owner uncovers it.</p>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex gap-2">
+                                {Object.entries(DIFFICULTY_PRESETS).map(([level, preset]) => (
+                                    <Button
+                                        key={level}
+                                        size="sm"
+                                        variant={difficulty === level ? "default" : "outline"}
+                                        onClick={() => setDifficulty(level)}
+                                        className={`flex-1 ${difficulty === level ? 'bg-purple-600 hover:bg-purple-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                                    >
+                                        {preset.label}
+                                    </Button>
+                                ))}
+                            </div>
+                            <select
+                                value={strategyOverride}
+                                onChange={e => setStrategyOverride(e.target.value)}
+                                className="w-full rounded-md border border-slate-600 bg-slate-900 px-2 py-1.5 text-sm text-slate-200"
+                            >
+                                <option value="">Style: {AI_STRATEGIES[DIFFICULTY_PRESETS[difficulty].strategyName].label} (difficulty default)</option>
+                                {Object.values(AI_STRATEGIES).map(strategy => (
+                                    <option key={strategy.name} value={strategy.name}>Style: {strategy.label}</option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-slate-400 text-center">{activeStrategy.description}</p>
+                        </>
+                    )}
+                </div>
+                <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 space-y-2">
+                    <p className="flex items-center justify-center text-sm font-medium text-slate-300">
+                        <MapPin className="mr-2 h-4 w-4 text-rose-400" /> Site
+                    </p>
+                    <div className="flex gap-2">
+                        {Object.entries(SCENARIOS).map(([id, option]) => (
+                            <Button
+                                key={id}
+                                size="sm"
+                                variant={scenarioId === id ? "default" : "outline"}
+                                onClick={() => setScenarioId(id)}
+                                className={`flex-1 ${scenarioId === id ? 'bg-rose-600 hover:bg-rose-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {option.label}
+                            </Button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-400 text-center">{scenario.description}</p>
+                    <ul className="text-xs text-slate-400 space-y-0.5">
+                        <li>Starting score: {scenarioBaseline(scenarioId)} (mandatory site requirements)</li>
+                        {scenario.heightCap !== undefined && <li>Height capped at {scenario.heightCap} floors</li>}
+                        {excludedCardNames.length > 0 && <li>Not allowed: {excludedCardNames.join(', ')}</li>}
+                        {scenario.zoning.map(requirement => <li key={requirement.label}>Zoning: {requirement.label}</li>)}
+                    </ul>
+                </div>
+                <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 space-y-2">
+                    <p className="flex items-center justify-center text-sm font-medium text-slate-300">
+                        <SlidersHorizontal className="mr-2 h-4 w-4 text-cyan-400" /> Rules
+                    </p>
+                    {scenario.rules ? (
+                        <p className="text-xs text-slate-400 text-center">Set by the {scenario.label.toLowerCase()}: {describeRuleSet(selectedRules)}, balanced within ±{selectedRules.balanceThreshold}{selectedRules.axisBalanceThreshold !== undefined && ` (±${selectedRules.axisBalanceThreshold} per axis)`}.</p>
+                    ) : (
+                        <>
+                            <div className="flex gap-2">
+                                {Object.entries(RULE_SET_PRESETS).map(([name, preset]) => (
+                                    <Button
+                                        key={name}
+                                        size="sm"
+                                        variant={rulePreset === name ? "default" : "outline"}
+                                        onClick={() => setRulePreset(name)}
+                                        className={`flex-1 ${rulePreset === name ? 'bg-cyan-600 hover:bg-cyan-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                                    >
+                                        {preset.label}
+                                    </Button>
+                                ))}
+                                <Button
+                                    size="sm"
+                                    variant={rulePreset === 'custom' ? "default" : "outline"}
+                                    onClick={editCustomRules}
+                                    className={`flex-1 ${rulePreset === 'custom' ? 'bg-cyan-600 hover:bg-cyan-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                                >
+                                    Custom
+                                </Button>
+                            </div>
+                            {rulePreset === 'custom' ? (
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(Object.keys(RULE_LIMITS) as NumericRule[]).map(key => (
+                                        <label key={key} className="flex flex-col text-xs text-slate-400">
+                                            {RULE_LIMITS[key].label}
+                                            <input
+                                                type="number"
+                                                min={RULE_LIMITS[key].min}
+                                                max={RULE_LIMITS[key].max}
+                                                step={RULE_LIMITS[key].step ?? 1}
+                                                value={customRules[key] === undefined || Number.isNaN(customRules[key]) ? '' : customRules[key]}
+                                                onChange={e => setCustomRule(key, e.target.value)}
+                                                className="mt-0.5 rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-sm text-slate-200"
+                                            />
+                                        </label>
+                                    ))}
+                                    <label className="flex flex-col text-xs text-slate-400">
+                                        On timeout
+                                        <select
+                                            value={customRules.timeoutPolicy ?? STANDARD_RULES.timeoutPolicy}
+                                            onChange={e => setCustomRules(rules => ({ ...rules, timeoutPolicy: e.target.value as TimeoutPolicy }))}
+                                            title={TIMEOUT_POLICIES[customRules.timeoutPolicy ?? STANDARD_RULES.timeoutPolicy!].description}
+                                            className="mt-0.5 rounded-md border border-slate-600 bg-slate-900 px-2 py-1 text-sm text-slate-200"
+                                        >
+                                            {(Object.keys(TIMEOUT_POLICIES) as TimeoutPolicy[]).map(policy => (
+                                                <option key={policy} value={policy}>{TIMEOUT_POLICIES[policy].label}</option>
+                                            ))}
+                                        </select>
+                                    </label>
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-400 text-center">{RULE_SET_PRESETS[rulePreset].description}</p>
+                            )}
+                            {selectedRules.maxStories < chosenRules.maxStories && (
+                                <p className="text-xs text-amber-400 text-center">Capped at {selectedRules.maxStories} floors on this site.</p>
+                            )}
+                        </>
+                    )}
+                    {!rulesCheck.isValid && <p className="text-xs text-red-400 text-center">{rulesCheck.reason}</p>}
+                </div>
+                <div className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 space-y-2">
+                    <p className="flex items-center justify-center text-sm font-medium text-slate-300">
+                        <Layers className="mr-2 h-4 w-4 text-emerald-400" /> Deck
+                    </p>
+                    <div className="flex gap-2">
+                        {(Object.entries(DECK_MODES) as [DeckMode, typeof DECK_MODES[DeckMode]][]).map(([mode, info]) => (
+                            <Button
+                                key={mode}
+                                size="sm"
+                                variant={deckMode === mode ? "default" : "outline"}
+                                onClick={() => setDeckMode(mode)}
+                                disabled={!canDraft && hasPrivatePiles(mode)}
+                                className={`flex-1 ${deckMode === mode ? 'bg-emerald-600 hover:bg-emerald-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {info.label}
+                            </Button>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-400 text-center">{DECK_MODES[deckMode].description}</p>
+                    {!canDraft && hasPrivatePiles(deckMode) && <p className="text-xs text-amber-400 text-center">Drafting is only available against the AI.</p>}
+                    <div className="flex gap-2">
+                        <select
+                            value={selectedDeck?.name ?? BUILT_IN_DECK_NAME}
+                            onChange={e => setDeckName(e.target.value)}
+                            aria-label="Card deck"
+                            className="flex-1 rounded-md border border-slate-600 bg-slate-900 px-2 py-1.5 text-sm text-slate-200"
+                        >
+                            <option value={BUILT_IN_DECK_NAME}>Cards: {BUILT_IN_DECK_NAME} (built in)</option>
+                            {savedDecks.map(deck => (
+                                <option key={deck.name} value={deck.name}>Cards: {deck.name} ({deck.cards.length})</option>
+                            ))}
+                        </select>
+                        <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setIsEditingDecks(true)}
+                            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                            <Pencil className="mr-1 h-4 w-4" /> Edit Decks
+                        </Button>
+                    </div>
+                </div>
                 <Button
                     size="lg"
                     onClick={handleStart} // Use local handler
+                    disabled={!canStart}
                     className="w-full bg-emerald-600 hover:bg-emerald-500 text-lg font-semibold tracking-wide py-3 shadow-lg hover:shadow-emerald-500/30 transition-shadow"
                 >
-                    Start Game as {selectedRole === PlayerRole.Community ? 'Community' : 'Developer'}
+                    {isHotSeat ? 'Start Game on This Device' : `Start Game as ${selectedRole === PlayerRole.Community ? 'Community' : 'Developer'}`}
                 </Button>
+                {onLoadReplay && (
+                    <>
+                        <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+                        <Button
+                            variant="outline"
+                            onClick={() => replayInputRef.current?.click()}
+                            className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                            <Film className="mr-2 h-5 w-5" /> Watch a Replay
+                        </Button>
+                        {replayError && <p className="text-center text-sm text-red-400">{replayError}</p>}
+                    </>
+                )}
+                {onHostGame && onJoinGame && (
+                    <div className="bg-slate-800/60 p-4 rounded-lg border border-slate-700 space-y-3">
+                        <h3 className="font-semibold text-center text-emerald-400 flex items-center justify-center">
+                            <Users className="mr-2 h-5 w-5" /> Play a Friend
+                        </h3>
+                        <div className="flex items-center justify-center gap-2 text-sm text-slate-300">
+                            <span>Players:</span>
+                            {Array.from({ length: MAX_PLAYERS - MIN_PLAYERS + 1 }, (_, i) => MIN_PLAYERS + i).map(count => (
+                                <Button
+                                    key={count}
+                                    size="sm"
+                                    variant={tablePlayers === count ? "default" : "outline"}
+                                    onClick={() => setTablePlayers(count)}
+                                    className={tablePlayers === count ? 'bg-emerald-600 hover:bg-emerald-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}
+                                >
+                                    {count}
+                                </Button>
+                            ))}
+                        </div>
+                        {tablePlayers > MIN_PLAYERS && (
+                            <ul className="text-xs text-slate-400 space-y-0.5">
+                                {extraRolesFor(tablePlayers).map(role => (
+                                    <li key={role}><span className="text-slate-300">{STAKEHOLDERS[role].label}:</span> {STAKEHOLDERS[role].objective}</li>
+                                ))}
+                                <li>The lead rotates every five floors; a proposal needs a majority of the other players.</li>
+                            </ul>
+                        )}
+                        <Button
+                            variant="outline"
+                            onClick={handleHost}
+                            disabled={!canHost || isContactingLobby}
+                            className="w-full border-slate-600 text-slate-300 hover:bg-slate-700"
+                        >
+                            Host as {STAKEHOLDERS[selectedRole].label} with these settings
+                        </Button>
+                        {!canHost && rulesCheck.isValid && <p className="text-xs text-slate-400 text-center">Drafted decks can&apos;t be played head-to-head yet.</p>}
+                        <div className="flex gap-2">
+                            <input
+                                value={lobbyCode}
+                                onChange={e => setLobbyCode(e.target.value.toUpperCase())}
+                                onKeyDown={e => e.key === 'Enter' && handleJoin()}
+                                placeholder="Lobby code"
+                                aria-label="Lobby code"
+                                maxLength={8}
+                                className="flex-1 rounded-md border border-slate-600 bg-slate-900 px-3 py-2 font-mono tracking-widest text-slate-200"
+                            />
+                            <Button
+                                variant="outline"
+                                onClick={handleJoin}
+                                disabled={!lobbyCode.trim() || isContactingLobby}
+                                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                            >
+                                Join a Friend
+                            </Button>
+                        </div>
+                        {(friendError ?? lobbyError) && <p className="text-center text-sm text-red-400">{friendError ?? lobbyError}</p>}
+                    </div>
+                )}
             </div>
             <p className="text-slate-500 text-sm text-center max-w-lg mt-4">
-                You will negotiate each floor with an AI opponent representing the other role. Good luck achieving balance!
+                {isHotSeat
+                    ? 'You will negotiate each floor with a friend playing the other role on this device. Good luck achieving balance!'
+                    : 'You will negotiate each floor with an AI opponent representing the other role. Good luck achieving balance!'}
             </p>
+            {isEditingDecks && <DeckEditor onClose={closeDeckEditor} />}
         </div>
     );
 }
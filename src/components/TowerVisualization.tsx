@@ -4,9 +4,15 @@
 "use client";
 import React, { useState, useEffect, useMemo } from 'react';
 import { useBuildingStore, BuildingUse } from '@/stores/useBuildingStore';
-import { Building, Users, Scale, Layers } from 'lucide-react';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { ongoingEffects, EffectEvent } from '@/engine/effects';
+import { AXIS_LABELS, AxisTotals, axisTotals, dominantAxis, IMPACT_AXES } from '@/engine/axes';
+import { AXIS_COLORS } from '@/components/AxisRadarChart';
+import { Building, Users, Scale, Layers, Link2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { PlayerRole } from '@/data/types'; // Import PlayerRole
+import { BUILDING_FOOTPRINT } from '@/data/constants';
 
 const getCardHeight = (category: string | undefined): number => {
   return category === 'Housing' ? 12 : 15;
@@ -19,6 +25,32 @@ export interface FloorSummaryItem {
   score: number;
 }
 
+/** A floor, or a run of floors covered by one oversized use, drawn as a single block. */
+interface TowerBlock extends FloorSummaryItem {
+  toFloor: number;
+}
+
+const groupSpannedFloors = (floors: FloorSummaryItem[]): TowerBlock[] => {
+  const blocks: TowerBlock[] = [];
+  floors.forEach(floor => {
+    const previous = blocks[blocks.length - 1];
+    const continuesSpan = previous && floor.uses.some(use => use.span && use.span.from <= previous.toFloor && use.span.to >= floor.floor);
+    if (!continuesSpan) {
+      blocks.push({ ...floor, uses: [...floor.uses], toFloor: floor.floor });
+      return;
+    }
+    previous.toFloor = floor.floor;
+    previous.sqft += floor.sqft;
+    previous.score += floor.score;
+    floor.uses.forEach(use => {
+      if (!previous.uses.some(u => u.cardId === use.cardId)) previous.uses.push(use);
+    });
+  });
+  return blocks;
+};
+
+const blockLabel = (block: TowerBlock) => block.toFloor > block.floor ? `Floors ${block.floor}–${block.toFloor}` : `Floor ${block.floor}`;
+
 export interface TowerVisualizationProps {
   floors: FloorSummaryItem[];
   currentFloor: number;
@@ -38,6 +70,17 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
     return netScore;
   }, [floorSummaryFromProps, buildingStateForTotals.baselineScore, buildingStateForTotals.scorePenaltiesTotal]);
 
+  const blocks = useMemo(() => groupSpannedFloors(floorSummaryFromProps), [floorSummaryFromProps]);
+
+  // Adjacency synergies and ongoing card effects, shown as badges on the floor they are attributed to.
+  const negotiatedFloors = useFloorStore(state => state.floors);
+  const rules = useGameFlowStore(state => state.rules);
+  const effects = useMemo(() => ongoingEffects(negotiatedFloors, rules), [negotiatedFloors, rules]);
+  const effectsOn = (block: TowerBlock): EffectEvent[] =>
+    effects.filter(effect => effect.floor !== undefined && effect.floor >= block.floor && effect.floor <= block.toFloor);
+  const axesOf = (block: TowerBlock): AxisTotals =>
+    axisTotals(negotiatedFloors.filter(f => f.floorNumber >= block.floor && f.floorNumber <= block.toFloor));
+
   const [compactView, setCompactView] = useState(false);
 
   useEffect(() => {
@@ -47,7 +90,8 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
     return () => window.removeEventListener('resize', checkWindowSize);
   }, []);
 
-  const getFloorStyles = useMemo(() => (score: number): { bgColor: string; textColor: string; borderColor: string; icon: React.ReactNode; } => {
+  // Fill colour is the floor's dominant impact axis, shaded by how far the floor moves the score; text and icon show which side it favors.
+  const getFloorStyles = useMemo(() => (score: number, axes: AxisTotals): { bgColor: string; textColor: string; borderColor: string; icon: React.ReactNode; } => {
     let bgColor, textColor, borderColor, iconNode: React.ReactNode;
     let iconBaseClass = "h-4 w-4 sm:h-5 sm:w-5"; // Base class for icons
 
@@ -69,6 +113,8 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
       textColor = "text-slate-300"; 
       iconNode = <Scale className={`${iconBaseClass} ${textColor}`} />;
     }
+    const axis = dominantAxis(axes);
+    if (axis) bgColor = `rgba(${AXIS_COLORS[axis].rgb}, ${0.25 + Math.min(Math.abs(score) / 20, 1) * 0.3})`;
     return { bgColor, textColor, borderColor, icon: iconNode };
   }, []);
 
@@ -118,9 +164,14 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
       <div className="flex-grow relative flex flex-col justify-end overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pb-2 pr-1">
         <div className="h-1 sm:h-2 w-full bg-slate-600 mb-1 sm:mb-2 rounded-sm"></div>
         <AnimatePresence>
-          {floorSummaryFromProps.map((floor) => {
-            const { bgColor, textColor, borderColor, icon } = getFloorStyles(floor.score);
-            const isCurrent = floor.floor === currentNegotiationFloor;
+          {blocks.map((floor) => {
+            const floorAxes = axesOf(floor);
+            const { bgColor, textColor, borderColor, icon } = getFloorStyles(floor.score, floorAxes);
+            const axesTitle = IMPACT_AXES.filter(axis => floorAxes[axis] !== 0).map(axis => `${AXIS_LABELS[axis]} ${formatScore(floorAxes[axis])}`).join(', ');
+            const isCurrent = currentNegotiationFloor >= floor.floor && currentNegotiationFloor <= floor.toFloor;
+            const sqftFree = Math.max(0, (floor.toFloor - floor.floor + 1) * BUILDING_FOOTPRINT - floor.sqft);
+            const floorEffects = effectsOn(floor);
+            const effectsTotal = floorEffects.reduce((sum, effect) => sum + effect.amount, 0);
             return (
               <motion.div
                 key={`floor-${floor.floor}`}
@@ -131,6 +182,7 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
                 transition={{ type: "spring", stiffness: 260, damping: 20, duration: 0.3 }}
                 className={`mb-1.5 sm:mb-2 rounded-md border ${borderColor} ${isCurrent ? 'ring-2 ring-sky-400 ring-offset-2 ring-offset-slate-800 shadow-lg' : 'shadow-md'} overflow-hidden`}
                 style={{ backgroundColor: bgColor }}
+                title={axesTitle || undefined}
               >
                 {compactView ? (
                     <div className={`py-1.5 sm:py-2 px-2 sm:px-3 flex items-center justify-between ${isCurrent ? 'bg-sky-500/10': ''}`}>
@@ -138,9 +190,15 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
                             <div className={`flex-shrink-0 w-6 h-6 sm:w-7 sm:h-7 bg-slate-800/70 rounded-full flex items-center justify-center mr-2 border ${isCurrent ? 'border-sky-400' : 'border-slate-600'}`}>
                                 <span className={`font-semibold text-xs sm:text-sm ${isCurrent ? 'text-sky-300' : 'text-slate-200'}`}>{floor.floor}</span>
                             </div>
-                            <span className={`text-xs sm:text-sm font-medium ${textColor} ${isCurrent ? 'font-bold' : ''}`}>Floor {floor.floor}</span>
+                            <span className={`text-xs sm:text-sm font-medium ${textColor} ${isCurrent ? 'font-bold' : ''}`}>{blockLabel(floor)}</span>
                         </div>
                         <div className="flex items-center gap-1 sm:gap-2">
+                            {floorEffects.length > 0 && (
+                                <span className="flex items-center gap-0.5 px-1 rounded bg-sky-950/60 text-sky-300 border border-sky-700/50 text-[10px]"
+                                    title={floorEffects.map(effect => `${effect.reason} (${formatScore(effect.amount)})`).join('\n')}>
+                                    <Link2 className="h-3 w-3" />{formatScore(effectsTotal)}
+                                </span>
+                            )}
                             {icon} {/* Render the icon directly */}
                             <span className={`font-bold text-sm sm:text-base ${textColor}`}>{formatScore(floor.score)}</span>
                         </div>
@@ -154,8 +212,8 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
                             <div className="flex items-center">
                                 {icon} {/* Render the icon directly */}
                                 <span className={`ml-1.5 font-semibold ${textColor} truncate text-sm sm:text-base ${isCurrent ? 'font-bold' : ''}`}>
-                                    Floor {floor.floor}
-                                    <span className="text-slate-400 ml-1.5 sm:ml-2 text-xs">({Math.round(floor.sqft).toLocaleString()} sq.ft)</span>
+                                    {blockLabel(floor)}
+                                    <span className="text-slate-400 ml-1.5 sm:ml-2 text-xs">({Math.round(floor.sqft).toLocaleString()} sq.ft, {Math.round(sqftFree).toLocaleString()} free)</span>
                                 </span>
                             </div>
                             <div className="mt-1 flex flex-wrap gap-1 text-xs">
@@ -171,6 +229,13 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
                                         {(use.units || 0) > 1 ? `${use.units}× ` : ''}{use.cardName}
                                     </span>
                                 ))}
+                                {floorEffects.map((effect, idx) => (
+                                    <span key={`effect-${floor.floor}-${idx}`}
+                                        className="flex items-center gap-0.5 px-1.5 py-0.5 rounded border text-xs bg-sky-950/60 text-sky-300 border-sky-700/50"
+                                        title={effect.reason}>
+                                        <Link2 className="h-3 w-3" />{formatScore(effect.amount)}
+                                    </span>
+                                ))}
                             </div>
                         </div>
                         <div className="flex-shrink-0 ml-2 text-right">
@@ -189,6 +254,15 @@ const TowerVisualization: React.FC<TowerVisualizationProps> = ({
         <div className="flex items-center gap-1"><div className="w-2.5 h-2.5 bg-emerald-500/70 rounded-sm border border-emerald-700/50"></div><span className="text-emerald-300">Community</span></div>
         <div className="flex items-center gap-1"><div className="w-2.5 h-2.5 bg-slate-500/70 rounded-sm border border-slate-600/50"></div><span className="text-slate-300">Neutral</span></div>
       </div>
+      <div className="mt-1.5 bg-slate-700/50 p-2 rounded-md border border-slate-600 flex justify-around text-xs">
+        {/* Floor fill: the axis the floor's cards move most */}
+        {IMPACT_AXES.map(axis => (
+          <div key={axis} className="flex items-center gap-1">
+            <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: `rgba(${AXIS_COLORS[axis].rgb}, 0.7)` }}></div>
+            <span className={AXIS_COLORS[axis].text}>{AXIS_LABELS[axis]}</span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -3,7 +3,7 @@
 
 'use client';
 
-import React, { useMemo, useCallback } from 'react';
+import React, { useMemo, useCallback, useState } from 'react';
 import {
     DndContext,
     closestCenter,
@@ -19,6 +19,7 @@ import {
     rectSortingStrategy,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
+import { EyeOff } from 'lucide-react';
 import { shallow } from 'zustand/shallow';
 import { useStoreWithEqualityFn } from 'zustand/traditional';
 
@@ -27,6 +28,7 @@ import RenderCard, { RenderCardProps } from './RenderCard';
 import { usePlayersStore, PlayersStoreState } from '@/stores/usePlayersStore';
 import { useFloorStore } from '@/stores/useFloorStore';
 import { logDebug } from '@/utils/logger';
+import { Button } from '@/components/ui/button';
 
 interface PlayerHandAreaProps {
     playerHand: CardInstance[];
@@ -35,6 +37,7 @@ interface PlayerHandAreaProps {
     isAiTurn: boolean;
     onCardClick: (handCardInstanceId: string, event: React.MouseEvent) => void; 
     currentFloor: number;
+    isHotSeat?: boolean;    // Two people share the device: each hand stays covered until its owner reveals it
 }
 
 const CATEGORY_ORDER = ['Zoning', 'Design', 'Sustainability', 'Amenities', 'Finance', 'Special', 'Event', 'Uncategorized'];
@@ -106,9 +109,12 @@ const sortAndGroupStacks = (cardStacks: CardInstance[], categoryOrder: string[])
 
 
 const PlayerHandArea: React.FC<PlayerHandAreaProps> = React.memo(({
-    playerHand, currentPlayer, phaseInfo, isAiTurn, onCardClick, currentFloor
+    playerHand, currentPlayer, phaseInfo, isAiTurn, onCardClick, currentFloor, isHotSeat = false
 }) => {
     const { reorderHandCards } = usePlayersStore.getState();
+    // Whose hand was last uncovered; when the turn passes the hand shown changes owner and is covered again
+    const [revealedFor, setRevealedFor] = useState<string | null>(null);
+    const isCovered = isHotSeat && !!currentPlayer && revealedFor !== currentPlayer.id;
     // Corrected: Use useStoreWithEqualityFn for objects/arrays
     const proposalCounts = useStoreWithEqualityFn(usePlayersStore, (state: PlayersStoreState) => state.proposalCounts, shallow);
     const counterProposalCounts = useStoreWithEqualityFn(usePlayersStore, (state: PlayersStoreState) => state.counterProposalCounts, shallow);
@@ -154,11 +160,10 @@ const PlayerHandArea: React.FC<PlayerHandAreaProps> = React.memo(({
     const handleDragEndReorder = useCallback((event: DragEndEvent) => {
         const { active, over } = event;
         if (currentPlayer && active.id !== over?.id && over?.id) {
-            // Ensure reorderHandCards is called with the correct player index if this area is generic
-            // For now, assuming human player's hand from context
-            const humanPlayer = usePlayersStore.getState().getHumanPlayer();
-            if (humanPlayer && currentPlayer.id === humanPlayer.id) {
-                 const playerIndex = usePlayersStore.getState().players.findIndex(p => p.id === humanPlayer.id);
+            // Only the hand of whoever holds the device is shown here
+            const seatedPlayer = usePlayersStore.getState().getSeatedPlayer();
+            if (seatedPlayer && currentPlayer.id === seatedPlayer.id) {
+                 const playerIndex = usePlayersStore.getState().players.findIndex(p => p.id === seatedPlayer.id);
                  if(playerIndex !== -1) {
                     reorderHandCards(playerIndex, active.id as string, over.id as string);
                  }
@@ -204,6 +209,21 @@ const PlayerHandArea: React.FC<PlayerHandAreaProps> = React.memo(({
 
     const totalCardInstancesInHand = playerHand.reduce((acc, cardStack) => acc + (cardStack.stack || 0), 0);
 
+    if (isCovered && currentPlayer) {
+        return (
+            <div className="flex flex-col h-full w-full items-center justify-center gap-3 p-6 text-center">
+                <EyeOff className="h-10 w-10 text-slate-500" />
+                <h3 className="text-lg font-semibold text-slate-200">Pass the device to {currentPlayer.name}</h3>
+                <p className="text-sm text-slate-400">
+                    It&apos;s the {currentPlayer.role} player&apos;s turn. Everyone else, look away while the hand is uncovered.
+                </p>
+                <Button className="bg-sky-600 hover:bg-sky-700" onClick={() => setRevealedFor(currentPlayer.id)}>
+                    I&apos;m {currentPlayer.name}, show my hand
+                </Button>
+            </div>
+        );
+    }
+
     return (
         <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEndReorder}>
             <div className="flex flex-col h-full w-full overflow-hidden">
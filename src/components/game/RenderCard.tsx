@@ -6,7 +6,6 @@ import React, { useMemo, useCallback } from 'react';
 import { CardData, PhaseInfo, CardInstance } from '@/data/types'; // CardInstance used for card prop
 import { useDraggable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
-import { MAX_STORIES } from '@/data/constants'; // For restriction tooltip
 import CardComponent from "../ui/Card"; 
 import { useFloorStore } from '@/stores/useFloorStore';
 import { logDebug } from '@/utils/logger';
@@ -32,7 +31,7 @@ const RenderCard: React.FC<RenderCardProps> = React.memo(({
     onCardClick,
     currentFloor
 }) => {
-    const canPlayCardOnThisFloorSelector = useFloorStore(state => state.canPlayOnFloor);
+    const checkCardOnFloor = useFloorStore(state => state.checkCardOnFloor);
 
     if (!card || !card.instanceId) {
         logDebug("RenderCard received invalid card data", { card });
@@ -45,10 +44,8 @@ const RenderCard: React.FC<RenderCardProps> = React.memo(({
         return !!(displayCount && displayCount > 0);
     }, [isProposal, displayCount]);
 
-    const isAllowedOnCurrentFloor = useMemo(() => {
-        if (isProposal) return true; 
-        return canPlayCardOnThisFloorSelector(card, currentFloor);
-    }, [isProposal, canPlayCardOnThisFloorSelector, card, currentFloor]);
+    const floorCheck = useMemo(() => (isProposal ? undefined : checkCardOnFloor(card, currentFloor)), [isProposal, checkCardOnFloor, card, currentFloor]);
+    const isAllowedOnCurrentFloor = !floorCheck || floorCheck.isValid;
 
     const isInteractive = !isProposal && !isAiTurn && isAllowedOnCurrentFloor &&
         (phaseInfo.isInitialProposalPhase || phaseInfo.isResponsePhase);
@@ -76,20 +73,7 @@ const RenderCard: React.FC<RenderCardProps> = React.memo(({
         }
     }, [isInteractive, onCardClick, card.instanceId, card.name]);
 
-    const restrictionTooltip = useMemo(() => { /* ... (as before) ... */ 
-        if (isProposal || isAllowedOnCurrentFloor) return undefined;
-        if (!card.requiresFloor || card.requiresFloor.length === 0) return `Not playable: Unknown reason. Current floor: ${currentFloor}.`;
-        
-        const floorsList = card.requiresFloor.map(f => {
-            if (typeof f === 'string') {
-                if (f.toLowerCase() === 'ground') return 'Ground Floor (1)';
-                if (f.toLowerCase() === 'roof') return `Roof (${MAX_STORIES})`;
-                return f.charAt(0).toUpperCase() + f.slice(1);
-            }
-            return `Floor ${f}`;
-        }).join(' or ');
-        return `Playable only on: ${floorsList}. Current: ${currentFloor}.`;
-    }, [card.requiresFloor, isAllowedOnCurrentFloor, isProposal, currentFloor]);
+    const restrictionTooltip = floorCheck && !floorCheck.isValid ? `Not playable: ${floorCheck.reason}.` : undefined;
 
     const visualFloorRestricted = !isAllowedOnCurrentFloor && !isProposal;
 
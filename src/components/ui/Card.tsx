@@ -8,8 +8,9 @@ import Image from 'next/image';
 import { cn } from "@/lib/utils";
 import { CardData } from "@/data/types";
 import * as LucideIcons from 'lucide-react';
-import { MAX_STORIES } from '@/data/constants';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
 import { DEFAULT_CARD_IMAGE_PATH } from '@/data/deckData';
+import { describeFloorRequirement } from '@/engine/floorRules';
 
 // Dynamic icon lookup
 const DynamicIcon = ({ name, ...props }: { name?: string } & LucideIcons.LucideProps) => {
@@ -51,17 +52,12 @@ export default function CardComponent({
     icon = 'HelpCircle'
   } = displayInfo;
 
+  const maxStories = useGameFlowStore(state => state.rules.maxStories);
+
   const floorRestrictionText = useMemo(() => { /* ... (as before) ... */ 
     if (!requiresFloor || requiresFloor.length === 0) return 'Any Floor';
-    return requiresFloor.map(f => {
-      if (typeof f === 'string') {
-        if (f.toLowerCase() === 'ground') return 'Ground';
-        if (f.toLowerCase() === 'roof') return `Roof (${MAX_STORIES})`;
-        return f.charAt(0).toUpperCase() + f.slice(1);
-      }
-      return `F${f}`;
-    }).join(' / ');
-  }, [requiresFloor]);
+    return requiresFloor.map(f => describeFloorRequirement(f, maxStories)).join(' / ');
+  }, [requiresFloor, maxStories]);
 
   const netScore = netScoreImpact ?? 0;
   let scoreText = '±0 Bal';
@@ -0,0 +1,44 @@
+// src/data/cardEffects.ts
+// Effects of individual cards, keyed by card definition id. See CardEffect in types.ts for when each hook runs.
+// Simple placement bonuses and penalties between cards belong in the synergy table (synergies.ts) instead.
+
+import { CardEffect, EffectAdjustment, EffectContext, FloorStatus } from './types';
+import { cardsInUseOn, floorCards, topFloorOf } from '@/engine/bundles';
+
+const isHousing = (card: { category?: string }) => card.category === 'Housing';
+const isRetail = (card: { category?: string }) => card.category === 'Retail/Commercial';
+
+/**
+ * Scales the impact of every housing card in use on `floorNumber` by `-share`, one adjustment per card,
+ * so the log names each unit that was affected.
+ */
+const dampenHousingOn = (context: EffectContext, floorNumber: number, share: number, why: string): EffectAdjustment[] =>
+    cardsInUseOn(context.floors, floorNumber)
+        .filter(isHousing)
+        .map(card => ({ amount: -Math.round((card.netScoreImpact ?? 0) * share), floor: floorNumber, reason: `${context.card.name} ${why} ${card.name} on floor ${floorNumber}` }))
+        .filter(adjustment => adjustment.amount !== 0);
+
+// Fractions of a housing card's impact that are taken away.
+const DAYCARE_HOUSING_SHARE = 0.25;
+// Score per shop already in the building when the vocational school takes its first class.
+const VOCATIONAL_SHOP_PLACEMENT = 3;
+
+export const CARD_EFFECTS: Readonly<Record<string, CardEffect>> = {
+    // Families next to a daycare need less from the rest of the building.
+    'daycare': {
+        ongoing: context => [
+            ...dampenHousingOn(context, context.floorNumber - 1, DAYCARE_HOUSING_SHARE, 'eases demand from'),
+            ...dampenHousingOn(context, topFloorOf(context.floors, context.floorNumber) + 1, DAYCARE_HOUSING_SHARE, 'eases demand from'),
+        ],
+    },
+    // The first class trains for the shops already open. A one-off: shops that open later don't add to it,
+    // and a recall of the school doesn't take it back.
+    'vocational-school': {
+        onFinalize: context => {
+            const shops = context.floors
+                .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+                .flatMap(floor => floorCards(floor).filter(isRetail)).length;
+            return [{ amount: shops * VOCATIONAL_SHOP_PLACEMENT, reason: `${context.card.name} trains its first class for ${shops} shop${shops === 1 ? '' : 's'} in the building` }];
+        },
+    },
+};
@@ -1,5 +1,11 @@
 // src/data/constants.ts
 // Centralized constants for the Urban Balance game
+//
+// Floors, hand sizes, balance threshold, recall rules and the proposal timer below are only
+// the defaults of the Standard rule set (src/data/rules.ts). Game code reads the RuleSet
+// chosen at game start instead of importing them.
+
+import type { ImpactAxis, TimeoutPolicy } from './types';
 
 // -----------------------------------------------------------------------------
 // GAME STRUCTURE
@@ -17,6 +23,8 @@ export const INITIAL_HAND_SIZE = 3;           // Cards dealt at start
 // SCORING & BALANCE
 // -----------------------------------------------------------------------------
 export const BALANCE_THRESHOLD = 10;          // Score threshold for "balanced" outcome
+export const AXIS_BALANCE_THRESHOLD = 75;     // Per-axis threshold a balanced project also stays within
+export const IMPACT_AXES: readonly ImpactAxis[] = ['affordability', 'sustainability', 'profit', 'culture']; // Axes a card's impact is split across
 
 // -----------------------------------------------------------------------------
 // RECALL TOKENS
@@ -30,7 +38,9 @@ export const RECALL_MAX_FLOOR = 12;           // Tokens cannot be used after thi
 // TIMERS & DURATIONS (all in milliseconds)
 // -----------------------------------------------------------------------------
 export const PROPOSAL_TIMER_MS = 30_000;              // Time for each proposal/response
+export const TIMEOUT_POLICY: TimeoutPolicy = 'autoPass'; // What a turn that runs out of time does
 export const AI_TURN_DELAY_MS = 1_000;                // Delay before AI takes turn
+export const AI_SEARCH_BUDGET_MS = 1_000;             // Thinking time for search-based AI strategies
 export const COUNTER_RESPONSE_DELAY_MS = 1_500;       // Delay before AI counter
 export const STARTUP_DELAY_MS = 1_000;                // Game startup delay
 export const CARD_DEAL_INTERVAL_MS = 200;             // Interval between dealing cards
@@ -93,24 +103,11 @@ export const CASH_FLOW_PER_SQFT = {
   COMMUNITY_MARKET:     15,
 };
 
+// Developer feasibility: minimum yearly yield (%) of the finished building; 0 turns the rule off.
+export const MIN_DEVELOPER_YIELD_PCT = 0;
+
 // -----------------------------------------------------------------------------
 // AI STRATEGY PARAMETERS
 // -----------------------------------------------------------------------------
 export const AI_COUNTER_THRESHOLD = 3;         // Score improvement needed to counter
 export const AI_ACCEPTANCE_THRESHOLD = 0.6;    // Probability threshold to accept
-
-// -----------------------------------------------------------------------------
-// MANDATORY BASELINE IMPACTS (climate requirements)
-// -----------------------------------------------------------------------------
-export const MANDATORY_IMPACTS = [
-  {
-    id: "energy-efficient-systems",
-    name: "Base Energy Efficiency",
-    netScoreImpact: -8,  // Marginal cost for efficiency
-  },
-  {
-    id: "onsite-renewable-energy",
-    name: "Base Renewable Energy",
-    netScoreImpact: -7,  // Marginal cost for renewables
-  },
-];
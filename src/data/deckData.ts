@@ -1,7 +1,7 @@
 // data/deckData.ts
 // Corrected for duplicate properties and getCardDefinitions return type.
 
-import { CardDefinition } from "../data/types";
+import { CardDefinition, DeckFile, DeckMode } from "../data/types";
 
 /**
  * Default image path used when a card's specified image is missing or invalid.
@@ -16,19 +16,29 @@ export const mandatoryImpactCardDefinitions: Readonly<CardDefinition[]> = [
         id: "onsite-renewable-energy", name: "Onsite Renewable Energy", category: "System",
         image: "/cards/onsite-renewable-energy.png",
         netScoreImpact: -7, cost: 15000, cashFlow: 1200,
+        impacts: { sustainability: -7 },
         displayInfo: { icon: "Bolt", cost: "$", summary: "Renewable generation" }
     },
     {
         id: "energy-efficient-systems", name: "Energy Efficient Systems", category: "System",
         image: "/cards/energy-efficient-systems.png",
         netScoreImpact: -8, cost: 35000, cashFlow: 1200,
+        impacts: { sustainability: -8 },
         displayInfo: { icon: "Zap", cost: "$$", summary: "Envelope & MEP upgrades" }
     },
     {
         id: "streetscape-enhancement", name: "Streetscape Enhancement", category: "System",
         image: "/cards/streetscape-enhancement.png",
         netScoreImpact: -15, cost: 35000, cashFlow: 0,
+        impacts: { sustainability: -5, culture: -10 },
         displayInfo: { icon: "TreeDeciduous", cost: "$$$", summary: "Public realm improvements" }
+    },
+    {
+        id: "historic-facade", name: "Historic Facade Restoration", category: "System",
+        image: "/cards/historic_facade.png",
+        netScoreImpact: -12, cost: 250000, cashFlow: 0,
+        impacts: { culture: -12 },
+        displayInfo: { icon: "Landmark", cost: "$$$", summary: "Preserve the street frontage" }
     }
 ];
 
@@ -41,6 +51,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "affordable-rental-unit", name: "1 unit - Affordable Rental", category: "Housing",
         image: "/cards/affordable-rental.png", minimumSqft: 600,
         netScoreImpact: -10, cost: 600000, cashFlow: 41724,
+        impacts: { affordability: -6, profit: -4 },
         quantity: 4,
         displayInfo: { icon: "Key", cost: "$", summary: "Community rental housing" }
     },
@@ -48,6 +59,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "affordable-condo-unit", name: "1 unit - Affordable Condo", category: "Housing",
         image: "/cards/affordable-condo.png", minimumSqft: 600,
         netScoreImpact: -9, cost: 600000, cashFlow: 184614,
+        impacts: { affordability: -5, profit: -4 },
         quantity: 4,
         displayInfo: { icon: "Home", cost: "$$", summary: "Community condo" }
     },
@@ -55,6 +67,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "market-rental-unit", name: "1 unit - Market Rate Rental", category: "Housing",
         image: "/cards/market-rental.png", minimumSqft: 700,
         netScoreImpact: 9, cost: 700000, cashFlow: 52500,
+        impacts: { affordability: 4, profit: 5 },
         quantity: 3,
         displayInfo: { icon: "Building", cost: "$$", summary: "Market-rate rental" }
     },
@@ -62,6 +75,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "market-condo-unit", name: "1 unit - Market Rate Condo", category: "Housing",
         image: "/cards/market-condo.png", minimumSqft: 700,
         netScoreImpact: 18, cost: 700000, cashFlow: 400001,
+        impacts: { affordability: 8, profit: 10 },
         quantity: 3,
         displayInfo: { icon: "Building", cost: "$$$", summary: "Market-rate condo" }
     },
@@ -71,6 +85,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "art-gallery", name: "Art Gallery", category: "Community Facility",
         image: "/cards/art-gallery.png", minimumSqft: 7000,
         netScoreImpact: -123, cost: 8400000, cashFlow: 336000,
+        impacts: { culture: -83, profit: -40 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Palette", cost: "$$", summary: "Local art space" }
     },
@@ -79,6 +94,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "dance-studio", name: "Dance Studio", category: "Community Facility",
         image: "/cards/dance-studio.png", minimumSqft: 5000, 
         netScoreImpact: -122, cost: 6000000, cashFlow: 240000, 
+        impacts: { culture: -82, profit: -40 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "MusicNote", cost: "$$", summary: "Community studio" }
     },
@@ -86,6 +102,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "vocational-school", name: "Vocational School", category: "Community Facility",
         image: "/cards/vocational-school.png", minimumSqft: 7000, 
         netScoreImpact: -97, cost: 7000000, cashFlow: 504000, 
+        impacts: { affordability: -47, culture: -50 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "BookOpen", cost: "$$", summary: "Skills training" }
     },
@@ -93,6 +110,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "daycare", name: "Daycare", category: "Community Facility",
         image: "/cards/daycare.png", minimumSqft: 8000, 
         netScoreImpact: -97, cost: 8000000, cashFlow: 576000, 
+        impacts: { affordability: -57, culture: -40 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Users", cost: "$$", summary: "Childcare facility" }
     },
@@ -100,6 +118,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "performance-space", name: "Small Performance Space", category: "Community Facility",
         image: "/cards/performance-space.png", minimumSqft: 6000, 
         netScoreImpact: -163, cost: 7200000, cashFlow: 288000, 
+        impacts: { culture: -113, profit: -50 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Theater", cost: "$$", summary: "Cultural venue" }
     },
@@ -107,6 +126,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "multipurpose-community-space", name: "Multipurpose Community Space", category: "Community Facility",
         image: "/cards/multipurpose-community-space.png", minimumSqft: 5000, 
         netScoreImpact: -28, cost: 5000000, cashFlow: 240000, 
+        impacts: { affordability: -10, culture: -18 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Archive", cost: "$$", summary: "Flexible event hall" }
     },
@@ -114,6 +134,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "arcade", name: "Arcade", category: "Community Facility",
         image: "/cards/arcade.png", minimumSqft: 5000, 
         netScoreImpact: -40, cost: 6000000, cashFlow: 240000, 
+        impacts: { culture: -20, profit: -20 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Gamepad", cost: "$$", summary: "Family amusement" }
     },
@@ -123,6 +144,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "vendor-market", name: "Vendor Market", category: "Retail/Commercial",
         image: "/cards/vendor-market.png", minimumSqft: 10000, 
         netScoreImpact: -53, cost: 8500000, cashFlow: 480000, 
+        impacts: { culture: -25, profit: -28 },
         requiresFloor: ['ground', 1], quantity: 1,
         displayInfo: { icon: "ShoppingBasket", cost: "$", summary: "Local vendors" }
     },
@@ -131,6 +153,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "big-box-store", name: "Big Box / Chain Store", category: "Retail/Commercial",
         image: "/cards/big-box-store.png", minimumSqft: 7500, 
         netScoreImpact: 84, cost: 6375000, cashFlow: 900000, 
+        impacts: { profit: 54, culture: 20, sustainability: 10 },
         requiresFloor: ['ground', 1], quantity: 1,
         displayInfo: { icon: "Store", cost: "$$$", summary: "Chain store" }
     },
@@ -138,6 +161,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "grocery-store", name: "Grocery Store", category: "Retail/Commercial",
         image: "/cards/grocery-store.png", minimumSqft: 3000, 
         netScoreImpact: -57, cost: 2550000, cashFlow: 360000, 
+        impacts: { affordability: -32, sustainability: -10, culture: -15 },
         requiresFloor: ['ground', 1], quantity: 1,
         displayInfo: { icon: "ShoppingCart", cost: "$$", summary: "Essential retail" }
     },
@@ -145,6 +169,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "restaurant", name: "Restaurant", category: "Retail/Commercial",
         image: "/cards/restaurant.png", minimumSqft: 3000, 
         netScoreImpact: -8, cost: 3000000, cashFlow: 252000, 
+        impacts: { culture: -12, profit: 4 },
         requiresFloor: ['ground', 1, 'roof'], quantity: 1,
         displayInfo: { icon: "Utensils", cost: "$$", summary: "Public eatery" }
     },
@@ -152,6 +177,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "night-club", name: "Night Club", category: "Retail/Commercial",
         image: "/cards/night-club.png", minimumSqft: 7000, 
         netScoreImpact: -7, cost: 7000000, cashFlow: 588000, 
+        impacts: { culture: -20, profit: 13 },
         requiresFloor: ['ground', 1], quantity: 1,
         displayInfo: { icon: "Music", cost: "$$$", summary: "Late‑night venue" }
     },
@@ -159,6 +185,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "bank", name: "Bank", category: "Retail/Commercial",
         image: "/cards/bank.png", minimumSqft: 5000, 
         netScoreImpact: 5, cost: 5000000, cashFlow: 480000, 
+        impacts: { profit: 15, culture: -10 },
         requiresFloor: ['ground', 1], quantity: 1,
         displayInfo: { icon: "Landmark", cost: "$$", summary: "Financial service" }
     },
@@ -168,6 +195,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "roof-garden-bar", name: "Roof Garden / Bar", category: "Amenity",
         image: "/cards/roof-garden.png", minimumSqft: 6500,
         netScoreImpact: -21, cost: 6500000, cashFlow: 0,
+        impacts: { sustainability: -11, culture: -10 },
         requiresFloor: ["roof"], quantity: 1,
         displayInfo: { icon: "Sprout", cost: "$", summary: "Rooftop green social space" }
     },
@@ -175,6 +203,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "public-plaza-bikes", name: "Public Plaza w/ Bike Parking", category: "Amenity",
         image: "/cards/green-plaza.png", minimumSqft: 4000,
         netScoreImpact: -15, cost: 4000000, cashFlow: 0,
+        impacts: { sustainability: -12, culture: -3 },
         requiresFloor: ["ground"], quantity: 1,
         displayInfo: { icon: "Bike", cost: "$", summary: "Ground-level plaza & bikes" }
     },
@@ -186,6 +215,7 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         // Corrected: Only one set of values for minimumSqft and netScoreImpact
         minimumSqft: 45000, // User's original intended value representing a plannable unit
         netScoreImpact: -20,  // User's original intended value
+        impacts: { profit: 10, culture: -10, sustainability: -20 },
         cost: 45000000, cashFlow: 5400000,
         quantity: 2,
         displayInfo: { icon: "Hotel", cost: "$$$", summary: "Guest room block" }
@@ -196,25 +226,56 @@ export const playableCardDefinitions: Readonly<CardDefinition[]> = [
         id: "recording-studio", name: "Recording Studio", category: "Specialty",
         image: "/cards/recording-studio.png", minimumSqft: 5000,
         netScoreImpact: -120, cost: 6000000, cashFlow: 125000,
+        impacts: { culture: -90, profit: -30 },
         requiresFloor: [1, 2], quantity: 1,
         displayInfo: { icon: "Microphone", cost: "$$", summary: "Audio production space" }
     }
 ];
 
+// Custom deck chosen at game start; null plays the built-in catalog above.
+let activeDeck: DeckFile | null = null;
+
+/** The custom deck games are dealt from, or null for the built-in catalog. */
+export const getActiveDeck = (): DeckFile | null => activeDeck;
+
+export const setActiveDeck = (deck: DeckFile | null): void => {
+    activeDeck = deck;
+};
+
+/** Runs `fn` with `deck` active, then restores the previous deck (replays and searches of other games). */
+export function withActiveDeck<T>(deck: DeckFile | null, fn: () => T): T {
+    const previous = activeDeck;
+    activeDeck = deck;
+    try {
+        return fn();
+    } finally {
+        activeDeck = previous;
+    }
+}
+
 /**
- * Provides the base definitions for playable cards.
+ * Provides the base definitions for playable cards, from the active deck.
  * @returns {CardDefinition[]} A new array copy of playable card definitions.
  */
 export const getCardDefinitions = (): CardDefinition[] => { // Corrected return type
-    return [...playableCardDefinitions]; // Creates a shallow mutable copy
+    return [...(activeDeck?.cards ?? playableCardDefinitions)]; // Creates a shallow mutable copy
 };
 
 /**
- * Retrieves a specific card definition (playable or mandatory) by its base ID.
+ * Retrieves a specific card definition (playable from the active deck, or mandatory) by its base ID.
  */
 export const getCardDefinitionById = (id: string): CardDefinition | undefined => {
-    const allDefinitions = [...playableCardDefinitions, ...mandatoryImpactCardDefinitions];
+    const allDefinitions = [...getCardDefinitions(), ...mandatoryImpactCardDefinitions];
     return allDefinitions.find(def => def.id === id);
 };
 
-export const cards: Readonly<CardDefinition[]> = getCardDefinitions();
\ No newline at end of file
+export const cards: Readonly<CardDefinition[]> = getCardDefinitions();
+
+/**
+ * Deck modes offered when starting a game.
+ */
+export const DECK_MODES: Readonly<Record<DeckMode, { label: string; description: string }>> = {
+    openDraft: { label: "Open Draft", description: "Draw any card you like; every card is in unlimited supply." },
+    drawPile: { label: "Draw Pile", description: "Draw the top card of a shuffled pile. Displaced and recalled cards are discarded and reshuffled when the pile runs out." },
+    drafted: { label: "Draft", description: "Take turns with the AI picking card stacks from a face-up market; the stacks you pick become your own draw pile." },
+};
\ No newline at end of file
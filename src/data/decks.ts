@@ -0,0 +1,277 @@
+// src/data/decks.ts
+// Custom decks: the limits the deck editor enforces on a card, and the JSON file a deck is saved,
+// imported and exported as, with a validator that normalizes legacy card fields and reports every
+// problem by path and line.
+
+import { CardDefinition, DeckFile } from './types';
+import { IMPACT_AXES } from './constants';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+import { jsonValueLines, lineOfPath, syntaxErrorLine } from '@/utils/jsonLines';
+import { FLOOR_REQUIREMENT_PATTERN, FLOOR_REQUIREMENT_SYNTAX, parseFloorRequirement } from '@/engine/floorRules';
+
+export const DECK_FILE_FORMAT = 'urbanbalance-deck';
+export const DECK_FILE_VERSION = 1;
+/** Name of the catalog compiled into the app (deckData.ts); custom decks may not reuse it. */
+export const BUILT_IN_DECK_NAME = 'Standard';
+
+type NumericCardField = 'netScoreImpact' | 'cost' | 'cashFlow' | 'minimumSqft' | 'quantity';
+
+/** Editable range and label of each numeric card field, shared by the card editor and validation. */
+export const CARD_FIELD_LIMITS: Readonly<Record<NumericCardField, { label: string; min: number; max: number; integer?: boolean }>> = {
+    netScoreImpact: { label: 'Score impact', min: -500, max: 500, integer: true },
+    cost: { label: 'Cost ($)', min: 0, max: 1_000_000_000 },
+    cashFlow: { label: 'Cash flow ($/yr)', min: -100_000_000, max: 100_000_000 },
+    minimumSqft: { label: 'Minimum sq ft', min: 0, max: 100_000, integer: true },
+    quantity: { label: 'Copies', min: 0, max: 20, integer: true },
+};
+
+/** Card ids are kebab-case so they read well in replays and instance ids (`${id}-3`). */
+const CARD_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * Deprecated card fields and the field each is read into: the one the game actually uses. `units` is
+ * a count of units, not an area, so the old area fields all fold into minimumSqft.
+ */
+const LEGACY_CARD_FIELDS: Readonly<Record<string, keyof CardDefinition>> = {
+    imageUrl: 'image',
+    value: 'netScoreImpact',
+    impact: 'netScoreImpact',
+    baseSqft: 'minimumSqft',
+    minSqft: 'minimumSqft',
+};
+
+/** One problem found in a deck. Errors make the deck unusable; warnings don't. */
+export interface DeckIssue {
+    severity: 'error' | 'warning';
+    path: string;        // JSON path of the offending value, e.g. `cards[3].netScoreImpact` ('' for the whole deck)
+    line?: number;       // 1-based line in the deck file, when validated from its text
+    message: string;
+}
+
+export interface DeckValidationReport {
+    isValid: boolean;    // True when there are no errors
+    deck?: DeckFile;     // The deck with legacy fields normalized, when valid
+    issues: DeckIssue[];
+}
+
+/** A kebab-case id made from a card name, e.g. "Public Library" → "public-library". */
+export const cardIdFromName = (name: string): string =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/** `deck.json:14: error: cards[2].cost: Cost ($) must be a number.` */
+export function formatDeckIssue(issue: DeckIssue, source = 'deck'): string {
+    return `${source}${issue.line ? `:${issue.line}` : ''}: ${issue.severity}: ${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+}
+
+/** Copy of `raw` with each legacy field moved into its canonical one. A canonical value already present wins. */
+function normalizeCard(raw: Record<string, unknown>, path: string, issues: DeckIssue[]): CardDefinition {
+    const card: Record<string, unknown> = { ...raw };
+    for (const [legacy, canonical] of Object.entries(LEGACY_CARD_FIELDS)) {
+        if (!(legacy in card)) continue;
+        if (card[canonical] === undefined) {
+            card[canonical] = card[legacy];
+            issues.push({ severity: 'warning', path: `${path}.${legacy}`, message: `'${legacy}' is deprecated; read as '${canonical}'.` });
+        } else if (card[canonical] !== card[legacy]) {
+            issues.push({ severity: 'warning', path: `${path}.${legacy}`, message: `'${legacy}' disagrees with '${canonical}' and was dropped.` });
+        }
+        delete card[legacy];
+    }
+    return card as unknown as CardDefinition;
+}
+
+/** Every problem with one card, at paths under `path`. */
+function cardIssues(card: Partial<CardDefinition>, path: string): DeckIssue[] {
+    const issues: DeckIssue[] = [];
+    const error = (field: string, message: string) => issues.push({ severity: 'error', path: `${path}${field}`, message });
+    if (typeof card.id !== 'string' || !CARD_ID_PATTERN.test(card.id)) error('.id', 'id must be lowercase words joined by hyphens.');
+    if (typeof card.name !== 'string' || !card.name.trim()) error('.name', 'name is required.');
+    if (typeof card.category !== 'string' || !card.category.trim()) error('.category', 'category is required.');
+    for (const [key, limit] of Object.entries(CARD_FIELD_LIMITS) as [NumericCardField, (typeof CARD_FIELD_LIMITS)[NumericCardField]][]) {
+        const value = card[key];
+        if (value === undefined) {
+            if (key === 'netScoreImpact') error(`.${key}`, `${limit.label} is required.`);
+        } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+            error(`.${key}`, `${limit.label} must be a number.`);
+        } else if (limit.integer && !Number.isInteger(value)) {
+            error(`.${key}`, `${limit.label} must be a whole number.`);
+        } else if (value < limit.min || value > limit.max) {
+            error(`.${key}`, `${limit.label} must be between ${limit.min} and ${limit.max}.`);
+        }
+    }
+    if (card.impacts !== undefined && (typeof card.impacts !== 'object' || card.impacts === null || Array.isArray(card.impacts))) {
+        error('.impacts', 'impacts must be an object of axis to score impact.');
+    } else if (card.impacts !== undefined) {
+        const { min, max } = CARD_FIELD_LIMITS.netScoreImpact;
+        Object.entries(card.impacts).forEach(([axis, value]) => {
+            if (!(IMPACT_AXES as readonly string[]).includes(axis)) error(`.impacts.${axis}`, `'${axis}' is not an impact axis; use ${IMPACT_AXES.join(', ')}.`);
+            else if (typeof value !== 'number' || !Number.isInteger(value)) error(`.impacts.${axis}`, `${axis} impact must be a whole number.`);
+            else if (value < min || value > max) error(`.impacts.${axis}`, `${axis} impact must be between ${min} and ${max}.`);
+        });
+        const split = Object.values(card.impacts).reduce<number>((sum, value) => sum + (typeof value === 'number' ? value : 0), 0);
+        if (typeof card.netScoreImpact === 'number' && split !== card.netScoreImpact) {
+            issues.push({ severity: 'warning', path: `${path}.impacts`, message: `impacts add up to ${split}, not ${card.netScoreImpact}; the difference counts on the category's axis.` });
+        }
+    }
+    if (card.requiresFloor !== undefined && !Array.isArray(card.requiresFloor)) {
+        error('.requiresFloor', 'floor requirements must be a list.');
+    } else {
+        (card.requiresFloor ?? []).forEach((req, index) => {
+            if (!parseFloorRequirement(req)) {
+                error(`.requiresFloor[${index}]`, `floor requirement '${req}' must be ${FLOOR_REQUIREMENT_SYNTAX}.`);
+            }
+        });
+    }
+    if (card.image === undefined) {
+        issues.push({ severity: 'warning', path: `${path}.image`, message: 'no image; the default card art is shown.' });
+    } else if (typeof card.image !== 'string' || !card.image.startsWith('/')) {
+        error('.image', 'image must be a path under /public, such as /cards/library.png.');
+    }
+    return issues;
+}
+
+/** Checks one card: id and name present, every numeric field inside CARD_FIELD_LIMITS, floor requirements understood. */
+export function validateCardDefinition(card: Partial<CardDefinition> | null | undefined): ValidationResult {
+    if (!card || typeof card !== 'object') return validationFailed('Card is missing.');
+    const error = cardIssues(card, '').find(issue => issue.severity === 'error');
+    if (!error) return validationPassed();
+    return validationFailed(`${card.name?.trim() || card.id || 'Card'}: ${error.message}`);
+}
+
+/**
+ * Validates deck data and normalizes legacy card fields, collecting every issue rather than stopping
+ * at the first. Pass the document's `lines` (from jsonValueLines) to have issues carry line numbers.
+ */
+export function validateDeckData(raw: unknown, lines?: ReadonlyMap<string, number>): DeckValidationReport {
+    const issues: DeckIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+    const report = (deck?: DeckFile): DeckValidationReport => {
+        const located = lines ? issues.map(issue => ({ ...issue, line: lineOfPath(lines, issue.path) })) : issues;
+        const isValid = !located.some(issue => issue.severity === 'error');
+        return { isValid, deck: isValid ? deck : undefined, issues: located };
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        error('', 'Deck must be a JSON object.');
+        return report();
+    }
+    const deck = raw as Partial<DeckFile>;
+    if (deck.format !== DECK_FILE_FORMAT) error('format', `format must be '${DECK_FILE_FORMAT}'; this is not an Urban Balance deck.`);
+    else if (deck.version !== DECK_FILE_VERSION) error('version', `unsupported deck version ${String(deck.version)} (expected ${DECK_FILE_VERSION}).`);
+    if (typeof deck.name !== 'string' || !deck.name.trim()) error('name', 'deck needs a name.');
+    else if (deck.name.trim().toLowerCase() === BUILT_IN_DECK_NAME.toLowerCase()) error('name', `"${BUILT_IN_DECK_NAME}" is the built-in deck; choose another name.`);
+    if (!Array.isArray(deck.cards) || deck.cards.length === 0) {
+        error('cards', 'deck has no cards.');
+        return report();
+    }
+
+    const firstUse = new Map<string, number>();
+    const cards = deck.cards.map((rawCard: unknown, index) => {
+        const path = `cards[${index}]`;
+        if (!rawCard || typeof rawCard !== 'object' || Array.isArray(rawCard)) {
+            error(path, 'card must be an object.');
+            return null;
+        }
+        const card = normalizeCard(rawCard as Record<string, unknown>, path, issues);
+        issues.push(...cardIssues(card, path));
+        if (typeof card.id === 'string') {
+            const first = firstUse.get(card.id);
+            if (first !== undefined) error(`${path}.id`, `duplicate id '${card.id}' (first used by cards[${first}]).`);
+            else firstUse.set(card.id, index);
+        }
+        return card;
+    });
+    if (!cards.some(card => card && (card.quantity ?? 1) > 0)) error('cards', 'every card in the deck has 0 copies.');
+    return report(createDeckFile(String(deck.name), cards as CardDefinition[]));
+}
+
+/** Parses and validates deck JSON text; issues carry the line they were found on. */
+export function validateDeckJson(json: string): DeckValidationReport {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(json);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { isValid: false, issues: [{ severity: 'error', path: '', line: syntaxErrorLine(json, error), message: `not valid JSON: ${message}` }] };
+    }
+    return validateDeckData(raw, jsonValueLines(json));
+}
+
+/**
+ * Warnings for cards whose image file doesn't exist. `imageExists` does the lookup, since only the
+ * server can see /public (see lib/server/imageValidation).
+ */
+export async function findMissingImages(
+    deck: DeckFile,
+    imageExists: (path: string) => Promise<boolean>,
+    lines?: ReadonlyMap<string, number>,
+): Promise<DeckIssue[]> {
+    const checks = await Promise.all(deck.cards.map(card => (card.image ? imageExists(card.image) : Promise.resolve(true))));
+    return deck.cards.flatMap((card, index): DeckIssue[] => {
+        if (checks[index]) return [];
+        const path = `cards[${index}].image`;
+        return [{ severity: 'warning', path, line: lines && lineOfPath(lines, path), message: `image ${card.image} was not found under /public; the default card art is shown.` }];
+    });
+}
+
+/** Checks a whole deck: a usable name, at least one card with copies, unique ids and every card valid. */
+export function validateDeck(deck: Partial<DeckFile> | null | undefined): ValidationResult {
+    const error = validateDeckData(deck).issues.find(issue => issue.severity === 'error');
+    if (!error) return validationPassed();
+    return validationFailed(error.path ? `${error.path}: ${error.message}` : error.message);
+}
+
+/**
+ * JSON Schema (draft-07) for deck files, for editors that offer completion and inline checks. It
+ * describes the canonical fields only; validateDeckData also accepts and normalizes the legacy ones.
+ */
+export const DECK_JSON_SCHEMA = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Urban Balance deck',
+    type: 'object',
+    required: ['format', 'version', 'name', 'cards'],
+    properties: {
+        format: { const: DECK_FILE_FORMAT },
+        version: { const: DECK_FILE_VERSION },
+        name: { type: 'string', minLength: 1, not: { const: BUILT_IN_DECK_NAME } },
+        cards: {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['id', 'name', 'category', 'netScoreImpact'],
+                properties: {
+                    id: { type: 'string', pattern: CARD_ID_PATTERN.source },
+                    name: { type: 'string', minLength: 1 },
+                    category: { type: 'string', minLength: 1 },
+                    image: { type: 'string', pattern: '^/' },
+                    impacts: {
+                        type: 'object',
+                        additionalProperties: false,
+                        properties: Object.fromEntries(IMPACT_AXES.map(axis => [axis, { type: 'integer', minimum: CARD_FIELD_LIMITS.netScoreImpact.min, maximum: CARD_FIELD_LIMITS.netScoreImpact.max }])),
+                        description: 'Score impact split by axis; the rest counts on the category axis',
+                    },
+                    requiresFloor: { type: 'array', items: { anyOf: [{ type: 'integer', minimum: 1 }, { type: 'string', pattern: FLOOR_REQUIREMENT_PATTERN }] } },
+                    ...Object.fromEntries(Object.entries(CARD_FIELD_LIMITS).map(([key, limit]) =>
+                        [key, { type: limit.integer ? 'integer' : 'number', minimum: limit.min, maximum: limit.max, description: limit.label }])),
+                },
+            },
+        },
+    },
+} as const;
+
+/** A deck file for `cards`, ready to save or export. */
+export const createDeckFile = (name: string, cards: CardDefinition[]): DeckFile =>
+    ({ format: DECK_FILE_FORMAT, version: DECK_FILE_VERSION, name: name.trim(), cards });
+
+export function serializeDeck(deck: DeckFile): string {
+    return JSON.stringify(deck, null, 2);
+}
+
+export type DeckParseResult = ValidationResult & { deck?: DeckFile; issues: DeckIssue[] };
+
+/** Parses, validates and normalizes an exported deck file; `reason` is the first error. */
+export function parseDeck(json: string): DeckParseResult {
+    const { isValid, deck, issues } = validateDeckJson(json);
+    const error = issues.find(issue => issue.severity === 'error');
+    return { isValid, reason: error ? formatDeckIssue(error) : '', deck, issues };
+}
@@ -0,0 +1,129 @@
+// src/data/rules.ts
+// Rule set presets and validation. The Standard preset is built from the defaults in constants.ts.
+
+import { RuleSet } from './types';
+import {
+    MAX_STORIES,
+    MAX_HAND_SIZE,
+    INITIAL_HAND_SIZE,
+    BALANCE_THRESHOLD,
+    AXIS_BALANCE_THRESHOLD,
+    INITIAL_RECALL_TOKENS,
+    RECALL_SCORE_PENALTY,
+    RECALL_MAX_FLOOR,
+    PROPOSAL_TIMER_MS,
+    MIN_DEVELOPER_YIELD_PCT,
+    TIMEOUT_POLICY,
+} from './constants';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+import { TIMEOUT_POLICIES } from '@/engine/timeout';
+
+export type { RuleSet } from './types';
+
+export interface RuleSetPreset {
+    label: string;
+    description: string;
+    rules: RuleSet;
+}
+
+export const STANDARD_RULES: RuleSet = {
+    maxStories: MAX_STORIES,
+    maxHandSize: MAX_HAND_SIZE,
+    initialHandSize: INITIAL_HAND_SIZE,
+    balanceThreshold: BALANCE_THRESHOLD,
+    axisBalanceThreshold: AXIS_BALANCE_THRESHOLD,
+    initialRecallTokens: INITIAL_RECALL_TOKENS,
+    recallScorePenalty: RECALL_SCORE_PENALTY,
+    recallMaxFloor: RECALL_MAX_FLOOR,
+    proposalTimerMs: PROPOSAL_TIMER_MS,
+    minDeveloperYieldPct: MIN_DEVELOPER_YIELD_PCT,
+    timeoutPolicy: TIMEOUT_POLICY,
+};
+
+export const RULE_SET_PRESETS: Readonly<Record<string, RuleSetPreset>> = {
+    quick: {
+        label: 'Quick 10-floor',
+        description: 'A short game: ten floors, one recall token and a tighter clock.',
+        rules: {
+            ...STANDARD_RULES,
+            maxStories: 10,
+            balanceThreshold: 8,
+            initialRecallTokens: 1,
+            recallMaxFloor: 4,
+            proposalTimerMs: 20_000,
+        },
+    },
+    standard: {
+        label: 'Standard 30',
+        description: 'The full thirty-floor tower.',
+        rules: STANDARD_RULES,
+    },
+    skyscraper: {
+        label: 'Skyscraper 60',
+        description: 'Sixty floors, bigger hands, an extra recall token and wider balanced bands.',
+        rules: {
+            ...STANDARD_RULES,
+            maxStories: 60,
+            maxHandSize: 6,
+            initialHandSize: 4,
+            balanceThreshold: 15,
+            axisBalanceThreshold: 100,
+            initialRecallTokens: 3,
+            recallMaxFloor: 24,
+        },
+    },
+};
+
+/** The rules that are numbers; timeoutPolicy is the one that isn't. */
+export type NumericRule = Exclude<keyof RuleSet, 'timeoutPolicy'>;
+
+/** Editable range and label of each numeric rule, shared by the custom rules editor and validation. */
+export const RULE_LIMITS: Readonly<Record<NumericRule, { label: string; min: number; max: number; step?: number }>> = {
+    maxStories: { label: 'Floors', min: 5, max: 100 },
+    maxHandSize: { label: 'Max hand size', min: 1, max: 10 },
+    initialHandSize: { label: 'Opening hand', min: 0, max: 10 },
+    balanceThreshold: { label: 'Balance threshold (±)', min: 0, max: 100 },
+    axisBalanceThreshold: { label: 'Axis threshold (±)', min: 0, max: 1000 },
+    initialRecallTokens: { label: 'Recall tokens', min: 0, max: 5 },
+    recallScorePenalty: { label: 'Recall penalty', min: 0, max: 50 },
+    recallMaxFloor: { label: 'Recall limit floor', min: 0, max: 100 },
+    proposalTimerMs: { label: 'Turn timer (ms)', min: 5_000, max: 300_000, step: 1_000 },
+    minDeveloperYieldPct: { label: 'Min developer yield % (0 = off)', min: 0, max: 20 },
+};
+
+/** Rules a rule set may leave out; rule sets from before they existed play without them. */
+const OPTIONAL_RULES: readonly NumericRule[] = ['axisBalanceThreshold'];
+
+/** Checks every numeric rule is a whole number inside RULE_LIMITS, the timeout policy is known, and the rules agree with each other. */
+export function validateRuleSet(rules: Partial<RuleSet> | null | undefined): ValidationResult {
+    if (!rules || typeof rules !== 'object') return validationFailed('Rule set is missing.');
+    for (const [key, limit] of Object.entries(RULE_LIMITS) as [NumericRule, (typeof RULE_LIMITS)[NumericRule]][]) {
+        const value = rules[key];
+        if (value === undefined && OPTIONAL_RULES.includes(key)) continue;
+        if (typeof value !== 'number' || !Number.isInteger(value)) return validationFailed(`${limit.label} must be a whole number.`);
+        if (value < limit.min || value > limit.max) return validationFailed(`${limit.label} must be between ${limit.min} and ${limit.max}.`);
+    }
+    if (rules.timeoutPolicy !== undefined && !(rules.timeoutPolicy in TIMEOUT_POLICIES)) {
+        return validationFailed(`Timeout policy must be one of ${Object.keys(TIMEOUT_POLICIES).join(', ')}.`);
+    }
+    const { initialHandSize, maxHandSize, recallMaxFloor, maxStories } = rules as RuleSet;
+    if (initialHandSize > maxHandSize) return validationFailed('Opening hand cannot be larger than the max hand size.');
+    if (recallMaxFloor > maxStories) return validationFailed('Recall limit floor cannot be above the top floor.');
+    return validationPassed();
+}
+
+/** Key of the preset these rules match exactly, or undefined for a custom rule set. */
+export function findRuleSetPreset(rules: RuleSet): string | undefined {
+    return Object.keys(RULE_SET_PRESETS).find(name =>
+        (Object.keys(RULE_LIMITS) as NumericRule[]).every(key => RULE_SET_PRESETS[name].rules[key] === rules[key])
+        && (RULE_SET_PRESETS[name].rules.timeoutPolicy ?? TIMEOUT_POLICY) === (rules.timeoutPolicy ?? TIMEOUT_POLICY));
+}
+
+/** Human-readable name for a rule set: the preset label, or "Custom". */
+export const describeRuleSet = (rules: RuleSet): string => {
+    const preset = findRuleSetPreset(rules);
+    return preset ? RULE_SET_PRESETS[preset].label : `Custom (${rules.maxStories} floors)`;
+};
+
+/** The rules a state was started under; states from before rule sets existed play by Standard. */
+export const rulesOf = (state: { rules?: RuleSet }): RuleSet => state.rules ?? STANDARD_RULES;
@@ -0,0 +1,95 @@
+// src/data/scenarios.ts
+// Scenario presets: the site a game is played on. A scenario can fix the rule set, cap the height, take
+// cards out of the deck, set the starting baseline from its mandatory System cards, and add zoning
+// requirements that are checked when the game ends.
+
+import { DeckFile, RuleSet } from './types';
+import { mandatoryImpactCardDefinitions, playableCardDefinitions } from './deckData';
+import { BUILT_IN_DECK_NAME, createDeckFile, validateDeck } from './decks';
+import { STANDARD_RULES } from './rules';
+import { logWarn } from '@/utils/logger';
+
+export type ZoningRequirement =
+    | { kind: 'groundFloorUse'; category: string; label: string }              // Floor 1 must be agreed with a use of this category
+    | { kind: 'minimumUnits'; cardIds: string[]; units: number; label: string }; // At least this many units of these cards in the building
+
+export interface Scenario {
+    label: string;
+    description: string;
+    rules?: RuleSet;               // Replaces the rule set chosen on the title screen
+    heightCap?: number;            // Caps maxStories of whichever rule set is played
+    excludedCardIds?: string[];    // Cards taken out of the deck for this site
+    baselineCardIds: string[];     // Mandatory System cards whose impacts make up the starting score
+    zoning: ZoningRequirement[];
+}
+
+export const DEFAULT_SCENARIO = 'generic';
+
+export const SCENARIOS: Readonly<Record<string, Scenario>> = {
+    generic: {
+        label: 'Generic site',
+        description: 'An unremarkable city lot with the standard climate requirements and no zoning overlay.',
+        baselineCardIds: ['energy-efficient-systems', 'onsite-renewable-energy'],
+        zoning: [],
+    },
+    transitOriented: {
+        label: 'Transit-oriented site',
+        description: 'Above a new station: forty floors, active retail at street level and a floor of affordable homes. No big-box stores.',
+        rules: { ...STANDARD_RULES, maxStories: 40, recallMaxFloor: 16, balanceThreshold: 12 },
+        excludedCardIds: ['big-box-store'],
+        baselineCardIds: ['onsite-renewable-energy', 'streetscape-enhancement'],
+        zoning: [
+            { kind: 'groundFloorUse', category: 'Retail/Commercial', label: 'Ground-floor retail' },
+            { kind: 'minimumUnits', cardIds: ['affordable-rental-unit', 'affordable-condo-unit'], units: 8, label: 'At least 8 affordable units' },
+        ],
+    },
+    historicDistrict: {
+        label: 'Historic district',
+        description: 'A protected streetscape: twelve floors at most, the facade must be restored, and no night clubs or big-box stores.',
+        heightCap: 12,
+        excludedCardIds: ['night-club', 'big-box-store'],
+        baselineCardIds: ['energy-efficient-systems', 'historic-facade'],
+        zoning: [
+            { kind: 'minimumUnits', cardIds: ['affordable-rental-unit', 'affordable-condo-unit'], units: 4, label: 'At least 4 affordable units' },
+        ],
+    },
+};
+
+/** The scenario registered under `id`; unknown ids (e.g. from a newer save) play as the generic site. */
+export function getScenario(id: string | null | undefined): Scenario {
+    const scenario = SCENARIOS[id ?? DEFAULT_SCENARIO];
+    if (!scenario) logWarn(`Unknown scenario '${id}'; using the generic site.`, 'Scenarios');
+    return scenario ?? SCENARIOS[DEFAULT_SCENARIO];
+}
+
+/** Starting score of a scenario: the sum of its mandatory cards' impacts. */
+export function scenarioBaseline(id: string | null | undefined): number {
+    return getScenario(id).baselineCardIds.reduce((sum, cardId) =>
+        sum + (mandatoryImpactCardDefinitions.find(card => card.id === cardId)?.netScoreImpact ?? 0), 0);
+}
+
+/** The rules a game on this site is played by: the scenario's own, or `chosen` under its height cap. */
+export function scenarioRules(id: string | null | undefined, chosen: RuleSet): RuleSet {
+    const { rules = chosen, heightCap } = getScenario(id);
+    if (heightCap === undefined || rules.maxStories <= heightCap) return rules;
+    return { ...rules, maxStories: heightCap, recallMaxFloor: Math.min(rules.recallMaxFloor, heightCap) };
+}
+
+/**
+ * The deck a game on this site is dealt from: `deck` (or the built-in cards when null) without the
+ * scenario's excluded cards. Returns `deck` unchanged when nothing is excluded or nothing would be left.
+ */
+export function scenarioDeck(id: string | null | undefined, deck: DeckFile | null): DeckFile | null {
+    const scenario = getScenario(id);
+    const excluded = new Set(scenario.excludedCardIds ?? []);
+    const cards = deck?.cards ?? playableCardDefinitions;
+    if (!cards.some(card => excluded.has(card.id))) return deck;
+
+    const subset = createDeckFile(deck?.name ?? `${BUILT_IN_DECK_NAME} – ${scenario.label}`, cards.filter(card => !excluded.has(card.id)));
+    const check = validateDeck(subset);
+    if (!check.isValid) {
+        logWarn(`${scenario.label} leaves no playable deck (${check.reason}); dealing the full deck.`, 'Scenarios');
+        return deck;
+    }
+    return subset;
+}
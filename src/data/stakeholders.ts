@@ -0,0 +1,38 @@
+// src/data/stakeholders.ts
+// The stakeholders who can sit at the table. Every game seats the Community and the Developer, who pull the
+// score in opposite directions; games of three or four add stakeholders with objectives of their own.
+// engine/standings.ts measures each role against its objective and judges by it who wins when the game ends.
+
+import { PlayerRole } from './types';
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 4;
+
+/** The roles every game seats; the sign of the score says which of them the project favors. */
+export type CoreRole = PlayerRole.Community | PlayerRole.Developer;
+
+/** Roles that join games of three or four, in the order they are added. */
+export const EXTRA_ROLES: readonly PlayerRole[] = [PlayerRole.CityPlanner, PlayerRole.SmallBusiness];
+
+/** Card categories the Small Business Owner counts as storefronts. */
+export const STOREFRONT_CATEGORIES: readonly string[] = ['Retail/Commercial', 'Hospitality'];
+/** Storefront cards the Small Business Owner wants in the finished building. */
+export const STOREFRONT_TARGET = 3;
+
+export interface Stakeholder {
+    label: string;
+    objective: string;             // One line, shown wherever the role's standing is
+}
+
+export const STAKEHOLDERS: Readonly<Record<PlayerRole, Stakeholder>> = {
+    [PlayerRole.Community]: { label: 'Community', objective: 'Tip the balance toward community benefit.' },
+    [PlayerRole.Developer]: { label: 'Developer', objective: 'Tip the balance toward developer returns.' },
+    [PlayerRole.CityPlanner]: { label: 'City Planner', objective: 'Keep the project inside the balanced band.' },
+    [PlayerRole.SmallBusiness]: { label: 'Small Business Owner', objective: `Get at least ${STOREFRONT_TARGET} storefronts (retail or hospitality) built.` },
+};
+
+export const roleLabel = (role: PlayerRole): string => STAKEHOLDERS[role]?.label ?? role;
+
+/** The extra roles seated in a game of `playerCount`, after the Community and the Developer. */
+export const extraRolesFor = (playerCount: number): PlayerRole[] =>
+    EXTRA_ROLES.slice(0, Math.max(0, Math.min(playerCount, MAX_PLAYERS) - MIN_PLAYERS));
@@ -0,0 +1,32 @@
+// src/data/synergies.ts
+// Placement synergies: bonuses and penalties for where cards sit relative to each other and to the building.
+// Amounts are score points, applied once per matching card pair (or once per card for building-level placements).
+
+/** Picks cards by definition id, category, or both. */
+export interface CardMatcher {
+    id?: string;
+    category?: string;
+}
+
+/**
+ * Where the rule looks. `above`/`below`/`adjacent` compare with the cards in use on the floor directly
+ * above, below or on either side of the card's use; `topFloor`/`groundFloor` need no neighbour.
+ */
+export type SynergyPlacement = 'above' | 'below' | 'adjacent' | 'topFloor' | 'groundFloor';
+
+export interface SynergyRule {
+    id: string;
+    label: string;            // Short name shown on floor badges
+    card: CardMatcher;
+    placement: SynergyPlacement;
+    neighbour?: CardMatcher;  // Required for above, below and adjacent
+    amount: number;
+}
+
+export const SYNERGY_RULES: readonly SynergyRule[] = [
+    { id: 'grocery-under-housing', label: 'Groceries downstairs', card: { id: 'grocery-store' }, placement: 'above', neighbour: { category: 'Housing' }, amount: -6 },
+    { id: 'roof-garden-on-top', label: 'Rooftop views', card: { id: 'roof-garden-bar' }, placement: 'topFloor', amount: -5 },
+    { id: 'night-club-next-to-housing', label: 'Late-night noise', card: { id: 'night-club' }, placement: 'adjacent', neighbour: { category: 'Housing' }, amount: 4 },
+    { id: 'plaza-at-street-level', label: 'Street frontage', card: { id: 'public-plaza-bikes' }, placement: 'groundFloor', amount: -3 },
+    { id: 'big-box-under-housing', label: 'Loading dock below homes', card: { id: 'big-box-store' }, placement: 'above', neighbour: { category: 'Housing' }, amount: 3 },
+];
@@ -55,6 +55,12 @@ export interface DebugLog {
 /**
  * Base definition of a card before instantiation.
  */
+/** Dimensions a card's score impact is split across (see engine/axes.ts). Each is signed like the net score. */
+export type ImpactAxis = 'affordability' | 'sustainability' | 'profit' | 'culture';
+
+/** A card's impact on each axis; axes left out are 0. */
+export type ImpactVector = Partial<Record<ImpactAxis, number>>;
+
 export interface CardDefinition {
     id: string; // Unique identifier for the card type (e.g., "feature-login")
     name: string;
@@ -65,6 +71,7 @@ export interface CardDefinition {
     /** @deprecated Use imageUrl instead. */
     image?: string;
     netScoreImpact?: number; // Primary field for score changes used by engine mediation/scoring
+    impacts?: ImpactVector;  // netScoreImpact split by axis; whatever the axes don't account for counts on the category's axis
     /** @deprecated Use netScoreImpact instead. */
     value?: number;
     /** @deprecated Use netScoreImpact or specific logic if needed. */
@@ -85,12 +92,23 @@ export interface CardDefinition {
         cost?: string;       // Formatted cost string
         summary?: string;    // Short effect summary
     };
-    // Card effect function - takes current state, should ideally return state changes or events
-    effect?: (gameState: Readonly<GameState>) => Partial<GameState> | GameEvent[] | void; // Example signature
+    // Card effects are registered by card id in src/data/cardEffects.ts rather than stored here:
+    // card data is cloned, persisted and replayed, so it must stay plain JSON.
 
     // --- Deck Building & Placement ---
     quantity?: number;        // How many copies of this card definition exist (for deck building)
-    requiresFloor?: (number | string)[]; // Floor restrictions (e.g., [1], ['roof'], ['odd'])
+    requiresFloor?: (number | string)[]; // Floor rules (e.g., [1], ['1-3', 'max:2'], ['roof']); see engine/floorRules.ts
+}
+
+/**
+ * A named card catalog as saved, imported and exported by the deck editor. The built-in catalog
+ * in deckData.ts is the deck games use when no other is chosen.
+ */
+export interface DeckFile {
+    format: 'urbanbalance-deck';
+    version: number;
+    name: string;
+    cards: CardDefinition[];
 }
 
 /**
@@ -114,6 +132,40 @@ export interface CardInstance extends CardDefinition {
 // Alias CardData -> CardInstance for backward compatibility
 export type CardData = CardInstance;
 
+// --- Card Effects ---
+
+/**
+ * One-off moments a card effect can hook into, in the order they run for a bundle.
+ * Within a hook, the bundle's cards run in bundle order.
+ */
+export type EffectTrigger = 'onPropose' | 'onAccept' | 'onFinalize';
+
+/** What an effect can see: the building as it stands, the card and the floor the card is on (or proposed for). */
+export interface EffectContext {
+    floors: readonly FloorState[];
+    card: Readonly<CardInstance>;
+    floorNumber: number;
+    rules: RuleSet;
+}
+
+/** A score change produced by an effect. `floor` is the floor whose use is affected (defaults to the card's own). */
+export interface EffectAdjustment {
+    amount: number;
+    reason: string;
+    floor?: number;
+}
+
+/**
+ * Behaviour attached to a card definition. Hooks fire once; `ongoing` is re-evaluated against
+ * the agreed floors whenever they change, and only the differences are applied to the score.
+ */
+export interface CardEffect {
+    onPropose?: (context: EffectContext) => EffectAdjustment[];
+    onAccept?: (context: EffectContext) => EffectAdjustment[];
+    onFinalize?: (context: EffectContext) => EffectAdjustment[];
+    ongoing?: (context: EffectContext) => EffectAdjustment[];
+}
+
 // --- Game State Enums --- (Retaining deprecated values)
 
 /**
@@ -139,6 +191,7 @@ export enum Committer {
     PlayerA = 'A',       // Player A's proposal was chosen (index 0)
     PlayerB = 'B',       // Player B's proposal was chosen (index 1)
     Auto = 'auto',     // Result of mediation (engine decided)
+    Majority = 'majority', // Carried by a vote of the other players (games of three or four)
     None = 'none',     // Floor was skipped or has no winner yet
 }
 
@@ -147,6 +200,7 @@ export enum Committer {
  */
 export enum GamePhase {
     Title = 'title',         // Title screen or main menu
+    Drafting = 'drafting',   // Players pick their card pools before a drafted-deck game
     Playing = 'playing',       // Core turn-by-turn play
     Negotiation = 'negotiation', // Bucket 4 Fix: Added Negotiation phase
     GameOver = 'gameOver',   // Game has ended, showing results
@@ -154,10 +208,13 @@ export enum GamePhase {
 
 /**
  * Player roles, determining objectives or perspectives.
+ * Every game seats the Community and the Developer; games of three or four add the other stakeholders (see data/stakeholders.ts).
  */
 export enum PlayerRole {
     Community = 'community',
     Developer = 'developer',
+    CityPlanner = 'cityPlanner',
+    SmallBusiness = 'smallBusiness',
 }
 
 /**
@@ -168,6 +225,9 @@ export enum PlayerType {
     AI = 'ai',
 }
 
+/** Names two people sharing one device entered for their roles (hot-seat games); blank roles keep the role's name. */
+export type PlayerNames = Partial<Record<PlayerRole, string>>;
+
 
 // --- Core State Interfaces --- (Retaining deprecated fields)
 
@@ -177,11 +237,15 @@ export enum PlayerType {
 export interface FloorState {
     floorNumber: number;
     status: FloorStatus;
-    // Proposals can hold multiple cards, though current engine logic might only use one.
+    // Proposals are bundles of one or more cards, scored and placed together.
     proposalA?: CardInstance[];
     proposalB?: CardInstance[];
-    winnerCard?: CardInstance;     // The card agreed upon for this floor (undefined if Pending/Skipped/Reopened)
+    winnerCard?: CardInstance;     // The card agreed upon for this floor (undefined if Pending/Skipped/Reopened); first of winnerCards
+    winnerCards?: CardInstance[];  // Every card of the agreed bundle (absent on floors finalized before bundles existed)
+    sqftUsed?: number;             // Area taken on this floor by the agreed use (out of BUILDING_FOOTPRINT)
+    spanOf?: number;               // Set when this floor is the upper part of a use agreed on that lower floor
     committedBy: Committer | null; // Who committed the winnerCard or 'None'/'Auto'
+    votes?: Record<string, boolean>; // Games of three or more: each player's vote on the proposal on the table, by player id
     // Represents the 'size' or contribution of the floor, derived from winnerCard or default.
     units?: number;
     /** @deprecated Use winnerCard instead. */
@@ -213,8 +277,45 @@ export interface Player {
     // Bucket 7 Fix: Added back isLeadPlayer. Engine needs to set this appropriately.
     // Note: This can be complex to keep accurate if lead status changes frequently.
     isLeadPlayer: boolean;
+    // Drafted deck mode only: this player's private piles, built from the stacks they drafted.
+    drawPile?: CardInstance[];
+    discardPile?: CardInstance[];
+}
+
+/**
+ * The tunable numbers a game is played under. Chosen at game start and fixed for the whole game;
+ * presets live in src/data/rules.ts.
+ */
+export interface RuleSet {
+    maxStories: number;           // Building height in floors
+    maxHandSize: number;
+    initialHandSize: number;      // Cards dealt to each player at the start
+    balanceThreshold: number;     // |final score| at or below this is a balanced project
+    initialRecallTokens: number;  // Recall tokens per player
+    recallScorePenalty: number;   // Score cost of using a recall token
+    recallMaxFloor: number;       // Recall tokens only reach floors up to this limit
+    proposalTimerMs: number;      // Time allowed for each proposal or response
+    minDeveloperYieldPct: number; // Finished building must yield at least this % a year or the project is infeasible (0 = off)
+    axisBalanceThreshold?: number; // A balanced project also keeps every impact axis within ± this (absent: the net score alone decides)
+    timeoutPolicy?: TimeoutPolicy; // What a turn that runs out of time does (absent: autoPass)
 }
 
+/**
+ * What happens when the proposal timer runs out on a player's turn (the TIMEOUT action).
+ * 'autoPass': the player passes (or, on a vote, votes against).
+ * 'autoAccept': the player accepts the proposal in front of them, or passes when there is none.
+ * 'forfeitRecall': the player loses a recall token, if they have one, and passes.
+ */
+export type TimeoutPolicy = 'autoPass' | 'autoAccept' | 'forfeitRecall';
+
+/**
+ * How players get cards.
+ * 'openDraft': a draw picks any card definition, in unlimited supply.
+ * 'drawPile': a draw takes the top card of a shuffled pile holding `quantity` copies of each card.
+ * 'drafted': as 'drawPile', but each player has a private pile built from the stacks they drafted before the game.
+ */
+export type DeckMode = 'openDraft' | 'drawPile' | 'drafted';
+
 /**
  * Overall game state managed primarily by the GameEngine.
  */
@@ -232,12 +333,28 @@ export interface GameState {
     // Game log for simple, sequential events shown to user (optional)
     gameLog: string[];
 
+    // Seed of the PRNG used for this game (set during START_GAME); replaying with it reproduces the game.
+    seed?: number;
+    // Number of card instances the engine has dealt or drawn; keeps instance ids unique and deterministic.
+    cardsDrawn?: number;
+    // Rule set chosen at START_GAME; absent in states created before rule sets existed (treated as Standard).
+    rules?: RuleSet;
+    // Running total of one-off card effect adjustments (ongoing effects are derived from floors instead).
+    effectScore?: number;
+    // How cards are drawn, chosen at START_GAME; absent in states created before deck modes existed (open draft).
+    deckMode?: DeckMode;
+    // Draw pile mode only: times the discard pile has been shuffled into a new draw pile.
+    reshuffles?: number;
+    // Scenario chosen at START_GAME and the starting score it sets; absent in states created before scenarios existed (baseline 0).
+    scenarioId?: string;
+    baselineScore?: number;
+
     // --- Potentially External or Derived State ---
     /** @deprecated Calculate building summary in stores/selectors based on floors state. */
     building?: BuildingState; // Keep BuildingState type below for this
-    /** @deprecated Deck state (remaining cards) typically managed externally (e.g., DeckStore/PlayerStore). */
-    deck?: CardInstance[]; // Or CardDefinition[] if just tracking remaining definitions
-    /** @deprecated Discard pile state typically managed externally. */
+    // Draw pile mode only: the cards left to draw, top card first, and the cards that have left play.
+    // Drafted games keep these per player instead (Player.drawPile / Player.discardPile).
+    deck?: CardInstance[];
     discardPile?: CardInstance[];
 
     // ---- Legacy / Removed ----
@@ -315,17 +432,32 @@ export type GameEvent =
     | { type: 'GAME_STARTED'; humanRole: PlayerRole; aiRole: PlayerRole; playerAId: string; playerBId: string; }
     | { type: 'TURN_STARTED'; playerId: string; floor: number; isAiTurn: boolean; }
     // NEXT_TURN removed based on Bucket 5
-    | { type: 'PROPOSAL_MADE'; playerId: string; cardInstanceId: string; cardId: string; floor: number; cardName?: string; }
-    | { type: 'COUNTER_MADE'; playerId: string; cardInstanceId: string; cardId: string; floor: number; cardName?: string; }
-    | { type: 'PROPOSAL_ACCEPTED'; acceptedBy: string; committedBy: Committer; cardInstanceId: string; cardId: string; floor: number; cardName?: string; }
+    // cardInstanceId/cardId/cardName describe the first card of the bundle; cardInstanceIds lists all of it.
+    | { type: 'PROPOSAL_MADE'; playerId: string; cardInstanceId: string; cardId: string; floor: number; cardName?: string; cardInstanceIds?: string[]; }
+    | { type: 'COUNTER_MADE'; playerId: string; cardInstanceId: string; cardId: string; floor: number; cardName?: string; cardInstanceIds?: string[]; }
+    | { type: 'PROPOSAL_ACCEPTED'; acceptedBy: string; committedBy: Committer; cardInstanceId: string; cardId: string; floor: number; cardName?: string; cardInstanceIds?: string[]; }
     | { type: 'PROPOSAL_PASSED'; passedBy: string; floor: number; }
-    | { type: 'FLOOR_FINALIZED'; floor: number; status: FloorStatus; card?: CardInstance; committedBy: Committer | null; }
+    // Games of three or more: a vote on the proposal on the table, with the tally so far; `needed` yes votes carry it.
+    | { type: 'VOTE_CAST'; playerId: string; floor: number; inFavor: boolean; yes: number; no: number; needed: number; }
+    | { type: 'FLOOR_FINALIZED'; floor: number; status: FloorStatus; card?: CardInstance; cards?: CardInstance[]; committedBy: Committer | null; spannedFloors?: number[]; }
     | { type: 'DRAW_REQUESTED'; playerId: string; }
     | { type: 'CARD_DRAWN'; playerId: string; card: CardInstance; } // Uses full CardInstance
-    | { type: 'RECALL_USED'; floor: number; playerId: string; recalledCard?: CardInstance; committedBy?: Committer | null; }
-    | { type: 'SCORE_ADJUSTED'; amount: number; reason: string; }
+    // A player at the hand limit discarded a card to make room for a draw.
+    | { type: 'CARD_DISCARDED'; playerId: string; card: CardInstance; }
+    // Draw pile mode: the draw pile ran out and the discard pile was shuffled to replace it.
+    | { type: 'DECK_RESHUFFLED'; cards: number; }
+    | { type: 'RECALL_USED'; floor: number; playerId: string; recalledCard?: CardInstance; recalledCards?: CardInstance[]; committedBy?: Committer | null; }
+    // Card effects and placement synergies fill in the card, the affected floor and what triggered the adjustment.
+    | { type: 'SCORE_ADJUSTED'; amount: number; reason: string; cardId?: string; floor?: number; trigger?: EffectTrigger | 'ongoing' | 'synergy'; }
     | { type: 'GAME_RESET'; }
-    | { type: 'GAME_OVER'; winner: 'developer' | 'community' | 'balanced'; reason: string; finalScore: number; }
+    // 'infeasible': the finished building failed the developer's feasibility rule, so nobody wins.
+    // winners: the seated roles whose objectives the outcome meets (engine/standings.ts); empty when nobody wins.
+    // endedEarly: a player took the early end offered by BALANCE_UNREACHABLE.
+    | { type: 'GAME_OVER'; winner: 'developer' | 'community' | 'balanced' | 'infeasible'; winners: PlayerRole[]; reason: string; finalScore: number; endedEarly?: boolean; }
+    // The proposal timer ran out on playerId's turn; `resolution` is the pass or accept the policy turned it into, which follows.
+    | { type: 'TURN_TIMED_OUT'; playerId: string; floor: number; policy: TimeoutPolicy; resolution: 'pass' | 'accept'; recallTokenForfeited: boolean; }
+    // No play can balance the building any more and the score is bound to `winner`'s side; either player may now END_GAME_EARLY.
+    | { type: 'BALANCE_UNREACHABLE'; minScore: number; maxScore: number; winner: 'developer' | 'community'; reason: string; }
     | { type: 'ERROR'; message: string; code: string; data?: any };
 
 
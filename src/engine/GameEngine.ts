@@ -14,33 +14,56 @@ import {
   PlayerRole,
   GamePhase,
   FloorStatus,
-  Committer
+  Committer,
+  RuleSet,
+  EffectTrigger,
+  DeckMode
 } from '@/data/types';
 
-import {
-  BALANCE_THRESHOLD,
-  MAX_STORIES,
-  RECALL_SCORE_PENALTY, // Note: Penalty application logic might need explicit addition if required.
-  INITIAL_HAND_SIZE,    // Note: Hand/Deck management is primarily external to the engine state.
-  INITIAL_RECALL_TOKENS,
-  RECALL_MAX_FLOOR
-} from '@/data/constants';
+import { STANDARD_RULES, rulesOf } from '@/data/rules';
+import { scenarioBaseline } from '@/data/scenarios';
+import { MAX_PLAYERS, roleLabel } from '@/data/stakeholders';
+import { bundleScoreImpact, bundleUnits, describeBundle, floorScoreImpact, occupyFloors, releaseFloors, validateBundlePlacement } from './bundles';
+import { effectTotal, ongoingEffectChanges, ongoingEffectScore, runEffectHook } from './effects';
+import { buildProForma, checkFeasibility } from './finance';
+import { axisTotals, isBalanced, scenarioAxisBaseline } from './axes';
+import { resolveTimeout } from './timeout';
+import { analyzeReachability, cardSupply, Reachability } from './reachability';
+import { checkFloorRequirements, validateBundleRequirements } from './floorRules';
+import { allPiles, buildDrawPile, drawTopCard, hasPrivatePiles, isDrawPileMode, pilesOf, reshuffleRandom, toDiscard } from './deck';
+import { DraftPicks, draftedDefinitions } from './draft';
+import { gameWinners, ProjectOutcome } from './standings';
 
 import { getCardDefinitionById, getCardDefinitions } from '@/data/deckData'; // May not be needed if engine doesn't manage deck content.
-import { shuffle } from '@/utils/shuffle'; // May not be needed if engine doesn't shuffle deck.
+import { createSeededRandom, generateSeed, randomInt, RandomSource } from '@/utils/random';
 import { logDebug, logError, logWarn, LogLevel } from '@/utils/logger'; // Added LogLevel for clarity if needed, ensure logger supports meta objects.
 
 // Define specific Action Types used by the Engine (Consistent with fault-tree notes)
 export type GameAction =
-  | { type: 'START_GAME'; humanRole: PlayerRole; aiRole: PlayerRole; }
+  // draft: the stacks each role drafted; required in drafted deck mode, where it becomes each player's private pile.
+  // opponent: who plays the aiRole seat (default AI). With PlayerType.Human both seats are people and their ids are their roles.
+  // extraRoles: further stakeholders for a game of three or four, seated after Players A and B and played like the aiRole seat.
+  | { type: 'START_GAME'; humanRole: PlayerRole; aiRole: PlayerRole; seed?: number; rules?: RuleSet; deckMode?: DeckMode; draft?: DraftPicks; scenario?: string; opponent?: PlayerType; extraRoles?: PlayerRole[]; }
   | { type: 'RESET_GAME'; }
   // Using 'instanceId' consistently where a specific card instance is involved.
-  | { type: 'PROPOSE_CARD'; playerId: string; instanceId: string; }
-  | { type: 'COUNTER_PROPOSE'; playerId: string; instanceId: string; }
+  // extraInstanceIds puts further cards in the same bundle; the bundle is scored and placed as one.
+  | { type: 'PROPOSE_CARD'; playerId: string; instanceId: string; extraInstanceIds?: string[]; }
+  | { type: 'COUNTER_PROPOSE'; playerId: string; instanceId: string; extraInstanceIds?: string[]; }
   | { type: 'ACCEPT_PROPOSAL'; playerId: string; }
   | { type: 'PASS_PROPOSAL'; playerId: string; }
   | { type: 'USE_RECALL'; playerId: string; floorNumber: number; }
-  | { type: 'DRAW_CARD'; playerId: string; }; // Engine generates event, store handles logic.
+  // Open draft: without cardId the engine only emits DRAW_REQUESTED for the stores; with it, the engine adds the card to its own hand.
+  // Draw pile mode: takes the top card of the engine's draw pile; cardId is not allowed.
+  | { type: 'DRAW_CARD'; playerId: string; cardId?: string; }
+  // A player at the hand limit may discard a card on their turn to make room for a draw; in draw pile mode it goes on the discard pile.
+  | { type: 'DISCARD_CARD'; playerId: string; instanceId: string; }
+  // Either player may end the game once balance is out of reach; the side the score is bound to wins.
+  | { type: 'END_GAME_EARLY'; playerId: string; }
+  // The proposal timer ran out on playerId's turn. Dispatched by whoever keeps the clock (the orchestrator); the
+  // engine turns it into a pass or an accept as rules.timeoutPolicy says, so a replay resolves it the same way.
+  | { type: 'TIMEOUT'; playerId: string; };
+// In games of three or four there are no counter-proposals: on the lead's proposal, ACCEPT_PROPOSAL votes for it and
+// PASS_PROPOSAL against, each other player in turn, and it is agreed once a majority of them are in favor.
 
 /**
 * Pure Game Engine with no side effects (like timers, UI updates, or direct store calls).
@@ -60,7 +83,7 @@ export class GameEngine {
           phase: GamePhase.Title, // Use correct enum (Bucket 4)
           players: undefined,      // Initialize as undefined, set during START_GAME
           floors: undefined,       // Initialize as undefined, set during START_GAME
-          deck: [],                // Engine state doesn't track actual deck cards/instances.
+          deck: [],                // Filled at START_GAME in draw pile mode; stays empty in open draft.
           currentFloor: 0,         // Set during START_GAME
           currentPlayerIndex: -1,  // Set during START_GAME
           gameLog: ["Game Engine Initialized."], // Keep minimal log if needed, rely on external logger mainly.
@@ -92,7 +115,7 @@ export class GameEngine {
                    result.events.push({ type: 'ERROR', message: 'Internal Error: Invalid player state.', code: 'STATE_ERROR' });
                    return result; // Return state before action
               }
-              if (!stateBeforeAction.floors || stateBeforeAction.floors.length !== MAX_STORIES) {
+              if (!stateBeforeAction.floors || stateBeforeAction.floors.length !== rulesOf(stateBeforeAction).maxStories) {
                   logError("[GameEngine] Invalid state: Floors array is missing or incomplete.", { state: stateBeforeAction, action });
                   result.events.push({ type: 'ERROR', message: 'Internal Error: Invalid floor state.', code: 'STATE_ERROR' });
                   return result; // Return state before action
@@ -123,6 +146,12 @@ export class GameEngine {
               case 'DRAW_CARD':
                   // Pass the guarded state
                   result = this.handleDrawCard(stateBeforeAction as Required<GameState>, action); break;
+              case 'DISCARD_CARD':
+                  result = this.handleDiscardCard(stateBeforeAction as Required<GameState>, action); break;
+              case 'END_GAME_EARLY':
+                  result = this.handleEndGameEarly(stateBeforeAction as Required<GameState>, action); break;
+              case 'TIMEOUT':
+                  result = this.handleTimeout(stateBeforeAction as Required<GameState>, action); break;
               default:
                   // Exhaustiveness check: Ensures all action types are handled.
                   const unknownAction: never = action;
@@ -148,35 +177,104 @@ export class GameEngine {
       return result;
   }
 
+  /** The running score of `state`, as the engine will judge it at game end. */
+  currentScore(state: GameState): number {
+      return this.calculateCurrentScore(state);
+  }
+
+  /**
+   * Range of final scores the game can still end on, from the players' hands, the cards they can
+   * still draw and their recall tokens. See reachability.ts for how the bound is drawn.
+   */
+  analyzeReachability(state: GameState): Reachability {
+      const players = state.players ?? [];
+      const recallTokens = players.reduce((sum, player) => sum + player.recallTokens, 0);
+      // In draw pile mode only the cards in the game can come back: the piles and what is on the table.
+      const supply = isDrawPileMode(state.deckMode)
+          ? cardSupply([...players.map(player => player.hand), ...allPiles(players, this.sharedPiles(state), state.deckMode), ...(state.floors ?? []).flatMap(floor => [floor.proposalA ?? [], floor.proposalB ?? []])], [])
+          : cardSupply(players.map(player => player.hand), getCardDefinitions());
+      const axes = axisTotals(state.floors ?? [], scenarioAxisBaseline(state.scenarioId));
+      return analyzeReachability(state.floors ?? [], this.calculateCurrentScore(state), axes, supply, recallTokens, rulesOf(state));
+  }
+
   // ========================================================
   // Private Handlers for Specific Actions
   // ========================================================
 
   // Action type includes aiRole (Bucket 8 fix)
-  private handleStartGame(initialState: GameState, action: { type: 'START_GAME'; humanRole: PlayerRole; aiRole: PlayerRole }): GameActionResult {
+  private handleStartGame(initialState: GameState, action: Extract<GameAction, { type: 'START_GAME' }>): GameActionResult {
       const events: GameEvent[] = [];
       // Always start from a fresh initial state structure, ignoring 'initialState' param
       const newState = this.createInitialState();
       newState.gameLog = ["Game Started."]; // Reset log specifically for new game
 
+      // Seed is recorded in state so the game can be reproduced; callers supply one to replay.
+      const seed = action.seed ?? generateSeed();
+      const rng = createSeededRandom(seed);
+      newState.seed = seed;
+      // Rules are fixed for the whole game; omitting them (older callers, v1 replays) means Standard.
+      const rules = action.rules ?? STANDARD_RULES;
+      newState.rules = rules;
+      // The scenario sets the starting score. Callers and replays from before scenarios start from zero, as they always did.
+      if (action.scenario !== undefined) {
+          newState.scenarioId = action.scenario;
+          newState.baselineScore = scenarioBaseline(action.scenario);
+      }
+
       // Create Players
       // Decide who is Player A ⇒ lead on floors 1‑5,11‑15,…
-      const humanIsPlayerA = Math.random() < 0.5;
+      const humanIsPlayerA = rng() < 0.5;
 
-      const playerA = humanIsPlayerA
-        ? this.createPlayerDefinition('human', PlayerType.Human, action.humanRole, /*isLead*/ true)
-        : this.createPlayerDefinition('ai',    PlayerType.AI,    action.aiRole,    /*isLead*/ true);
+      const opponentSeat = (isLead: boolean, role: PlayerRole = action.aiRole) => action.opponent === PlayerType.Human
+        ? this.createPlayerDefinition(role, PlayerType.Human, role, isLead, rules.initialRecallTokens)
+        : this.createPlayerDefinition(role === action.aiRole ? 'ai' : `ai-${role}`, PlayerType.AI, role, isLead, rules.initialRecallTokens);
+      const humanSeat = (isLead: boolean) =>
+        this.createPlayerDefinition(action.opponent === PlayerType.Human ? action.humanRole : 'human', PlayerType.Human, action.humanRole, isLead, rules.initialRecallTokens);
 
-      const playerB = humanIsPlayerA
-        ? this.createPlayerDefinition('ai',    PlayerType.AI,    action.aiRole,    /*isLead*/ false)
-        : this.createPlayerDefinition('human', PlayerType.Human, action.humanRole, /*isLead*/ false);
+      const playerA = humanIsPlayerA ? humanSeat(/*isLead*/ true) : opponentSeat(/*isLead*/ true);
+      const playerB = humanIsPlayerA ? opponentSeat(/*isLead*/ false) : humanSeat(/*isLead*/ false);
 
       // Bucket 2 Fix: Initialize players array correctly
       newState.players = [playerA, playerB]; // Player A always at index 0
+      // Further stakeholders sit after A and B, so two-player games (and their replays) seat and deal exactly as before.
+      const extraRoles = (action.extraRoles ?? []).filter((role, i, roles) => role !== action.humanRole && role !== action.aiRole && roles.indexOf(role) === i);
+      if (extraRoles.length !== (action.extraRoles ?? []).length || extraRoles.length > MAX_PLAYERS - 2) {
+          logWarn(`[GameEngine] Ignoring repeated or surplus extra roles in ${JSON.stringify(action.extraRoles)}.`, undefined, 'EngineAction');
+      }
+      extraRoles.slice(0, MAX_PLAYERS - 2).forEach(role => newState.players!.push(opponentSeat(/*isLead*/ false, role)));
+
+      // Deal opening hands from the same seeded RNG so engine-only games (replays, simulations) are reproducible.
+      // Omitting the deck mode (older callers, earlier replays) means open draft.
+      newState.cardsDrawn = 0;
+      newState.deckMode = action.deckMode ?? 'openDraft';
+      const definitions = getCardDefinitions();
+      if (hasPrivatePiles(newState.deckMode)) {
+          if (!action.draft) logWarn('[GameEngine] Drafted deck mode started without draft picks; both piles are empty.', undefined, 'EngineAction');
+          newState.players.forEach(player => {
+              player.drawPile = buildDrawPile(draftedDefinitions(definitions, action.draft?.[player.role]), rng);
+              player.discardPile = [];
+          });
+          newState.reshuffles = 0;
+      } else if (isDrawPileMode(newState.deckMode)) {
+          newState.deck = buildDrawPile(definitions, rng);
+          newState.discardPile = [];
+          newState.reshuffles = 0;
+      }
+      newState.players.forEach(player => {
+          for (let i = 0; i < rules.initialHandSize; i++) {
+              if (isDrawPileMode(newState.deckMode)) {
+                  this.drawFromPile(newState, player, events);
+                  continue;
+              }
+              const card = this.createCardInstance(newState as Required<GameState>, player.id, this.pickRandomCardId(definitions, rng));
+              player.hand.push(card);
+              events.push({ type: 'CARD_DRAWN', playerId: player.id, card });
+          }
+      });
 
       // Initialize Floors
       // Bucket 2 Fix: Initialize floors array correctly
-      newState.floors = Array.from({ length: MAX_STORIES }, (_, i): Floor => ({
+      newState.floors = Array.from({ length: rules.maxStories }, (_, i): Floor => ({
           floorNumber: i + 1,
           status: FloorStatus.Pending,
           proposalA: undefined,
@@ -216,18 +314,80 @@ export class GameEngine {
     type: PlayerType,
     role: PlayerRole,
     isLead: boolean,             // NEW
+    recallTokens: number,
   ): Player {
+    // Head-to-head seats are keyed by role, so name them by role rather than "You".
+    const isHeadToHeadSeat = id === role;
     return {
       id,
-      name: `${type === PlayerType.Human ? 'You' : 'AI'} (${role})`,
+      name: isHeadToHeadSeat ? roleLabel(role) : `${type === PlayerType.Human ? 'You' : 'AI'} (${role})`,
       type,
       role,
       hand: [],
-      recallTokens: INITIAL_RECALL_TOKENS,
+      recallTokens,
       isLeadPlayer: isLead,      // ✅ satisfies Player interface
     };
   }  
 
+  /** Mints a hand card with a deterministic instance id and advances the engine's draw counter. */
+  private createCardInstance(state: Required<GameState>, playerId: string, cardId: string): CardInstance {
+      const definition = getCardDefinitionById(cardId);
+      if (!definition) throw new Error(`Unknown card definition: ${cardId}`);
+      const drawNumber = (state.cardsDrawn ?? 0) + 1;
+      state.cardsDrawn = drawNumber;
+      return { ...definition, instanceId: `${cardId}-${drawNumber}`, ownerId: playerId, stack: 1 };
+  }
+
+  private pickRandomCardId(definitions: { id: string }[], rng: RandomSource): string {
+      return definitions[randomInt(rng, definitions.length)].id;
+  }
+
+  private sharedPiles(state: GameState) {
+      return { drawPile: state.deck ?? [], discardPile: state.discardPile ?? [] };
+  }
+
+  /**
+   * Draw pile mode: moves the top card of `player`'s pile into their hand in `state`, shuffling the discard
+   * pile in first when the pile is empty. Returns undefined when there is nothing left to draw.
+   */
+  private drawFromPile(state: GameState, player: Player, events: GameEvent[]): CardInstance | undefined {
+      const reshuffle = (state.reshuffles ?? 0) + 1;
+      const piles = pilesOf(player, this.sharedPiles(state), state.deckMode);
+      const draw = drawTopCard(piles.drawPile, piles.discardPile, player.id, () => reshuffleRandom(state.seed ?? 0, reshuffle));
+      if (draw.reshuffled) {
+          state.reshuffles = reshuffle;
+          events.push({ type: 'DECK_RESHUFFLED', cards: draw.drawPile.length + (draw.card ? 1 : 0) });
+          logDebug(`[GameEngine] Draw pile empty; shuffled the discard pile into a new one (reshuffle ${reshuffle}).`, undefined, 'EngineAction');
+      }
+      if (hasPrivatePiles(state.deckMode)) {
+          player.drawPile = draw.drawPile;
+          player.discardPile = draw.discardPile;
+      } else {
+          state.deck = draw.drawPile;
+          state.discardPile = draw.discardPile;
+      }
+      if (!draw.card) return undefined;
+      player.hand.push(draw.card);
+      events.push({ type: 'CARD_DRAWN', playerId: player.id, card: draw.card });
+      return draw.card;
+  }
+
+  /**
+   * Draw pile mode: puts cards that left play (displaced or recalled) on the discard pile, in drafted games
+   * the pile of the player who played them. Open draft has none.
+   */
+  private discardCards(state: GameState, cards: CardInstance[] | undefined): void {
+      if (!isDrawPileMode(state.deckMode) || !cards?.length) return;
+      if (!hasPrivatePiles(state.deckMode)) {
+          state.discardPile = [...(state.discardPile ?? []), ...cards.map(toDiscard)];
+          return;
+      }
+      state.players?.forEach(player => {
+          const owned = cards.filter(card => card.ownerId === player.id);
+          if (owned.length) player.discardPile = [...(player.discardPile ?? []), ...owned.map(toDiscard)];
+      });
+  }
+
   private handleResetGame(): GameActionResult {
       // Return a completely new initial state
       const newState = this.createInitialState();
@@ -238,9 +398,9 @@ export class GameEngine {
   }
 
   // Use Required<GameState> because we guarded against undefined players/floors in handleAction
-  private handleProposeCard(state: Required<GameState>, action: { type: 'PROPOSE_CARD'; instanceId: string; playerId: string }): GameActionResult {
+  private handleProposeCard(state: Required<GameState>, action: Extract<GameAction, { type: 'PROPOSE_CARD' }>): GameActionResult {
       const events: GameEvent[] = [];
-      const validation = this.validateSingleCardProposal(state, action);
+      const validation = this.validateProposal(state, action);
       if (!validation.isValid) {
           events.push({ type: 'ERROR', message: validation.reason, code: 'INVALID_PROPOSAL' });
           return { newState: state, events }; // Return original state on validation fail
@@ -260,22 +420,16 @@ export class GameEngine {
       // --- Engine State vs. Store State ---
       // WARNING: Engine's `player.hand` might be out of sync with PlayerStore.
       // Validation ideally uses PlayerStore state. Action handling here assumes
-      // the instanceId is valid and temporarily removes it from the engine's *copy*
+      // the instanceIds are valid and temporarily removes them from the engine's *copy*
       // of the hand state for internal consistency during this action's resolution.
       // The event emitted ('PROPOSAL_MADE') signals the PlayerStore to *actually* update its hand.
-      const cardInstance = player.hand.find(card => card.instanceId === action.instanceId);
-      if (!cardInstance) {
+      const bundleIds = this.bundleInstanceIds(action);
+      const bundle = this.takeBundleFromHand(newState, playerIndex, bundleIds);
+      if (!bundle) {
           // This indicates a state divergence or invalid action despite validation.
-          logError(`[GameEngine] Card instance ${action.instanceId} not found in engine's hand state for player ${action.playerId} after validation. Potential state sync issue.`, { hand: player.hand, action, state }, 'EngineLogic');
-          return { newState: state, events: [...events, { type: 'ERROR', message: `Internal Error: Card instance ${action.instanceId} state mismatch.`, code: 'STATE_INCONSISTENCY' }] };
+          logError(`[GameEngine] Proposal cards ${bundleIds.join(', ')} not found in engine's hand state for player ${action.playerId} after validation. Potential state sync issue.`, { hand: player.hand, action, state }, 'EngineLogic');
+          return { newState: state, events: [...events, { type: 'ERROR', message: `Internal Error: Card instance state mismatch for ${bundleIds.join(', ')}.`, code: 'STATE_INCONSISTENCY' }] };
       }
-      const cardInstanceCopy = this.cloneState(cardInstance); // Clone card data
-
-      // Update player's hand immutably in the newState
-      newState.players![playerIndex] = {
-          ...player,
-          hand: player.hand.filter(c => c.instanceId !== action.instanceId) // Remove proposed card
-      };
       // --- End Engine State vs. Store State ---
 
       // Bucket 2 Fix: Use non-null assertion '!' as floors array is guaranteed
@@ -292,19 +446,21 @@ export class GameEngine {
       const originalFloor = newState.floors![floorIndex];
       const updatedFloor: Floor = {
           ...originalFloor,
-          [proposalSlot]: [cardInstanceCopy] // Proposal is array with one card
+          [proposalSlot]: bundle
       };
       newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? updatedFloor : f);
 
       // Bucket 3 Fix: Ensure PROPOSAL_MADE includes required fields (cardName added for convenience)
       events.push({
           type: 'PROPOSAL_MADE',
-          cardInstanceId: cardInstanceCopy.instanceId,
+          cardInstanceId: bundle[0].instanceId,
           playerId: action.playerId,
           floor: newState.currentFloor,
-          cardId: cardInstanceCopy.id, // Add cardId for reference
-          cardName: cardInstanceCopy.name // Add cardName for logging/display
+          cardId: bundle[0].id, // Add cardId for reference
+          cardName: bundle[0].name, // Add cardName for logging/display
+          cardInstanceIds: bundleIds,
       });
+      this.runCardEffects(newState, 'onPropose', bundle, events);
 
       // Switch turn to the responding player
       const responderId = this.getRespondingPlayerId(newState, newState.currentFloor);
@@ -327,9 +483,9 @@ export class GameEngine {
       return { newState, events };
   }
 
-  private handleCounterPropose(state: Required<GameState>, action: { type: 'COUNTER_PROPOSE'; instanceId: string; playerId: string }): GameActionResult {
+  private handleCounterPropose(state: Required<GameState>, action: Extract<GameAction, { type: 'COUNTER_PROPOSE' }>): GameActionResult {
       const events: GameEvent[] = [];
-      const validation = this.validateSingleCardCounter(state, action);
+      const validation = this.validateCounter(state, action);
       if (!validation.isValid) {
           events.push({ type: 'ERROR', message: validation.reason, code: 'INVALID_COUNTER' });
           return { newState: state, events };
@@ -346,17 +502,12 @@ export class GameEngine {
       const player = newState.players![playerIndex];
 
       // --- Engine State vs. Store State --- (See warning in handleProposeCard)
-      const cardInstance = player.hand.find(card => card.instanceId === action.instanceId);
-      if (!cardInstance) {
-          logError(`[GameEngine] Card instance ${action.instanceId} not found in engine's hand state for player ${action.playerId} after validation. Potential state sync issue.`, { hand: player.hand, action, state }, 'EngineLogic');
-          return { newState: state, events: [...events, { type: 'ERROR', message: `Internal Error: Card instance ${action.instanceId} state mismatch.`, code: 'STATE_INCONSISTENCY' }] };
+      const bundleIds = this.bundleInstanceIds(action);
+      const bundle = this.takeBundleFromHand(newState, playerIndex, bundleIds);
+      if (!bundle) {
+          logError(`[GameEngine] Counter cards ${bundleIds.join(', ')} not found in engine's hand state for player ${action.playerId} after validation. Potential state sync issue.`, { hand: player.hand, action, state }, 'EngineLogic');
+          return { newState: state, events: [...events, { type: 'ERROR', message: `Internal Error: Card instance state mismatch for ${bundleIds.join(', ')}.`, code: 'STATE_INCONSISTENCY' }] };
       }
-      const cardInstanceCopy = this.cloneState(cardInstance);
-
-      newState.players![playerIndex] = {
-          ...player,
-          hand: player.hand.filter(c => c.instanceId !== action.instanceId)
-      };
       // --- End Engine State vs. Store State ---
 
       // Bucket 2 Fix: Use '!'
@@ -373,7 +524,7 @@ export class GameEngine {
       const originalFloor = newState.floors![floorIndex];
       const updatedFloor: Floor = {
           ...originalFloor,
-          [proposalSlot]: [cardInstanceCopy] // Set proposal as array with one card
+          [proposalSlot]: bundle
       };
       newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? updatedFloor : f);
 
@@ -381,11 +532,13 @@ export class GameEngine {
       events.push({
           type: 'COUNTER_MADE',
           playerId: action.playerId,
-          cardId: cardInstanceCopy.id, // Use definition ID
-          cardInstanceId: cardInstanceCopy.instanceId, // Use instance ID
+          cardId: bundle[0].id, // Use definition ID
+          cardInstanceId: bundle[0].instanceId, // Use instance ID
           floor: newState.currentFloor,
-          cardName: cardInstanceCopy.name // Add name for convenience
+          cardName: bundle[0].name, // Add name for convenience
+          cardInstanceIds: bundleIds,
       });
+      this.runCardEffects(newState, 'onPropose', bundle, events);
 
       // Switch turn back to the lead player
       const leadId = this.getLeadPlayerId(newState, newState.currentFloor);
@@ -409,6 +562,7 @@ export class GameEngine {
   }
 
    private handleAcceptProposal(state: Required<GameState>, action: { type: 'ACCEPT_PROPOSAL'; playerId: string }): GameActionResult {
+      if (this.isVoteOpen(state)) return this.handleVote(state, action.playerId, /*inFavor*/ true);
       const events: GameEvent[] = [];
       const validation = this.validateAcceptProposal(state, action);
       if (!validation.isValid) {
@@ -427,14 +581,14 @@ export class GameEngine {
 
       // Determine accepted card and committer
       const isCurrentPlayer_A = this.isPlayerA(newState, action.playerId);
-      const proposalA = floor.proposalA?.[0]; // Get first card if exists
-      const proposalB = floor.proposalB?.[0]; // Get first card if exists
+      const proposalA = floor.proposalA?.length ? floor.proposalA : undefined; // Whole bundle, if any
+      const proposalB = floor.proposalB?.length ? floor.proposalB : undefined;
 
       // Bucket 5 Fix: Declare hasProposalA/B using !!
       const hasProposalA = !!proposalA;
       const hasProposalB = !!proposalB;
 
-      let acceptedCardInstance: CardData | undefined; // Use CardData as it holds the relevant info
+      let acceptedCardInstance: CardInstance[] | undefined; // The accepted bundle
       let committer: Committer | null = null;
       const leadId = this.getLeadPlayerId(newState, newState.currentFloor);
       const responderId = this.getRespondingPlayerId(newState, newState.currentFloor);
@@ -483,19 +637,24 @@ export class GameEngine {
           return { newState: state, events };
       }
 
-      const acceptedCardCopy = this.cloneState(acceptedCardInstance); // Clone for safety
+      const acceptedBundle = this.cloneState(acceptedCardInstance); // Clone for safety
+      const acceptedCardCopy = acceptedBundle[0];
+      const floorsBefore = newState.floors!;
 
       // Finalize floor state immutably
       const finalizedFloor: Floor = {
           ...floor,
           status: FloorStatus.Agreed,
           winnerCard: acceptedCardCopy,
+          winnerCards: acceptedBundle,
           committedBy: committer,
           proposalA: undefined, // Clear proposals
           proposalB: undefined,
-          units: acceptedCardCopy.units ?? floor.units // Update units based on card, fallback to original floor units
+          units: bundleUnits(acceptedBundle) // Every card in the bundle contributes its units
       };
       newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? finalizedFloor : f);
+      const spannedFloors = this.occupyBundleFloors(newState, acceptedBundle, committer);
+      this.discardCards(newState, acceptedCardInstance === proposalA ? proposalB : proposalA);
 
       // Bucket 3 Fix: Ensure PROPOSAL_ACCEPTED includes required fields (cardName added)
       events.push({
@@ -505,17 +664,24 @@ export class GameEngine {
           acceptedBy: action.playerId,
           committedBy: committer, // Add who committed the card
           cardId: acceptedCardCopy.id,
-          cardName: acceptedCardCopy.name
+          cardName: acceptedCardCopy.name,
+          cardInstanceIds: acceptedBundle.map(c => c.instanceId),
       });
+      // onAccept sees the building without the accepted bundle; onFinalize sees it in place.
+      this.runCardEffects({ ...newState, floors: floorsBefore }, 'onAccept', acceptedBundle, events, newState);
 
       // Bucket 3 Fix: Ensure FLOOR_FINALIZED includes required fields (card, committedBy, status)
       events.push({
           type: 'FLOOR_FINALIZED',
           floor: newState.currentFloor,
           card: acceptedCardCopy, // Event gets a copy
+          cards: acceptedBundle,
           committedBy: committer,
           status: FloorStatus.Agreed,
+          spannedFloors,
       });
+      this.runCardEffects(newState, 'onFinalize', acceptedBundle, events);
+      events.push(...ongoingEffectChanges(floorsBefore, newState.floors!, rulesOf(newState)));
 
       // Check game end & potentially advance using the new state
       return this.checkEndOrAdvance(newState, events);
@@ -523,6 +689,7 @@ export class GameEngine {
 
 
   private handlePassProposal(state: Required<GameState>, action: { type: 'PASS_PROPOSAL'; playerId: string }): GameActionResult {
+      if (this.isVoteOpen(state)) return this.handleVote(state, action.playerId, /*inFavor*/ false);
       const events: GameEvent[] = [];
       const validation = this.validatePassProposal(state, action); // Basic validation (turn, phase)
       if (!validation.isValid) {
@@ -543,11 +710,11 @@ export class GameEngine {
       events.push({ type: 'PROPOSAL_PASSED', floor: newState.currentFloor, passedBy: action.playerId });
 
       let finalStatus: FloorStatus;
-      let finalCardInstance: CardData | undefined = undefined;
+      let finalCardInstance: CardInstance[] | undefined = undefined; // The bundle that ends up on the floor
       let finalCommitter: Committer | null = null;
 
-      const proposalA = floor.proposalA?.[0];
-      const proposalB = floor.proposalB?.[0];
+      const proposalA = floor.proposalA?.length ? floor.proposalA : undefined;
+      const proposalB = floor.proposalB?.length ? floor.proposalB : undefined;
       // Bucket 5 Fix: Declare hasProposalA/B using !!
       const hasProposalA = !!proposalA;
       const hasProposalB = !!proposalB;
@@ -561,11 +728,11 @@ export class GameEngine {
           if (action.playerId === leadId) {
               // Calculate score *based on the current state before this floor*.
               // Need to ensure score calculation is accurate. Assuming calculateCurrentScore uses the passed floor array.
-              const scoreBeforeThisFloor = this.calculateCurrentScore(newState.floors!, newState.currentFloor); // Exclude current floor for mediation calc
+              const scoreBeforeThisFloor = this.calculateCurrentScore(newState, newState.currentFloor); // Exclude current floor for mediation calc
               finalCardInstance = this.mediateProposals(proposalA, proposalB, scoreBeforeThisFloor);
               finalCommitter = finalCardInstance === proposalA ? Committer.PlayerA : Committer.PlayerB;
               finalStatus = FloorStatus.Agreed; // Mediation results in agreement
-              logDebug(`[GameEngine Pass] Mediation required on floor ${newState.currentFloor}. Score before: ${scoreBeforeThisFloor}. Winner: ${finalCardInstance.name} by ${finalCommitter}`, undefined, 'EngineLogic');
+              logDebug(`[GameEngine Pass] Mediation required on floor ${newState.currentFloor}. Score before: ${scoreBeforeThisFloor}. Winner: ${describeBundle(finalCardInstance)} by ${finalCommitter}`, undefined, 'EngineLogic');
           } else {
               // Should be unreachable. Responder passing when counter exists is not a valid game flow state after proposal.
               logError("[GameEngine Pass] Error: Responder passed when both proposals existed.", { floorState: floor, action, state }, 'EngineLogic');
@@ -578,7 +745,7 @@ export class GameEngine {
                finalCardInstance = proposalA;
                finalCommitter = Committer.PlayerA;
                finalStatus = FloorStatus.Agreed;
-               logDebug(`[GameEngine Pass] Responder (B) passed, auto-accepting Player A's proposal: ${finalCardInstance.name}`, undefined, 'EngineLogic');
+               logDebug(`[GameEngine Pass] Responder (B) passed, auto-accepting Player A's proposal: ${describeBundle(finalCardInstance)}`, undefined, 'EngineLogic');
           } else {
                // Should be unreachable.
                logError("[GameEngine Pass] Error: Invalid player passed on initial proposal A.", { floorState: floor, action, state }, 'EngineLogic');
@@ -591,7 +758,7 @@ export class GameEngine {
                finalCardInstance = proposalB;
                finalCommitter = Committer.PlayerB;
                finalStatus = FloorStatus.Agreed;
-               logDebug(`[GameEngine Pass] Responder (A) passed, auto-accepting Player B's proposal: ${finalCardInstance.name}`, undefined, 'EngineLogic');
+               logDebug(`[GameEngine Pass] Responder (A) passed, auto-accepting Player B's proposal: ${describeBundle(finalCardInstance)}`, undefined, 'EngineLogic');
            } else {
                // Should be unreachable.
                logError("[GameEngine Pass] Error: Invalid player passed on initial proposal B.", { floorState: floor, action, state }, 'EngineLogic');
@@ -608,31 +775,129 @@ export class GameEngine {
       }
 
       // Update floor state immutably
-      const finalCardCopy = finalCardInstance ? this.cloneState(finalCardInstance) : undefined;
+      const finalBundle = finalCardInstance ? this.cloneState(finalCardInstance) : undefined;
+      const finalCardCopy = finalBundle?.[0];
+      const floorsBefore = newState.floors!;
       const finalizedFloor: Floor = {
           ...floor,
           status: finalStatus,
           winnerCard: finalCardCopy,
+          winnerCards: finalBundle,
           committedBy: finalCommitter,
           proposalA: undefined, // Clear proposals
           proposalB: undefined,
-          units: finalCardCopy ? (finalCardCopy.units ?? floor.units) : floor.units // Use card units if agreed, else keep original (relevant for skipped?)
+          units: finalBundle ? bundleUnits(finalBundle) : floor.units // Use bundle units if agreed, else keep original (relevant for skipped?)
       };
       newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? finalizedFloor : f);
+      const spannedFloors = finalBundle ? this.occupyBundleFloors(newState, finalBundle, finalCommitter) : undefined;
+      [proposalA, proposalB].filter(proposal => proposal !== finalCardInstance).forEach(proposal => this.discardCards(newState, proposal));
 
       // Bucket 3 Fix: Ensure FLOOR_FINALIZED includes required fields (card, committedBy, status)
       events.push({
           type: 'FLOOR_FINALIZED',
           floor: newState.currentFloor,
           card: finalCardCopy, // Use the copy (or undefined if skipped)
+          cards: finalBundle,
           committedBy: finalCommitter,
-          status: finalStatus
+          status: finalStatus,
+          spannedFloors,
       });
+      if (finalBundle) {
+          this.runCardEffects(newState, 'onFinalize', finalBundle, events);
+          events.push(...ongoingEffectChanges(floorsBefore, newState.floors!, rulesOf(newState)));
+      }
 
       // Check game end & potentially advance using the new state
       return this.checkEndOrAdvance(newState, events);
   }
 
+  /**
+   * Games of three or more: records `playerId`'s vote on the proposal on the table. The proposal is agreed once a
+   * majority of the players other than the lead are in favor, and the floor is skipped once that can no longer happen;
+   * until then the turn passes to the next voter.
+   */
+  private handleVote(state: Required<GameState>, playerId: string, inFavor: boolean): GameActionResult {
+      const events: GameEvent[] = [];
+      const validation = this.validateVote(state, playerId);
+      if (!validation.isValid) {
+          events.push({ type: 'ERROR', message: validation.reason, code: 'INVALID_VOTE' });
+          return { newState: state, events };
+      }
+
+      const newState = this.cloneState(state);
+      const floorIndex = newState.floors!.findIndex(f => f.floorNumber === newState.currentFloor);
+      const floor = newState.floors![floorIndex];
+      const proposal = floor.proposalA?.length ? floor.proposalA : floor.proposalB!;
+      const votes = { ...floor.votes, [playerId]: inFavor };
+      newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? { ...floor, votes } : f);
+
+      const voters = this.votersInOrder(newState);
+      const needed = Math.floor(voters.length / 2) + 1;
+      const yes = Object.values(votes).filter(Boolean).length;
+      const no = Object.values(votes).length - yes;
+      events.push({ type: 'VOTE_CAST', playerId, floor: newState.currentFloor, inFavor, yes, no, needed });
+
+      if (yes < needed && voters.length - no >= needed) {
+          // Still undecided: the next player who hasn't voted takes the turn.
+          const nextVoter = voters.find(voter => votes[voter.id] === undefined)!;
+          newState.currentPlayerIndex = this.findPlayerIndex(newState, nextVoter.id);
+          newState.isAiTurn = nextVoter.type === PlayerType.AI;
+          events.push({ type: 'TURN_STARTED', playerId: nextVoter.id, floor: newState.currentFloor, isAiTurn: newState.isAiTurn });
+          return { newState, events };
+      }
+
+      const carried = yes >= needed;
+      const finalBundle = carried ? this.cloneState(proposal) : undefined;
+      const committer = carried ? Committer.Majority : Committer.None;
+      const floorsBefore = newState.floors!;
+      const finalizedFloor: Floor = {
+          ...floor,
+          status: carried ? FloorStatus.Agreed : FloorStatus.Skipped,
+          winnerCard: finalBundle?.[0],
+          winnerCards: finalBundle,
+          committedBy: committer,
+          proposalA: undefined, // Clear proposals and the vote
+          proposalB: undefined,
+          votes: undefined,
+          units: finalBundle ? bundleUnits(finalBundle) : floor.units,
+      };
+      newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? finalizedFloor : f);
+      logDebug(`[GameEngine Vote] Floor ${newState.currentFloor}: ${describeBundle(proposal)} ${carried ? 'carried' : 'rejected'} ${yes}-${no} (needed ${needed}).`, undefined, 'EngineLogic');
+
+      if (!finalBundle) {
+          this.discardCards(newState, proposal);
+          events.push({ type: 'FLOOR_FINALIZED', floor: newState.currentFloor, committedBy: committer, status: FloorStatus.Skipped });
+          return this.checkEndOrAdvance(newState, events);
+      }
+
+      const spannedFloors = this.occupyBundleFloors(newState, finalBundle, committer);
+      events.push({
+          type: 'PROPOSAL_ACCEPTED',
+          cardInstanceId: finalBundle[0].instanceId,
+          floor: newState.currentFloor,
+          acceptedBy: playerId, // The vote that carried it
+          committedBy: committer,
+          cardId: finalBundle[0].id,
+          cardName: finalBundle[0].name,
+          cardInstanceIds: finalBundle.map(c => c.instanceId),
+      });
+      // onAccept sees the building without the accepted bundle; onFinalize sees it in place.
+      this.runCardEffects({ ...newState, floors: floorsBefore }, 'onAccept', finalBundle, events, newState);
+      events.push({
+          type: 'FLOOR_FINALIZED',
+          floor: newState.currentFloor,
+          card: finalBundle[0],
+          cards: finalBundle,
+          committedBy: committer,
+          status: FloorStatus.Agreed,
+          spannedFloors,
+      });
+      this.runCardEffects(newState, 'onFinalize', finalBundle, events);
+      events.push(...ongoingEffectChanges(floorsBefore, newState.floors!, rulesOf(newState)));
+
+      return this.checkEndOrAdvance(newState, events);
+  }
+
   private handleUseRecall(state: Required<GameState>, action: { type: 'USE_RECALL'; floorNumber: number; playerId: string }): GameActionResult {
       const events: GameEvent[] = [];
       const validation = this.validateUseRecall(state, action);
@@ -661,6 +926,7 @@ export class GameEngine {
 
       // Store previous state details for the event
       const recalledCardInstance = floorToRecall.winnerCard ? this.cloneState(floorToRecall.winnerCard) : undefined;
+      const recalledBundle = floorToRecall.winnerCards ? this.cloneState(floorToRecall.winnerCards) : undefined;
       const previousCommitter = floorToRecall.committedBy;
       const previousStatus = floorToRecall.status; // Should be 'Agreed' per validation
 
@@ -677,11 +943,27 @@ export class GameEngine {
           proposalA: undefined,
           proposalB: undefined,
           winnerCard: undefined,         // Clear winner details
+          winnerCards: undefined,
           committedBy: null,
           // Units: 1 // Decide: Reset units to 1 or keep original card's units? Resetting to 1 seems safer.
           units: 1
       };
-      newState.floors = newState.floors!.map((f, idx) => idx === floorIndex ? reopenedFloor : f);
+      const floorsBefore = newState.floors!;
+      newState.floors = releaseFloors(newState.floors!.map((f, idx) => idx === floorIndex ? reopenedFloor : f), action.floorNumber);
+      if (isDrawPileMode(newState.deckMode)) {
+          this.discardCards(newState, recalledBundle);
+      } else {
+          // In an open draft each recalled card goes back to the hand of the player who played it, as on the board
+          recalledBundle?.forEach(card => {
+              const ownerIndex = this.findPlayerIndex(newState, card.ownerId ?? '');
+              if (ownerIndex === -1) {
+                  logWarn(`[GameEngine Recall] Recalled card ${card.instanceId} has no owner in the game; it leaves play.`, undefined, 'EngineLogic');
+                  return;
+              }
+              const owner = newState.players![ownerIndex];
+              newState.players![ownerIndex] = { ...owner, hand: [...owner.hand, card] };
+          });
+      }
 
       // Set current floor to the recalled floor
       newState.currentFloor = action.floorNumber;
@@ -692,16 +974,19 @@ export class GameEngine {
           floor: action.floorNumber,
           playerId: action.playerId,
           recalledCard: recalledCardInstance, // Pass the card data that was on the floor
+          recalledCards: recalledBundle,
           committedBy: previousCommitter ?? undefined // Pass previous committer
       });
+      // Ongoing effects of the recalled cards, and on them, stop; one-off effects already happened and stand.
+      events.push(...ongoingEffectChanges(floorsBefore, newState.floors, rulesOf(newState)));
 
       // Apply score penalty if defined and non-zero
-      const penalty: number = RECALL_SCORE_PENALTY;
+      const penalty: number = rulesOf(state).recallScorePenalty;
       if (penalty !== 0) {
            // Note: This score adjustment happens conceptually. The *actual* score state is likely
            // managed externally based on floor states. This event signals the adjustment.
-           events.push({ type: 'SCORE_ADJUSTED', amount: -RECALL_SCORE_PENALTY, reason: 'Recall Penalty'});
-           logDebug(`[GameEngine Recall] Applying score penalty of ${-RECALL_SCORE_PENALTY}`, undefined, 'EngineLogic');
+           events.push({ type: 'SCORE_ADJUSTED', amount: -penalty, reason: 'Recall Penalty'});
+           logDebug(`[GameEngine Recall] Applying score penalty of ${-penalty}`, undefined, 'EngineLogic');
       }
 
       // Set next turn: Lead player for the *recalled* floor gets the turn.
@@ -726,7 +1011,7 @@ export class GameEngine {
       return { newState, events };
   }
 
-   private handleDrawCard(state: Required<GameState>, action: { type: 'DRAW_CARD'; playerId: string }): GameActionResult {
+   private handleDrawCard(state: Required<GameState>, action: Extract<GameAction, { type: 'DRAW_CARD' }>): GameActionResult {
       const events: GameEvent[] = [];
       const validation = this.validateDrawCard(state, action); // Basic turn/phase check
       if (!validation.isValid) {
@@ -734,6 +1019,24 @@ export class GameEngine {
           return { newState: state, events };
       }
 
+      if (isDrawPileMode(state.deckMode)) {
+          const newState = this.cloneState(state);
+          const card = this.drawFromPile(newState, newState.players![this.findPlayerIndex(newState, action.playerId)], events);
+          const player = newState.players![this.findPlayerIndex(newState, action.playerId)];
+          logDebug(`[GameEngine] ${action.playerId} drew ${card?.instanceId} from the draw pile (${pilesOf(player, this.sharedPiles(newState), newState.deckMode).drawPile.length} left).`, undefined, 'EngineAction');
+          return { newState, events };
+      }
+
+      if (action.cardId) {
+          const newState = this.cloneState(state);
+          const player = newState.players![this.findPlayerIndex(newState, action.playerId)];
+          const card = this.createCardInstance(newState, action.playerId, action.cardId);
+          player.hand.push(card);
+          logDebug(`[GameEngine] ${action.playerId} drew ${card.instanceId}.`, undefined, 'EngineAction');
+          events.push({ type: 'CARD_DRAWN', playerId: action.playerId, card });
+          return { newState, events };
+      }
+
       // Engine does *not* modify deck or hand state directly.
       // It emits an event for the responsible store (e.g., PlayerStore, GameFlow) to handle.
       logDebug("[GameEngine] Generating DRAW_REQUESTED event for external handling.", { action }, 'EngineAction');
@@ -747,6 +1050,79 @@ export class GameEngine {
   }
 
 
+  private handleDiscardCard(state: Required<GameState>, action: Extract<GameAction, { type: 'DISCARD_CARD' }>): GameActionResult {
+      const validation = this.validateDiscardCard(state, action);
+      if (!validation.isValid) {
+          return { newState: state, events: [{ type: 'ERROR', message: validation.reason, code: 'INVALID_DISCARD' }] };
+      }
+
+      const newState = this.cloneState(state);
+      const player = newState.players![this.findPlayerIndex(newState, action.playerId)];
+      const card = player.hand.find(c => c.instanceId === action.instanceId)!;
+      player.hand = player.hand.filter(c => c.instanceId !== action.instanceId);
+      this.discardCards(newState, [card]);
+      logDebug(`[GameEngine] ${action.playerId} discarded ${card.instanceId} to make room for a draw.`, undefined, 'EngineAction');
+      return { newState, events: [{ type: 'CARD_DISCARDED', playerId: action.playerId, card }] };
+  }
+
+  private handleTimeout(state: Required<GameState>, action: Extract<GameAction, { type: 'TIMEOUT' }>): GameActionResult {
+      // A turn can only time out where its player could have passed.
+      const validation = this.validatePassProposal(state, { type: 'PASS_PROPOSAL', playerId: action.playerId });
+      if (!validation.isValid) {
+          return { newState: state, events: [{ type: 'ERROR', message: validation.reason, code: 'INVALID_TIMEOUT' }] };
+      }
+
+      const rules = rulesOf(state);
+      const player = state.players![this.findPlayerIndex(state, action.playerId)];
+      const canAccept = this.isVoteOpen(state) || this.validateAcceptProposal(state, { type: 'ACCEPT_PROPOSAL', playerId: action.playerId }).isValid;
+      const { policy, resolution, forfeitRecall } = resolveTimeout(rules.timeoutPolicy, canAccept, player.recallTokens);
+
+      let timedOutState = state;
+      if (forfeitRecall) {
+          timedOutState = this.cloneState(state);
+          timedOutState.players = timedOutState.players!.map(p => p.id === action.playerId ? { ...p, recallTokens: p.recallTokens - 1 } : p);
+      }
+      const timedOut: GameEvent = {
+          type: 'TURN_TIMED_OUT',
+          playerId: action.playerId,
+          floor: state.currentFloor,
+          policy,
+          resolution,
+          recallTokenForfeited: forfeitRecall,
+      };
+      logDebug(`[GameEngine] ${action.playerId} ran out of time on floor ${state.currentFloor}: ${resolution}${forfeitRecall ? ', recall token forfeited' : ''}.`, undefined, 'EngineFlow');
+
+      const result = resolution === 'accept'
+          ? this.handleAcceptProposal(timedOutState, { type: 'ACCEPT_PROPOSAL', playerId: action.playerId })
+          : this.handlePassProposal(timedOutState, { type: 'PASS_PROPOSAL', playerId: action.playerId });
+      // A pass or accept that fails hands back the state it was given, forfeited token included; keep the token then
+      if (result.events.some(event => event.type === 'ERROR')) return { newState: state, events: result.events };
+      return { newState: result.newState, events: [timedOut, ...result.events] };
+  }
+
+  private handleEndGameEarly(state: Required<GameState>, action: Extract<GameAction, { type: 'END_GAME_EARLY' }>): GameActionResult {
+      const events: GameEvent[] = [];
+      const validation = this.validateEndGameEarly(state, action);
+      if (!validation.isValid) {
+          events.push({ type: 'ERROR', message: validation.reason, code: 'INVALID_EARLY_END' });
+          return { newState: state, events };
+      }
+
+      const reachability = this.analyzeReachability(state);
+      const newState = this.cloneState(state);
+      newState.phase = GamePhase.GameOver;
+      events.push({
+          type: 'GAME_OVER',
+          reason: reachability.explanation,
+          winner: reachability.winner!,
+          winners: this.determineWinners(state, reachability.winner!),
+          finalScore: this.calculateCurrentScore(state),
+          endedEarly: true,
+      });
+      logDebug(`[GameEngine] ${action.playerId} ended the game early. ${reachability.explanation}`, undefined, 'EngineFlow');
+      return { newState, events };
+  }
+
   // ========================================================
   // Private Validation Methods
   // ========================================================
@@ -754,7 +1130,7 @@ export class GameEngine {
   // They do NOT modify the state.
 
   // Use Required<GameState> as these are called after the guard in handleAction
-  private validateSingleCardProposal(state: Required<GameState>, action: { type: 'PROPOSE_CARD'; instanceId: string; playerId: string }): ValidationResult {
+  private validateProposal(state: Required<GameState>, action: Extract<GameAction, { type: 'PROPOSE_CARD' }>): ValidationResult {
       if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
 
       const playerIndex = this.findPlayerIndex(state, action.playerId);
@@ -762,9 +1138,6 @@ export class GameEngine {
       if (state.currentPlayerIndex !== playerIndex) return { isValid: false, reason: "Not player's turn" };
 
       const player = state.players![playerIndex];
-      // WARNING: Engine hand state check is unreliable. Real validation might need external state.
-      const card = player.hand.find(c => c.instanceId === action.instanceId);
-      if (!card) return { isValid: false, reason: `Card instance ${action.instanceId} not found in (engine's) hand state` };
 
       // Bucket 2 Fix: Use '!'
       const floor = state.floors!.find(f => f.floorNumber === state.currentFloor);
@@ -782,16 +1155,11 @@ export class GameEngine {
           return { isValid: false, reason: "Cannot make initial proposal if any proposal already exists" };
       }
 
-      // Check Floor Restrictions based on card data
-      if (!this.checkFloorRestriction(card, state.currentFloor)) {
-          const reqStr = card.requiresFloor?.map(String).join(', ') || 'Any';
-          return { isValid: false, reason: `Card '${card.name}' cannot be played on floor ${state.currentFloor}. Requires: ${reqStr}` };
-      }
-
-      return { isValid: true, reason: "" };
+      // WARNING: Engine hand state check is unreliable. Real validation might need external state.
+      return this.validateBundle(state, player, this.bundleInstanceIds(action));
   }
 
-  private validateSingleCardCounter(state: Required<GameState>, action: { type: 'COUNTER_PROPOSE'; instanceId: string; playerId: string }): ValidationResult {
+  private validateCounter(state: Required<GameState>, action: Extract<GameAction, { type: 'COUNTER_PROPOSE' }>): ValidationResult {
       if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
 
       const playerIndex = this.findPlayerIndex(state, action.playerId);
@@ -799,9 +1167,6 @@ export class GameEngine {
       if (state.currentPlayerIndex !== playerIndex) return { isValid: false, reason: "Not player's turn" };
 
       const player = state.players![playerIndex];
-      // WARNING: Engine hand state check is unreliable.
-      const card = player.hand.find(c => c.instanceId === action.instanceId);
-      if (!card) return { isValid: false, reason: `Card instance ${action.instanceId} not found in (engine's) hand state` };
 
       // Bucket 2 Fix: Use '!'
       const floor = state.floors!.find(f => f.floorNumber === state.currentFloor);
@@ -810,6 +1175,8 @@ export class GameEngine {
           return { isValid: false, reason: `Floor ${state.currentFloor} not open for proposals (Status: ${floor.status})` };
       }
 
+      if (state.players!.length > 2) return { isValid: false, reason: "There are no counter-proposals with more than two players; vote with Accept or Pass" };
+
       // Check if the acting player is the responder for this floor
       const responderId = this.getRespondingPlayerId(state, state.currentFloor);
       if (action.playerId !== responderId) return { isValid: false, reason: "Only the responding player can counter-propose" };
@@ -826,13 +1193,25 @@ export class GameEngine {
           return { isValid: false, reason: "Cannot counter-propose again" };
       }
 
-      // Check Floor Restrictions
-      if (!this.checkFloorRestriction(card, state.currentFloor)) {
-           const reqStr = card.requiresFloor?.map(String).join(', ') || 'Any';
-           return { isValid: false, reason: `Card '${card.name}' cannot be played on floor ${state.currentFloor}. Requires: ${reqStr}` };
+      // WARNING: Engine hand state check is unreliable.
+      return this.validateBundle(state, player, this.bundleInstanceIds(action));
+  }
+
+  /** Checks every card of a proposal bundle is in hand and legal on the current floor, and that together they fit the building from there. */
+  private validateBundle(state: Required<GameState>, player: Player, instanceIds: string[]): ValidationResult {
+      if (new Set(instanceIds).size !== instanceIds.length) return { isValid: false, reason: 'A card cannot appear twice in one proposal' };
+
+      const cards: CardInstance[] = [];
+      for (const instanceId of instanceIds) {
+          const card = player.hand.find(c => c.instanceId === instanceId);
+          if (!card) return { isValid: false, reason: `Card instance ${instanceId} not found in (engine's) hand state` };
+
+          cards.push(card);
       }
 
-      return { isValid: true, reason: "" };
+      const requirements = validateBundleRequirements(state.floors!, state.currentFloor, cards);
+      if (!requirements.isValid) return requirements;
+      return validateBundlePlacement(state.floors!, state.currentFloor, cards);
   }
 
   private validateAcceptProposal(state: Required<GameState>, action: { type: 'ACCEPT_PROPOSAL'; playerId: string }): ValidationResult {
@@ -876,6 +1255,22 @@ export class GameEngine {
       }
   }
 
+  private validateVote(state: Required<GameState>, playerId: string): ValidationResult {
+      if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
+      const playerIndex = this.findPlayerIndex(state, playerId);
+      if (playerIndex === -1) return { isValid: false, reason: `Player ${playerId} not found` };
+      if (state.currentPlayerIndex !== playerIndex) return { isValid: false, reason: "Not player's turn" };
+
+      const floor = state.floors!.find(f => f.floorNumber === state.currentFloor);
+      if (!floor) return { isValid: false, reason: `Current floor ${state.currentFloor} not found` };
+      if (floor.status !== FloorStatus.Pending && floor.status !== FloorStatus.Reopened) {
+          return { isValid: false, reason: `Floor ${state.currentFloor} is not open for a vote (Status: ${floor.status})` };
+      }
+      if (playerId === this.getLeadPlayerId(state, state.currentFloor)) return { isValid: false, reason: "The lead player cannot vote on their own proposal" };
+      if (floor.votes?.[playerId] !== undefined) return { isValid: false, reason: "You have already voted on this proposal" };
+      return { isValid: true, reason: "" };
+  }
+
   private validatePassProposal(state: Required<GameState>, action: { type: 'PASS_PROPOSAL'; playerId: string }): ValidationResult {
       if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
       const playerIndex = this.findPlayerIndex(state, action.playerId);
@@ -904,6 +1299,10 @@ export class GameEngine {
 
       const player = state.players![playerIndex];
       if (player.recallTokens <= 0) return { isValid: false, reason: "No recall tokens remaining" };
+      if (this.isVoteOpen(state)) return { isValid: false, reason: `Finish the vote on floor ${state.currentFloor} before recalling` };
+      // A proposal left open would face its own proposer once the recalled floor is settled
+      const floorInPlay = state.floors!.find(f => f.floorNumber === state.currentFloor);
+      if (floorInPlay?.proposalA?.length || floorInPlay?.proposalB?.length) return { isValid: false, reason: `Finish the negotiation on floor ${state.currentFloor} before recalling` };
 
       // Floor number must be valid and *strictly less than* the current lowest pending/reopened floor.
       // Cannot recall the current floor or floors above it.
@@ -912,10 +1311,11 @@ export class GameEngine {
            return { isValid: false, reason: `Can only recall completed floors strictly below floor ${lowestUnresolvedFloor}` };
       }
 
-      // Check recall floor limit constant
-      if (RECALL_MAX_FLOOR !== undefined && action.floorNumber > RECALL_MAX_FLOOR) {
-          // Allow recalling *up to* RECALL_MAX_FLOOR, but not above it.
-          return { isValid: false, reason: `Cannot recall floor ${action.floorNumber} (limit: ${RECALL_MAX_FLOOR}).` };
+      // Check the rule set's recall floor limit
+      const { recallMaxFloor } = rulesOf(state);
+      if (action.floorNumber > recallMaxFloor) {
+          // Allow recalling *up to* recallMaxFloor, but not above it.
+          return { isValid: false, reason: `Cannot recall floor ${action.floorNumber} (limit: ${recallMaxFloor}).` };
       }
 
       // Bucket 2 Fix: Use '!'
@@ -923,16 +1323,34 @@ export class GameEngine {
       if (!floor) return { isValid: false, reason: `Target floor ${action.floorNumber} not found` };
       // Can only recall floors that were successfully completed ('Agreed').
       if (floor.status !== FloorStatus.Agreed) return { isValid: false, reason: `Cannot recall floor ${action.floorNumber} (Status: ${floor.status}, must be Agreed)` };
+      // The upper floors of a multi-floor use come back with the floor it was agreed on.
+      if (floor.spanOf !== undefined) return { isValid: false, reason: `Floor ${action.floorNumber} is part of the use agreed on floor ${floor.spanOf}; recall that floor instead` };
 
       return { isValid: true, reason: "" };
   }
 
-   private validateDrawCard(state: Required<GameState>, action: { type: 'DRAW_CARD'; playerId: string }): ValidationResult {
+   private validateDrawCard(state: Required<GameState>, action: Extract<GameAction, { type: 'DRAW_CARD' }>): ValidationResult {
       if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
       const playerIndex = this.findPlayerIndex(state, action.playerId);
       if (playerIndex === -1) return { isValid: false, reason: `Player ${action.playerId} not found` };
       if (state.currentPlayerIndex !== playerIndex) return { isValid: false, reason: "Not player's turn" };
 
+      if (isDrawPileMode(state.deckMode)) {
+          if (action.cardId) return { isValid: false, reason: 'Cards come from the top of the draw pile; a card cannot be chosen' };
+          const { maxHandSize } = rulesOf(state);
+          if (state.players![playerIndex].hand.length >= maxHandSize) return { isValid: false, reason: `Hand is full (${maxHandSize} cards)` };
+          const piles = pilesOf(state.players![playerIndex], this.sharedPiles(state), state.deckMode);
+          if (!piles.drawPile.length && !piles.discardPile.length) return { isValid: false, reason: 'The draw pile and discard pile are both empty' };
+          return { isValid: true, reason: "" };
+      }
+
+      if (action.cardId) {
+          if (!getCardDefinitionById(action.cardId)) return { isValid: false, reason: `Unknown card ${action.cardId}` };
+          const { maxHandSize } = rulesOf(state);
+          if (state.players![playerIndex].hand.length >= maxHandSize) return { isValid: false, reason: `Hand is full (${maxHandSize} cards)` };
+          return { isValid: true, reason: "" };
+      }
+
       // Engine only validates basic turn/phase.
       // Actual validation (deck not empty, hand size limit) is external (PlayerStore/GameFlow).
       // The engine *allows* the request event to be generated.
@@ -940,6 +1358,27 @@ export class GameEngine {
   }
 
 
+  private validateDiscardCard(state: Required<GameState>, action: Extract<GameAction, { type: 'DISCARD_CARD' }>): ValidationResult {
+      if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
+      const playerIndex = this.findPlayerIndex(state, action.playerId);
+      if (playerIndex === -1) return { isValid: false, reason: `Player ${action.playerId} not found` };
+      if (state.currentPlayerIndex !== playerIndex) return { isValid: false, reason: "Not player's turn" };
+      const { hand } = state.players![playerIndex];
+      if (!hand.some(card => card.instanceId === action.instanceId)) return { isValid: false, reason: `Card ${action.instanceId} is not in hand` };
+      const { maxHandSize } = rulesOf(state);
+      if (hand.length < maxHandSize) return { isValid: false, reason: `Cards are only discarded to make room: the hand is not full (${hand.length} of ${maxHandSize})` };
+      return { isValid: true, reason: "" };
+  }
+
+  private validateEndGameEarly(state: Required<GameState>, action: Extract<GameAction, { type: 'END_GAME_EARLY' }>): ValidationResult {
+      if (state.phase !== GamePhase.Playing) return { isValid: false, reason: 'Game not in Playing phase' };
+      if (this.findPlayerIndex(state, action.playerId) === -1) return { isValid: false, reason: `Player ${action.playerId} not found` };
+      const reachability = this.analyzeReachability(state);
+      if (reachability.balanceReachable) return { isValid: false, reason: 'Balance can still be reached; the game cannot end early' };
+      if (!reachability.winner) return { isValid: false, reason: 'The score can still end on either side; the game cannot end early' };
+      return { isValid: true, reason: "" };
+  }
+
   // ========================================================
   // Private Helper Methods
   // ========================================================
@@ -947,7 +1386,7 @@ export class GameEngine {
   /** Checks game end conditions AFTER a floor is finalized, and advances floor or ends game. */
   private checkEndOrAdvance(state: Required<GameState>, currentEvents: GameEvent[]): GameActionResult {
       // Calculate score based *only* on finalized (Agreed) floors in the potentially updated state.
-      const currentScore = this.calculateCurrentScore(state.floors!);
+      const currentScore = this.calculateCurrentScore(state);
       const gameEndResult = this.checkGameEnd(state, currentScore);
 
       if (gameEndResult.isOver) {
@@ -957,6 +1396,7 @@ export class GameEngine {
               type: 'GAME_OVER',
               reason: gameEndResult.reason!,
               winner: gameEndResult.winner!,
+              winners: this.determineWinners(state, gameEndResult.winner!),
               finalScore: currentScore // Include final calculated score
           });
           logDebug(`[GameEngine] Game Over detected. Reason: ${gameEndResult.reason}. Winner: ${gameEndResult.winner}. Score: ${currentScore}`, undefined, 'EngineFlow');
@@ -968,6 +1408,11 @@ export class GameEngine {
           const nextResult = this.advanceToNextFloor(state); // advanceToNextFloor handles cloning internally
           // Combine events from floor finalization + turn start
           const combinedEvents = [...currentEvents, ...nextResult.events];
+          // Offer an early end (END_GAME_EARLY) once no play can balance the building and the winner is settled.
+          const reachability = this.analyzeReachability(nextResult.newState);
+          if (nextResult.newState.phase === GamePhase.Playing && !reachability.balanceReachable && reachability.winner) {
+              combinedEvents.push({ type: 'BALANCE_UNREACHABLE', minScore: reachability.range.min, maxScore: reachability.range.max, winner: reachability.winner, reason: reachability.explanation });
+          }
           return { newState: nextResult.newState, events: combinedEvents };
       }
   }
@@ -980,16 +1425,16 @@ export class GameEngine {
 
       const nextFloorNumber = this.findLowestUnresolvedFloor(newState);
 
-      // If nextFloorNumber is beyond MAX_STORIES, the game should have ended, but checkGameEnd said no.
+      // If nextFloorNumber is beyond the top floor, the game should have ended, but checkGameEnd said no.
       // This indicates a potential state inconsistency.
-      if (nextFloorNumber > MAX_STORIES) {
+      if (nextFloorNumber > rulesOf(newState).maxStories) {
           logError("[GameEngine Advance] No pending floors found, but checkGameEnd returned false. State inconsistency?", { state: newState }, 'EngineFlow');
           // Force Game Over as a safety measure.
           newState.phase = GamePhase.GameOver;
-          const score = this.calculateCurrentScore(newState.floors!);
-          const winner = this.determineWinner(score);
+          const score = this.calculateCurrentScore(newState);
+          const winner = this.determineWinner(newState, score);
           events.push({ type: 'ERROR', code: 'STATE_INCONSISTENCY', message: 'Floor advancement error: No next floor found after completion.' });
-          events.push({ type: 'GAME_OVER', reason: 'State Error during floor advance', winner: winner, finalScore: score });
+          events.push({ type: 'GAME_OVER', reason: 'State Error during floor advance', winner: winner, winners: this.determineWinners(newState, winner), finalScore: score });
           return { newState, events };
       }
 
@@ -1004,9 +1449,9 @@ export class GameEngine {
           logError(`[GameEngine Advance] Critical: Could not find player index for lead player ID: ${leadId} on floor ${nextFloorNumber}.`, { players: newState.players, state: newState }, 'EngineFlow');
           // Force Game Over on critical error
           newState.phase = GamePhase.GameOver;
-          const score = this.calculateCurrentScore(newState.floors!);
+          const score = this.calculateCurrentScore(newState);
            events.push({ type: 'ERROR', code: 'PLAYER_NOT_FOUND', message: `Internal error: Lead player ${leadId} lookup failed during advance.` });
-          events.push({ type: 'GAME_OVER', reason: 'State Error during turn assignment', winner: 'developer', finalScore: score }); // Assign winner arbitrarily or based on context
+          events.push({ type: 'GAME_OVER', reason: 'State Error during turn assignment', winner: 'developer', winners: this.determineWinners(newState, 'developer'), finalScore: score }); // Assign winner arbitrarily or based on context
           return { newState, events };
       }
 
@@ -1026,30 +1471,12 @@ export class GameEngine {
       return { newState, events }; // Return the modified new state + turn start event
   }
 
-  /** Checks if a card's floor restrictions allow it to be played on the given floor number. */
-  private checkFloorRestriction(card: CardData, floorNum: number): boolean {
-      const requirements = card.requiresFloor;
-      if (!requirements || requirements.length === 0) {
-          return true; // No restrictions
-      }
-      return requirements.some(req => {
-          if (typeof req === 'string') {
-              // Handle string keywords
-              if (req.toLowerCase() === 'ground') return floorNum === 1;
-              if (req.toLowerCase() === 'roof') return floorNum === MAX_STORIES;
-              if (req.toLowerCase() === 'odd') return floorNum % 2 !== 0;
-              if (req.toLowerCase() === 'even') return floorNum % 2 === 0;
-               if (req.toLowerCase() === 'non-roof') return floorNum !== MAX_STORIES;
-              // Add more string rules as needed
-               logWarn(`[GameEngine] Unknown string floor restriction '${req}' on card '${card.name}'. Treating as invalid.`, undefined, 'EngineRules');
-              return false; // Unknown string requirement fails
-          } else if (typeof req === 'number') {
-              // Handle specific floor number
-              return req === floorNum;
-          }
-          logWarn(`[GameEngine] Invalid type for floor restriction '${req}' on card '${card.name}'. Treating as invalid.`, undefined, 'EngineRules');
-          return false; // Invalid type in requirements array
-      });
+  /**
+   * Checks a card's floor rules (floorRules.ts) for `floorNum` of the building `floors`. Public so planners can prune illegal cards.
+   * Pass the rest of the proposal as `bundle` when per-building limits should count it.
+   */
+  checkFloorRestriction(card: CardData, floorNum: number, floors: Floor[], bundle: CardData[] = [card]): ValidationResult {
+      return checkFloorRequirements(card, { floorNumber: floorNum, maxStories: floors.length, floors, bundle });
   }
 
   /** Finds the lowest floor number that is still Pending or Reopened. */
@@ -1061,19 +1488,21 @@ export class GameEngine {
               return floor.floorNumber;
           }
       }
-      // If no pending/reopened floors are found, return value > MAX_STORIES
-      return MAX_STORIES + 1;
+      // If no pending/reopened floors are found, return a value past the top floor
+      return state.floors!.length + 1;
   }
 
-  /** Calculates score purely from the finalized ('Agreed') floors array. Optionally excludes a floor. */
-  private calculateCurrentScore(floors: Floor[], excludeFloorNumber?: number): number {
-      return floors.reduce((score, floor) => {
+  /** Calculates score from the finalized ('Agreed') floors, their ongoing card effects and one-off effect adjustments. Optionally excludes a floor. */
+  private calculateCurrentScore(state: GameState, excludeFloorNumber?: number): number {
+      const floors = (state.floors ?? []).filter(floor => floor.floorNumber !== excludeFloorNumber);
+      const effects = (state.baselineScore ?? 0) + ongoingEffectScore(floors, rulesOf(state)) + (state.effectScore ?? 0);
+      return effects + floors.reduce((score, floor) => {
           if (floor.floorNumber === excludeFloorNumber) {
               return score; // Skip excluded floor
           }
-          if (floor.status === FloorStatus.Agreed && floor.winnerCard) {
-              // Use netScoreImpact, default to 0 if undefined/null
-              return score + (floor.winnerCard.netScoreImpact ?? 0);
+          if (floor.status === FloorStatus.Agreed) {
+              // Sum of the agreed bundle's netScoreImpact
+              return score + floorScoreImpact(floor);
           }
           // Add penalties for skipped floors? Not currently implemented.
           // Add penalties for recalled floors? Handled via SCORE_ADJUSTED event.
@@ -1081,11 +1510,10 @@ export class GameEngine {
       }, 0); // Start score at 0
   }
 
-  /** Determines the winner in a mediation scenario based on minimizing score deviation from zero. */
-  private mediateProposals(proposalA: CardData, proposalB: CardData, scoreBeforeFloor: number): CardData {
-      // Default impact to 0 if not defined
-      const impactA = proposalA.netScoreImpact ?? 0;
-      const impactB = proposalB.netScoreImpact ?? 0;
+  /** Determines the winner in a mediation scenario based on minimizing score deviation from zero. Bundles are compared by their summed impact. */
+  private mediateProposals(proposalA: CardInstance[], proposalB: CardInstance[], scoreBeforeFloor: number): CardInstance[] {
+      const impactA = bundleScoreImpact(proposalA);
+      const impactB = bundleScoreImpact(proposalB);
 
       const scoreWithA = scoreBeforeFloor + impactA;
       const scoreWithB = scoreBeforeFloor + impactB;
@@ -1093,9 +1521,9 @@ export class GameEngine {
       const absDevA = Math.abs(scoreWithA);
       const absDevB = Math.abs(scoreWithB);
 
-      logDebug(`[GameEngine Mediation] Score=${scoreBeforeFloor}. A (${proposalA.name}, ${impactA}) -> ${scoreWithA} (Dev: ${absDevA}). B (${proposalB.name}, ${impactB}) -> ${scoreWithB} (Dev: ${absDevB})`, undefined, 'EngineRules');
+      logDebug(`[GameEngine Mediation] Score=${scoreBeforeFloor}. A (${describeBundle(proposalA)}, ${impactA}) -> ${scoreWithA} (Dev: ${absDevA}). B (${describeBundle(proposalB)}, ${impactB}) -> ${scoreWithB} (Dev: ${absDevB})`, undefined, 'EngineRules');
 
-      // Choose card resulting in score with smaller absolute value (closer to zero).
+      // Choose bundle resulting in score with smaller absolute value (closer to zero).
       // Tie-breaking: Favor proposal A (or implement other tie-break logic, e.g., lower impact card).
       if (absDevA <= absDevB) {
           return proposalA;
@@ -1104,106 +1532,109 @@ export class GameEngine {
       }
   }
 
-  /** Determines the game winner based on the final score and threshold. */
-  private determineWinner(finalScore: number): 'developer' | 'community' | 'balanced' {
-      if (Math.abs(finalScore) <= BALANCE_THRESHOLD) {
+  /** Determines the game winner based on the final score, the per-axis totals and the thresholds. */
+  private determineWinner(state: Required<GameState>, finalScore: number): 'developer' | 'community' | 'balanced' {
+      const totals = axisTotals(state.floors!, scenarioAxisBaseline(state.scenarioId));
+      if (isBalanced(finalScore, totals, rulesOf(state))) {
           return 'balanced';
       }
       // Positive score -> Community wins; Negative score -> Developer wins
       return finalScore > 0 ? 'community' : 'developer';
   }
 
+  /** The seated roles that win a game ending with `outcome`, each judged by its own objective. */
+  private determineWinners(state: Required<GameState>, outcome: ProjectOutcome): PlayerRole[] {
+      return gameWinners(state.players!.map(player => player.role), outcome, state.floors!);
+  }
+
   /** Checks if the game has ended based on the current state and score. */
-  private checkGameEnd(state: Required<GameState>, currentScore: number): { isOver: boolean; reason?: string; winner?: 'developer' | 'community' | 'balanced' } {
+  private checkGameEnd(state: Required<GameState>, currentScore: number): { isOver: boolean; reason?: string; winner?: 'developer' | 'community' | 'balanced' | 'infeasible' } {
 
       // Condition 1: All floors are finalized (Agreed or Skipped).
       // Check if the 'lowest unresolved floor' is beyond the max number of stories.
       const lowestUnresolved = this.findLowestUnresolvedFloor(state);
-      if (lowestUnresolved > MAX_STORIES) {
-          const winner = this.determineWinner(currentScore);
-          return { isOver: true, reason: `Building complete (${MAX_STORIES} floors resolved)`, winner };
+      const { maxStories } = rulesOf(state);
+      if (lowestUnresolved > maxStories) {
+          // A finished building that fails the developer's feasibility rule is never built: nobody wins.
+          const feasibility = checkFeasibility(buildProForma(state.floors!), rulesOf(state));
+          if (!feasibility.isValid) {
+              return { isOver: true, reason: feasibility.reason, winner: 'infeasible' };
+          }
+          const winner = this.determineWinner(state, currentScore);
+          return { isOver: true, reason: `Building complete (${maxStories} floors resolved)`, winner };
       }
 
-      // Condition 2: Impossible to finish? (e.g., deck empty, players cannot play/draw?)
-      // This requires more complex state checks, likely involving deck/hand state managed externally.
-      // if (this.checkImpossibleFinish(state)) {
-      //     const winner = this.determineWinner(currentScore); // Or maybe based on who got stuck?
-      //     return { isOver: true, reason: `Game stalled (e.g., deck empty, no valid moves)`, winner };
-      // }
-
-      // Condition 3: Score threshold breached irreversibly? (Advanced check)
-      // Requires analyzing remaining cards/potential score swings.
-      // if (this.checkScoreThresholdBreached(state, currentScore)) {
-      //     const winner = this.determineWinner(currentScore);
-      //     return { isOver: true, reason: `Score threshold irreversibly breached`, winner };
-      // }
-
-
+      // Balance going out of reach does not end the game by itself; checkEndOrAdvance offers END_GAME_EARLY instead.
       return { isOver: false }; // Game continues
   }
 
-  // --- Placeholder complex checks (require more state/logic) ---
+  // --- Player Helpers ---
+
+  /** Determines the lead player ID for a given floor number based on blocks of 5. */
+  private getLeadPlayerId(state: Required<GameState>, floorNumber: number): string {
+      // Bucket 2 Fix: Use '!' as players array is guaranteed.
+      // Determine 0-indexed block number (floors 1-5 -> block 0, 6-10 -> block 1, etc.)
+      const floorBlock = Math.floor((floorNumber - 1) / 5);
+      // The lead rotates through the seats block by block: with two players, Player A (index 0) leads on even blocks
+      // and Player B (index 1) on odd ones; with more, each seat takes its turn in order.
+      return state.players![floorBlock % state.players!.length].id;
+  }
 
-  private checkImpossibleFinish(state: GameState): boolean {
-      // Placeholder: Needs access to deck count, hand sizes, maybe card playability checks.
-      // Example: return state.deck.length === 0 && state.players.every(p => p.hand.length === 0);
-      return false;
+  /** Determines the responding player ID for a given floor number: the seat after the lead (with more than two players, the first to vote). */
+  private getRespondingPlayerId(state: Required<GameState>, floorNumber: number): string {
+      // Bucket 2 Fix: Use '!'
+      const leadIndex = this.findPlayerIndex(state, this.getLeadPlayerId(state, floorNumber));
+      return state.players![(leadIndex + 1) % state.players!.length].id;
   }
 
-  private checkScoreThresholdBreached(state: GameState, currentScore: number): boolean {
-      // Placeholder: Needs analysis of remaining cards in deck/hands.
-      // const remainingCards = this.getAllRemainingCards(state);
-      // const { maxPositiveImpact, maxNegativeImpact } = this.analyzeRemainingCards(remainingCards);
-      // if (currentScore > 0 && currentScore + maxNegativeImpact > BALANCE_THRESHOLD) return true; // Community win certain
-      // if (currentScore < 0 && currentScore + maxPositiveImpact < -BALANCE_THRESHOLD) return true; // Developer win certain
-      return false;
+  /** Whether the current floor has a proposal up for a vote (games of three or more). */
+  private isVoteOpen(state: Required<GameState>): boolean {
+      if (state.players!.length <= 2) return false;
+      const floor = state.floors!.find(f => f.floorNumber === state.currentFloor);
+      return !!floor?.proposalA?.length || !!floor?.proposalB?.length;
   }
 
-  private analyzeRemainingCards(cards: CardData[]): { maxPositiveImpact: number; maxNegativeImpact: number } {
-      // Placeholder analysis
-      let maxPos = 0;
-      let maxNeg = 0;
-      cards.forEach(card => {
-          const impact = card.netScoreImpact ?? 0;
-          if (impact > 0) maxPos += impact;
-          if (impact < 0) maxNeg += impact;
-      });
-      return { maxPositiveImpact: maxPos, maxNegativeImpact: maxNeg };
+  /** The players who vote on the current floor's proposal, in seating order from the lead. */
+  private votersInOrder(state: Required<GameState>): Player[] {
+      const players = state.players!;
+      const leadIndex = this.findPlayerIndex(state, this.getLeadPlayerId(state, state.currentFloor));
+      return Array.from({ length: players.length - 1 }, (_, i) => players[(leadIndex + 1 + i) % players.length]);
   }
 
-  private getAllRemainingCards(state: GameState): CardData[] {
-       // Placeholder: Needs access to actual deck/hand state, likely from external stores.
-      logWarn("[GameEngine] getAllRemainingCards called, but engine doesn't manage full deck/hand state.", undefined, 'EngineState');
-      return [];
+  /** Records the agreed bundle's area on the current floor and any floors above it grows into; returns those upper floors. */
+  private occupyBundleFloors(state: Required<GameState>, bundle: CardInstance[], committer: Committer | null): number[] {
+      state.floors = occupyFloors(state.floors!, state.currentFloor, bundle, committer);
+      return state.floors.filter(f => f.spanOf === state.currentFloor).map(f => f.floorNumber);
   }
 
-  // --- Player Helpers ---
+  /** Instance ids of every card in a proposal or counter bundle, lead card first. */
+  private bundleInstanceIds(action: Extract<GameAction, { type: 'PROPOSE_CARD' | 'COUNTER_PROPOSE' }>): string[] {
+      return [action.instanceId, ...(action.extraInstanceIds ?? [])];
+  }
 
-  /** Determines the lead player ID for a given floor number based on blocks of 5. */
-  private getLeadPlayerId(state: Required<GameState>, floorNumber: number): string {
-      // Bucket 2 Fix: Use '!' as players array is guaranteed.
-      // Determine 0-indexed block number (floors 1-5 -> block 0, 6-10 -> block 1, etc.)
-      const floorBlock = Math.floor((floorNumber - 1) / 5);
-      // Player A (index 0) leads on even blocks (0, 2, ...), Player B (index 1) leads on odd blocks (1, 3, ...)
-      const isPlayerALead = floorBlock % 2 === 0;
+  /** Removes the bundle's cards from the player's engine hand in `state` and returns copies, or undefined if any is missing. */
+  private takeBundleFromHand(state: Required<GameState>, playerIndex: number, instanceIds: string[]): CardInstance[] | undefined {
+      const player = state.players![playerIndex];
+      const bundle = instanceIds.map(id => player.hand.find(card => card.instanceId === id));
+      if (bundle.some(card => !card)) return undefined;
 
-      // Player A is always index 0, Player B is index 1
-      return isPlayerALead ? state.players![0].id : state.players![1].id;
+      state.players![playerIndex] = {
+          ...player,
+          hand: player.hand.filter(card => !instanceIds.includes(card.instanceId)) // Remove proposed cards
+      };
+      return this.cloneState(bundle as CardInstance[]);
   }
 
-  /** Determines the responding player ID for a given floor number. */
-  private getRespondingPlayerId(state: Required<GameState>, floorNumber: number): string {
-      // Bucket 2 Fix: Use '!'
-      const leadId = this.getLeadPlayerId(state, floorNumber);
-      // Find the player whose ID is not the lead ID. Assumes exactly 2 players.
-      const responder = state.players!.find(p => p.id !== leadId);
-      if (!responder) {
-          // This should be impossible with 2 players but handle defensively.
-          logError("[GameEngine Helper] Could not find responder ID.", { leadId, players: state.players, floorNumber }, 'EngineLogic');
-          // Fallback: return the ID that isn't the lead, assuming standard indices
-          return state.players![0].id === leadId ? state.players![1].id : state.players![0].id;
-      }
-      return responder.id;
+  /**
+   * Runs one card effect hook for a bundle on the current floor of `state`, adds the adjustments to
+   * `target`'s one-off effect total (`state` itself by default) and appends their events.
+   */
+  private runCardEffects(state: GameState, trigger: EffectTrigger, bundle: CardInstance[], events: GameEvent[], target: GameState = state): void {
+      const effectEvents = runEffectHook(trigger, bundle, state.floors ?? [], state.currentFloor, rulesOf(state));
+      if (effectEvents.length === 0) return;
+      target.effectScore = (target.effectScore ?? 0) + effectTotal(effectEvents);
+      events.push(...effectEvents);
+      logDebug(`[GameEngine Effects] ${trigger} on floor ${state.currentFloor}: ${effectEvents.map(e => `${e.reason} (${e.amount})`).join('; ')}`, undefined, 'EngineRules');
   }
 
   /** Checks if the given playerId corresponds to Player A (index 0). */
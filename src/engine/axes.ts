@@ -0,0 +1,93 @@
+// src/engine/axes.ts
+// Multi-axis scoring. Each card's netScoreImpact is split across four impact axes, so the net score is
+// the sum of the axes and stays what mediation, card effects and the AI work with. A balanced project
+// keeps the net score within ±balanceThreshold and, when the rule set has an axisBalanceThreshold,
+// every axis within its own band. Card effects and placement synergies are not tied to an axis: they
+// move the net score only.
+
+import { CardDefinition, FloorState, FloorStatus, ImpactAxis, RuleSet } from '@/data/types';
+import { IMPACT_AXES } from '@/data/constants';
+import { mandatoryImpactCardDefinitions } from '@/data/deckData';
+import { getScenario } from '@/data/scenarios';
+import { floorCards } from './bundles';
+
+export { IMPACT_AXES };
+
+export const AXIS_LABELS: Readonly<Record<ImpactAxis, string>> = {
+    affordability: 'Affordability',
+    sustainability: 'Sustainability',
+    profit: 'Profit',
+    culture: 'Culture',
+};
+
+/** The axis a category's impact falls on when a card doesn't split it, or leaves part of it unsplit. */
+const CATEGORY_AXES: Readonly<Record<string, ImpactAxis>> = {
+    'Housing': 'affordability',
+    'System': 'sustainability',
+    'Amenity': 'sustainability',
+    'Retail/Commercial': 'profit',
+    'Hospitality': 'profit',
+    'Community Facility': 'culture',
+    'Specialty': 'culture',
+};
+const DEFAULT_AXIS: ImpactAxis = 'profit';
+
+export type AxisTotals = Record<ImpactAxis, number>;
+
+export interface AxisBalance {
+    axis: ImpactAxis;
+    total: number;
+    within: boolean;               // Inside ±axisBalanceThreshold (always true when the rules have none)
+}
+
+export const zeroAxes = (): AxisTotals => ({ affordability: 0, sustainability: 0, profit: 0, culture: 0 });
+
+export const primaryAxis = (card: Pick<CardDefinition, 'category'>): ImpactAxis => CATEGORY_AXES[card.category ?? ''] ?? DEFAULT_AXIS;
+
+/** A card's impact on every axis. The axes always sum to netScoreImpact: whatever `impacts` leaves out counts on the category's axis. */
+export function cardImpacts(card: CardDefinition): AxisTotals {
+    const totals = zeroAxes();
+    IMPACT_AXES.forEach(axis => { totals[axis] = card.impacts?.[axis] ?? 0; });
+    const split = IMPACT_AXES.reduce((sum, axis) => sum + totals[axis], 0);
+    totals[primaryAxis(card)] += (card.netScoreImpact ?? 0) - split;
+    return totals;
+}
+
+/** Sum of the impacts of `cards` on every axis, on top of `start`. */
+export function bundleImpacts(cards: readonly CardDefinition[], start: AxisTotals = zeroAxes()): AxisTotals {
+    return cards.reduce((totals, card) => {
+        const impacts = cardImpacts(card);
+        IMPACT_AXES.forEach(axis => { totals[axis] += impacts[axis]; });
+        return totals;
+    }, { ...start });
+}
+
+/** The per-axis view of scenarioBaseline: the impacts of the scenario's mandatory System cards. */
+export function scenarioAxisBaseline(id: string | null | undefined): AxisTotals {
+    const cards = getScenario(id).baselineCardIds
+        .map(cardId => mandatoryImpactCardDefinitions.find(card => card.id === cardId))
+        .filter((card): card is CardDefinition => card !== undefined);
+    return bundleImpacts(cards);
+}
+
+/** Per-axis totals of the Agreed floors on top of `baseline`, counted the way the net score counts them. */
+export function axisTotals(floors: readonly FloorState[], baseline: AxisTotals = zeroAxes()): AxisTotals {
+    return bundleImpacts(floors.filter(floor => floor.status === FloorStatus.Agreed).flatMap(floor => floorCards(floor)), baseline);
+}
+
+/** The axis with the largest impact either way, or null when every axis is zero. Ties go to the first in IMPACT_AXES. */
+export function dominantAxis(totals: AxisTotals): ImpactAxis | null {
+    return IMPACT_AXES.reduce<ImpactAxis | null>((best, axis) =>
+        totals[axis] !== 0 && (best === null || Math.abs(totals[axis]) > Math.abs(totals[best])) ? axis : best, null);
+}
+
+/** Each axis against the rules' axis band, in IMPACT_AXES order. */
+export function checkAxisBalance(totals: AxisTotals, rules: RuleSet): AxisBalance[] {
+    const threshold = rules.axisBalanceThreshold;
+    return IMPACT_AXES.map(axis => ({ axis, total: totals[axis], within: threshold === undefined || Math.abs(totals[axis]) <= threshold }));
+}
+
+/** Whether a project with this net score and these axis totals is balanced under `rules`. */
+export function isBalanced(netScore: number, totals: AxisTotals, rules: RuleSet): boolean {
+    return Math.abs(netScore) <= rules.balanceThreshold && checkAxisBalance(totals, rules).every(balance => balance.within);
+}
@@ -0,0 +1,128 @@
+// src/engine/bundles.ts
+// Area and score of proposal bundles: the one or more cards a player puts forward for a floor together.
+// Bundles larger than one floor's footprint are packed upward across consecutive floors.
+
+import { CardData, CardDefinition, FloorState, FloorStatus, Committer } from '@/data/types';
+import { BUILDING_FOOTPRINT } from '@/data/constants';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+
+export interface AreaChunk {
+    floorNumber: number;
+    sqft: number;
+}
+
+/** Square footage a card occupies: its footprint per unit times its units. */
+export const cardArea = (card: CardDefinition): number => (card.baseSqft ?? card.minimumSqft ?? 0) * (card.units ?? 1);
+
+export const bundleArea = (cards: CardDefinition[]): number => cards.reduce((sum, card) => sum + cardArea(card), 0);
+
+export const bundleScoreImpact = (cards: CardDefinition[]): number => cards.reduce((sum, card) => sum + (card.netScoreImpact ?? 0), 0);
+
+export const bundleUnits = (cards: CardDefinition[]): number => cards.reduce((sum, card) => sum + (card.units ?? 1), 0);
+
+export const describeBundle = (cards: CardData[]): string => cards.map(card => card.name).join(' + ');
+
+/** Cards agreed for a floor. Floors finalized before bundles existed only record winnerCard. */
+export const floorCards = (floor: FloorState): CardData[] =>
+    floor.winnerCards ?? (floor.winnerCard ? [floor.winnerCard] : []);
+
+/** What an Agreed floor adds to the running score; every other status counts for nothing. */
+export const floorScoreImpact = (floor: FloorState): number =>
+    floor.status === FloorStatus.Agreed ? bundleScoreImpact(floorCards(floor)) : 0;
+
+/** Cards in use on a floor; the upper floors of a multi-floor use report the cards agreed below them. */
+export function cardsInUseOn(floors: readonly FloorState[], floorNumber: number): CardData[] {
+    const floor = floors.find(f => f.floorNumber === floorNumber);
+    if (!floor || floor.status !== FloorStatus.Agreed) return [];
+    const base = floor.spanOf === undefined ? floor : floors.find(f => f.floorNumber === floor.spanOf);
+    return base ? floorCards(base) : [];
+}
+
+/** Highest floor taken by the use agreed on `floorNumber`. */
+export const topFloorOf = (floors: readonly FloorState[], floorNumber: number): number =>
+    floors.reduce((top, f) => (f.spanOf === floorNumber ? Math.max(top, f.floorNumber) : top), floorNumber);
+
+/** Square footage still free on a floor. */
+export const remainingCapacity = (floor: Pick<FloorState, 'sqftUsed'>): number => BUILDING_FOOTPRINT - (floor.sqftUsed ?? 0);
+
+/**
+ * Splits `area` across floors from `floorNumber` upward, filling the free space of each floor
+ * (as reported by `usedOn`) before moving to the next. A card without area still lands on `floorNumber`.
+ */
+export function packArea(area: number, floorNumber: number, usedOn: (floorNumber: number) => number): AreaChunk[] {
+    const chunks: AreaChunk[] = [];
+    let remaining = area;
+    for (let floor = floorNumber; remaining > 0; floor++) {
+        const free = BUILDING_FOOTPRINT - usedOn(floor);
+        if (free <= 0) continue;
+        const sqft = Math.min(free, remaining);
+        chunks.push({ floorNumber: floor, sqft });
+        remaining -= sqft;
+    }
+    return chunks.length > 0 ? chunks : [{ floorNumber, sqft: 0 }];
+}
+
+/** Square footage the bundle takes on each floor when it is placed starting at `floorNumber`, in card order. */
+export function packBundle(cards: CardDefinition[], floorNumber: number): Map<number, number> {
+    const used = new Map<number, number>();
+    cards.forEach(card => packArea(cardArea(card), floorNumber, floor => used.get(floor) ?? 0)
+        .forEach(chunk => used.set(chunk.floorNumber, (used.get(chunk.floorNumber) ?? 0) + chunk.sqft)));
+    return used;
+}
+
+/** Number of consecutive floors, starting with its own, that a bundle occupies. */
+export const floorsSpanned = (cards: CardDefinition[]): number => Math.max(1, Math.ceil(bundleArea(cards) / BUILDING_FOOTPRINT));
+
+/** Checks a bundle placed on `floorNumber` fits: every floor it would grow into must exist and still be free. */
+export function validateBundlePlacement(floors: FloorState[], floorNumber: number, cards: CardDefinition[]): ValidationResult {
+    const area = bundleArea(cards);
+    const span = floorsSpanned(cards);
+    const base = floors.find(f => f.floorNumber === floorNumber);
+    if (base && area <= BUILDING_FOOTPRINT && area > remainingCapacity(base)) {
+        return validationFailed(`Proposal needs ${area.toLocaleString()} sq.ft but floor ${floorNumber} has ${remainingCapacity(base).toLocaleString()} sq.ft free`);
+    }
+    if (span === 1) return validationPassed();
+
+    const top = floorNumber + span - 1;
+    if (top > floors.length) {
+        return validationFailed(`Proposal needs ${area.toLocaleString()} sq.ft across ${span} floors, but only ${floors.length - floorNumber + 1} remain from floor ${floorNumber}`);
+    }
+    const blocked = floors.find(f => f.floorNumber > floorNumber && f.floorNumber <= top && f.status !== FloorStatus.Pending);
+    if (blocked) {
+        return validationFailed(`Proposal needs floors ${floorNumber}–${top} (${area.toLocaleString()} sq.ft), but floor ${blocked.floorNumber} is already ${blocked.status}`);
+    }
+    return validationPassed();
+}
+
+/**
+ * Records a bundle agreed on `floorNumber`: sets the area used on each floor it covers and marks the
+ * floors above it that it grows into as Agreed parts of the same use (spanOf), so negotiation skips them.
+ */
+export function occupyFloors(floors: FloorState[], floorNumber: number, cards: CardDefinition[], committedBy: Committer | null): FloorState[] {
+    const usage = packBundle(cards, floorNumber);
+    return floors.map(floor => {
+        const sqft = usage.get(floor.floorNumber);
+        if (sqft === undefined) return floor;
+        if (floor.floorNumber === floorNumber) return { ...floor, sqftUsed: sqft };
+        return {
+            ...floor,
+            status: FloorStatus.Agreed,
+            spanOf: floorNumber,
+            sqftUsed: sqft,
+            committedBy,
+            proposalA: undefined,
+            proposalB: undefined,
+            winnerCard: undefined,
+            winnerCards: undefined,
+        };
+    });
+}
+
+/** Frees the floors a use agreed on `floorNumber` grew into, and clears that floor's own area. */
+export function releaseFloors(floors: FloorState[], floorNumber: number): FloorState[] {
+    return floors.map(floor => {
+        if (floor.floorNumber === floorNumber) return { ...floor, sqftUsed: undefined };
+        if (floor.spanOf !== floorNumber) return floor;
+        return { ...floor, status: FloorStatus.Pending, spanOf: undefined, sqftUsed: undefined, committedBy: null };
+    });
+}
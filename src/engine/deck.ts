@@ -0,0 +1,67 @@
+// src/engine/deck.ts
+// Draw pile mode: a shuffled pile with one card per copy (`quantity`) of each definition. Players draw from
+// the top, cards that leave play go to the discard pile, and the discard pile is shuffled into a new draw
+// pile when the old one runs out. Drafted games work the same way, except that each player owns a pair of
+// piles built from what they drafted and discards go back to the owner's. Shared by the engine and the live
+// stores so both deal the same way.
+
+import { CardDefinition, CardInstance, DeckMode, Player } from '@/data/types';
+import { shuffle } from '@/utils/shuffle';
+import { createSeededRandom, RandomSource } from '@/utils/random';
+
+/** True for both pile modes: draws take the top card and cards that leave play are discarded. */
+export const isDrawPileMode = (mode: DeckMode | undefined): boolean => mode === 'drawPile' || mode === 'drafted';
+
+/** True when every player draws from and discards to piles of their own rather than shared ones. */
+export const hasPrivatePiles = (mode: DeckMode | undefined): boolean => mode === 'drafted';
+
+export interface Piles {
+    drawPile: CardInstance[];
+    discardPile: CardInstance[];
+}
+
+/** The piles `player` draws from: their own in drafted mode, otherwise the shared `shared`. */
+export const pilesOf = (player: Pick<Player, 'drawPile' | 'discardPile'>, shared: Piles, mode: DeckMode | undefined): Piles =>
+    hasPrivatePiles(mode) ? { drawPile: player.drawPile ?? [], discardPile: player.discardPile ?? [] } : shared;
+
+/** Every pile in the game, for counting the cards that can still come into play. */
+export const allPiles = (players: readonly Pick<Player, 'drawPile' | 'discardPile'>[], shared: Piles, mode: DeckMode | undefined): CardInstance[][] =>
+    hasPrivatePiles(mode)
+        ? players.flatMap(player => [player.drawPile ?? [], player.discardPile ?? []])
+        : [shared.drawPile, shared.discardPile];
+
+/** The draw pile for a new game, top card first. Copies of a card are numbered `${id}-1`, `${id}-2`, … */
+export function buildDrawPile(definitions: readonly CardDefinition[], rng: RandomSource): CardInstance[] {
+    const cards = definitions.flatMap(definition =>
+        Array.from({ length: Math.max(0, definition.quantity ?? 1) }, (_, i): CardInstance => ({ ...definition, instanceId: `${definition.id}-${i + 1}` })));
+    return shuffle(cards, rng);
+}
+
+/**
+ * Source for the `reshuffle`-th reshuffle of a game (counted from 1). Derived from the game seed rather
+ * than drawn from a shared stream, so the engine, the stores and a resumed save all shuffle alike.
+ */
+export const reshuffleRandom = (seed: number, reshuffle: number): RandomSource => createSeededRandom((seed + reshuffle * 0x9e3779b9) >>> 0);
+
+export interface DrawResult {
+    card: CardInstance | undefined;  // undefined when both piles are empty
+    drawPile: CardInstance[];
+    discardPile: CardInstance[];
+    reshuffled: boolean;             // The discard pile became the new draw pile before this draw
+}
+
+/** Takes the top card for `ownerId`, first shuffling the discard pile in if the draw pile is empty. */
+export function drawTopCard(drawPile: readonly CardInstance[], discardPile: readonly CardInstance[], ownerId: string, reshuffle: () => RandomSource): DrawResult {
+    const reshuffled = drawPile.length === 0 && discardPile.length > 0;
+    const pile = reshuffled ? shuffle([...discardPile], reshuffle()) : [...drawPile];
+    const [top, ...rest] = pile;
+    return {
+        card: top ? { ...top, ownerId, stack: 1 } : undefined,
+        drawPile: rest,
+        discardPile: reshuffled ? [] : [...discardPile],
+        reshuffled,
+    };
+}
+
+/** A card as it lies on the discard pile: single and owned by nobody. */
+export const toDiscard = (card: CardInstance): CardInstance => ({ ...card, ownerId: undefined, stack: undefined });
@@ -0,0 +1,76 @@
+// src/engine/draft.ts
+// Pre-game draft for drafted deck mode. Every card definition is laid out face up as one stack of its
+// `quantity` copies; the two roles take turns picking whole stacks until the market is empty, and each
+// player's picks become their private draw pile for the game. Pure, so the live draft store and the
+// simulator run the same draft, and a START_GAME carrying the picks rebuilds the same piles.
+
+import { CardDefinition, PlayerRole } from '@/data/types';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+
+/** The stacks each role drafted, as card definition ids in pick order. */
+export type DraftPicks = Partial<Record<PlayerRole, string[]>>;
+
+export interface DraftState {
+    market: string[];          // Definition ids still face up, in catalog order
+    order: [PlayerRole, PlayerRole];  // order[0] picks first, then the two alternate
+    picks: DraftPicks;
+    pickNumber: number;        // Picks made so far
+}
+
+/** A market of every definition with at least one copy, `firstPicker` to choose first. */
+export function createDraft(definitions: readonly CardDefinition[], firstPicker: PlayerRole, secondPicker: PlayerRole): DraftState {
+    return {
+        market: definitions.filter(definition => (definition.quantity ?? 1) > 0).map(definition => definition.id),
+        order: [firstPicker, secondPicker],
+        picks: { [firstPicker]: [], [secondPicker]: [] },
+        pickNumber: 0,
+    };
+}
+
+export const isDraftComplete = (draft: DraftState): boolean => draft.market.length === 0;
+
+/** The role whose turn it is to pick, or undefined once the market is empty. */
+export const draftPicker = (draft: DraftState): PlayerRole | undefined =>
+    isDraftComplete(draft) ? undefined : draft.order[draft.pickNumber % 2];
+
+export function validateDraftPick(draft: DraftState, role: PlayerRole, definitionId: string): ValidationResult {
+    if (isDraftComplete(draft)) return validationFailed('The draft is over');
+    if (draftPicker(draft) !== role) return validationFailed(`It is the ${draftPicker(draft)}'s pick`);
+    if (!draft.market.includes(definitionId)) return validationFailed('That stack is no longer in the market');
+    return validationPassed();
+}
+
+/** The draft after `role` takes the stack `definitionId`. Call validateDraftPick first. */
+export const applyDraftPick = (draft: DraftState, role: PlayerRole, definitionId: string): DraftState => ({
+    ...draft,
+    market: draft.market.filter(id => id !== definitionId),
+    picks: { ...draft.picks, [role]: [...(draft.picks[role] ?? []), definitionId] },
+    pickNumber: draft.pickNumber + 1,
+});
+
+/** The definitions `picks` names, each at its full quantity; unknown ids are dropped. */
+export const draftedDefinitions = (definitions: readonly CardDefinition[], picks: readonly string[] | undefined): CardDefinition[] =>
+    definitions.filter(definition => picks?.includes(definition.id));
+
+/** Number of cards (not stacks) `role` has drafted. */
+export const draftedCardCount = (definitions: readonly CardDefinition[], draft: DraftState, role: PlayerRole): number =>
+    draftedDefinitions(definitions, draft.picks[role]).reduce((sum, definition) => sum + (definition.quantity ?? 1), 0);
+
+/**
+ * Runs a whole draft with `choose` picking for both roles; the simulator's stand-in for two AIs at
+ * the draft board. `choose` gets the definitions still on offer and returns the id to take.
+ */
+export function runDraft(
+    definitions: readonly CardDefinition[],
+    firstPicker: PlayerRole,
+    secondPicker: PlayerRole,
+    choose: (role: PlayerRole, market: CardDefinition[]) => string,
+): DraftPicks {
+    let draft = createDraft(definitions, firstPicker, secondPicker);
+    for (let role = draftPicker(draft); role; role = draftPicker(draft)) {
+        const market = definitions.filter(definition => draft.market.includes(definition.id));
+        const choice = choose(role, market);
+        draft = applyDraftPick(draft, role, validateDraftPick(draft, role, choice).isValid ? choice : draft.market[0]);
+    }
+    return draft.picks;
+}
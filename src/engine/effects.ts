@@ -0,0 +1,100 @@
+// src/engine/effects.ts
+// Card effect pipeline. Effects only read the building and return score adjustments; callers apply
+// them and announce each one as a SCORE_ADJUSTED event, so every effect-driven score change is logged.
+
+import { CardEffect, CardInstance, EffectAdjustment, EffectTrigger, FloorState, FloorStatus, GameEvent, RuleSet } from '@/data/types';
+import { CARD_EFFECTS } from '@/data/cardEffects';
+import { floorCards } from './bundles';
+import { describeSynergy, findSynergies } from './synergy';
+import { logError } from '@/utils/logger';
+
+export type EffectEvent = Extract<GameEvent, { type: 'SCORE_ADJUSTED' }>;
+
+/** The one-off hooks in the order they fire for a bundle that is proposed, accepted and placed. */
+export const EFFECT_TRIGGERS: readonly EffectTrigger[] = ['onPropose', 'onAccept', 'onFinalize'];
+
+export const cardEffectOf = (card: { id: string }): CardEffect | undefined => CARD_EFFECTS[card.id];
+
+const toEvent = (adjustment: EffectAdjustment, card: CardInstance, floorNumber: number, trigger: EffectEvent['trigger']): EffectEvent => ({
+    type: 'SCORE_ADJUSTED',
+    amount: adjustment.amount,
+    reason: adjustment.reason,
+    cardId: card.id,
+    floor: adjustment.floor ?? floorNumber,
+    trigger,
+});
+
+/** Calls one effect function; a failing effect is logged and contributes nothing rather than breaking the move. */
+function callEffect(run: () => EffectAdjustment[], card: CardInstance, trigger: EffectEvent['trigger']): EffectAdjustment[] {
+    try {
+        return run().filter(adjustment => adjustment.amount !== 0);
+    } catch (error) {
+        logError(`[Effects] ${trigger} effect of '${card.name}' failed`, { error, cardId: card.id }, 'EngineRules');
+        return [];
+    }
+}
+
+/** Runs one hook for every card of a bundle on `floorNumber`, in bundle order. */
+export function runEffectHook(trigger: EffectTrigger, cards: CardInstance[], floors: readonly FloorState[], floorNumber: number, rules: RuleSet): EffectEvent[] {
+    return cards.flatMap(card => {
+        const hook = cardEffectOf(card)?.[trigger];
+        if (!hook) return [];
+        return callEffect(() => hook({ floors, card, floorNumber, rules }), card, trigger)
+            .map(adjustment => toEvent(adjustment, card, floorNumber, trigger));
+    });
+}
+
+/**
+ * Every ongoing adjustment the agreed floors produce: card `ongoing` effects, keyed by source card,
+ * affected floor and reason, and placement synergies, keyed by rule and the cards involved.
+ */
+function ongoingAdjustments(floors: readonly FloorState[], rules: RuleSet): Map<string, EffectEvent> {
+    const adjustments = new Map<string, EffectEvent>();
+    floors
+        .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+        .forEach(floor => floorCards(floor).forEach(card => {
+            const ongoing = cardEffectOf(card)?.ongoing;
+            if (!ongoing) return;
+            callEffect(() => ongoing({ floors, card, floorNumber: floor.floorNumber, rules }), card, 'ongoing').forEach(adjustment => {
+                const event = toEvent(adjustment, card, floor.floorNumber, 'ongoing');
+                adjustments.set(`${card.instanceId}@${event.floor}:${event.reason}`, event);
+            });
+        }));
+    findSynergies(floors, rules).forEach(match => adjustments.set(match.key, {
+        type: 'SCORE_ADJUSTED',
+        amount: match.rule.amount,
+        reason: describeSynergy(match),
+        cardId: match.card.id,
+        floor: match.floor,
+        trigger: 'synergy',
+    }));
+    return adjustments;
+}
+
+/** The ongoing adjustments in force for the agreed floors, e.g. to show them next to the floors they belong to. */
+export const ongoingEffects = (floors: readonly FloorState[], rules: RuleSet): EffectEvent[] =>
+    Array.from(ongoingAdjustments(floors, rules).values());
+
+/** Net score the ongoing effects of the agreed floors contribute. */
+export const ongoingEffectScore = (floors: readonly FloorState[], rules: RuleSet): number =>
+    effectTotal(ongoingEffects(floors, rules));
+
+/**
+ * The ongoing adjustments that start, change or stop when the floors go from `before` to `after`,
+ * as events whose amounts are the difference. Applying them keeps a running score in step with the floors.
+ */
+export function ongoingEffectChanges(before: readonly FloorState[], after: readonly FloorState[], rules: RuleSet): EffectEvent[] {
+    const previous = ongoingAdjustments(before, rules);
+    const next = ongoingAdjustments(after, rules);
+    const changes: EffectEvent[] = [];
+    next.forEach((event, key) => {
+        const delta = event.amount - (previous.get(key)?.amount ?? 0);
+        if (delta !== 0) changes.push({ ...event, amount: delta });
+    });
+    previous.forEach((event, key) => {
+        if (!next.has(key)) changes.push({ ...event, amount: -event.amount, reason: `${event.reason} no longer applies` });
+    });
+    return changes;
+}
+
+export const effectTotal = (events: EffectEvent[]): number => events.reduce((sum, event) => sum + event.amount, 0);
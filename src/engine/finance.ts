@@ -0,0 +1,92 @@
+// src/engine/finance.ts
+// Running pro forma of the building: what the agreed floors cost to build and what they earn each year.
+// Cards price themselves through cost/cashFlow (per unit); cards without them fall back to per-sq.ft rates.
+
+import { CardDefinition, FloorState, FloorStatus, RuleSet } from '@/data/types';
+import { COST_PER_SQFT, CASH_FLOW_PER_SQFT } from '@/data/constants';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+import { cardArea, floorCards } from './bundles';
+
+export interface ProFormaLine {
+    floorNumber: number;
+    cardId: string;
+    name: string;
+    cost: number;
+    cashFlow: number;
+}
+
+export interface ProForma {
+    lines: ProFormaLine[];
+    totalCost: number;
+    annualCashFlow: number;
+    yieldPct: number | null;       // Annual cash flow as a percentage of total cost; null until something costs money
+    paybackYears: number | null;   // Years of cash flow to recover the cost; null if the building never pays back
+}
+
+const isAffordable = (card: CardDefinition) => card.id.includes('affordable') || (card.netScoreImpact ?? 0) < 0;
+
+function costPerSqft(card: CardDefinition): number {
+    switch (card.category) {
+        case 'Housing': return isAffordable(card) ? COST_PER_SQFT.HOUSING_AFFORDABLE : COST_PER_SQFT.HOUSING_MARKET;
+        case 'Community Facility': return COST_PER_SQFT.COMMUNITY;
+        case 'Amenity': return COST_PER_SQFT.AMENITY;
+        default: return COST_PER_SQFT.RETAIL_BASIC;
+    }
+}
+
+function cashFlowPerSqft(card: CardDefinition): number {
+    switch (card.category) {
+        case 'Housing': return isAffordable(card) ? CASH_FLOW_PER_SQFT.HOUSING_AFFORDABLE : CASH_FLOW_PER_SQFT.HOUSING_MARKET;
+        case 'Community Facility': return CASH_FLOW_PER_SQFT.COMMUNITY_SUBSIDIZED;
+        case 'Amenity': return CASH_FLOW_PER_SQFT.COMMUNITY_MARKET;
+        default: return CASH_FLOW_PER_SQFT.RETAIL_ESSENTIAL;
+    }
+}
+
+export const cardCost = (card: CardDefinition): number =>
+    card.cost !== undefined ? card.cost * (card.units ?? 1) : cardArea(card) * costPerSqft(card);
+
+export const cardCashFlow = (card: CardDefinition): number =>
+    card.cashFlow !== undefined ? card.cashFlow * (card.units ?? 1) : cardArea(card) * cashFlowPerSqft(card);
+
+/** Pro forma of the cards agreed on `floors`. Multi-floor uses are counted once, on their base floor. */
+export function buildProForma(floors: readonly FloorState[]): ProForma {
+    const lines = floors.filter(floor => floor.status === FloorStatus.Agreed).flatMap(floor => floorCards(floor).map(card => ({
+        floorNumber: floor.floorNumber,
+        cardId: card.id,
+        name: card.name,
+        cost: cardCost(card),
+        cashFlow: cardCashFlow(card),
+    })));
+    const totalCost = lines.reduce((sum, line) => sum + line.cost, 0);
+    const annualCashFlow = lines.reduce((sum, line) => sum + line.cashFlow, 0);
+    return {
+        lines,
+        totalCost,
+        annualCashFlow,
+        yieldPct: totalCost > 0 ? (annualCashFlow / totalCost) * 100 : null,
+        paybackYears: annualCashFlow > 0 ? totalCost / annualCashFlow : null,
+    };
+}
+
+/**
+ * The developer's feasibility rule: with `minDeveloperYieldPct` set, the finished building must earn at
+ * least that yield. An empty building costs nothing and is not judged.
+ */
+export function checkFeasibility(proForma: ProForma, rules: RuleSet): ValidationResult {
+    const minimum = rules.minDeveloperYieldPct;
+    if (minimum <= 0 || proForma.yieldPct === null || proForma.yieldPct >= minimum) return validationPassed();
+    return validationFailed(`Project infeasible: ${formatPercent(proForma.yieldPct)} yield is below the developer's ${minimum}% minimum`);
+}
+
+export const formatMoney = (amount: number): string => {
+    const abs = Math.abs(amount);
+    const sign = amount < 0 ? '-' : '';
+    if (abs >= 1_000_000) return `${sign}$${(abs / 1_000_000).toFixed(1)}M`;
+    if (abs >= 1_000) return `${sign}$${Math.round(abs / 1_000)}k`;
+    return `${sign}$${Math.round(abs)}`;
+};
+
+export const formatPercent = (pct: number | null): string => (pct === null ? '—' : `${pct.toFixed(1)}%`);
+
+export const formatPayback = (years: number | null): string => (years === null ? 'never' : `${years.toFixed(1)} yrs`);
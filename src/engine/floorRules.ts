@@ -0,0 +1,206 @@
+// src/engine/floorRules.ts
+// The requiresFloor language: where in the building a card may go. Entries are floor numbers or strings.
+// Placement entries say which floors are allowed and a card must match at least one of them; condition
+// entries look at the rest of the building and must all hold. Conditions bind both ways: once a use with
+// one is placed, the cards it names can't go where they would break it. Shared by the engine, the floor
+// store, reachability and deck validation so every part of the game reads a card's rules the same way.
+//
+//   3, "3", "1-3"                a floor or an inclusive range of floors
+//   "ground", "roof"             floor 1 / the top floor; "non-roof" is any floor but the top
+//   "top-N"                      one of the N highest floors
+//   "even", "odd"                floor number parity
+//   "not-adjacent-to:<category>" no <category> use directly above or below
+//   "below:<category>"           lower than every floor that has a <category> use
+//   "max:<count>"                at most <count> copies of this card in the building
+
+import { CardDefinition, FloorState, FloorStatus } from '@/data/types';
+import { cardsInUseOn, floorCards, floorsSpanned, topFloorOf } from './bundles';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+import { logWarn } from '@/utils/logger';
+
+export type FloorRequirement =
+    | { kind: 'floors'; from: number; to: number }
+    | { kind: 'roof' }
+    | { kind: 'nonRoof' }
+    | { kind: 'top'; floors: number }
+    | { kind: 'parity'; even: boolean }
+    | { kind: 'notAdjacentTo'; category: string }
+    | { kind: 'below'; category: string }
+    | { kind: 'max'; count: number };
+
+/** Every form a requiresFloor entry may take, for error messages and the deck editor. */
+export const FLOOR_REQUIREMENT_SYNTAX =
+    'a floor number, a range like 1-3, ground, roof, non-roof, top-N, even, odd, not-adjacent-to:<category>, below:<category> or max:<count>';
+
+/** The string entries as a regular expression, for the deck file JSON Schema. */
+export const FLOOR_REQUIREMENT_PATTERN = '^(\\d+(-\\d+)?|ground|roof|non-roof|top-\\d+|even|odd|not-adjacent-to:.+|below:.+|max:\\d+)$';
+
+/** Reads one requiresFloor entry, or returns undefined if it isn't part of the language. */
+export function parseFloorRequirement(req: number | string): FloorRequirement | undefined {
+    if (typeof req === 'number') return Number.isInteger(req) && req >= 1 ? { kind: 'floors', from: req, to: req } : undefined;
+    if (typeof req !== 'string') return undefined;
+    const text = req.trim();
+    switch (text.toLowerCase()) {
+        case 'ground': return { kind: 'floors', from: 1, to: 1 };
+        case 'roof': return { kind: 'roof' };
+        case 'non-roof': return { kind: 'nonRoof' };
+        case 'even': return { kind: 'parity', even: true };
+        case 'odd': return { kind: 'parity', even: false };
+    }
+    let match = /^(\d+)(?:-(\d+))?$/.exec(text);
+    if (match) {
+        const from = Number(match[1]);
+        const to = Number(match[2] ?? match[1]);
+        return from >= 1 && to >= from ? { kind: 'floors', from, to } : undefined;
+    }
+    if ((match = /^top-(\d+)$/i.exec(text))) return Number(match[1]) >= 1 ? { kind: 'top', floors: Number(match[1]) } : undefined;
+    if ((match = /^max:(\d+)$/i.exec(text))) return Number(match[1]) >= 1 ? { kind: 'max', count: Number(match[1]) } : undefined;
+    if ((match = /^not-adjacent-to:(.+)$/i.exec(text))) return { kind: 'notAdjacentTo', category: match[1].trim() };
+    if ((match = /^below:(.+)$/i.exec(text))) return { kind: 'below', category: match[1].trim() };
+    return undefined;
+}
+
+const isPlacement = (rule: FloorRequirement): boolean =>
+    rule.kind !== 'notAdjacentTo' && rule.kind !== 'below' && rule.kind !== 'max';
+
+/** A requiresFloor entry in words, e.g. "Floors 1–3" or "Roof (30)". */
+export function describeFloorRequirement(req: number | string, maxStories: number): string {
+    const rule = parseFloorRequirement(req);
+    switch (rule?.kind) {
+        case 'floors':
+            if (rule.from === 1 && rule.to === 1 && String(req).toLowerCase() === 'ground') return 'Ground';
+            return rule.from === rule.to ? `Floor ${rule.from}` : `Floors ${rule.from}–${rule.to}`;
+        case 'roof': return `Roof (${maxStories})`;
+        case 'nonRoof': return 'Below the roof';
+        case 'top': return `Top ${rule.floors} floors`;
+        case 'parity': return rule.even ? 'Even floors' : 'Odd floors';
+        case 'notAdjacentTo': return `Not next to ${rule.category}`;
+        case 'below': return `Below ${rule.category}`;
+        case 'max': return `Max ${rule.count} per building`;
+        default: return `Unknown rule '${req}'`;
+    }
+}
+
+function matchesPlacement(rule: FloorRequirement, floorNumber: number, maxStories: number): boolean {
+    switch (rule.kind) {
+        case 'floors': return floorNumber >= rule.from && floorNumber <= rule.to;
+        case 'roof': return floorNumber === maxStories;
+        case 'nonRoof': return floorNumber !== maxStories;
+        case 'top': return floorNumber > maxStories - rule.floors;
+        case 'parity': return (floorNumber % 2 === 0) === rule.even;
+        default: return true;
+    }
+}
+
+const hasCategory = (cards: readonly CardDefinition[], category: string): boolean =>
+    cards.some(card => card.category?.toLowerCase() === category.toLowerCase());
+
+export interface FloorCheckContext {
+    floorNumber: number;
+    maxStories: number;
+    floors?: readonly FloorState[];        // The building so far; without it, conditions on other floors pass
+    bundle?: readonly CardDefinition[];    // Cards proposed together, including the one checked (defaults to just it)
+}
+
+/** Highest floor the card's use would take on this floor: bundles too large for one floor grow upward. */
+const useTopFloor = (card: CardDefinition, { floorNumber, bundle }: FloorCheckContext): number =>
+    floorNumber + floorsSpanned([...(bundle ?? [card])]) - 1;
+
+/** The floors directly below and directly above the card's use, counting every floor it spans. */
+const neighbourFloors = (card: CardDefinition, context: FloorCheckContext): number[] =>
+    [context.floorNumber - 1, useTopFloor(card, context) + 1];
+
+/** Why `rule` rules out the card on this floor, or undefined if it doesn't. */
+function conditionViolation(rule: FloorRequirement, card: CardDefinition, context: FloorCheckContext): string | undefined {
+    const { floorNumber, floors, bundle } = context;
+    if (!floors) return undefined;
+    switch (rule.kind) {
+        case 'notAdjacentTo': {
+            const neighbour = neighbourFloors(card, context).find(n => hasCategory(cardsInUseOn(floors, n), rule.category));
+            return neighbour === undefined ? undefined : `can't go next to ${rule.category} (floor ${neighbour})`;
+        }
+        case 'below': {
+            const top = useTopFloor(card, context);
+            const lower = floors.find(floor => floor.floorNumber <= top && hasCategory(cardsInUseOn(floors, floor.floorNumber), rule.category));
+            return lower === undefined ? undefined : `must stay below ${rule.category}, which is on floor ${lower.floorNumber}`;
+        }
+        case 'max': {
+            // A floor being renegotiated gives up its current use, so it doesn't count towards the limit.
+            const built = floors
+                .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined && floor.floorNumber !== floorNumber)
+                .flatMap(floor => floorCards(floor))
+                .filter(other => other.id === card.id).length;
+            const proposed = bundle ? bundle.filter(other => other.id === card.id).length : 1;
+            return built + proposed > rule.count ? `is limited to ${rule.count} per building (${built} built, ${proposed} proposed)` : undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+/** The condition rules among a card's requiresFloor entries; entries that don't parse are left out. */
+const conditionsOf = (card: CardDefinition): FloorRequirement[] =>
+    (card.requiresFloor ?? []).map(parseFloorRequirement).filter((rule): rule is FloorRequirement => rule !== undefined && !isPlacement(rule));
+
+/**
+ * Why a use already in the building rules out the card on this floor, or undefined if none does: a neighbour
+ * that can't be next to the card's category, or a use that must stay below it but whose top floor is not.
+ * Multi-floor uses on either side count by their full span. The floor being negotiated gives up its current
+ * use, so that use doesn't count.
+ */
+function placedUseViolation(card: CardDefinition, context: FloorCheckContext): string | undefined {
+    const { floorNumber, floors } = context;
+    if (!floors || !card.category) return undefined;
+    const category = card.category.toLowerCase();
+    const ruledOut = (other: CardDefinition, kind: 'notAdjacentTo' | 'below') =>
+        conditionsOf(other).some(rule => rule.kind === kind && rule.category.toLowerCase() === category);
+
+    for (const neighbour of neighbourFloors(card, context)) {
+        const other = cardsInUseOn(floors, neighbour).find(placed => ruledOut(placed, 'notAdjacentTo'));
+        if (other) return `can't go next to ${other.name} (floor ${neighbour}), which can't be next to ${card.category}`;
+    }
+    for (const floor of floors) {
+        if (floor.status !== FloorStatus.Agreed || floor.spanOf !== undefined) continue;
+        if (floor.floorNumber === floorNumber || topFloorOf(floors, floor.floorNumber) < floorNumber) continue;
+        const other = floorCards(floor).find(placed => ruledOut(placed, 'below'));
+        if (other) return `can't go below ${other.name} (floor ${floor.floorNumber}), which must stay below ${card.category}`;
+    }
+    return undefined;
+}
+
+/** Checks one card's requiresFloor entries for `floorNumber`, and the rules of the uses around it; the reason says which rule it breaks. */
+export function checkFloorRequirements(card: CardDefinition, context: FloorCheckContext): ValidationResult {
+    const entries = card.requiresFloor ?? [];
+    const name = card.name ?? card.id;
+
+    const rules: FloorRequirement[] = [];
+    for (const req of entries) {
+        const rule = parseFloorRequirement(req);
+        if (!rule) {
+            logWarn(`Unknown floor requirement '${req}' on card ${card.id}`, undefined, 'EngineRules');
+            return validationFailed(`${name} has an unknown floor rule '${req}'`);
+        }
+        rules.push(rule);
+    }
+
+    const placements = entries.filter((_, index) => isPlacement(rules[index]));
+    if (placements.length > 0 && !rules.some(rule => isPlacement(rule) && matchesPlacement(rule, context.floorNumber, context.maxStories))) {
+        const allowed = placements.map(req => describeFloorRequirement(req, context.maxStories)).join(' or ');
+        return validationFailed(`${name} can only go on: ${allowed} (not floor ${context.floorNumber})`);
+    }
+    for (const rule of rules) {
+        const violation = conditionViolation(rule, card, context);
+        if (violation) return validationFailed(`${name} ${violation}`);
+    }
+    const violation = placedUseViolation(card, context);
+    return violation ? validationFailed(`${name} ${violation}`) : validationPassed();
+}
+
+/** Checks every card of a bundle proposed for `floorNumber` against its floor rules. */
+export function validateBundleRequirements(floors: readonly FloorState[], floorNumber: number, cards: readonly CardDefinition[]): ValidationResult {
+    for (const card of cards) {
+        const check = checkFloorRequirements(card, { floorNumber, maxStories: floors.length, floors, bundle: cards });
+        if (!check.isValid) return check;
+    }
+    return validationPassed();
+}
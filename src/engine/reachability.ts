@@ -0,0 +1,281 @@
+// src/engine/reachability.ts
+// Which final scores the game can still end on: an outer bound on the range, from the floors still open,
+// the cards the players can still get and the recall tokens left, for the net score and for every impact
+// axis. When the balanced band lies outside the net range, or an axis range misses its own band, nobody can
+// balance the building any more; once the net range is also bound to one side, the game can be ended early.
+//
+// The bound is deliberately generous so that "out of reach" is never claimed wrongly: every open floor is
+// assumed to be filled with the most extreme cards allowed on it (fractionally, by score per sq.ft), and
+// each card may complete every placement synergy it could take part in. Card effects (cardEffects.ts) are
+// not in the bound. Instead balance counts as reachable while an effect can still change the score: while
+// a card with an effect can still be placed on an open floor, or a placed card's ongoing effect borders
+// one. This assumes ongoing effects only reach the uses next to their card, as every catalog effect does.
+// Effects, synergies and recall penalties move the net score only (axes.ts), so the axis bounds leave them out.
+
+import { CardData, CardDefinition, FloorState, FloorStatus, ImpactAxis, RuleSet } from '@/data/types';
+import { BUILDING_FOOTPRINT } from '@/data/constants';
+import { CardMatcher, SYNERGY_RULES } from '@/data/synergies';
+import { cardArea, floorCards, floorScoreImpact, releaseFloors, remainingCapacity, topFloorOf } from './bundles';
+import { checkFloorRequirements } from './floorRules';
+import { cardEffectOf, ongoingEffectScore } from './effects';
+import { AXIS_LABELS, AxisTotals, bundleImpacts, cardImpacts, IMPACT_AXES } from './axes';
+
+/** A card the players can still bring to the table and how many copies of it (Infinity when it can always be drawn). */
+export interface CardSupply {
+    card: CardDefinition;
+    copies: number;
+}
+
+export interface ScoreRange {
+    min: number;
+    max: number;
+}
+
+export interface Reachability {
+    range: ScoreRange;          // Final scores the game can still end on (outer bound)
+    openFloors: number[];       // Floors still to be negotiated
+    recallTokens: number;       // Tokens counted towards the range
+    axisRanges: Record<ImpactAxis, ScoreRange>;  // Final totals each impact axis can still end on (outer bound)
+    balanceReachable: boolean;  // Whether the range meets [-balanceThreshold, balanceThreshold] (or card effects can still move the score) and every axis range meets its band
+    winner?: 'developer' | 'community';  // Side the game is bound to end on when balance is out of reach; absent while the score can still favor either
+    explanation: string;
+}
+
+/**
+ * Cards the players can still bring to the table: the copies in `hands` (any finite collection of cards,
+ * such as the hands or the draw and discard piles), plus any number of each card in `drawable`.
+ */
+export function cardSupply(hands: readonly CardData[][], drawable: readonly CardDefinition[]): CardSupply[] {
+    const supply = new Map<string, CardSupply>();
+    drawable.forEach(card => supply.set(card.id, { card, copies: Infinity }));
+    hands.flat().forEach(card => {
+        const held = supply.get(card.id);
+        if (held) held.copies += card.stack ?? 1;
+        else supply.set(card.id, { card, copies: card.stack ?? 1 });
+    });
+    return Array.from(supply.values());
+}
+
+const isOpen = (floor: FloorState) => floor.status === FloorStatus.Pending || floor.status === FloorStatus.Reopened;
+
+const matches = (card: CardDefinition, matcher: CardMatcher) =>
+    (matcher.id === undefined || card.id === matcher.id) && (matcher.category === undefined || card.category === matcher.category);
+
+/**
+ * Most cards matching `matcher` that one use can hold: as many of the smallest such card as fit in the
+ * largest use that can still be agreed, or the most already agreed on one floor.
+ */
+function maxCardsInUse(matcher: CardMatcher, supply: CardSupply[], floors: readonly FloorState[], useArea: number): number {
+    const drawn = supply
+        .filter(entry => matches(entry.card, matcher))
+        .map(entry => Math.min(entry.copies, Math.floor(useArea / Math.max(1, cardArea(entry.card)))));
+    const agreed = floors
+        .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+        .map(floor => floorCards(floor).filter(card => matches(card, matcher)).length);
+    return Math.max(0, ...drawn, ...agreed);
+}
+
+/**
+ * The most a card could gain (`up`) or lose (`down`) through placement synergies, taking part in every rule
+ * it matches with as many partners as one use can hold on each side.
+ */
+function synergyReach(card: CardDefinition, supply: CardSupply[], floors: readonly FloorState[], useArea: number): { up: number; down: number } {
+    let up = 0;
+    let down = 0;
+    const add = (amount: number) => {
+        if (amount > 0) up += amount;
+        else down += amount;
+    };
+    SYNERGY_RULES.forEach(rule => {
+        const sides = rule.placement === 'adjacent' ? 2 : 1;
+        if (matches(card, rule.card)) {
+            add(rule.neighbour ? rule.amount * sides * maxCardsInUse(rule.neighbour, supply, floors, useArea) : rule.amount);
+        }
+        if (rule.neighbour && matches(card, rule.neighbour)) {
+            add(rule.amount * sides * maxCardsInUse(rule.card, supply, floors, useArea));
+        }
+    });
+    return { up, down };
+}
+
+interface Candidate {
+    card: CardDefinition;
+    copies: number;
+    area: number;
+    up: number;    // Best score the card can add, synergies included
+    down: number;  // Worst score the card can add, synergies included
+    impacts: AxisTotals;
+}
+
+/**
+ * Most a floor can add in one direction (`sign` 1 for up, -1 for down) with `capacity` sq.ft, each candidate
+ * adding `value`: the candidates with the best value per sq.ft first, filling the floor fractionally. Leaving
+ * the floor empty adds 0.
+ */
+function fillFloor(candidates: Candidate[], capacity: number, sign: 1 | -1, value: (candidate: Candidate) => number): number {
+    const ranked = candidates
+        .filter(candidate => sign * value(candidate) > 0)
+        .sort((a, b) => sign * (value(b) / b.area - value(a) / a.area));
+    let free = capacity;
+    let total = 0;
+    for (const candidate of ranked) {
+        if (free <= 0) break;
+        const sqft = Math.min(free, candidate.copies * candidate.area);
+        total += (value(candidate) / candidate.area) * sqft;
+        free -= sqft;
+    }
+    return total;
+}
+
+/**
+ * Per open floor, the candidates that can go on it. A use agreed on a floor may grow into the open floors
+ * above it, so each floor also takes the cards allowed on the open floors directly below it.
+ */
+function allowedCandidates(floors: readonly FloorState[], candidates: Candidate[], maxStories: number): Map<number, Candidate[]> {
+    const byFloor = new Map<number, Candidate[]>();
+    const allowed = new Set<Candidate>();
+    floors.forEach(floor => {
+        if (!isOpen(floor)) {
+            allowed.clear();
+            return;
+        }
+        // Position rules only: conditions on neighbouring uses depend on how the floors get filled.
+        candidates.filter(candidate => checkFloorRequirements(candidate.card, { floorNumber: floor.floorNumber, maxStories }).isValid).forEach(candidate => allowed.add(candidate));
+        byFloor.set(floor.floorNumber, Array.from(allowed));
+    });
+    return byFloor;
+}
+
+/** Per open floor, the least and most it can still add when each candidate adds between `reach.min` and `reach.max`. */
+function floorBounds(floors: readonly FloorState[], allowed: Map<number, Candidate[]>, reach: (candidate: Candidate) => ScoreRange): Map<number, ScoreRange> {
+    const bounds = new Map<number, ScoreRange>();
+    floors.forEach(floor => {
+        const available = allowed.get(floor.floorNumber);
+        if (!available) return;
+        const capacity = remainingCapacity(floor);
+        bounds.set(floor.floorNumber, {
+            min: fillFloor(available, capacity, -1, candidate => reach(candidate).min),
+            max: fillFloor(available, capacity, 1, candidate => reach(candidate).max),
+        });
+    });
+    return bounds;
+}
+
+/**
+ * Whether a card effect can still change the score: a card with an effect that some open floor of `layout`
+ * allows (position rules only), or an agreed ongoing effect next to an open floor.
+ */
+function effectsInPlay(layout: readonly FloorState[], candidates: Candidate[], maxStories: number): boolean {
+    const openAt = (floorNumber: number) => layout.some(floor => floor.floorNumber === floorNumber && isOpen(floor) && floorNumber <= maxStories);
+    const placeable = candidates.some(candidate => cardEffectOf(candidate.card) && layout.some(floor =>
+        openAt(floor.floorNumber) && checkFloorRequirements(candidate.card, { floorNumber: floor.floorNumber, maxStories }).isValid));
+    return placeable || layout.some(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined
+        && floorCards(floor).some(card => cardEffectOf(card)?.ongoing)
+        && (openAt(floor.floorNumber - 1) || openAt(topFloorOf(layout, floor.floorNumber) + 1)));
+}
+
+/** Longest run of consecutive floors in `floors` for which `open` holds. */
+function longestRun(floors: readonly FloorState[], open: (floor: FloorState) => boolean): number {
+    let longest = 0;
+    let run = 0;
+    floors.forEach(floor => {
+        run = open(floor) ? run + 1 : 0;
+        longest = Math.max(longest, run);
+    });
+    return longest;
+}
+
+/**
+ * Outer bound on the final score from `score`, the running score of the building as it stands, and on the
+ * final axis totals from `axes`, the building's totals as they stand (scenario baseline included).
+ * `recallTokens` is the number of tokens both players still hold.
+ */
+export function analyzeReachability(floors: readonly FloorState[], score: number, axes: AxisTotals, supply: CardSupply[], recallTokens: number, rules: RuleSet): Reachability {
+    const open = floors.filter(floor => isOpen(floor) && floor.floorNumber <= rules.maxStories);
+    const openFloors = open.map(floor => floor.floorNumber);
+
+    // Agreed uses a token could still reopen; the range treats them as open while working out what floors can hold.
+    const recallable = (floor: FloorState) =>
+        floor.status === FloorStatus.Agreed && floor.spanOf === undefined && floor.floorNumber <= rules.recallMaxFloor;
+    const tokens = open.length > 0 && floors.some(floor => recallable(floor) || (isOpen(floor) && floor.floorNumber <= rules.recallMaxFloor)) ? recallTokens : 0;
+    const reopenable = (floor: FloorState) =>
+        tokens > 0 && floor.status === FloorStatus.Agreed && (floor.spanOf ?? floor.floorNumber) <= rules.recallMaxFloor;
+    const layout: FloorState[] = floors.map(floor => (reopenable(floor)
+        ? { ...floor, status: floor.spanOf === undefined ? FloorStatus.Reopened : FloorStatus.Pending, spanOf: undefined, sqftUsed: undefined }
+        : floor));
+
+    const useArea = longestRun(layout, isOpen) * BUILDING_FOOTPRINT;
+    const candidates: Candidate[] = supply.filter(entry => entry.copies > 0).map(entry => {
+        const reach = synergyReach(entry.card, supply, floors, useArea);
+        const impact = entry.card.netScoreImpact ?? 0;
+        return { card: entry.card, copies: entry.copies, area: Math.max(1, cardArea(entry.card)), up: impact + reach.up, down: impact + reach.down, impacts: cardImpacts(entry.card) };
+    });
+    const allowed = allowedCandidates(layout, candidates, rules.maxStories);
+
+    /**
+     * Outer bound from `start` on one measure of the building (the net score or an axis), each candidate adding
+     * between `reach.min` and `reach.max`. Each token can at least add or take `penalty` (recall a use and agree
+     * it again); reopening a use swaps `removed` (what giving it up adds) for whatever its floors can still hold.
+     */
+    const boundFrom = (start: number, reach: (candidate: Candidate) => ScoreRange, removed: (floor: FloorState) => number, penalty: number): ScoreRange => {
+        const bounds = floorBounds(layout, allowed, reach);
+        const sumBounds = (floorNumbers: number[]) => floorNumbers.reduce(
+            (range, n) => ({ min: range.min + (bounds.get(n)?.min ?? 0), max: range.max + (bounds.get(n)?.max ?? 0) }),
+            { min: 0, max: 0 });
+        const recallSwings = floors.filter(recallable).map(floor => {
+            const top = topFloorOf(floors, floor.floorNumber);
+            const spanned = floors.filter(f => f.floorNumber >= floor.floorNumber && f.floorNumber <= top).map(f => f.floorNumber);
+            const refill = sumBounds(spanned);
+            return { min: removed(floor) + refill.min, max: removed(floor) + refill.max };
+        });
+        const bestSwings = (pick: (swing: ScoreRange) => number, sign: 1 | -1) =>
+            recallSwings.map(pick).filter(swing => sign * swing > 0).sort((a, b) => sign * (b - a)).slice(0, tokens).reduce((sum, swing) => sum + swing, 0);
+        const openRange = sumBounds(openFloors);
+        return {
+            min: Math.floor(start + openRange.min - tokens * penalty + bestSwings(swing => swing.min, -1)),
+            max: Math.ceil(start + openRange.max + tokens * penalty + bestSwings(swing => swing.max, 1)),
+        };
+    };
+
+    const baseEffects = ongoingEffectScore(floors, rules);
+    const range = boundFrom(score, candidate => ({ min: candidate.down, max: candidate.up }), floor => {
+        // A reopened use stops adding its score and its ongoing effects, and stops receiving its neighbours'.
+        const released = releaseFloors(floors.map(f => (f.floorNumber === floor.floorNumber ? { ...f, status: FloorStatus.Reopened } : f)), floor.floorNumber);
+        return ongoingEffectScore(released, rules) - baseEffects - floorScoreImpact(floor);
+    }, rules.recallScorePenalty);
+    const axisRanges = Object.fromEntries(IMPACT_AXES.map(axis => [axis, boundFrom(
+        axes[axis],
+        candidate => ({ min: candidate.impacts[axis], max: candidate.impacts[axis] }),
+        floor => -bundleImpacts(floorCards(floor))[axis],
+        0,
+    )])) as Record<ImpactAxis, ScoreRange>;
+
+    const threshold = rules.balanceThreshold;
+    const axisBand = rules.axisBalanceThreshold;
+    const effectsOpen = effectsInPlay(layout, candidates, rules.maxStories);
+    const scoreReachable = effectsOpen || (range.min <= threshold && range.max >= -threshold);
+    const axisOut = axisBand === undefined ? undefined : IMPACT_AXES.find(axis => axisRanges[axis].min > axisBand || axisRanges[axis].max < -axisBand);
+    const balanceReachable = scoreReachable && axisOut === undefined;
+    const floorsLeft = `${open.length} floor${open.length === 1 ? '' : 's'} left`;
+    const tokensLeft = tokens > 0 ? ` and ${tokens} recall token${tokens === 1 ? '' : 's'}` : '';
+    if (balanceReachable) {
+        const effects = effectsOpen ? ', and card effects still in play can move it further' : '';
+        return { range, axisRanges, openFloors, recallTokens: tokens, balanceReachable, explanation: `With ${floorsLeft}${tokensLeft}, the final score can still end anywhere from ${range.min} to ${range.max}${effects}.` };
+    }
+
+    // The winner goes by the sign of the final score, as determineWinner decides it; card effects can still flip it while in play.
+    const winner = effectsOpen ? undefined : range.min > 0 ? 'community' : range.max <= 0 ? 'developer' : undefined;
+    const cause = !scoreReachable
+        ? `the final score can only end between ${range.min} and ${range.max}, outside ±${threshold}`
+        : `${AXIS_LABELS[axisOut!]} can only end between ${axisRanges[axisOut!].min} and ${axisRanges[axisOut!].max}, outside ±${axisBand}`;
+    const undecided = winner ? '' : ' The score can still end on either side, so the game plays on to decide who wins.';
+    return {
+        range,
+        axisRanges,
+        openFloors,
+        recallTokens: tokens,
+        balanceReachable,
+        winner,
+        explanation: `Balance is out of reach: with ${floorsLeft}${tokensLeft}, ${cause}.${undecided}`,
+    };
+}
@@ -0,0 +1,72 @@
+// src/engine/standings.ts
+// How each stakeholder is doing against its own objective (data/stakeholders.ts). The score displays show every
+// seated role's standing during the game; when it ends, gameWinners judges each role by its objective to say who won.
+
+import { FloorState, FloorStatus, PlayerRole, RuleSet } from '@/data/types';
+import { STOREFRONT_CATEGORIES, STOREFRONT_TARGET } from '@/data/stakeholders';
+import { floorCards } from './bundles';
+import { AxisTotals, isBalanced } from './axes';
+
+/** How the project came out: which side it favors, balanced, or never built because it failed the feasibility rule. */
+export type ProjectOutcome = 'developer' | 'community' | 'balanced' | 'infeasible';
+
+export interface RoleStanding {
+    role: PlayerRole;
+    value: number;                 // Higher is better for the role
+    met: boolean;                  // Whether the building, as it stands, meets the role's objective
+    detail: string;
+}
+
+const signed = (n: number) => `${n > 0 ? '+' : ''}${n}`;
+
+function storefronts(floors: readonly FloorState[]): number {
+    return floors
+        .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+        .flatMap(floor => floorCards(floor))
+        .filter(card => card.category !== undefined && STOREFRONT_CATEGORIES.includes(card.category))
+        .length;
+}
+
+export function roleStanding(role: PlayerRole, floors: readonly FloorState[], score: number, rules: RuleSet, axes: AxisTotals): RoleStanding {
+    switch (role) {
+        case PlayerRole.Community:
+            return { role, value: score, met: score > 0, detail: `${signed(score)} toward the community` };
+        case PlayerRole.Developer:
+            return { role, value: -score, met: score < 0, detail: `${signed(-score)} toward the developer` };
+        case PlayerRole.CityPlanner: {
+            // The balanced band covers the axes too, so an axis outside its own band keeps the objective unmet.
+            const margin = rules.balanceThreshold - Math.abs(score);
+            const met = isBalanced(score, axes, rules);
+            const detail = margin >= 0 ? `Within ±${rules.balanceThreshold} by ${margin}` : `${-margin} outside ±${rules.balanceThreshold}`;
+            return { role, value: margin, met, detail: margin >= 0 && !met ? `${detail}, but an axis is outside its band` : detail };
+        }
+        case PlayerRole.SmallBusiness: {
+            const count = storefronts(floors);
+            return { role, value: count, met: count >= STOREFRONT_TARGET, detail: `${count} of ${STOREFRONT_TARGET} storefronts` };
+        }
+    }
+}
+
+/** One standing per role, in the order given (usually seating order). */
+export function roleStandings(roles: readonly PlayerRole[], floors: readonly FloorState[], score: number, rules: RuleSet, axes: AxisTotals): RoleStanding[] {
+    return roles.map(role => roleStanding(role, floors, score, rules, axes));
+}
+
+/**
+ * Whether `role` wins a game that ended with `outcome`. The Community and the Developer win when the project
+ * favors their side and share a balanced one; the City Planner wins only a balanced project; the Small Business
+ * Owner wins on storefronts whichever way the balance went. An infeasible project is never built, so nobody wins.
+ */
+export function roleWins(role: PlayerRole, outcome: ProjectOutcome, floors: readonly FloorState[]): boolean {
+    if (outcome === 'infeasible') return false;
+    switch (role) {
+        case PlayerRole.Community: return outcome === 'community' || outcome === 'balanced';
+        case PlayerRole.Developer: return outcome === 'developer' || outcome === 'balanced';
+        case PlayerRole.CityPlanner: return outcome === 'balanced';
+        case PlayerRole.SmallBusiness: return storefronts(floors) >= STOREFRONT_TARGET;
+    }
+}
+
+/** The roles among `roles` that win a game that ended with `outcome`, in the order given. */
+export const gameWinners = (roles: readonly PlayerRole[], outcome: ProjectOutcome, floors: readonly FloorState[]): PlayerRole[] =>
+    roles.filter(role => roleWins(role, outcome, floors));
@@ -0,0 +1,59 @@
+// src/engine/synergy.ts
+// Finds which placement synergies from src/data/synergies.ts hold for the agreed floors.
+
+import { CardData, FloorState, FloorStatus, RuleSet } from '@/data/types';
+import { CardMatcher, SYNERGY_RULES, SynergyRule } from '@/data/synergies';
+import { cardsInUseOn, floorCards, topFloorOf } from './bundles';
+
+export interface SynergyMatch {
+    key: string;          // Stable identity of this rule/card pairing, for diffing before and after a change
+    rule: SynergyRule;
+    card: CardData;
+    floor: number;        // Base floor of the card the rule is about
+    neighbour?: CardData;
+    neighbourFloor?: number;
+}
+
+const matches = (card: CardData, matcher: CardMatcher) =>
+    (matcher.id === undefined || card.id === matcher.id) && (matcher.category === undefined || card.category === matcher.category);
+
+/** Floors whose uses count as neighbours of the use agreed on `floor` for a placement. */
+function neighbourFloors(floors: readonly FloorState[], floor: number, placement: SynergyRule['placement']): number[] {
+    const above = topFloorOf(floors, floor) + 1;
+    const below = floor - 1;
+    switch (placement) {
+        case 'above': return [above];
+        case 'below': return [below];
+        case 'adjacent': return [below, above];
+        default: return [];
+    }
+}
+
+function matchRule(rule: SynergyRule, floors: readonly FloorState[], floor: number, card: CardData, rules: RuleSet): SynergyMatch[] {
+    if (rule.placement === 'topFloor') {
+        return topFloorOf(floors, floor) === rules.maxStories ? [{ key: `${rule.id}:${card.instanceId}`, rule, card, floor }] : [];
+    }
+    if (rule.placement === 'groundFloor') {
+        return floor === 1 ? [{ key: `${rule.id}:${card.instanceId}`, rule, card, floor }] : [];
+    }
+    const neighbour = rule.neighbour;
+    if (!neighbour) return [];
+    return neighbourFloors(floors, floor, rule.placement).flatMap(neighbourFloor =>
+        cardsInUseOn(floors, neighbourFloor)
+            .filter(other => matches(other, neighbour))
+            .map(other => ({ key: `${rule.id}:${card.instanceId}>${other.instanceId}`, rule, card, floor, neighbour: other, neighbourFloor })));
+}
+
+/** Every synergy the agreed floors currently satisfy. Multi-floor uses are judged from their whole extent. */
+export function findSynergies(floors: readonly FloorState[], rules: RuleSet): SynergyMatch[] {
+    return floors
+        .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+        .flatMap(floor => floorCards(floor).flatMap(card =>
+            SYNERGY_RULES.filter(rule => matches(card, rule.card))
+                .flatMap(rule => matchRule(rule, floors, floor.floorNumber, card, rules))));
+}
+
+export const describeSynergy = (match: SynergyMatch): string =>
+    match.neighbour
+        ? `${match.rule.label}: ${match.card.name} (floor ${match.floor}) and ${match.neighbour.name} (floor ${match.neighbourFloor})`
+        : `${match.rule.label}: ${match.card.name} on floor ${match.floor}`;
@@ -0,0 +1,32 @@
+// src/engine/timeout.ts
+// What a turn that runs out of time turns into. The engine resolves the TIMEOUT action with this; in games on
+// this device the stores then apply the outcome the engine reached (see orchestration/liveGame).
+
+import { TimeoutPolicy } from '@/data/types';
+import { TIMEOUT_POLICY } from '@/data/constants';
+
+export const TIMEOUT_POLICIES: Readonly<Record<TimeoutPolicy, { label: string; description: string }>> = {
+    autoPass: { label: 'Auto-pass', description: 'A player who runs out of time passes.' },
+    autoAccept: { label: 'Auto-accept', description: 'A player who runs out of time accepts the proposal in front of them.' },
+    forfeitRecall: { label: 'Forfeit a recall', description: 'A player who runs out of time loses a recall token and passes.' },
+};
+
+export interface TimeoutResolution {
+    policy: TimeoutPolicy;         // The policy applied (the default when the rules name none)
+    resolution: 'pass' | 'accept';
+    forfeitRecall: boolean;        // Take one of the player's recall tokens before the pass
+}
+
+/** How a timed-out turn resolves under `policy`, given whether the player could accept and how many recall tokens they hold. */
+export function resolveTimeout(policy: TimeoutPolicy | undefined, canAccept: boolean, recallTokens: number): TimeoutResolution {
+    const applied = policy ?? TIMEOUT_POLICY;
+    switch (applied) {
+        case 'autoAccept':
+            return { policy: applied, resolution: canAccept ? 'accept' : 'pass', forfeitRecall: false };
+        case 'forfeitRecall':
+            return { policy: applied, resolution: 'pass', forfeitRecall: recallTokens > 0 };
+        case 'autoPass':
+        default:
+            return { policy: applied, resolution: 'pass', forfeitRecall: false };
+    }
+}
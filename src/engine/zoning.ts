@@ -0,0 +1,39 @@
+// src/engine/zoning.ts
+// Checks a finished building against a scenario's zoning requirements. Requirements are reported, not
+// enforced: the balance still decides the winner, and the game-over screen says which ones were met.
+
+import { FloorState, FloorStatus } from '@/data/types';
+import { ZoningRequirement } from '@/data/scenarios';
+import { bundleUnits, cardsInUseOn, floorCards } from './bundles';
+
+export interface ZoningResult {
+    requirement: ZoningRequirement;
+    met: boolean;
+    detail: string;
+}
+
+function checkRequirement(floors: readonly FloorState[], requirement: ZoningRequirement): ZoningResult {
+    switch (requirement.kind) {
+        case 'groundFloorUse': {
+            const ground = cardsInUseOn(floors, 1);
+            const match = ground.find(card => card.category?.toLowerCase() === requirement.category.toLowerCase());
+            const detail = match
+                ? `Floor 1: ${match.name}`
+                : ground.length > 0 ? `Floor 1: ${ground.map(card => card.name).join(' + ')}` : 'Floor 1 was not built';
+            return { requirement, met: match !== undefined, detail };
+        }
+        case 'minimumUnits': {
+            const ids = new Set(requirement.cardIds);
+            const units = bundleUnits(floors
+                .filter(floor => floor.status === FloorStatus.Agreed && floor.spanOf === undefined)
+                .flatMap(floor => floorCards(floor))
+                .filter(card => ids.has(card.id)));
+            return { requirement, met: units >= requirement.units, detail: `${units} of ${requirement.units} units` };
+        }
+    }
+}
+
+/** One result per requirement, in the order the scenario lists them. */
+export function checkZoning(floors: readonly FloorState[], requirements: readonly ZoningRequirement[]): ZoningResult[] {
+    return requirements.map(requirement => checkRequirement(floors, requirement));
+}
@@ -6,12 +6,12 @@ import {
 } from '../stores/useGameFlowStore';
 import { useAIStore } from '../stores/useAIStore';
 import { usePlayersStore } from '../stores/usePlayersStore';
-import { PROPOSAL_TIMER_MS } from '../data/constants';
+import { gameEvents } from '../utils/eventBus';
 
 /**
  * Hook that manages game side effects, including:
  * - AI turn processing
- * - Proposal timer countdown
+ * - The proposal timer countdown, as reported on 'turn:timer' by the orchestrator that keeps the clock
  * - Game phase transitions
  */
 export function useGameEffects() {
@@ -19,18 +19,13 @@ export function useGameEffects() {
   const gamePhase = useGameFlowStore(state => state.gamePhase);
   const isAiTurn = useGameFlowStore(state => state.isAiTurn);
   const aiPlayTurn = useAIStore(state => state.aiPlayTurn);
-  const negotiationStartTime = useGameFlowStore(state => state.negotiationStartTime);
+  const proposalTimerMs = useGameFlowStore(state => state.rules.proposalTimerMs);
   const cardsBeingDealt = usePlayersStore(state => state.cardsBeingDealt);
   
-  // Local state for timer management
-  const [timer, setTimer] = useState<number>(PROPOSAL_TIMER_MS);
+  // Seconds left on the turn, as the orchestrator's clock last reported them
+  const [timer, setTimer] = useState<number>(Math.ceil(proposalTimerMs / 1000));
   
-  // Initialize timer when game starts
-  useEffect(() => {
-    if (gamePhase === GamePhase.Playing && !cardsBeingDealt) {
-      setTimer(PROPOSAL_TIMER_MS);
-    }
-  }, [gamePhase, cardsBeingDealt]);
+  useEffect(() => gameEvents.on('turn:timer', ({ remainingTime }) => setTimer(Math.ceil(remainingTime / 1000))), []);
   
   // AI turn effect
   useEffect(() => {
@@ -51,52 +46,9 @@ export function useGameEffects() {
     };
   }, [isAiTurn, gamePhase, aiPlayTurn, cardsBeingDealt]);
   
-  // Proposal timer effect
-  useEffect(() => {
-    let timerInterval: number | undefined;
-    
-    // Only start timer if:
-    // 1. Game is in playing phase
-    // 2. It's not AI's turn (or use negotiationStartTime to sync with game state)
-    // 3. Initial card dealing is complete
-    if (gamePhase === GamePhase.Playing && !isAiTurn && !cardsBeingDealt) {
-      // Reset timer when negotiation starts
-      if (negotiationStartTime) {
-        setTimer(PROPOSAL_TIMER_MS);
-      }
-      
-      // Start countdown
-      timerInterval = window.setInterval(() => {
-        setTimer(prevTimer => {
-          if (prevTimer <= 0) {
-            // Time's up - could trigger auto-pass or other action
-            window.clearInterval(timerInterval);
-            return 0;
-          }
-          return prevTimer - 1;
-        });
-      }, 1000);
-    }
-    
-    // Cleanup
-    return () => {
-      if (timerInterval) {
-        window.clearInterval(timerInterval);
-      }
-    };
-  }, [gamePhase, isAiTurn, negotiationStartTime, cardsBeingDealt]);
-  
-  // Reset timer when turn changes
-  useEffect(() => {
-    if (negotiationStartTime && gamePhase === GamePhase.Playing) {
-      setTimer(PROPOSAL_TIMER_MS);
-    }
-  }, [negotiationStartTime, gamePhase]);
-  
   // Return values and functions that might be useful to components
   return {
     timer,
-    resetTimer: () => setTimer(PROPOSAL_TIMER_MS),
     isTimerActive: timer > 0
   };
 }
\ No newline at end of file
@@ -7,7 +7,8 @@
 import { useEffect } from 'react';
 import { gameOrchestrator }          from '@/orchestration/GameOrchestrator';
 import { GameAction }                from '@/engine/GameEngine';
-import { PlayerRole }                from '@/data/types';
+import { DraftPicks }                from '@/engine/draft';
+import { DeckMode, PlayerRole, PlayerType, RuleSet } from '@/data/types';
 import { logDebug }                  from '@/utils/logger';
 
 export function useGameOrchestrator() {
@@ -43,14 +44,15 @@ export function useGameOrchestrator() {
   /* ------------------------------------------------------------------ */
   /*  convenience wrappers (typed‑safe)                                  */
   /* ------------------------------------------------------------------ */
-  const startGame = (humanRole: PlayerRole) => {
+  /* opponent: PlayerType.Human seats two people (hot seat) instead of the AI */
+  const startGame = (humanRole: PlayerRole, seed?: number, rules?: RuleSet, deckMode?: DeckMode, draft?: DraftPicks, scenario?: string, opponent?: PlayerType) => {
     /* supply both roles up‑front so the literal satisfies GameAction   */
     const aiRole =
       humanRole === PlayerRole.Developer
         ? PlayerRole.Community
         : PlayerRole.Developer;
 
-    dispatch({ type: 'START_GAME', humanRole, aiRole });
+    dispatch({ type: 'START_GAME', humanRole, aiRole, seed, rules, deckMode, draft, scenario, opponent });
   };
 
   const resetGame        = ()                             =>
@@ -60,12 +62,14 @@ export function useGameOrchestrator() {
     dispatch({ type: 'DRAW_CARD', playerId });
 
   const proposeCard      = (playerId: string,
-                            instanceId: string)           =>
-    dispatch({ type: 'PROPOSE_CARD', playerId, instanceId });
+                            instanceId: string,
+                            extraInstanceIds?: string[])  =>
+    dispatch({ type: 'PROPOSE_CARD', playerId, instanceId, extraInstanceIds });
 
   const counterPropose   = (playerId: string,
-                            instanceId: string)           =>
-    dispatch({ type: 'COUNTER_PROPOSE', playerId, instanceId });
+                            instanceId: string,
+                            extraInstanceIds?: string[])  =>
+    dispatch({ type: 'COUNTER_PROPOSE', playerId, instanceId, extraInstanceIds });
 
   const acceptProposal   = (playerId: string)             =>
     dispatch({ type: 'ACCEPT_PROPOSAL', playerId });
@@ -13,6 +13,9 @@ export function useGameStateMachine() {
     // wire up all bus events to state-machine sends
     const unsubs = [
       gameEvents.on('game:started'   , () => send({ type: 'START_GAME' })),
+      gameEvents.on('draft:started'  , () => send({ type: 'START_DRAFT' })),
+      gameEvents.on('draft:picked'   , () => send({ type: 'DRAFT_PICK' })),
+      gameEvents.on('draft:completed', () => send({ type: 'DRAFT_COMPLETE' })),
       gameEvents.on('proposal:made'  , () => send({ type: 'PROPOSE' })),
       gameEvents.on('proposal:countered', () => send({ type: 'COUNTER' })),
       gameEvents.on('proposal:accepted' , () => send({ type: 'ACCEPT' })),
@@ -22,7 +25,7 @@ export function useGameStateMachine() {
         send({ type: isGameOver ? 'GAME_OVER' : 'NEXT_FLOOR' });
       }),
       gameEvents.on('floor:recalled' , () => send({ type: 'RECALL' })),
-      gameEvents.on('game:ended'     , () => send({ type: 'GAME_OVER' })),
+      gameEvents.on('game:ended'     , data => send({ type: data.endedEarly ? 'IMPOSSIBLE_BALANCE' : 'GAME_OVER' })),
       gameEvents.on('error:game'     , () => send({ type: 'ERROR' })),
     ];
 
@@ -5,7 +5,8 @@ import { useMemo } from 'react';
 import { CardData } from '@/data/types'; // CardData is CardInstance
 import { usePlayersStore } from '@/stores/usePlayersStore';
 import { logDebug } from '@/utils/logger';
-import { BALANCE_THRESHOLD } from '@/data/constants';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { useFloorStore } from '@/stores/useFloorStore';
 
 /**
  * Custom hook for memoized card analysis.
@@ -13,35 +14,29 @@ import { BALANCE_THRESHOLD } from '@/data/constants';
  */
 export function useRemainingCardAnalysis() {
   const getRemainingCards = usePlayersStore(state => state.getRemainingCards);
-  // deckVersion is removed from usePlayersStore as deckCardDefinitions is static.
-  // Re-memoization will depend on changes to currentScore or the output of getRemainingCards if its dependencies change.
-  const currentScore = usePlayersStore(state => state.currentScore); // Assuming this is the relevant score
+  const players = usePlayersStore(state => state.players);
+  const floors = useFloorStore(state => state.floors);
+  const analyzeReachability = useGameFlowStore(state => state.analyzeRemainingCards);
 
   return useMemo(() => {
     const startTime = performance.now();
     
     const remainingCards = getRemainingCards(); // Call inside useMemo to get fresh data when dependencies change
     const analysis = analyzeRemainingCards(remainingCards);
-    
-    const bestPossibleFinalScore = currentScore + analysis.maxPositiveImpact;
-    const worstPossibleFinalScore = currentScore + analysis.maxNegativeImpact;
-    
-    const isBalanceImpossible = (
-      worstPossibleFinalScore > BALANCE_THRESHOLD || 
-      bestPossibleFinalScore < -BALANCE_THRESHOLD
-    );
+    // The final score range comes from the reachability analysis, which also counts open floors, draws and recalls.
+    const reachability = analyzeReachability();
     
     const endTime = performance.now();
     logDebug(`Card analysis took ${(endTime - startTime).toFixed(2)}ms (memoized)`, 'Performance');
     
     return {
       ...analysis,
-      bestPossibleFinalScore,
-      worstPossibleFinalScore,
-      isBalanceImpossible,
-      balanceRange: [worstPossibleFinalScore, bestPossibleFinalScore]
+      bestPossibleFinalScore: reachability.range.max,
+      worstPossibleFinalScore: reachability.range.min,
+      isBalanceImpossible: !reachability.balanceReachable,
+      balanceRange: [reachability.range.min, reachability.range.max]
     };
-  }, [getRemainingCards, currentScore]); // Dependencies: getRemainingCards function ref, currentScore
+  }, [getRemainingCards, analyzeReachability, players, floors]); // Hands and floors are what the analysis reads
 }
 
 /**
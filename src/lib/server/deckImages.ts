@@ -0,0 +1,16 @@
+// src/lib/server/deckImages.ts
+'use server';
+
+import { getValidatedImagePath } from "./imageValidation";
+
+/**
+ * [SERVER ACTION] Returns the paths among `imagePaths` that have no file under /public, so the
+ * deck editor in the browser can warn about them.
+ *
+ * @param imagePaths Image paths relative to /public, e.g. /cards/library.png
+ * @returns A promise resolving to the paths that fall back to the default card image.
+ */
+export const findMissingImagePaths = async (imagePaths: string[]): Promise<string[]> => {
+  const validated = await Promise.all(imagePaths.map(imagePath => getValidatedImagePath(imagePath)));
+  return imagePaths.filter((imagePath, index) => validated[index] !== imagePath);
+};
@@ -0,0 +1,257 @@
+// src/lib/server/lobbies.ts
+// [SERVER-SIDE ONLY] The head-to-head relay: open lobbies, their seats and the authoritative engine state
+// of each game. Route handlers under src/app/api/lobbies are thin wrappers around these functions.
+// Lobbies live in memory, so they last as long as the server process (fine for a workshop on one machine).
+// The relay also keeps each game's turn clock: clients cannot be trusted to time out their own turns.
+
+import { randomInt, randomUUID } from 'crypto';
+import { GameEvent, GamePhase, GameState, PlayerRole, PlayerType } from '@/data/types';
+import { GameAction, GameEngine } from '@/engine/GameEngine';
+import { withActiveDeck } from '@/data/deckData';
+import { validateDeck } from '@/data/decks';
+import { validateRuleSet } from '@/data/rules';
+import { SCENARIOS, scenarioDeck, scenarioRules } from '@/data/scenarios';
+import { EXTRA_ROLES, roleLabel } from '@/data/stakeholders';
+import { hasPrivatePiles } from '@/engine/deck';
+import {
+    LOBBY_CODE_ALPHABET, LOBBY_CODE_LENGTH, LobbySettings, SeatCredentials, SeatPresence, SeatResult, ServerMessage,
+} from '@/multiplayer/protocol';
+import { redactEventsFor, redactStateFor } from '@/multiplayer/visibility';
+import { generateSeed } from '@/utils/random';
+import { ValidationResult, validationFailed, validationPassed } from '@/utils/validation';
+import { logDebug, logWarn } from '@/utils/logger';
+
+/** Lobbies nobody has touched for this long are closed. */
+const LOBBY_IDLE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+type Listener = (message: ServerMessage) => void;
+
+interface Seat extends SeatCredentials {
+    connections: number;          // Open event streams; a seat may have several tabs open
+}
+
+interface Lobby {
+    code: string;
+    settings: LobbySettings;
+    seats: Seat[];                // Host first; each guest's seat is added when they join
+    state: GameState | null;      // Null until every seat is taken and the game starts
+    seq: number;                  // Number of accepted actions, so clients can tell updates apart
+    listeners: Map<Listener, string>; // Each open stream and the player it belongs to
+    lastActivity: number;
+    turnTimer: ReturnType<typeof setTimeout> | null; // Runs out the proposal timer of the turn being played
+}
+
+// Kept on globalThis: in development each route handler is bundled separately and would otherwise get its own registry.
+const globalLobbies = globalThis as typeof globalThis & { urbanBalanceLobbies?: Map<string, Lobby> };
+const lobbies = (globalLobbies.urbanBalanceLobbies ??= new Map<string, Lobby>());
+const engine = new GameEngine();
+
+const otherRole = (role: PlayerRole) => (role === PlayerRole.Developer ? PlayerRole.Community : PlayerRole.Developer);
+
+/** Every role at the table, in the order the seats are taken. */
+const seatRoles = (settings: LobbySettings): PlayerRole[] => [settings.hostRole, otherRole(settings.hostRole), ...(settings.extraRoles ?? [])];
+
+/** Runs the engine with the lobby's deck active; decks are module state, and lobbies may use different ones. */
+const runEngine = (lobby: Lobby, state: GameState, action: GameAction) =>
+    withActiveDeck(scenarioDeck(lobby.settings.scenario, lobby.settings.deck), () => engine.handleAction(state, action));
+
+function closeIdleLobbies(now: number): void {
+    lobbies.forEach((lobby, code) => {
+        if (lobby.listeners.size === 0 && now - lobby.lastActivity > LOBBY_IDLE_TIMEOUT_MS) {
+            stopTurnTimer(lobby);
+            lobbies.delete(code);
+            logDebug(`Closed idle lobby ${code}.`, undefined, 'Lobby');
+        }
+    });
+}
+
+function newLobbyCode(): string {
+    for (;;) {
+        const code = Array.from({ length: LOBBY_CODE_LENGTH }, () => LOBBY_CODE_ALPHABET[randomInt(LOBBY_CODE_ALPHABET.length)]).join('');
+        if (!lobbies.has(code)) return code;
+    }
+}
+
+const presenceOf = (lobby: Lobby): SeatPresence[] => seatRoles(lobby.settings).map(role => {
+    const seat = lobby.seats.find(s => s.role === role);
+    return { role, joined: seat !== undefined, connected: (seat?.connections ?? 0) > 0 };
+});
+
+const snapshotFor = (lobby: Lobby, playerId: string): ServerMessage =>
+    ({ type: 'snapshot', seq: lobby.seq, state: lobby.state && redactStateFor(lobby.state, playerId), seats: presenceOf(lobby), settings: lobby.settings });
+
+function broadcast(lobby: Lobby, messageFor: (playerId: string) => ServerMessage): void {
+    lobby.listeners.forEach((playerId, listener) => listener(messageFor(playerId)));
+}
+
+function broadcastEvents(lobby: Lobby, events: GameEvent[]): void {
+    const state = lobby.state!;
+    broadcast(lobby, playerId => ({ type: 'events', seq: lobby.seq, events: redactEventsFor(events, playerId), state: redactStateFor(state, playerId) }));
+}
+
+function stopTurnTimer(lobby: Lobby): void {
+    if (lobby.turnTimer) clearTimeout(lobby.turnTimer);
+    lobby.turnTimer = null;
+}
+
+/**
+ * Gives the player to move a full proposal timer whenever a turn starts, as the orchestrator does for local
+ * games, and stops it once the game is over. When it runs out the relay dispatches TIMEOUT for that player.
+ */
+function updateTurnTimer(lobby: Lobby, events: GameEvent[]): void {
+    const state = lobby.state;
+    if (!state || state.phase !== GamePhase.Playing) {
+        stopTurnTimer(lobby);
+        return;
+    }
+    if (!events.some(event => event.type === 'TURN_STARTED')) return;
+    stopTurnTimer(lobby);
+    const playerId = state.players?.[state.currentPlayerIndex]?.id;
+    if (!playerId) return;
+    const timer = setTimeout(() => timeOutTurn(lobby, playerId), lobby.settings.rules.proposalTimerMs);
+    timer.unref?.(); // A pending turn should not keep the server process alive
+    lobby.turnTimer = timer;
+}
+
+/** Runs the engine on `action`, keeps the result if it was accepted and streams it to every seat. Returns the rejection, if any. */
+function applyAction(lobby: Lobby, action: GameAction): Extract<GameEvent, { type: 'ERROR' }> | undefined {
+    const { newState, events } = runEngine(lobby, lobby.state!, action);
+    const error = events.find((event): event is Extract<GameEvent, { type: 'ERROR' }> => event.type === 'ERROR');
+    if (error) return error;
+    lobby.state = newState;
+    lobby.seq++;
+    updateTurnTimer(lobby, events);
+    broadcastEvents(lobby, events);
+    return undefined;
+}
+
+/** The proposal timer ran out on `playerId`'s turn. Not activity: an abandoned game still closes once idle. */
+function timeOutTurn(lobby: Lobby, playerId: string): void {
+    lobby.turnTimer = null;
+    if (lobbies.get(lobby.code) !== lobby || !lobby.state) return;
+    logDebug(`Lobby ${lobby.code}: ${playerId} ran out of time.`, undefined, 'Lobby');
+    const error = applyAction(lobby, { type: 'TIMEOUT', playerId });
+    if (error) logWarn(`Lobby ${lobby.code}: timeout for ${playerId} rejected: ${error.message}`, undefined, 'Lobby');
+}
+
+function validateSettings(settings: LobbySettings): ValidationResult {
+    if (settings.hostRole !== PlayerRole.Developer && settings.hostRole !== PlayerRole.Community) return validationFailed('Choose Developer or Community.');
+    const extraRoles = settings.extraRoles ?? [];
+    if (!Array.isArray(extraRoles) || extraRoles.some(role => !EXTRA_ROLES.includes(role)) || new Set(extraRoles).size !== extraRoles.length) {
+        return validationFailed(`Extra stakeholders must be different roles out of ${EXTRA_ROLES.map(roleLabel).join(' and ')}.`);
+    }
+    const rulesCheck = validateRuleSet(settings.rules);
+    if (!rulesCheck.isValid) return rulesCheck;
+    if (settings.deckMode !== 'openDraft' && settings.deckMode !== 'drawPile') {
+        return validationFailed(hasPrivatePiles(settings.deckMode) ? 'Drafted decks are not available head-to-head yet.' : `Unknown deck mode '${settings.deckMode}'.`);
+    }
+    if (!SCENARIOS[settings.scenario]) return validationFailed(`Unknown scenario '${settings.scenario}'.`);
+    return settings.deck ? validateDeck(settings.deck) : validationPassed();
+}
+
+function findSeat(code: string, token: string): ValidationResult & { lobby?: Lobby; seat?: Seat } {
+    const lobby = lobbies.get(code.toUpperCase());
+    if (!lobby) return validationFailed(`There is no lobby ${code}; it may have closed.`);
+    const seat = lobby.seats.find(s => s.token === token);
+    if (!seat) return validationFailed(`That seat in lobby ${lobby.code} isn't yours.`);
+    return { ...validationPassed(), lobby, seat };
+}
+
+/** Opens a lobby for `settings` and seats its host. The scenario's rules apply whatever rules the host sent. */
+export function createLobby(requested: LobbySettings): SeatResult {
+    const check = validateSettings(requested);
+    if (!check.isValid) return check;
+    const settings = { ...requested, rules: scenarioRules(requested.scenario, requested.rules) };
+    const now = Date.now();
+    closeIdleLobbies(now);
+
+    const code = newLobbyCode();
+    const host: Seat = { code, token: randomUUID(), playerId: settings.hostRole, role: settings.hostRole, connections: 0 };
+    lobbies.set(code, { code, settings, seats: [host], state: null, seq: 0, listeners: new Map(), lastActivity: now, turnTimer: null });
+    logDebug(`Opened lobby ${code} (host plays ${settings.hostRole}, ${seatRoles(settings).length} seats).`, undefined, 'Lobby');
+    const { connections, ...seat } = host;
+    return { ...validationPassed(), seat };
+}
+
+/** Seats a guest in lobby `code` in the next free role; the guest who takes the last seat starts the game. */
+export function joinLobby(code: string): SeatResult {
+    const lobby = lobbies.get(code.toUpperCase());
+    if (!lobby) return validationFailed(`There is no lobby ${code}; check the code with the host.`);
+    const { settings } = lobby;
+    const roles = seatRoles(settings);
+    if (lobby.seats.length >= roles.length) return validationFailed(`Lobby ${lobby.code} already has ${roles.length} players.`);
+
+    const role = roles[lobby.seats.length];
+    const guest: Seat = { code: lobby.code, token: randomUUID(), playerId: role, role, connections: 0 };
+    const { connections, ...seat } = guest;
+    if (lobby.seats.length + 1 < roles.length) {
+        lobby.seats.push(guest);
+        lobby.lastActivity = Date.now();
+        logDebug(`Lobby ${lobby.code}: ${role} joined; waiting for ${roles.length - lobby.seats.length} more.`, undefined, 'Lobby');
+        broadcast(lobby, () => ({ type: 'presence', seats: presenceOf(lobby) }));
+        return { ...validationPassed(), seat };
+    }
+
+    const { newState, events } = runEngine(lobby, engine.createInitialState(), {
+        type: 'START_GAME', humanRole: settings.hostRole, aiRole: otherRole(settings.hostRole), opponent: PlayerType.Human,
+        extraRoles: settings.extraRoles, seed: generateSeed(), rules: settings.rules, deckMode: settings.deckMode, scenario: settings.scenario,
+    });
+    const error = events.find(event => event.type === 'ERROR');
+    if (error) return validationFailed(`The game could not start: ${error.message}`);
+
+    lobby.seats.push(guest);
+    lobby.state = newState;
+    lobby.seq++;
+    lobby.lastActivity = Date.now();
+    logDebug(`Lobby ${lobby.code} is full; game started.`, undefined, 'Lobby');
+    broadcast(lobby, () => ({ type: 'presence', seats: presenceOf(lobby) }));
+    updateTurnTimer(lobby, events);
+    broadcastEvents(lobby, events);
+    return { ...validationPassed(), seat };
+}
+
+/**
+ * Streams lobby messages to the seat holding `token`, starting with a snapshot of where the game is,
+ * so a reconnecting client catches up in one message. Returns the function that closes the stream.
+ */
+export function subscribe(code: string, token: string, listener: Listener): ValidationResult & { unsubscribe?: () => void } {
+    const found = findSeat(code, token);
+    if (!found.isValid || !found.lobby || !found.seat) return found;
+    const { lobby, seat } = found;
+
+    lobby.listeners.set(listener, seat.playerId);
+    seat.connections++;
+    lobby.lastActivity = Date.now();
+    listener(snapshotFor(lobby, seat.playerId));
+    broadcast(lobby, () => ({ type: 'presence', seats: presenceOf(lobby) }));
+
+    const unsubscribe = () => {
+        if (!lobby.listeners.delete(listener)) return;
+        seat.connections--;
+        lobby.lastActivity = Date.now();
+        broadcast(lobby, () => ({ type: 'presence', seats: presenceOf(lobby) }));
+    };
+    return { ...validationPassed(), unsubscribe };
+}
+
+/** Applies `action` for the seat holding `token`. Rejected actions change nothing and are only reported to the sender. */
+export function submitAction(code: string, token: string, action: GameAction): ValidationResult {
+    const found = findSeat(code, token);
+    if (!found.isValid || !found.lobby || !found.seat) return found;
+    const { lobby, seat } = found;
+
+    if (!lobby.state) return validationFailed('The game starts when every seat is taken.');
+    if (!action || typeof action !== 'object') return validationFailed('Missing action.');
+    if (action.type === 'START_GAME' || action.type === 'RESET_GAME') return validationFailed(`${action.type} is not allowed head-to-head.`);
+    if (action.type === 'TIMEOUT') return validationFailed('The relay keeps the turn clock; turns time out on their own.');
+    if (action.playerId !== seat.playerId) return validationFailed('You can only act for your own seat.');
+    if (action.type === 'DRAW_CARD' && lobby.settings.deckMode === 'openDraft' && !action.cardId) return validationFailed('Choose a card to draw.');
+
+    const error = applyAction(lobby, action);
+    if (error) {
+        logWarn(`Lobby ${lobby.code}: ${seat.role} ${action.type} rejected: ${error.message}`, undefined, 'Lobby');
+        return validationFailed(error.message);
+    }
+    lobby.lastActivity = Date.now();
+    return validationPassed();
+}
@@ -0,0 +1,60 @@
+// src/multiplayer/protocol.ts
+// Head-to-head games between two to four people: the authoritative GameEngine runs in the relay behind
+// /api/lobbies, clients POST GameActions and receive GameEvents over a server-sent event stream.
+//
+//   POST /api/lobbies                  LobbySettings           → SeatCredentials (the host's seat)
+//   POST /api/lobbies/<code>           –                       → SeatCredentials (a guest's seat; the last one starts the game)
+//   GET  /api/lobbies/<code>/events    ?token=…                → text/event-stream of ServerMessage
+//   POST /api/lobbies/<code>/actions   { token, action }       → ValidationResult
+//
+// A seat's token is its only credential: reconnecting with it resumes the seat, and nobody else can act for it.
+
+import { DeckFile, DeckMode, GameEvent, GameState, PlayerRole, RuleSet } from '@/data/types';
+import { GameAction } from '@/engine/GameEngine';
+import { ValidationResult } from '@/utils/validation';
+
+/** Letters and digits that can't be misread when a code is read out across a room. */
+export const LOBBY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const LOBBY_CODE_LENGTH = 5;
+
+/** What the host chooses; the first guest plays the other core role and any further guests the extra roles, under the same settings. */
+export interface LobbySettings {
+    hostRole: PlayerRole;         // Community or Developer
+    extraRoles?: PlayerRole[];    // Stakeholders for a game of three or four (see data/stakeholders.ts); absent for two players
+    rules: RuleSet;
+    deckMode: DeckMode;           // Drafted decks are not offered head-to-head
+    scenario: string;
+    deck: DeckFile | null;        // null deals from the built-in deck
+}
+
+export interface SeatCredentials {
+    code: string;
+    token: string;
+    playerId: string;             // The seat's player id in the engine state (its role)
+    role: PlayerRole;
+}
+
+export interface SeatPresence {
+    role: PlayerRole;
+    joined: boolean;
+    connected: boolean;
+}
+
+/**
+ * Sent to one seat. States and events are already redacted for it: the opponent's hand and every
+ * draw pile are face down, and the seed is withheld.
+ */
+export type ServerMessage =
+    | { type: 'snapshot'; seq: number; state: GameState | null; seats: SeatPresence[]; settings: LobbySettings }
+    | { type: 'events'; seq: number; events: GameEvent[]; state: GameState }
+    | { type: 'presence'; seats: SeatPresence[] };
+
+export interface ActionRequest {
+    token: string;
+    action: GameAction;
+}
+
+export type SeatResult = ValidationResult & { seat?: SeatCredentials };
+
+/** Where a seat keeps its credentials in the tab, so a reload resumes it. sessionStorage is per tab. */
+export const SEAT_STORAGE_KEY = 'urbanbalance-seat';
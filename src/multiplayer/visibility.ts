@@ -0,0 +1,34 @@
+// src/multiplayer/visibility.ts
+// What each seat of a head-to-head game may see. The relay keeps the full engine state and sends every
+// client a copy with the opponent's hand and all draw piles turned face down and the seed removed (it
+// would reveal every future draw). Cards on the table and discards stay public.
+
+import { CardInstance, GameEvent, GameState } from '@/data/types';
+
+export const HIDDEN_CARD_ID = 'hidden';
+
+export const isHiddenCard = (card: CardInstance): boolean => card.id === HIDDEN_CARD_ID;
+
+const faceDown = (cards: readonly CardInstance[] | undefined, prefix: string): CardInstance[] | undefined =>
+    cards?.map((card, index) => ({ id: HIDDEN_CARD_ID, name: 'Hidden card', instanceId: `${prefix}-${index}`, ownerId: card.ownerId, stack: card.stack }));
+
+/** A copy of `state` as the player `viewerId` may see it. */
+export function redactStateFor(state: GameState, viewerId: string): GameState {
+    return {
+        ...state,
+        seed: undefined,
+        players: state.players?.map(player => ({
+            ...player,
+            hand: player.id === viewerId ? player.hand : faceDown(player.hand, `hidden-${player.id}`)!,
+            drawPile: faceDown(player.drawPile, `pile-${player.id}`),
+        })),
+        deck: faceDown(state.deck, 'pile'),
+    };
+}
+
+/** `events` as the player `viewerId` may see them: the opponent's draws are face down. */
+export function redactEventsFor(events: readonly GameEvent[], viewerId: string): GameEvent[] {
+    return events.map(event => event.type === 'CARD_DRAWN' && event.playerId !== viewerId
+        ? { ...event, card: faceDown([event.card], `drawn-${event.playerId}`)![0] }
+        : event);
+}
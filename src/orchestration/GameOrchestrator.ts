@@ -16,11 +16,29 @@ import {
     GamePhase,
     Committer // Import Committer for fallbacks
 } from '@/data/types';
-import { AI_TURN_DELAY_MS, PROPOSAL_TIMER_MS, RECALL_SCORE_PENALTY } from '@/data/constants'; // Bucket 7 Fix: Import RECALL_SCORE_PENALTY if check is needed
+import { AI_TURN_DELAY_MS } from '@/data/constants';
+import { rulesOf } from '@/data/rules';
+import { createSeededRandom, generateSeed, RandomSource } from '@/utils/random';
+import { ReplayRecorder } from '@/replay/ReplayRecorder';
+import { ReplayFile } from '@/replay/replay';
 
 // Import store hook directly if needed (e.g., for accessing state outside of orchestrator's copy)
 // import { useGameStore } from '@/stores/useGameStore';
 
+/**
+ * The AI's random stream for a game seed. Kept apart from the engine's stream (which shuffles and deals from
+ * the seed itself) so the AI's choices don't replay the deal's draws in the same order.
+ */
+const aiRandom = (seed: number): RandomSource => createSeededRandom((seed ^ 0x9e3779b9) >>> 0);
+
+export interface OrchestratorOptions {
+    // Schedule moves for AI seats. Off when something else (the single-device stores) plays the AI and the
+    // orchestrator only follows the game.
+    aiTurns?: boolean;
+    // The recording of the game so far, when the orchestrator takes over a game already under way (initialState).
+    replay?: ReplayFile;
+}
+
 /**
  * Responsible for coordinating game flow, handling timers,
  * and dispatching actions to the pure game engine.
@@ -31,24 +49,32 @@ export class GameOrchestrator {
     private timeouts: Map<string, number> = new Map();
     private timerIntervals: Map<string, number> = new Map();
     private clock: () => number;
+    private turnDeadline: number | null = null; // clock() time the current turn runs out, while the proposal timer runs
+    private rng: RandomSource; // The AI's stream, re-derived from state.seed on every START_GAME
+    private recorder = new ReplayRecorder();
+    private aiTurns: boolean;
 
     constructor(
         engine: GameEngine = new GameEngine(),
         initialState?: GameState,
-        clock: () => number = Date.now
+        clock: () => number = Date.now,
+        options: OrchestratorOptions = {}
     ) {
         this.engine = engine;
         this.clock = clock;
+        this.aiTurns = options.aiTurns ?? true;
+        if (options.replay) this.recorder.resume(options.replay);
         // Initialize with default state from engine if none provided
         this.state = initialState || this.engine.createInitialState();
+        this.rng = aiRandom(this.state.seed ?? generateSeed());
         // Ensure phase is initialized correctly if overriding
         // this.state.phase = GamePhase.Title;
     }
 
     /**
-     * Dispatch an action to the game engine
+     * Dispatch an action to the game engine. Returns the events it produced (an ERROR event when it was rejected).
      */
-    dispatch(action: GameAction): void {
+    dispatch(action: GameAction): GameEvent[] {
         // Bucket 10/7 Fix: Ensure aiRole is provided for START_GAME if required by GameAction type
         if (action.type === 'START_GAME' && !('aiRole' in action)) {
              logError('START_GAME action dispatched without required aiRole property.', { action }, 'OrchestratorDispatch');
@@ -57,6 +83,12 @@ export class GameOrchestrator {
              // return; // Or handle error appropriately
         }
 
+        // Resolve the seed up front so the recorded START_GAME reproduces this exact game
+        if (action.type === 'START_GAME' && action.seed === undefined) {
+            action = { ...action, seed: generateSeed() };
+        }
+        this.recorder.record(action);
+
         // Use imported logDebug with optional meta object
         logDebug(`Dispatching action: ${action.type}`, { action }, 'OrchestratorDispatch');
 
@@ -66,6 +98,9 @@ export class GameOrchestrator {
 
             // Update orchestrator's local state
             this.state = newState;
+            if (action.type === 'START_GAME' && newState.seed !== undefined) {
+                this.rng = aiRandom(newState.seed);
+            }
 
             // Process events for internal logic and external emission
             events.forEach(event => {
@@ -74,6 +109,7 @@ export class GameOrchestrator {
                 // Forward events to any listeners on the event bus
                 this.emitEvent(event);
             });
+            return events;
         } catch (error) {
             // Use imported logError with Error object
             logError(
@@ -89,6 +125,7 @@ export class GameOrchestrator {
                 code: 'ACTION_ERROR',
                 data: { action } // Include action for context
             });
+            return [{ type: 'ERROR', message: error instanceof Error ? error.message : String(error), code: 'ACTION_ERROR' }];
         }
     }
 
@@ -110,7 +147,7 @@ export class GameOrchestrator {
             // Add other cases as needed for orchestration logic (e.g., FLOOR_FINALIZED to clear timers)
             case 'FLOOR_FINALIZED':
                  this.clearTimeout('turn_timer'); // Stop max turn timer if any
-                 this.clearInterval('proposal_timer'); // Stop proposal timer
+                 this.stopProposalTimer();
                  this.clearTimeout('ai_turn'); // Cancel pending AI action
                  break;
 
@@ -128,17 +165,17 @@ export class GameOrchestrator {
      private handleTurnStarted(event: Extract<GameEvent, { type: 'TURN_STARTED' }>): void {
          // Clear any existing turn timer or AI schedule
          this.clearTimeout('turn_timer'); // If you have a max turn timer
-         this.clearInterval('proposal_timer');
+         this.stopProposalTimer();
          this.clearTimeout('ai_turn');
 
-         // Start proposal timer only during Negotiation phase
-         // Bucket 4 Fix: Use GamePhase.Negotiation
-         if (this.state.phase === GamePhase.Negotiation) {
+         // Every turn of play runs against the proposal timer
+         if (this.state.phase === GamePhase.Playing || this.state.phase === GamePhase.Negotiation) {
              this.startProposalTimer();
          }
 
-         // Schedule AI turn if needed
-         if (event.isAiTurn) {
+         // Schedule AI turn if needed; hot-seat and head-to-head games have no AI seat, so nothing is scheduled
+         const player = this.state.players?.find(p => p.id === event.playerId);
+         if (this.aiTurns && event.isAiTurn && player?.type === PlayerType.AI) {
              this.scheduleAITurn(event.playerId);
          }
      }
@@ -184,52 +221,56 @@ export class GameOrchestrator {
     }
 
     /**
-     * Start the proposal timer
+     * Start the proposal timer. The deadline is read off the injected clock; the interval only calls
+     * tick(), so a fake clock and manual tick() calls drive the timer the same way.
      */
     private startProposalTimer(): void {
-        this.clearInterval('proposal_timer'); // Clear existing interval first
-        let remainingTime = PROPOSAL_TIMER_MS;
-        const startTime = this.clock();
+        this.stopProposalTimer();
+        const timerMs = rulesOf(this.state).proposalTimerMs;
+        this.turnDeadline = this.clock() + timerMs;
+        gameEvents.emit('turn:timer', { remainingTime: timerMs, isExpiring: false });
 
-        gameEvents.emit('turn:timer', { remainingTime, isExpiring: false });
+        const intervalId = window.setInterval(() => this.tick(), 1000); // Update every second
+        this.timerIntervals.set('proposal_timer', intervalId);
+    }
 
-        const intervalId = window.setInterval(() => {
-            const elapsed = this.clock() - startTime;
-            remainingTime = Math.max(0, PROPOSAL_TIMER_MS - elapsed);
+    private stopProposalTimer(): void {
+        this.clearInterval('proposal_timer');
+        this.turnDeadline = null;
+    }
 
-            gameEvents.emit('turn:timer', {
-                remainingTime,
-                isExpiring: remainingTime < 10000 // Example: 10s warning
-            });
+    /** Stops the proposal timer while play is held up outside the engine (a card deal, a result to acknowledge). */
+    holdTimer(): void {
+        this.stopProposalTimer();
+    }
 
-            // Add null/undefined checks before accessing state properties
-            if (!this.state.players || this.state.currentPlayerIndex === undefined || this.state.currentPlayerIndex < 0) {
-                logError('Invalid player state during timer check.', { state: this.state }, 'OrchestratorTimer');
-                this.clearInterval('proposal_timer');
-                return;
-            }
-            const currentPlayer = this.state.players[this.state.currentPlayerIndex];
-             if (!currentPlayer) {
-                 logError(`Current player undefined despite valid index (${this.state.currentPlayerIndex})`, { state: this.state }, 'OrchestratorTimer');
-                 this.clearInterval('proposal_timer');
-                 return;
-             }
-
-            // Bucket 4 Fix: Use GamePhase.Negotiation
-            if (remainingTime === 0 &&
-                this.state.phase === GamePhase.Negotiation &&
-                currentPlayer.type === PlayerType.Human // Only auto-pass for humans
-               )
-            {
-                logDebug('Proposal timer expired - auto-passing for human', { player: currentPlayer.id }, 'OrchestratorTimer');
-                this.clearInterval('proposal_timer');
-
-                // Dispatch auto-pass action
-                this.dispatch({ type: 'PASS_PROPOSAL', playerId: currentPlayer.id });
-            }
-        }, 1000); // Update every second
+    /** Gives the player to move a full proposal timer again, once play resumes after holdTimer(). */
+    restartTimer(): void {
+        if (this.state.phase === GamePhase.Playing) this.startProposalTimer();
+    }
 
-        this.timerIntervals.set('proposal_timer', intervalId);
+    /**
+     * Checks the proposal timer against the clock: reports the time left on 'turn:timer' and, once it has
+     * run out, dispatches TIMEOUT for the player whose turn it is. The engine resolves it by the rule set's policy.
+     */
+    tick(): void {
+        if (this.turnDeadline === null) return;
+        const remainingTime = Math.max(0, this.turnDeadline - this.clock());
+        gameEvents.emit('turn:timer', {
+            remainingTime,
+            isExpiring: remainingTime < 10000 // Example: 10s warning
+        });
+        if (remainingTime > 0) return;
+
+        this.stopProposalTimer();
+        const currentPlayer = this.state.players?.[this.state.currentPlayerIndex];
+        if (!currentPlayer) {
+            logError('Proposal timer ran out with no current player.', { state: this.state }, 'OrchestratorTimer');
+            return;
+        }
+        if (this.state.phase !== GamePhase.Playing) return;
+        logDebug('Proposal timer expired', { player: currentPlayer.id }, 'OrchestratorTimer');
+        this.dispatch({ type: 'TIMEOUT', playerId: currentPlayer.id });
     }
 
     /**
@@ -273,7 +314,7 @@ export class GameOrchestrator {
                 playerId
             });
         } else if (!isLeadPlayer && (!!floorState.proposalA !== !!floorState.proposalB)) { // Responding to initial proposal
-            if (Math.random() > 0.5) { // 50% chance to counter
+            if (this.rng() > 0.5) { // 50% chance to counter
                  logDebug(`AI (${playerId}) counter-proposing card ${cardToPlay.instanceId}`, { card: cardToPlay }, 'OrchestratorAI');
                 this.dispatch({
                     type: 'COUNTER_PROPOSE',
@@ -285,7 +326,7 @@ export class GameOrchestrator {
                 this.dispatch({ type: 'ACCEPT_PROPOSAL', playerId });
             }
         } else if (isLeadPlayer && floorState.proposalA && floorState.proposalB) { // Responding to counter
-            if (Math.random() > 0.3) { // 70% chance to accept counter
+            if (this.rng() > 0.3) { // 70% chance to accept counter
                  logDebug(`AI (${playerId}) accepting counter-proposal`, undefined, 'OrchestratorAI');
                 this.dispatch({ type: 'ACCEPT_PROPOSAL', playerId });
             } else { // 30% chance to pass (mediate)
@@ -368,9 +409,22 @@ export class GameOrchestrator {
              case 'DRAW_REQUESTED':
                  gameEvents.emit('player:action:request_draw', { playerId: event.playerId });
                  break;
+             case 'DECK_RESHUFFLED':
+                 gameEvents.emit('deck:reshuffled', { cards: event.cards });
+                 break;
              case 'SCORE_ADJUSTED':
                  gameEvents.emit('game:score_update', { amount: event.amount, reason: event.reason });
                  break;
+             case 'TURN_TIMED_OUT':
+                 gameEvents.emit('turn:timer', {
+                     remainingTime: 0,
+                     isExpiring: true,
+                     timedOut: { playerId: event.playerId, policy: event.policy, resolution: event.resolution, recallTokenForfeited: event.recallTokenForfeited }
+                 });
+                 break;
+             case 'BALANCE_UNREACHABLE':
+                 gameEvents.emit('game:balanceUnreachable', { minScore: event.minScore, maxScore: event.maxScore, winner: event.winner, reason: event.reason });
+                 break;
             case 'GAME_OVER':
                 gameEvents.emit('game:ended', event); // Pass directly if shape matches
                 break;
@@ -392,6 +446,11 @@ export class GameOrchestrator {
         return this.state;
     }
 
+    /** Get the action log of the current game as a replay file (null before START_GAME) */
+    getReplay(): ReplayFile | null {
+        return this.recorder.getReplay();
+    }
+
     /** Clear a specific timeout */
     private clearTimeout(id: string): void {
         const timeoutId = this.timeouts.get(id);
@@ -416,6 +475,7 @@ export class GameOrchestrator {
         this.timeouts.clear();
         this.timerIntervals.forEach((intervalId) => window.clearInterval(intervalId));
         this.timerIntervals.clear();
+        this.turnDeadline = null;
         logDebug('All orchestrator timers cleaned up', undefined, 'Orchestrator');
     }
 }
@@ -0,0 +1,165 @@
+// src/orchestration/liveGame.ts
+// The engine's copy of the game the stores are playing on this device. Each move the stores make is followed by
+// the same action on an orchestrator, which records the game's replay and keeps its turn clock. When the copy and
+// the stores stop agreeing, following stops: a replay of a different game is worse than none.
+
+import { GameOrchestrator } from './GameOrchestrator';
+import { GameEngine, GameAction } from '@/engine/GameEngine';
+import { CardInstance, FloorState, GameState } from '@/data/types';
+import { ReplayFile, REPLAY_FORMAT_VERSION, runReplay } from '@/replay/replay';
+import { usePlayersStore, Player } from '@/stores/usePlayersStore';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { gameEvents, GameEventMap } from '@/utils/eventBus';
+import { logDebug, logWarn } from '@/utils/logger';
+
+export type TurnTimeout = NonNullable<GameEventMap['turn:timer']['timedOut']>;
+
+let live: GameOrchestrator | null = null;
+let applyingOutcome = false;  // The stores are catching up on an outcome the engine produced itself
+
+// The stores play the AI themselves, so the orchestrator only follows.
+const follower = (state?: GameState, replay?: ReplayFile) =>
+    new GameOrchestrator(new GameEngine(), state, Date.now, { aiTurns: false, replay });
+
+const cardIds = (cards: CardInstance[] | undefined) => (cards ?? []).map(card => card.id).join(',');
+const handIds = (hand: CardInstance[]) => hand.flatMap(stack => Array<string>(stack.stack ?? 1).fill(stack.id)).sort().join(',');
+
+/** The first way the engine's copy differs from the stores' players and floors, or null when they agree. */
+function findDifference(state: GameState, players: Player[], floors: FloorState[]): string | null {
+    const enginePlayers = state.players ?? [];
+    if (enginePlayers.length !== players.length) return `${enginePlayers.length} players in the engine, ${players.length} here`;
+    for (const [i, player] of players.entries()) {
+        const enginePlayer = enginePlayers[i];
+        if (enginePlayer.id !== player.id) return `seat ${i + 1} is ${enginePlayer.id} in the engine, ${player.id} here`;
+        if (handIds(enginePlayer.hand) !== handIds(player.hand)) return `${player.name}'s hand differs`;
+        if (enginePlayer.recallTokens !== player.recallTokens) return `${player.name} has ${enginePlayer.recallTokens} recall tokens in the engine, ${player.recallTokens} here`;
+    }
+    const engineFloors = state.floors ?? [];
+    for (const floor of floors) {
+        const engineFloor = engineFloors.find(f => f.floorNumber === floor.floorNumber);
+        if (!engineFloor || engineFloor.status !== floor.status) return `floor ${floor.floorNumber} is ${engineFloor?.status ?? 'missing'} in the engine, ${floor.status} here`;
+        if (cardIds(engineFloor.proposalA) !== cardIds(floor.proposalA) || cardIds(engineFloor.proposalB) !== cardIds(floor.proposalB)) return `the proposals on floor ${floor.floorNumber} differ`;
+        if (cardIds(engineFloor.winnerCards) !== cardIds(floor.winnerCards)) return `the use agreed on floor ${floor.floorNumber} differs`;
+    }
+    return null;
+}
+
+/** Stops following the game: from here on it is neither recorded nor timed. `reason` is logged when given. */
+export function stopLiveGame(reason?: string): void {
+    if (!live) return;
+    live.cleanup();
+    live = null;
+    if (reason) logWarn(`[LiveGame] Stopped following the game: ${reason}. It has no replay or turn timer from here on.`, undefined, 'LiveGame');
+}
+
+/** Checks the engine's copy against the stores, and stops following the game at the first difference. */
+export function checkLiveGame(): boolean {
+    if (!live) return false;
+    const difference = findDifference(live.getState(), usePlayersStore.getState().players, useFloorStore.getState().floors);
+    if (difference) stopLiveGame(`the engine and this device disagree (${difference})`);
+    return difference === null;
+}
+
+/**
+ * Starts the engine's copy of a new game. The stores seat and deal from the same seed, so the two agree once
+ * the deal is done; check with checkLiveGame() then.
+ */
+export function startLiveGame(action: Extract<GameAction, { type: 'START_GAME' }>): void {
+    stopLiveGame();
+    live = follower();
+    followLiveAction(action);
+}
+
+/**
+ * Follows a resumed game from the replay saved with it, rebuilt through the engine. Returns false when there is
+ * no replay to follow from or it no longer matches the stores.
+ */
+export function resumeLiveGame(replay: ReplayFile | null): boolean {
+    stopLiveGame();
+    if (!replay) return false;
+    if (replay.version !== REPLAY_FORMAT_VERSION) {
+        logWarn(`[LiveGame] The saved replay is format v${replay.version}, not v${REPLAY_FORMAT_VERSION}; the resumed game is not followed.`, undefined, 'LiveGame');
+        return false;
+    }
+    const steps = runReplay(replay);
+    const failed = steps.find(step => step.events.some(event => event.type === 'ERROR'));
+    if (failed) {
+        logWarn(`[LiveGame] The saved replay fails at action ${failed.index + 1} (${failed.action.type}); the resumed game is not followed.`, undefined, 'LiveGame');
+        return false;
+    }
+    live = follower(steps[steps.length - 1].state, replay);
+    return checkLiveGame();
+}
+
+/** Applies `action`, which the stores have just made, to the engine's copy. */
+export function followLiveAction(action: GameAction): void {
+    if (!live || applyingOutcome) return;
+    const rejection = live.dispatch(action).find(event => event.type === 'ERROR');
+    if (rejection?.type === 'ERROR') {
+        stopLiveGame(`the engine rejected ${action.type} (${rejection.message})`);
+        return;
+    }
+    if (action.type !== 'START_GAME') checkLiveGame();
+}
+
+/**
+ * Follows a proposal or counter-proposal of `cards`. Card instances are minted separately on each side, so the
+ * engine is told to play the same cards from its copy of the hand.
+ */
+export function followLiveBundle(type: 'PROPOSE_CARD' | 'COUNTER_PROPOSE', playerId: string, cards: CardInstance[]): void {
+    if (!live || applyingOutcome) return;
+    const hand = [...(live.getState().players?.find(player => player.id === playerId)?.hand ?? [])];
+    const instanceIds: string[] = [];
+    for (const card of cards) {
+        const index = hand.findIndex(inHand => inHand.id === card.id);
+        if (index === -1) {
+            stopLiveGame(`${card.name} is not in ${playerId}'s hand in the engine`);
+            return;
+        }
+        instanceIds.push(hand.splice(index, 1)[0].instanceId);
+    }
+    const [instanceId, ...extraInstanceIds] = instanceIds;
+    followLiveAction({ type, playerId, instanceId, extraInstanceIds: extraInstanceIds.length ? extraInstanceIds : undefined });
+}
+
+/**
+ * Runs `apply` without following it: the stores catching up on an outcome the engine already has (a timeout
+ * it resolved). The copies are compared afterwards.
+ */
+export function applyEngineOutcome(apply: () => void): void {
+    applyingOutcome = true;
+    try {
+        apply();
+    } finally {
+        applyingOutcome = false;
+    }
+    checkLiveGame();
+}
+
+/** Holds the turn clock while play waits outside the engine: the opening deal, a result to acknowledge. */
+export function holdLiveTimer(): void {
+    live?.holdTimer();
+}
+
+/** Gives the player to move a full turn on the clock again. */
+export function restartLiveTimer(): void {
+    live?.restartTimer();
+}
+
+/**
+ * Calls `listener` whenever the engine has resolved a turn of the followed game that ran out of time, for the
+ * stores to apply the outcome. It is called once the engine has finished with the TIMEOUT (the events after it
+ * restart the clock), so a listener that holds the clock keeps it held.
+ */
+export function onLiveTimeout(listener: (timeout: TurnTimeout) => void): () => void {
+    return gameEvents.on('turn:timer', ({ timedOut }) => {
+        if (!timedOut || !live) return;
+        logDebug(`[LiveGame] ${timedOut.playerId} ran out of time: ${timedOut.resolution}.`, undefined, 'LiveGame');
+        queueMicrotask(() => listener(timedOut));
+    });
+}
+
+/** The replay of the game being followed, or null when no game is (none started, or following stopped). */
+export function getLiveReplay(): ReplayFile | null {
+    return live?.getReplay() ?? null;
+}
@@ -0,0 +1,58 @@
+// src/persistence/deckLibrary.ts
+// Custom decks saved from the deck editor, persisted to localStorage by name.
+
+import { DeckFile } from '@/data/types';
+import { validateDeck } from '@/data/decks';
+import { ValidationResult } from '@/utils/validation';
+import { logDebug, logWarn } from '@/utils/logger';
+
+export const DECK_LIBRARY_STORAGE_KEY = 'urbanbalance-decks';
+
+function readLibrary(): DeckFile[] {
+    if (typeof window === 'undefined') return [];
+    try {
+        const raw = JSON.parse(window.localStorage.getItem(DECK_LIBRARY_STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(raw)) return [];
+        // A deck that no longer validates (e.g. edited by hand) is skipped rather than failing the whole library.
+        return raw.filter((deck: DeckFile) => {
+            const check = validateDeck(deck);
+            if (!check.isValid) logWarn(`Skipping saved deck "${deck?.name}": ${check.reason}`, 'Persistence');
+            return check.isValid;
+        });
+    } catch {
+        logWarn('Saved decks are corrupted and were ignored.', 'Persistence');
+        return [];
+    }
+}
+
+function writeLibrary(decks: DeckFile[]): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(DECK_LIBRARY_STORAGE_KEY, JSON.stringify(decks));
+    } catch (error) {
+        logWarn(`Saving decks failed: ${error instanceof Error ? error.message : String(error)}`, 'Persistence');
+    }
+}
+
+/** Every saved deck, sorted by name. */
+export function loadSavedDecks(): DeckFile[] {
+    return readLibrary().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getSavedDeck(name: string): DeckFile | undefined {
+    return readLibrary().find(deck => deck.name === name);
+}
+
+/** Validates `deck` and stores it, replacing any saved deck of the same name. */
+export function saveDeck(deck: DeckFile): ValidationResult {
+    const check = validateDeck(deck);
+    if (!check.isValid) return check;
+    writeLibrary([...readLibrary().filter(saved => saved.name !== deck.name), deck]);
+    logDebug(`Saved deck "${deck.name}" (${deck.cards.length} cards).`, 'Persistence');
+    return check;
+}
+
+export function deleteDeck(name: string): void {
+    writeLibrary(readLibrary().filter(deck => deck.name !== name));
+    logDebug(`Deleted deck "${name}".`, 'Persistence');
+}
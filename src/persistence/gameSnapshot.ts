@@ -0,0 +1,246 @@
+// src/persistence/gameSnapshot.ts
+// Versioned snapshot of every store needed to resume a game, persisted to localStorage.
+
+import { CardDefinition, CardInstance, DeckMode, FloorState, GamePhase, RuleSet } from '@/data/types';
+import { STANDARD_RULES } from '@/data/rules';
+import { DEFAULT_SCENARIO } from '@/data/scenarios';
+import { getActiveDeck, setActiveDeck } from '@/data/deckData';
+import { createDeckFile } from '@/data/decks';
+import { usePlayersStore, Player } from '@/stores/usePlayersStore';
+import { useFloorStore } from '@/stores/useFloorStore';
+import { useBuildingStore, BuildingStoreState } from '@/stores/useBuildingStore';
+import { useGameFlowStore } from '@/stores/useGameFlowStore';
+import { useAIStore } from '@/stores/useAIStore';
+import { OpponentModel, createOpponentModel } from '@/ai/opponentModel';
+import { ReplayFile } from '@/replay/replay';
+import { getLiveReplay } from '@/orchestration/liveGame';
+import { ValidationResult, validationFailed } from '@/utils/validation';
+import { logDebug, logWarn } from '@/utils/logger';
+
+/** Bump whenever the snapshot shape changes, and add a migration from the previous version. */
+export const SNAPSHOT_VERSION = 8;
+export const SAVE_STORAGE_KEY = 'urbanbalance-save';
+
+export interface GameSnapshot {
+    version: number;
+    savedAt: string;
+    players: {
+        players: Player[];
+        currentPlayerIndex: number;
+        deckCardDefinitions: CardDefinition[];
+        deckName: string | null;          // Custom deck the game was dealt from; null for the built-in catalog
+        deckMode: DeckMode;
+        drawPile: CardInstance[];
+        discardPile: CardInstance[];
+        deckSeed: number;
+        reshuffles: number;
+        currentScore: number;
+    };
+    floors: {
+        floors: FloorState[];
+        currentFloor: number;
+    };
+    building: BuildingStoreState['building'];
+    gameFlow: {
+        gamePhase: GamePhase;
+        isAiTurn: boolean;
+        gameLog: string[];
+        waitForPlayerAcknowledgement: boolean;
+        seed: number | null;
+        rules: RuleSet;
+        scenarioId: string;
+    };
+    ai: {
+        strategyName: string;
+        difficultyLevel: string;
+        opponentModel: OpponentModel;
+    };
+    replay: ReplayFile | null;   // The game so far, for the engine to follow it again on resume; null when it was not followed
+}
+
+export type SnapshotLoadResult = ValidationResult & { snapshot?: GameSnapshot };
+
+/** A saved snapshot of any version: its sections hold whichever of today's fields that version saved. */
+type StoredSnapshot = Partial<Omit<GameSnapshot, 'version' | 'players' | 'gameFlow' | 'ai'>> & {
+    version: number;
+    players?: Partial<GameSnapshot['players']>;
+    gameFlow?: Partial<GameSnapshot['gameFlow']>;
+    ai?: Partial<GameSnapshot['ai']>;
+};
+
+const isStoredSnapshot = (raw: unknown): raw is StoredSnapshot =>
+    !!raw && typeof raw === 'object' && !Array.isArray(raw) && typeof (raw as { version?: unknown }).version === 'number';
+
+/**
+ * Upgrades a snapshot from version N to N + 1. Keyed by the version being upgraded *from*.
+ * Versions with no entry here and below SNAPSHOT_VERSION cannot be loaded.
+ */
+const MIGRATIONS: Record<number, (snapshot: StoredSnapshot) => StoredSnapshot> = {
+    // v2 persists the AI's opponent model; older saves resume with a blank one.
+    1: snapshot => ({ ...snapshot, version: 2, ai: { ...snapshot.ai, opponentModel: createOpponentModel() } }),
+    // v3 records the rule set; everything saved before it was a Standard game.
+    2: snapshot => ({
+        ...snapshot,
+        version: 3,
+        gameFlow: { ...snapshot.gameFlow, rules: STANDARD_RULES },
+        ai: { ...snapshot.ai, opponentModel: { ...createOpponentModel(), ...snapshot.ai?.opponentModel } },
+    }),
+    // v4 rule sets carry the feasibility rule; older games played without it.
+    3: snapshot => ({ ...snapshot, version: 4, gameFlow: { ...snapshot.gameFlow, rules: { ...STANDARD_RULES, ...snapshot.gameFlow?.rules } } }),
+    // v5 records the deck mode and piles; older games were open draft.
+    4: snapshot => ({
+        ...snapshot,
+        version: 5,
+        players: { ...snapshot.players, deckMode: 'openDraft', drawPile: [], discardPile: [], deckSeed: snapshot.gameFlow?.seed ?? 0, reshuffles: 0 },
+    }),
+    // v6 records which deck the game uses; custom decks came with v6, so older games used the built-in one.
+    5: snapshot => ({ ...snapshot, version: 6, players: { ...snapshot.players, deckName: null } }),
+    // v7 records the scenario; every earlier game was on the generic site.
+    6: snapshot => ({ ...snapshot, version: 7, gameFlow: { ...snapshot.gameFlow, scenarioId: DEFAULT_SCENARIO } }),
+    // v8 saves the game's replay; older saves have none, and resume without a replay or turn timer.
+    7: snapshot => ({ ...snapshot, version: 8, replay: null }),
+};
+
+export function captureGameSnapshot(): GameSnapshot {
+    const players = usePlayersStore.getState();
+    const floors = useFloorStore.getState();
+    const building = useBuildingStore.getState();
+    const gameFlow = useGameFlowStore.getState();
+    const ai = useAIStore.getState();
+
+    // JSON round-trip drops functions (e.g. card effects) that cannot be persisted anyway.
+    return JSON.parse(JSON.stringify({
+        version: SNAPSHOT_VERSION,
+        savedAt: new Date().toISOString(),
+        players: {
+            players: players.players,
+            currentPlayerIndex: players.currentPlayerIndex,
+            deckCardDefinitions: players.deckCardDefinitions,
+            deckName: getActiveDeck()?.name ?? null,
+            deckMode: players.deckMode,
+            drawPile: players.drawPile,
+            discardPile: players.discardPile,
+            deckSeed: players.deckSeed,
+            reshuffles: players.reshuffles,
+            currentScore: players.currentScore,
+        },
+        floors: { floors: floors.floors, currentFloor: floors.currentFloor },
+        building: building.building,
+        gameFlow: {
+            gamePhase: gameFlow.gamePhase,
+            isAiTurn: gameFlow.isAiTurn,
+            gameLog: gameFlow.gameLog,
+            waitForPlayerAcknowledgement: gameFlow.waitForPlayerAcknowledgement,
+            seed: gameFlow.seed,
+            rules: gameFlow.rules,
+            scenarioId: gameFlow.scenarioId,
+        },
+        ai: { strategyName: ai.strategy.name, difficultyLevel: ai.difficultyLevel, opponentModel: ai.opponentModel },
+        replay: getLiveReplay(),
+    }));
+}
+
+/** Writes the current game to localStorage. Failures (quota, private mode) are logged, not thrown. */
+export function saveGameSnapshot(): void {
+    if (typeof window === 'undefined') return;
+    try {
+        window.localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(captureGameSnapshot()));
+        logDebug('Game autosaved.', 'Persistence');
+    } catch (error) {
+        logWarn(`Autosave failed: ${error instanceof Error ? error.message : String(error)}`, 'Persistence');
+    }
+}
+
+export function clearSavedGame(): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(SAVE_STORAGE_KEY);
+}
+
+export function hasSavedGame(): boolean {
+    return typeof window !== 'undefined' && window.localStorage.getItem(SAVE_STORAGE_KEY) !== null;
+}
+
+/** Brings an older snapshot up to SNAPSHOT_VERSION, or explains why it cannot be loaded. */
+export function migrateSnapshot(raw: unknown): SnapshotLoadResult {
+    if (!isStoredSnapshot(raw)) {
+        return validationFailed('Saved game is unreadable (missing version).');
+    }
+    if (raw.version > SNAPSHOT_VERSION) {
+        return validationFailed(`Saved game was created by a newer version of Urban Balance (format v${raw.version}).`);
+    }
+
+    let snapshot = raw;
+    while (snapshot.version < SNAPSHOT_VERSION) {
+        const migrate = MIGRATIONS[snapshot.version];
+        if (!migrate) {
+            return validationFailed(`Saved game format v${snapshot.version} is no longer supported. Please start a new game.`);
+        }
+        snapshot = migrate(snapshot);
+        logDebug(`Migrated saved game to format v${snapshot.version}.`, 'Persistence');
+    }
+
+    if (
+        !Array.isArray(snapshot.players?.players) || !Array.isArray(snapshot.floors?.floors) || !snapshot.building || !snapshot.gameFlow
+        || typeof snapshot.ai?.difficultyLevel !== 'string' || typeof snapshot.ai.strategyName !== 'string'
+    ) {
+        return validationFailed('Saved game is incomplete and cannot be resumed.');
+    }
+    return { isValid: true, reason: '', snapshot: snapshot as GameSnapshot };
+}
+
+export function loadGameSnapshot(): SnapshotLoadResult {
+    if (typeof window === 'undefined') return validationFailed('Saved games are only available in the browser.');
+    const json = window.localStorage.getItem(SAVE_STORAGE_KEY);
+    if (!json) return validationFailed('No saved game found.');
+    try {
+        return migrateSnapshot(JSON.parse(json));
+    } catch {
+        return validationFailed('Saved game is corrupted and cannot be resumed.');
+    }
+}
+
+/**
+ * Pushes a snapshot into every store. Transient state (timers, AI "thinking", baskets)
+ * is reset rather than restored; the caller is responsible for rescheduling turns.
+ */
+export function applyGameSnapshot(snapshot: GameSnapshot): void {
+    // The saved definitions are the deck's cards, so a custom deck is rebuilt even if it was since edited or deleted.
+    setActiveDeck(snapshot.players.deckName ? createDeckFile(snapshot.players.deckName, snapshot.players.deckCardDefinitions) : null);
+    usePlayersStore.setState(state => {
+        state.players = snapshot.players.players;
+        state.currentPlayerIndex = snapshot.players.currentPlayerIndex;
+        state.deckCardDefinitions = snapshot.players.deckCardDefinitions;
+        state.deckMode = snapshot.players.deckMode;
+        state.drawPile = snapshot.players.drawPile;
+        state.discardPile = snapshot.players.discardPile;
+        state.deckSeed = snapshot.players.deckSeed;
+        state.reshuffles = snapshot.players.reshuffles;
+        state.currentScore = snapshot.players.currentScore;
+        state.proposalCounts = {};
+        state.counterProposalCounts = {};
+        state.cardsBeingDealt = false;
+    });
+    useFloorStore.setState({
+        floors: snapshot.floors.floors,
+        currentFloor: snapshot.floors.currentFloor,
+        recallMaxFloor: snapshot.gameFlow.rules.recallMaxFloor,
+    });
+    useBuildingStore.setState({ building: snapshot.building });
+    useGameFlowStore.setState({
+        gamePhase: snapshot.gameFlow.gamePhase,
+        isAiTurn: snapshot.gameFlow.isAiTurn,
+        gameLog: snapshot.gameFlow.gameLog,
+        waitForPlayerAcknowledgement: snapshot.gameFlow.waitForPlayerAcknowledgement,
+        seed: snapshot.gameFlow.seed,
+        rules: snapshot.gameFlow.rules,
+        scenarioId: snapshot.gameFlow.scenarioId,
+        gameOverReason: null,
+        winnerMessage: null,
+        winningRoles: null,
+    });
+    const ai = useAIStore.getState();
+    // Difficulty first: it applies its preset strategy, which a saved override then replaces.
+    ai.setDifficultyLevel(snapshot.ai.difficultyLevel);
+    ai.setStrategy(snapshot.ai.strategyName);
+    ai.dispatch({ type: 'SET_OPPONENT_MODEL', model: snapshot.ai.opponentModel });
+}
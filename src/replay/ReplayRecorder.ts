@@ -0,0 +1,50 @@
+// src/replay/ReplayRecorder.ts
+
+import { GameAction } from '@/engine/GameEngine';
+import { ReplayFile, REPLAY_FORMAT_VERSION } from './replay';
+import { STANDARD_RULES } from '@/data/rules';
+import { getActiveDeck } from '@/data/deckData';
+import { logWarn } from '@/utils/logger';
+
+/**
+ * Captures the action stream of a single game. A START_GAME action opens a new
+ * recording; anything dispatched before the first START_GAME is ignored.
+ * START_GAME must already carry its resolved seed so the recording is reproducible.
+ */
+export class ReplayRecorder {
+  private replay: ReplayFile | null = null;
+
+  record(action: GameAction): void {
+    if (action.type === 'START_GAME') {
+      if (action.seed === undefined) {
+        logWarn('[ReplayRecorder] START_GAME recorded without a seed; replay will not be reproducible.', 'Replay');
+      }
+      this.replay = {
+        version: REPLAY_FORMAT_VERSION,
+        recordedAt: new Date().toISOString(),
+        seed: action.seed ?? 0,
+        rules: action.rules ?? STANDARD_RULES,
+        actions: [action],
+      };
+      const deck = getActiveDeck();
+      if (deck) this.replay.deck = deck;
+      return;
+    }
+    if (!this.replay) return;
+    this.replay.actions.push(action);
+  }
+
+  /** Carries on recording onto `replay`, as when a saved game is picked up again. */
+  resume(replay: ReplayFile): void {
+    this.replay = structuredClone(replay);
+  }
+
+  /** A copy of the current recording, or null when no game has started. */
+  getReplay(): ReplayFile | null {
+    return this.replay ? structuredClone(this.replay) : null;
+  }
+
+  clear(): void {
+    this.replay = null;
+  }
+}
@@ -0,0 +1,105 @@
+// src/replay/replay.ts
+// Versioned replay file format and the pure runner that rebuilds GameState from it.
+
+import { GameEngine, GameAction } from '@/engine/GameEngine';
+import { DeckFile, GameState, GameEvent } from '@/data/types';
+import { withActiveDeck } from '@/data/deckData';
+import { validateDeck } from '@/data/decks';
+import { RuleSet, validateRuleSet } from '@/data/rules';
+import { ValidationResult, validationFailed } from '@/utils/validation';
+import { logDebug } from '@/utils/logger';
+
+/** Bump whenever the shape of ReplayFile or the meaning of a recorded action changes. */
+export const REPLAY_FORMAT_VERSION = 4;
+
+export interface ReplayFile {
+  version: number;
+  recordedAt: string;       // ISO timestamp of the START_GAME that opened the recording
+  seed: number;
+  rules: RuleSet;          // Rules the game was played under; START_GAME carries the same set
+  actions: GameAction[];    // Every action dispatched, in order, starting with START_GAME
+  deck?: DeckFile;          // Custom deck the game was dealt from; absent for the built-in catalog
+}
+
+/** One entry per recorded action: the state *after* applying it, plus the events it produced. */
+export interface ReplayStep {
+  index: number;
+  action: GameAction;
+  state: GameState;
+  events: GameEvent[];
+}
+
+export type ReplayParseResult = ValidationResult & { replay?: ReplayFile };
+
+export function serializeReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+/**
+ * Parses and validates a replay file. Files older than version 4 predate card effects, bundle packing,
+ * the early end and discarding to draw, so their actions would now play out as a different game;
+ * they are rejected rather than upgraded.
+ */
+export function parseReplay(json: string): ReplayParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    return validationFailed(`Replay is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return validationFailed('Replay must be a JSON object.');
+  const file = raw as Partial<ReplayFile>;
+  if (typeof file.version === 'number' && file.version < REPLAY_FORMAT_VERSION) {
+    return validationFailed(
+      `Replay format v${file.version} was recorded under older game rules and would no longer replay the same game (expected v${REPLAY_FORMAT_VERSION}).`,
+    );
+  }
+  if (file.version !== REPLAY_FORMAT_VERSION) {
+    return validationFailed(`Unsupported replay version ${String(file.version)} (expected ${REPLAY_FORMAT_VERSION}).`);
+  }
+  if (typeof file.seed !== 'number') return validationFailed('Replay is missing a numeric seed.');
+  const actions: unknown[] | undefined = file.actions;
+  if (!Array.isArray(actions) || actions.length === 0) return validationFailed('Replay contains no actions.');
+  if (!actions.every(isAction)) return validationFailed('Replay contains a malformed action.');
+  if (actions[0].type !== 'START_GAME') return validationFailed('Replay must begin with a START_GAME action.');
+
+  const rulesCheck = validateRuleSet(file.rules);
+  if (!rulesCheck.isValid) return validationFailed(`Replay has invalid rules: ${rulesCheck.reason}`);
+  if (file.deck !== undefined) {
+    const deckCheck = validateDeck(file.deck);
+    if (!deckCheck.isValid) return validationFailed(`Replay has an invalid deck: ${deckCheck.reason}`);
+  }
+
+  // The engine reads its rules from START_GAME, so make sure the recorded set is the one it gets.
+  const [start, ...rest] = actions;
+  return { isValid: true, reason: '', replay: { ...file, actions: [{ ...start, rules: file.rules }, ...rest] } as ReplayFile };
+}
+
+/** Only the action's type is checked here; the engine rejects anything else that is wrong with it on replay. */
+function isAction(value: unknown): value is GameAction {
+  return !!value && typeof value === 'object' && typeof (value as { type?: unknown }).type === 'string';
+}
+
+/**
+ * Re-runs every recorded action through a fresh engine, dealing from the recorded deck, and returns
+ * each intermediate state.
+ */
+export function runReplay(replay: ReplayFile, engine: GameEngine = new GameEngine()): ReplayStep[] {
+  const steps: ReplayStep[] = [];
+  let state = engine.createInitialState();
+
+  withActiveDeck(replay.deck ?? null, () => replay.actions.forEach((action, index) => {
+    const { newState, events } = engine.handleAction(state, action);
+    state = newState;
+    steps.push({ index, action, state, events });
+  }));
+
+  logDebug(`[Replay] Rebuilt ${steps.length} steps from seed ${replay.seed}.`, 'Replay');
+  return steps;
+}
+
+/** Index of the first step at which the given floor is under negotiation, or -1. */
+export function findFirstStepOnFloor(steps: ReplayStep[], floorNumber: number): number {
+  return steps.findIndex(step => step.state.currentFloor >= floorNumber);
+}
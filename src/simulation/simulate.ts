@@ -0,0 +1,341 @@
+// src/simulation/simulate.ts
+// Headless AI-vs-AI games played straight through the GameEngine, for balance tuning.
+
+import { GameEngine, GameAction } from '@/engine/GameEngine';
+import { GameState, GameEvent, GamePhase, FloorStatus, PlayerRole, PlayerType, CardData, RuleSet, DeckMode, ImpactAxis } from '@/data/types';
+import { AI_SEARCH_BUDGET_MS } from '@/data/constants';
+import { STANDARD_RULES, rulesOf } from '@/data/rules';
+import { getCardDefinitions } from '@/data/deckData';
+import { AxisTotals, axisTotals, checkAxisBalance, IMPACT_AXES, scenarioAxisBaseline } from '@/engine/axes';
+import { floorScoreImpact } from '@/engine/bundles';
+import { ongoingEffectScore } from '@/engine/effects';
+import { hasPrivatePiles, isDrawPileMode, pilesOf } from '@/engine/deck';
+import { DraftPicks, runDraft } from '@/engine/draft';
+import { checkZoning } from '@/engine/zoning';
+import { DEFAULT_SCENARIO, getScenario } from '@/data/scenarios';
+import { CoreRole } from '@/data/stakeholders';
+import { AIStrategy, GameStateSnapshot, selectDraftPick } from '@/ai/strategies';
+import { discardToDraw } from '@/ai/lookahead';
+import { createSeededRandom, randomInt, RandomSource } from '@/utils/random';
+import { logWarn } from '@/utils/logger';
+
+export interface SimulationOptions {
+  games: number;
+  seed: number;                 // Game i is played with seed + i
+  developerStrategy: AIStrategy;
+  communityStrategy: AIStrategy;
+  searchBudgetMs?: number;      // Per-decision thinking time for search strategies (default AI_SEARCH_BUDGET_MS)
+  rules?: RuleSet;              // Rule set every game is played under (default Standard)
+  deckMode?: DeckMode;          // How cards are drawn (default open draft)
+  scenario?: string;            // SCENARIOS key; sets the starting score and zoning (default generic). Rules and deck are the caller's.
+}
+
+export interface GameResult {
+  seed: number;
+  winner: 'developer' | 'community' | 'balanced' | 'infeasible' | 'unfinished';
+  finalScore: number;
+  withinBalance: boolean;       // |finalScore| <= rules.balanceThreshold
+  axes: AxisTotals;             // Final per-axis totals
+  axesWithin: boolean;          // Every axis inside ±rules.axisBalanceThreshold
+  playerARole: PlayerRole;      // Role that leads floors 1-5
+  floorsAgreed: number;
+  floorsSkipped: number;
+  recalls: number;
+  actions: number;
+  zoningMet: boolean[];         // One entry per zoning requirement of the scenario
+}
+
+export interface CardFloorStats {
+  cardId: string;
+  name: string;
+  proposed: number;             // Initial proposals and counters
+  floorsWon: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  seed: number;
+  strategies: { developer: string; community: string };
+  rules: RuleSet;
+  deckMode: DeckMode;
+  scenario: string;
+  balanceThreshold: number;
+  winRates: Record<GameResult['winner'], number>;
+  winRatesByLeadRole: Record<CoreRole, { games: number; developer: number; community: number; balanced: number }>;
+  score: { mean: number; min: number; max: number; withinBalance: number; histogram: { from: number; to: number; count: number }[] };
+  axes: Record<ImpactAxis, { mean: number; min: number; max: number; within: number }>;
+  axesWithin: number;           // Share of games with every axis inside its band
+  averageRecalls: number;
+  averageSkipped: number;       // Floors skipped per game
+  zoning: { label: string; met: number }[];   // Share of games meeting each zoning requirement
+  cards: CardFloorStats[];
+  results: GameResult[];
+}
+
+// Hard stop for a single game; a healthy game needs only a handful of actions per floor.
+const MAX_ACTIONS_PER_FLOOR = 25;
+const HISTOGRAM_BUCKET = 50;
+
+/** Score of agreed floors, matching the engine's own end-of-game calculation. */
+const scoreOf = (state: GameState): number =>
+  (state.baselineScore ?? 0) + (state.floors ?? []).reduce((sum, f) => sum + floorScoreImpact(f), 0)
+  + ongoingEffectScore(state.floors ?? [], rulesOf(state)) + (state.effectScore ?? 0);
+
+/** The current player's piles (shared or, in drafted games, their own). */
+const currentPiles = (state: GameState) =>
+  pilesOf(state.players![state.currentPlayerIndex], { drawPile: state.deck ?? [], discardPile: state.discardPile ?? [] }, state.deckMode);
+
+const createSnapshot = (state: GameState, rng: RandomSource, searchBudgetMs: number): GameStateSnapshot => ({
+  building: { currentNetScore: scoreOf(state) },
+  currentPlayer: state.players?.[state.currentPlayerIndex] ?? null,
+  currentFloor: state.currentFloor,
+  floorState: state.floors?.find(f => f.floorNumber === state.currentFloor) ?? null,
+  difficultyLevel: 'normal',
+  noise: 0,
+  deckSize: getCardDefinitions().length,
+  floorsRemaining: rulesOf(state).maxStories - state.currentFloor + 1,
+  rules: rulesOf(state),
+  rng,
+  // The engine state is already the true game, so the score needs no offset.
+  search: { state, drawPool: isDrawPileMode(state.deckMode) ? [...currentPiles(state).drawPile, ...currentPiles(state).discardPile] : getCardDefinitions(), scoreOffset: 0, budgetMs: searchBudgetMs },
+});
+
+/**
+ * Drafted deck mode: both strategies draft from the opening position, a coin flip deciding who picks
+ * first. The snapshot is the one the live AI drafts from: no hand, floor 1 and the baseline score of 0
+ * (the engine scores agreed floors only).
+ */
+const draftPools = (strategies: Record<CoreRole, AIStrategy>, rules: RuleSet, rng: RandomSource): DraftPicks => {
+  const first = rng() < 0.5 ? PlayerRole.Developer : PlayerRole.Community;
+  const second = first === PlayerRole.Developer ? PlayerRole.Community : PlayerRole.Developer;
+  return runDraft(getCardDefinitions(), first, second, (role, market) => {
+    const snapshot: GameStateSnapshot = {
+      building: { currentNetScore: 0 },
+      currentPlayer: { id: role, name: role, type: PlayerType.AI, role, hand: [], recallTokens: rules.initialRecallTokens, isLeadPlayer: false },
+      currentFloor: 1,
+      floorState: null,
+      difficultyLevel: 'normal',
+      noise: 0,
+      deckSize: market.length,
+      floorsRemaining: rules.maxStories,
+      rules,
+      rng,
+    };
+    return selectDraftPick(strategies[role as CoreRole], market, snapshot)?.id ?? market[0].id;
+  });
+};
+
+/**
+ * Chooses the next action for whoever holds the turn, asking their strategy the same questions
+ * the live AI store does. Returns a draw while the hand is below the rules' maxHandSize: a random
+ * card in open draft, the top card in draw pile mode (while there is one). A full hand with nothing
+ * for the current floor discards a card to make room for a draw that could bring one.
+ */
+const chooseAction = (state: GameState, strategy: AIStrategy, rng: RandomSource, searchBudgetMs: number): GameAction => {
+  const player = state.players![state.currentPlayerIndex];
+  const floor = state.floors!.find(f => f.floorNumber === state.currentFloor);
+  const piles = currentPiles(state);
+  const drawable = isDrawPileMode(state.deckMode) ? [...piles.drawPile, ...piles.discardPile] : getCardDefinitions();
+
+  if (drawable.length > 0 && player.hand.length < rulesOf(state).maxHandSize) {
+    if (isDrawPileMode(state.deckMode)) return { type: 'DRAW_CARD', playerId: player.id };
+    return { type: 'DRAW_CARD', playerId: player.id, cardId: drawable[randomInt(rng, drawable.length)].id };
+  }
+  const discard = discardToDraw(state, drawable, rng);
+  if (discard) return discard;
+  const snapshot = createSnapshot(state, rng, searchBudgetMs);
+
+  const playerIsA = state.players![0].id === player.id;
+  const own = playerIsA ? floor?.proposalA : floor?.proposalB;
+  const opponent = playerIsA ? floor?.proposalB : floor?.proposalA;
+  const instanceFor = (cards: CardData[] | null) =>
+    cards?.length ? player.hand.find(c => c.id === cards[0].id)?.instanceId : undefined;
+
+  if (!own?.length && !opponent?.length) {
+    const instanceId = instanceFor(strategy.selectInitialProposal(player.hand, snapshot));
+    return instanceId ? { type: 'PROPOSE_CARD', playerId: player.id, instanceId } : { type: 'PASS_PROPOSAL', playerId: player.id };
+  }
+  if (!own?.length && opponent?.length) {
+    if (strategy.shouldAcceptProposal(opponent, snapshot)) return { type: 'ACCEPT_PROPOSAL', playerId: player.id };
+    const instanceId = instanceFor(strategy.selectCounterProposal(player.hand, opponent, snapshot));
+    return instanceId ? { type: 'COUNTER_PROPOSE', playerId: player.id, instanceId } : { type: 'PASS_PROPOSAL', playerId: player.id };
+  }
+  // Both sides have proposed: the lead either takes the counter or passes to mediation.
+  return strategy.shouldAcceptCounter(own ?? [], opponent ?? [], snapshot)
+    ? { type: 'ACCEPT_PROPOSAL', playerId: player.id }
+    : { type: 'PASS_PROPOSAL', playerId: player.id };
+};
+
+/** Plays one complete game and returns its result plus every event the engine emitted. */
+export function simulateGame(
+  seed: number,
+  strategies: Record<CoreRole, AIStrategy>,
+  engine: GameEngine = new GameEngine(),
+  searchBudgetMs: number = AI_SEARCH_BUDGET_MS,
+  rules: RuleSet = STANDARD_RULES,
+  deckMode: DeckMode = 'openDraft',
+  scenario: string = DEFAULT_SCENARIO,
+): { result: GameResult; events: GameEvent[] } {
+  const rng = createSeededRandom(seed);
+  const events: GameEvent[] = [];
+  const apply = (state: GameState, action: GameAction) => {
+    const outcome = engine.handleAction(state, action);
+    events.push(...outcome.events);
+    return outcome;
+  };
+
+  // The engine seats a "human" and an "ai" player; in simulation both are driven by strategies.
+  const draft = hasPrivatePiles(deckMode) ? draftPools(strategies, rules, rng) : undefined;
+  let state = apply(engine.createInitialState(), {
+    type: 'START_GAME', humanRole: PlayerRole.Community, aiRole: PlayerRole.Developer, seed, rules, deckMode, draft, scenario,
+  }).newState;
+
+  let actions = 0;
+  while (state.phase === GamePhase.Playing && actions < rules.maxStories * MAX_ACTIONS_PER_FLOOR) {
+    const player = state.players![state.currentPlayerIndex];
+    const action = chooseAction(state, strategies[player.role as CoreRole], rng, searchBudgetMs); // Simulations seat only the two core roles
+    let outcome = apply(state, action);
+    if (outcome.events.some(e => e.type === 'ERROR') && action.type !== 'PASS_PROPOSAL') {
+      // Strategy asked for something the engine rejected; fall back to passing so the game moves on.
+      outcome = apply(state, { type: 'PASS_PROPOSAL', playerId: player.id });
+    }
+    if (outcome.events.some(e => e.type === 'ERROR')) {
+      logWarn(`[Simulation] Game ${seed} stalled on floor ${state.currentFloor}.`, 'Simulation');
+      break;
+    }
+    state = outcome.newState;
+    actions++;
+  }
+
+  const gameOver = events.find((e): e is Extract<GameEvent, { type: 'GAME_OVER' }> => e.type === 'GAME_OVER');
+  const finalScore = gameOver?.finalScore ?? scoreOf(state);
+  const axes = axisTotals(state.floors ?? [], scenarioAxisBaseline(scenario));
+  return {
+    events,
+    result: {
+      seed,
+      winner: gameOver?.winner ?? 'unfinished',
+      finalScore,
+      withinBalance: Math.abs(finalScore) <= rules.balanceThreshold,
+      axes,
+      axesWithin: checkAxisBalance(axes, rules).every(balance => balance.within),
+      playerARole: state.players?.[0].role ?? PlayerRole.Community,
+      floorsAgreed: (state.floors ?? []).filter(f => f.status === FloorStatus.Agreed).length,
+      floorsSkipped: (state.floors ?? []).filter(f => f.status === FloorStatus.Skipped).length,
+      recalls: events.filter(e => e.type === 'RECALL_USED').length,
+      actions,
+      zoningMet: checkZoning(state.floors ?? [], getScenario(scenario).zoning).map(zoning => zoning.met),
+    },
+  };
+}
+
+/** Plays `options.games` seeded games and aggregates the statistics used for balance tuning. */
+export function runSimulation(options: SimulationOptions): SimulationSummary {
+  const engine = new GameEngine();
+  const rules = options.rules ?? STANDARD_RULES;
+  const deckMode = options.deckMode ?? 'openDraft';
+  const scenario = options.scenario ?? DEFAULT_SCENARIO;
+  const strategies = { [PlayerRole.Developer]: options.developerStrategy, [PlayerRole.Community]: options.communityStrategy };
+  const results: GameResult[] = [];
+  const cards = new Map<string, CardFloorStats>();
+  const cardStats = (cardId: string, name?: string) => {
+    if (!cards.has(cardId)) cards.set(cardId, { cardId, name: name ?? cardId, proposed: 0, floorsWon: 0 });
+    return cards.get(cardId)!;
+  };
+
+  for (let i = 0; i < options.games; i++) {
+    const { result, events } = simulateGame(options.seed + i, strategies, engine, options.searchBudgetMs, rules, deckMode, scenario);
+    results.push(result);
+    events.forEach(e => {
+      if (e.type === 'PROPOSAL_MADE' || e.type === 'COUNTER_MADE') cardStats(e.cardId, e.cardName).proposed++;
+      if (e.type === 'FLOOR_FINALIZED' && e.status === FloorStatus.Agreed) (e.cards ?? (e.card ? [e.card] : [])).forEach(c => cardStats(c.id, c.name).floorsWon++);
+      if (e.type === 'RECALL_USED' && e.recalledCard) cardStats(e.recalledCard.id, e.recalledCard.name).floorsWon--;
+    });
+  }
+
+  const count = results.length || 1;
+  const rate = (predicate: (r: GameResult) => boolean) => results.filter(predicate).length / count;
+  const byLeadRole = (role: CoreRole) => {
+    const led = results.filter(r => r.playerARole === role);
+    const share = (winner: GameResult['winner']) => led.length ? led.filter(r => r.winner === winner).length / led.length : 0;
+    return { games: led.length, developer: share('developer'), community: share('community'), balanced: share('balanced') };
+  };
+
+  const scores = results.map(r => r.finalScore);
+  const axisStats = (axis: ImpactAxis) => {
+    const totals = results.map(r => r.axes[axis]);
+    const band = rules.axisBalanceThreshold;
+    return {
+      mean: totals.reduce((a, b) => a + b, 0) / count,
+      min: totals.length ? Math.min(...totals) : 0,
+      max: totals.length ? Math.max(...totals) : 0,
+      within: rate(r => band === undefined || Math.abs(r.axes[axis]) <= band),
+    };
+  };
+  const histogram = new Map<number, number>();
+  scores.forEach(s => {
+    const from = Math.floor(s / HISTOGRAM_BUCKET) * HISTOGRAM_BUCKET;
+    histogram.set(from, (histogram.get(from) ?? 0) + 1);
+  });
+
+  return {
+    games: results.length,
+    seed: options.seed,
+    strategies: { developer: options.developerStrategy.name, community: options.communityStrategy.name },
+    rules,
+    deckMode,
+    scenario,
+    balanceThreshold: rules.balanceThreshold,
+    winRates: {
+      developer: rate(r => r.winner === 'developer'),
+      community: rate(r => r.winner === 'community'),
+      balanced: rate(r => r.winner === 'balanced'),
+      infeasible: rate(r => r.winner === 'infeasible'),
+      unfinished: rate(r => r.winner === 'unfinished'),
+    },
+    winRatesByLeadRole: {
+      [PlayerRole.Developer]: byLeadRole(PlayerRole.Developer),
+      [PlayerRole.Community]: byLeadRole(PlayerRole.Community),
+    },
+    score: {
+      mean: scores.reduce((a, b) => a + b, 0) / count,
+      min: scores.length ? Math.min(...scores) : 0,
+      max: scores.length ? Math.max(...scores) : 0,
+      withinBalance: rate(r => r.withinBalance),
+      histogram: [...histogram.entries()].sort(([a], [b]) => a - b)
+        .map(([from, n]) => ({ from, to: from + HISTOGRAM_BUCKET - 1, count: n })),
+    },
+    axes: Object.fromEntries(IMPACT_AXES.map(axis => [axis, axisStats(axis)])) as SimulationSummary['axes'],
+    axesWithin: rate(r => r.axesWithin),
+    averageRecalls: results.reduce((sum, r) => sum + r.recalls, 0) / count,
+    averageSkipped: results.reduce((sum, r) => sum + r.floorsSkipped, 0) / count,
+    zoning: getScenario(scenario).zoning.map((requirement, index) => ({ label: requirement.label, met: rate(r => r.zoningMet[index]) })),
+    cards: [...cards.values()].sort((a, b) => b.floorsWon - a.floorsWon),
+    results,
+  };
+}
+
+const csvCell = (value: string | number | boolean) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | boolean)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+/** One row per game. */
+export function resultsToCsv(summary: SimulationSummary): string {
+  return toCsv(
+    ['seed', 'winner', 'finalScore', 'withinBalance', ...IMPACT_AXES, 'axesWithin', 'playerARole', 'floorsAgreed', 'floorsSkipped', 'recalls', 'actions', 'zoningMet'],
+    summary.results.map(r => [r.seed, r.winner, r.finalScore, r.withinBalance, ...IMPACT_AXES.map(axis => r.axes[axis]), r.axesWithin, r.playerARole,
+      r.floorsAgreed, r.floorsSkipped, r.recalls, r.actions, `${r.zoningMet.filter(Boolean).length}/${r.zoningMet.length}`]),
+  );
+}
+
+/** One row per card, with its share of floors won out of times it was put on the table. */
+export function cardsToCsv(summary: SimulationSummary): string {
+  return toCsv(
+    ['cardId', 'name', 'proposed', 'floorsWon', 'winRate'],
+    summary.cards.map(c => [c.cardId, c.name, c.proposed, c.floorsWon, c.proposed ? (c.floorsWon / c.proposed).toFixed(3) : '0']),
+  );
+}
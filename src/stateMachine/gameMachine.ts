@@ -16,7 +16,17 @@ export const gameMachine = createMachine({
     // Title screen state
     title: {
       on: {
-        START_GAME: 'dealing'
+        START_GAME: 'dealing',
+        START_DRAFT: 'drafting'
+      }
+    },
+
+    // Drafted deck mode: players pick card stacks in turn before the deal
+    drafting: {
+      on: {
+        DRAFT_PICK: 'drafting', // Self-transition
+        DRAFT_COMPLETE: 'dealing',
+        RESET: 'title'
       }
     },
     
@@ -88,8 +98,7 @@ export const gameMachine = createMachine({
         checkingNextFloor: {
           on: {
             MORE_FLOORS: 'waitingForProposal',
-            NO_MORE_FLOORS: '#game.gameOver',
-            IMPOSSIBLE_BALANCE: '#game.gameOver'
+            NO_MORE_FLOORS: '#game.gameOver'
           }
         }
       },
@@ -98,6 +107,7 @@ export const gameMachine = createMachine({
       on: {
         RECALL: '.waitingForProposal', // Re-enter waiting state when recalling a floor
         RESIGN: 'gameOver',
+        IMPOSSIBLE_BALANCE: 'gameOver', // A player ended the game early once balance was out of reach
         ERROR: 'error'
       }
     },
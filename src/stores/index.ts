@@ -6,4 +6,5 @@ export { useFloorStore }          from './useFloorStore';
 export { usePlayersStore, PlayerRole } from './usePlayersStore';
 export { useGameFlowStore, GamePhase } from './useGameFlowStore';
 export { useAIStore } from './useAIStore';
+export { useDraftStore } from './useDraftStore';
 export { useTelemetryStore } from './useTelemetryStore';
\ No newline at end of file
@@ -3,98 +3,28 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { CardData, PlayerRole, PlayerType, GamePhase, Player, FloorState, CardDefinition, CardInstance } from "@/data/types";
-import { BALANCE_THRESHOLD, MAX_STORIES, AI_TURN_DELAY_MS } from '@/data/constants'; 
+import { CardData, PlayerRole, PlayerType, GamePhase, CardDefinition } from "@/data/types";
+import { AI_TURN_DELAY_MS, AI_SEARCH_BUDGET_MS } from '@/data/constants'; 
 import { usePlayersStore, ProposalBasketItem } from './usePlayersStore';
 import { useFloorStore } from './useFloorStore';
 import { useBuildingStore } from './useBuildingStore';
 import { useGameFlowStore } from './useGameFlowStore';
 import { logDebug, logError, logWarn } from '@/utils/logger';
 import { deepCopy } from '@/utils/deepCopy';
+import { RandomSource } from '@/utils/random';
+import { AIStrategy, GameStateSnapshot, DIFFICULTY_PRESETS, balancedStrategy, getStrategy, selectDraftPick } from '@/ai/strategies';
+import { buildEngineStateFromStores } from '@/ai/engineBridge';
+import { floorScoreImpact } from '@/engine/bundles';
+import { isDrawPileMode } from '@/engine/deck';
+import { OpponentModel, OpponentEvent, createOpponentModel, updateOpponentModel } from '@/ai/opponentModel';
+
+export type { AIStrategy, GameStateSnapshot } from '@/ai/strategies';
 
 const AI_INTERNAL_THINKING_DELAY_MS = 1000; 
 const AI_INTERNAL_SHOW_ACTION_DELAY_MS = 1500; 
 
 export const logAIAction = (message: string) => logDebug(message, 'AI');
 
-export interface AIStrategy {
-    name: string;
-    evaluateProposal: (card: CardData, gameState: GameStateSnapshot) => number;
-    selectInitialProposal: (hand: CardInstance[], gameState: GameStateSnapshot) => CardData[] | null; 
-    shouldAcceptProposal: (opponentProposal: CardData[], gameState: GameStateSnapshot) => boolean;
-    selectCounterProposal: (hand: CardInstance[], opponentProposal: CardData[], gameState: GameStateSnapshot) => CardData[] | null;
-    shouldAcceptCounter: (aiOriginalProposal: CardData[], opponentCounter: CardData[], gameState: GameStateSnapshot) => boolean;
-}
-
-const balancedStrategy: AIStrategy = {
-    name: 'balanced',
-    evaluateProposal: (card, gameState) => {
-        const currentScore = gameState.building.currentNetScore;
-        const impact = card.netScoreImpact ?? 0;
-        const newScore = currentScore + impact;
-        return -Math.abs(newScore); 
-    },
-    selectInitialProposal: (hand, gameState) => {
-        if (hand.length === 0) return null;
-        const playableHandStacks = hand.filter(cardStack => 
-            useFloorStore.getState().canPlayOnFloor(cardStack, gameState.currentFloor) && (cardStack.stack ?? 0) > 0
-        );
-        if (playableHandStacks.length === 0) return null;
-        
-        const evaluableCards = playableHandStacks.map(stack => ({...stack, stack:1, instanceId: `eval-${stack.instanceId}`}));
-        evaluableCards.sort((a, b) => balancedStrategy.evaluateProposal(b, gameState) - balancedStrategy.evaluateProposal(a, gameState));
-        
-        const bestCardToPropose = evaluableCards[0]; 
-        if (!bestCardToPropose) return null;
-
-        // Strategy returns a CardData array (effectively definitions of cards to play)
-        // based on the best evaluated card type from available hand stacks.
-        const originalHandStackDetails = hand.find(s => s.id === bestCardToPropose.id);
-        logAIAction(`BalancedSelectProposal: Strategized to propose [${originalHandStackDetails?.name ?? 'Unknown Card'}] from ${playableHandStacks.length} playable stacks.`);
-        // Return a CardData (definition-like) representation of the chosen card type.
-        // The actual instance will be sourced from hand in aiPlayTurn.
-        return originalHandStackDetails ? [deepCopy(originalHandStackDetails)] : null; 
-    },
-    shouldAcceptProposal: (opponentProposal, gameState) => {
-        if (!opponentProposal || opponentProposal.length === 0) return false; 
-        const primaryOpponentCard = opponentProposal[0]; 
-        const proposalValue = balancedStrategy.evaluateProposal(primaryOpponentCard, gameState);
-        const isGoodEnough = proposalValue > -BALANCE_THRESHOLD * 0.75; 
-        const decision = isGoodEnough && Math.random() < 0.8; 
-        logAIAction(`BalancedShouldAccept: Opponent's ${primaryOpponentCard.name}, Value=${proposalValue.toFixed(1)}, Accept=${decision}`);
-        return decision;
-    },
-    selectCounterProposal: (hand, opponentProposal, gameState) => {
-        if (hand.length === 0 || !opponentProposal || opponentProposal.length === 0) return null;
-        const playableHandStacks = hand.filter(cardStack =>
-            useFloorStore.getState().canPlayOnFloor(cardStack, gameState.currentFloor) && (cardStack.stack ?? 0) > 0
-        );
-        if (playableHandStacks.length === 0) return null;
-
-        const evaluableCards = playableHandStacks.map(stack => ({...stack, stack:1, instanceId: `eval-${stack.instanceId}`}));
-        const primaryOpponentCard = opponentProposal[0];
-        const opponentValue = balancedStrategy.evaluateProposal(primaryOpponentCard, gameState);
-        evaluableCards.sort((a, b) => balancedStrategy.evaluateProposal(b, gameState) - balancedStrategy.evaluateProposal(a, gameState));
-        const bestCounterCard = evaluableCards.find(card => balancedStrategy.evaluateProposal(card, gameState) > opponentValue + 1.0); 
-        
-        if (!bestCounterCard) return null;
-        const originalHandStackDetails = hand.find(s => s.id === bestCounterCard.id);
-        logAIAction(`BalancedSelectCounter vs ${primaryOpponentCard.name}: Strategized [${originalHandStackDetails?.name ?? 'Unknown Card'}]`);
-        return originalHandStackDetails ? [deepCopy(originalHandStackDetails)] : null;
-    },
-    shouldAcceptCounter: (aiOriginalProposal, opponentCounter, gameState) => {
-        if (!aiOriginalProposal || aiOriginalProposal.length === 0 || !opponentCounter || opponentCounter.length === 0) return false;
-        const primaryOriginal = aiOriginalProposal[0];
-        const primaryCounter = opponentCounter[0];
-        const originalValue = balancedStrategy.evaluateProposal(primaryOriginal, gameState);
-        const counterValue = balancedStrategy.evaluateProposal(primaryCounter, gameState);
-        const decision = counterValue >= originalValue - 2.0; 
-        logAIAction(`BalancedShouldAcceptCounter: MyOrig=${primaryOriginal.name}, TheirCounter=${primaryCounter.name}, OrigVal=${originalValue.toFixed(1)}, CounterVal=${counterValue.toFixed(1)}, Accept=${decision}`);
-        return decision;
-    }
-};
-const aggressiveStrategy: AIStrategy = { ...balancedStrategy, name: "aggressive" }; // Placeholder
-
 export type PendingAIAction =
     | { type: 'propose'; cardsToPropose: CardData[]; reason?: string; } 
     | { type: 'accept'; card: CardData; reason?: string; } 
@@ -103,46 +33,49 @@ export type PendingAIAction =
     | { type: 'accept_counter'; card: CardData; reason?: string; } 
     | { type: 'reject_counter'; card: CardData; reason?: string; };
 
-interface GameStateSnapshot {
-    building: { currentNetScore: number };
-    currentPlayer: Readonly<Player> | null; 
-    currentFloor: number;
-    floorState: FloorState | null; 
-    difficultyLevel: string;
-    deckSize: number; // Number of unique card definitions
-    floorsRemaining: number;
-}
 type AIActionInternal =
     | { type: 'SET_THINKING'; thinking: boolean }
     | { type: 'SET_PENDING_ACTION'; action: PendingAIAction | null }
     | { type: 'SET_LAST_DECISION'; timestamp: number; action: string; details?: string }
     | { type: 'SET_STRATEGY'; strategy: AIStrategy }
-    | { type: 'SET_DIFFICULTY_LEVEL'; level: string };
+    | { type: 'SET_DIFFICULTY_LEVEL'; level: string; noise: number; searchBudgetMs: number }
+    | { type: 'SET_OPPONENT_MODEL'; model: OpponentModel };
 
 interface AIStoreState {
     strategy: AIStrategy;
     difficultyLevel: string; 
+    noise: number;
+    searchBudgetMs: number;
+    opponentModel: OpponentModel;
     isAIThinking: boolean;
     pendingAIAction: PendingAIAction | null; 
     lastDecision: { timestamp: number; action: string; details?: string };
     setStrategy: (strategyName: string) => void;
     setDifficultyLevel: (level: string) => void;
+    /** Records a move by the human so later decisions can anticipate them. */
+    observeOpponent: (event: OpponentEvent, card: CardData, scoreBefore: number) => void;
+    resetOpponentModel: () => void;
     aiPlayTurn: () => Promise<void>; 
     aiMakeProposalDecision: (gameState: GameStateSnapshot) => PendingAIAction;
     aiRespondToProposalDecision: (gameState: GameStateSnapshot) => PendingAIAction;
     aiDecideOnCounterDecision: (gameState: GameStateSnapshot) => PendingAIAction;
     dispatch: (action: AIActionInternal) => void; 
     getGameStateSnapshot: () => GameStateSnapshot;
+    /** The stack the AI takes from the draft market when playing `role`, judged from the opening position. */
+    aiChooseDraftPick: (market: readonly CardDefinition[], role: PlayerRole, rng: RandomSource) => CardDefinition | null;
 }
 
 // Corrected Omit for defaultAIStateValues
 type AIDefaultStateKeys = 
-    'setStrategy' | 'setDifficultyLevel' | 'aiPlayTurn' | 
+    'setStrategy' | 'setDifficultyLevel' | 'observeOpponent' | 'resetOpponentModel' | 'aiPlayTurn' | 
     'aiMakeProposalDecision' | 'aiRespondToProposalDecision' | 'aiDecideOnCounterDecision' | 
-    'dispatch' | 'getGameStateSnapshot';
+    'dispatch' | 'getGameStateSnapshot' | 'aiChooseDraftPick';
 const defaultAIStateValues: Omit<AIStoreState, AIDefaultStateKeys> = {
     strategy: balancedStrategy,
     difficultyLevel: 'normal',
+    noise: DIFFICULTY_PRESETS.normal.noise,
+    searchBudgetMs: AI_SEARCH_BUDGET_MS,
+    opponentModel: createOpponentModel(),
     isAIThinking: false,
     pendingAIAction: null,
     lastDecision: { timestamp: 0, action: '', details: '' },
@@ -158,29 +91,41 @@ export const useAIStore = create<AIStoreState>()(
                     case 'SET_PENDING_ACTION': state.pendingAIAction = action.action; break;
                     case 'SET_LAST_DECISION': state.lastDecision = { timestamp: action.timestamp, action: action.action, details: action.details }; break;
                     case 'SET_STRATEGY': state.strategy = action.strategy; break;
-                    case 'SET_DIFFICULTY_LEVEL': state.difficultyLevel = action.level; break;
+                    case 'SET_DIFFICULTY_LEVEL': state.difficultyLevel = action.level; state.noise = action.noise; state.searchBudgetMs = action.searchBudgetMs; break;
+                    case 'SET_OPPONENT_MODEL': state.opponentModel = action.model; break;
                     default: logWarn(`Unhandled AIActionInternal type in dispatch`, 'AI State');
                 }
             })
         },
         setStrategy: (strategyName) => {
-            const normalizedName = strategyName.toLowerCase();
-            let newStrategy = balancedStrategy;
-            if (normalizedName === 'aggressive') newStrategy = aggressiveStrategy;
+            const newStrategy = getStrategy(strategyName);
+            if (!newStrategy) {
+                logWarn(`Unknown AI strategy: ${strategyName}`, 'AI Config');
+                return;
+            }
             if (get().strategy.name !== newStrategy.name) {
                 get().dispatch({ type: 'SET_STRATEGY', strategy: newStrategy });
                 logAIAction(`Strategy set to ${newStrategy.name}`);
             }
         },
+        // Applies the preset's strategy and noise every time, so a later setStrategy acts as an override.
         setDifficultyLevel: (level) => {
             const normalizedLevel = level.toLowerCase();
-            if (['easy', 'normal', 'hard'].includes(normalizedLevel) && get().difficultyLevel !== normalizedLevel) {
-                get().dispatch({ type: 'SET_DIFFICULTY_LEVEL', level: normalizedLevel });
-                logAIAction(`Difficulty set to ${normalizedLevel}`);
-            } else if (!['easy', 'normal', 'hard'].includes(normalizedLevel)) {
+            const preset = DIFFICULTY_PRESETS[normalizedLevel];
+            if (!preset) {
                 logWarn(`Invalid AI difficulty level: ${level}`, 'AI Config');
+                return;
             }
+            get().dispatch({ type: 'SET_DIFFICULTY_LEVEL', level: normalizedLevel, noise: preset.noise, searchBudgetMs: preset.searchBudgetMs ?? AI_SEARCH_BUDGET_MS });
+            get().setStrategy(preset.strategyName);
+            logAIAction(`Difficulty set to ${normalizedLevel} (${preset.strategyName}, noise ${preset.noise})`);
+        },
+        observeOpponent: (event, card, scoreBefore) => {
+            const model = updateOpponentModel(get().opponentModel, event, card, scoreBefore);
+            get().dispatch({ type: 'SET_OPPONENT_MODEL', model });
+            logAIAction(`Observed ${event.type} of ${card.name}; opponent target now ${model.targetScore.mean.toFixed(1)} ± ${model.targetScore.spread.toFixed(1)}`);
         },
+        resetOpponentModel: () => get().dispatch({ type: 'SET_OPPONENT_MODEL', model: createOpponentModel(useGameFlowStore.getState().rules.balanceThreshold) }),
         aiPlayTurn: async (): Promise<void> => {
             const turnStartTime = Date.now();
             const { getGameStateSnapshot, dispatch, strategy, aiMakeProposalDecision, aiRespondToProposalDecision, aiDecideOnCounterDecision } = get();
@@ -196,6 +141,14 @@ export const useAIStore = create<AIStoreState>()(
                 if (liveGameFlowState.gamePhase !== GamePhase.Playing || !liveGameFlowState.isAiTurn) {
                     logWarn(`AI Turn Aborted (Post-Think): Not playing or not AI turn.`); dispatch({ type: 'SET_THINKING', thinking: false }); return;
                 }
+                // With a draw pile the AI tops its hand up from the top of the pile before deciding, as the simulator does.
+                const players = usePlayersStore.getState();
+                const aiPlayer = players.getCurrentPlayer();
+                if (isDrawPileMode(players.deckMode) && aiPlayer?.type === PlayerType.AI) {
+                    let drawn = 0;
+                    while (players.drawTopCardToHand(players.currentPlayerIndex, liveGameFlowState.rules.maxHandSize)) drawn++;
+                    if (drawn > 0) liveGameFlowState.logAction(`${aiPlayer.name} draws ${drawn} card${drawn === 1 ? '' : 's'} from the draw pile.`);
+                }
                 const gameStateSnapshot = getGameStateSnapshot();
                 if (!gameStateSnapshot.currentPlayer || gameStateSnapshot.currentPlayer.type !== PlayerType.AI || !gameStateSnapshot.floorState) {
                     logError("AI Turn Error (Post-Think): Invalid snapshot or not AI player.", { snapshot: gameStateSnapshot }); dispatch({ type: 'SET_THINKING', thinking: false }); return;
@@ -203,6 +156,15 @@ export const useAIStore = create<AIStoreState>()(
                 if (gameStateSnapshot.currentFloor !== useFloorStore.getState().currentFloor) {
                     logWarn(`AI Turn Aborted (Post-Think): Floor changed.`); dispatch({ type: 'SET_THINKING', thinking: false }); return;
                 }
+                if (strategy.prepare) {
+                    try {
+                        await strategy.prepare(gameStateSnapshot);
+                    } catch (error) {
+                        // Without its plan a search strategy falls back to greedy play rather than searching on the main thread.
+                        logWarn(`AI search failed, playing greedily: ${error instanceof Error ? error.message : String(error)}`, 'AI Logic');
+                        gameStateSnapshot.search = undefined;
+                    }
+                }
 
                 let decision: PendingAIAction;
                 const { proposalA, proposalB } = gameStateSnapshot.floorState;
@@ -299,7 +261,7 @@ export const useAIStore = create<AIStoreState>()(
             const aiHandForStrategy = gameStateSnapshot.currentPlayer?.hand ? deepCopy(gameStateSnapshot.currentPlayer.hand) : [];
             const cardsChosen = strategy.selectInitialProposal(aiHandForStrategy, gameStateSnapshot);
             if (cardsChosen?.length) {
-                return { type: 'propose', cardsToPropose: cardsChosen, reason: 'Strategic selection' };
+                return { type: 'propose', cardsToPropose: cardsChosen, reason: strategy.explain(cardsChosen[0], gameStateSnapshot) };
             }
             return { type: 'pass', reason: aiHandForStrategy.length === 0 ? 'No cards' : 'No suitable proposal' };
         },
@@ -313,11 +275,11 @@ export const useAIStore = create<AIStoreState>()(
             
             const opponentCopies = opponentProposalArray.map(c => deepCopy(c as CardData)); // Ensure type for strategy
             if (strategy.shouldAcceptProposal(opponentCopies, gameStateSnapshot)) {
-                return { type: 'accept', card: opponentCopies[0], reason: 'Acceptable' };
+                return { type: 'accept', card: opponentCopies[0], reason: strategy.explain(opponentCopies[0], gameStateSnapshot) };
             }
             const cardsToCounterChosen = strategy.selectCounterProposal(aiHandForStrategy, opponentCopies, gameStateSnapshot);
             if (cardsToCounterChosen?.length) {
-                return { type: 'counter', cardsToCounter: cardsToCounterChosen, reason: 'Better alternative' };
+                return { type: 'counter', cardsToCounter: cardsToCounterChosen, reason: strategy.explain(cardsToCounterChosen[0], gameStateSnapshot) };
             }
             return { type: 'pass', reason: 'No good counter, not accepting' };
         },
@@ -331,15 +293,16 @@ export const useAIStore = create<AIStoreState>()(
             if (!aiOriginalProposal?.length || !opponentCounter?.length) return { type: 'pass', reason: 'Missing proposals for counter decision' };
             
             if (strategy.shouldAcceptCounter(aiOriginalProposal, opponentCounter, gameStateSnapshot)) {
-                return { type: 'accept_counter', card: opponentCounter[0], reason: 'Counter acceptable' };
+                return { type: 'accept_counter', card: opponentCounter[0], reason: strategy.explain(opponentCounter[0], gameStateSnapshot) };
             }
-            return { type: 'reject_counter', card: opponentCounter[0], reason: 'Reject counter' };
+            return { type: 'reject_counter', card: opponentCounter[0], reason: strategy.explain(opponentCounter[0], gameStateSnapshot) };
         },
         getGameStateSnapshot: (): GameStateSnapshot => {
             const floorStoreState = useFloorStore.getState();
             const playerStoreState = usePlayersStore.getState();
             const buildingStoreState = useBuildingStore.getState();
             const aiStoreSelf = get();
+            const { rules } = useGameFlowStore.getState();
             const currentPlayerFromStore = playerStoreState.getCurrentPlayer();
             const currentFloorStateFromStore = floorStoreState.getCurrentFloorState();
             
@@ -349,9 +312,46 @@ export const useAIStore = create<AIStoreState>()(
                 currentFloor: floorStoreState.currentFloor,
                 floorState: currentFloorStateFromStore ? deepCopy(currentFloorStateFromStore) : null, 
                 difficultyLevel: aiStoreSelf.difficultyLevel,
+                noise: aiStoreSelf.noise,
                 deckSize: playerStoreState.deckCardDefinitions.length, // Corrected
-                floorsRemaining: MAX_STORIES > 0 ? Math.max(0, MAX_STORIES - floorStoreState.currentFloor + 1) : 0,
+                floorsRemaining: Math.max(0, rules.maxStories - floorStoreState.currentFloor + 1),
+                rules,
+                rng: useGameFlowStore.getState().rng,
+                opponentModel: aiStoreSelf.opponentModel,
+                search: aiStoreSelf.strategy.prepare ? (() => {
+                    const engineState = buildEngineStateFromStores();
+                    const agreedScore = (engineState.floors ?? []).reduce((sum, f) => sum + floorScoreImpact(f), 0);
+                    const piles = playerStoreState.getPiles(playerStoreState.currentPlayerIndex);
+                    return {
+                        state: engineState,
+                        drawPool: isDrawPileMode(playerStoreState.deckMode)
+                            ? [...piles.drawPile, ...piles.discardPile]
+                            : [...playerStoreState.deckCardDefinitions],
+                        scoreOffset: buildingStoreState.getCurrentNetScore() - agreedScore,
+                        budgetMs: aiStoreSelf.searchBudgetMs,
+                    };
+                })() : undefined,
             };
-        }
+        },
+        aiChooseDraftPick: (market, role, rng) => {
+            const { strategy, difficultyLevel, noise } = get();
+            const { rules } = useGameFlowStore.getState();
+            // Nothing is dealt yet: the AI drafts as if about to lead floor 1 from the baseline score.
+            const gameStateSnapshot: GameStateSnapshot = {
+                building: { currentNetScore: useBuildingStore.getState().building.baselineScore },
+                currentPlayer: { id: 'ai', name: `AI (${role})`, type: PlayerType.AI, role, hand: [], recallTokens: rules.initialRecallTokens, isLeadPlayer: false },
+                currentFloor: 1,
+                floorState: null,
+                difficultyLevel,
+                noise,
+                deckSize: market.length,
+                floorsRemaining: rules.maxStories,
+                rules,
+                rng,
+            };
+            const pick = selectDraftPick(strategy, market, gameStateSnapshot);
+            logAIAction(`Drafting as ${role}: ${pick ? `takes ${pick.name}` : 'nothing to take'}.`);
+            return pick;
+        },
     }))
 );
\ No newline at end of file
@@ -4,8 +4,10 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
 import { CardData } from "@/data/types"; 
-import { MANDATORY_IMPACTS, BUILDING_FOOTPRINT } from '@/data/constants'; // BUILDING_FOOTPRINT included as per original
+import { BUILDING_FOOTPRINT } from '@/data/constants'; // BUILDING_FOOTPRINT included as per original
+import { DEFAULT_SCENARIO, scenarioBaseline } from '@/data/scenarios';
 import { logDebug, logError, logWarn } from '@/utils/logger';
+import { packArea } from '@/engine/bundles';
 
 export interface BuildingUse {
   cardId: string; // Should be unique for this use, e.g., cardInstanceId
@@ -13,8 +15,9 @@ export interface BuildingUse {
   category: string;
   sqft: number; 
   units: number;
-  impact: number; // Score impact
+  impact: number; // Score impact (carried by the lowest floor of a multi-floor use, 0 on the others)
   owner: string;
+  span?: { from: number; to: number }; // Floors a use too big for one floor covers; the same use appears on each
 }
 
 interface FloorData {
@@ -23,10 +26,6 @@ interface FloorData {
   score: number; // Sum of score impacts of cards on this floor
 }
 
-const BASELINE_SCORE = MANDATORY_IMPACTS.reduce(
-  (sum, impact) => sum + impact.netScoreImpact,
-  0
-);
 
 interface BuildingState {
   floors: { [floorNumber: number]: FloorData };
@@ -37,7 +36,7 @@ interface BuildingState {
 
 const initialBuildingState: BuildingState = {
   floors: {},
-  baselineScore: BASELINE_SCORE,
+  baselineScore: scenarioBaseline(DEFAULT_SCENARIO),
   scorePenaltiesTotal: 0,
   currentTotalSqFt: 0, 
 };
@@ -45,7 +44,7 @@ const initialBuildingState: BuildingState = {
 export interface BuildingStoreState {
   building: BuildingState;
 
-  resetBuilding: () => void;
+  resetBuilding: (baselineScore?: number) => void; // Starting score of the scenario being played
   addCardToFloor: (
     floorNumber: number,
     card: CardData,
@@ -65,6 +64,7 @@ export interface BuildingStoreState {
     score: number
   }[];
   getFloorData: (floorNumber: number) => FloorData | undefined;
+  getRemainingCapacity: (floorNumber: number) => number;
 }
 
 // Helper to determine height contribution of a card category
@@ -77,12 +77,13 @@ export const useBuildingStore = create<BuildingStoreState>()(
   immer((set, get) => ({
     building: { ...initialBuildingState },
 
-    resetBuilding: () => {
+    resetBuilding: (baselineScore = initialBuildingState.baselineScore) => {
       logDebug("Resetting building store state.", "BuildingStore");
       // Ensure all relevant parts of the building state are reset
       set({ 
         building: { 
           ...initialBuildingState, 
+          baselineScore,
           floors: {}, // Explicitly clear floors
           currentTotalSqFt: 0 // Ensure total sqft is reset
         } 
@@ -127,39 +128,46 @@ export const useBuildingStore = create<BuildingStoreState>()(
 
       logDebug(`Adding card ${cardName} (Use ID: ${useEntryId}, Base ID: ${card.id}, Units: ${units}, SqFt/Unit: ${cardSqftValue}) to floor ${floorNumber}. Owner: ${ownerRole}`, "BuildingStore");
 
+      // Fill this floor's free space first; anything left over continues on the floors above.
+      const totalSqftUsedByThisAddition = cardSqftValue * units;
+      const scoreImpactByThisAddition = (card.netScoreImpact ?? 0) * units;
+      const chunks = packArea(totalSqftUsedByThisAddition, floorNumber, n => get().building.floors[n]?.sqftUsed ?? 0);
+      const span = chunks.length > 1 ? { from: chunks[0].floorNumber, to: chunks[chunks.length - 1].floorNumber } : undefined;
+
       set(state => {
-        if (!state.building.floors[floorNumber]) {
-          state.building.floors[floorNumber] = {
-            sqftUsed: 0,
-            uses: [],
-            score: 0
-          };
-        }
+        chunks.forEach((chunk, index) => {
+          if (!state.building.floors[chunk.floorNumber]) {
+            state.building.floors[chunk.floorNumber] = {
+              sqftUsed: 0,
+              uses: [],
+              score: 0
+            };
+          }
 
-        const floor = state.building.floors[floorNumber];
-        // Use the resolved cardSqftValue for calculations
-        const totalSqftUsedByThisAddition = cardSqftValue * units;
-        const scoreImpactByThisAddition = (card.netScoreImpact ?? 0) * units;
-
-        floor.uses.push({
-          cardId: useEntryId,
-          cardName: card.name,
-          category: card.category ?? '',
-          sqft: totalSqftUsedByThisAddition,
-          units: units,
-          impact: scoreImpactByThisAddition,
-          owner: ownerRole
+          const floor = state.building.floors[chunk.floorNumber];
+          const impact = index === 0 ? scoreImpactByThisAddition : 0;
+
+          floor.uses.push({
+            cardId: useEntryId,
+            cardName: card.name,
+            category: card.category ?? '',
+            sqft: chunk.sqft,
+            units: units,
+            impact,
+            owner: ownerRole,
+            span,
+          });
+
+          floor.sqftUsed += chunk.sqft;
+          floor.score += impact;
         });
-
-        floor.sqftUsed += totalSqftUsedByThisAddition;
-        floor.score += scoreImpactByThisAddition;
         state.building.currentTotalSqFt += totalSqftUsedByThisAddition;
       });
 
       const updatedFloor = get().building.floors[floorNumber];
       const currentTotalSqFt = get().building.currentTotalSqFt;
       logDebug(
-        `Floor ${floorNumber} updated after adding ${cardName}: sqftUsedOnFloor=${updatedFloor?.sqftUsed}, floorScore=${updatedFloor?.score}. Building total sqft: ${currentTotalSqFt}`,
+        `Floor ${floorNumber} updated after adding ${cardName}${span ? ` (spans floors ${span.from}-${span.to})` : ''}: sqftUsedOnFloor=${updatedFloor?.sqftUsed}, floorScore=${updatedFloor?.score}. Building total sqft: ${currentTotalSqFt}`,
         "BuildingStore"
       );
     },
@@ -173,29 +181,36 @@ export const useBuildingStore = create<BuildingStoreState>()(
           return;
         }
 
-        const useIndexToRemove = floor.uses.findIndex(use => use.cardId === useCardIdToRemove);
-        if (useIndexToRemove === -1) {
+        const useToRemove = floor.uses.find(use => use.cardId === useCardIdToRemove);
+        if (!useToRemove) {
            logWarn(`Cannot remove card use: Entry '${useCardIdToRemove}' not found on floor ${floorNumber}.`, "BuildingStore");
           return;
         }
 
-        const removedUse = floor.uses[useIndexToRemove];
-        floor.sqftUsed -= removedUse.sqft;
-        floor.score -= removedUse.impact;
-        state.building.currentTotalSqFt -= removedUse.sqft;
+        // A multi-floor use is removed from every floor it covers.
+        const { from, to } = useToRemove.span ?? { from: floorNumber, to: floorNumber };
+        for (let n = from; n <= to; n++) {
+          const spannedFloor = state.building.floors[n];
+          const useIndexToRemove = spannedFloor?.uses.findIndex(use => use.cardId === useCardIdToRemove) ?? -1;
+          if (!spannedFloor || useIndexToRemove === -1) continue;
+
+          const removedUse = spannedFloor.uses[useIndexToRemove];
+          spannedFloor.sqftUsed -= removedUse.sqft;
+          spannedFloor.score -= removedUse.impact;
+          state.building.currentTotalSqFt -= removedUse.sqft;
+          spannedFloor.uses.splice(useIndexToRemove, 1);
+
+          if (spannedFloor.uses.length === 0 && spannedFloor.sqftUsed === 0 && spannedFloor.score === 0) {
+            logDebug(`Floor ${n} is now empty after removing card use '${useCardIdToRemove}'.`, "BuildingStore");
+            // Optionally: delete state.building.floors[n]; if completely empty floors are not desired.
+          }
+        }
 
         if (state.building.currentTotalSqFt < 0) {
             logWarn(`Building total sqft became negative (${state.building.currentTotalSqFt}) after removal from floor ${floorNumber}. Setting to 0.`, "BuildingStore");
             state.building.currentTotalSqFt = 0;
         }
-
-        floor.uses.splice(useIndexToRemove, 1);
-
-        if (floor.uses.length === 0 && floor.sqftUsed === 0 && floor.score === 0) {
-          logDebug(`Floor ${floorNumber} is now empty after removing card use '${useCardIdToRemove}'.`, "BuildingStore");
-          // Optionally: delete state.building.floors[floorNumber]; if completely empty floors are not desired.
-        }
-        logDebug(`Removed card use '${useCardIdToRemove}' from floor ${floorNumber}. Floor sqftUsed=${floor.sqftUsed}, score=${floor.score}. Building total sqft: ${state.building.currentTotalSqFt}`, "BuildingStore");
+        logDebug(`Removed card use '${useCardIdToRemove}' from floors ${from}-${to}. Floor ${floorNumber} sqftUsed=${floor.sqftUsed}, score=${floor.score}. Building total sqft: ${state.building.currentTotalSqFt}`, "BuildingStore");
       });
     },
 
@@ -271,6 +286,10 @@ export const useBuildingStore = create<BuildingStoreState>()(
     getFloorData: (floorNumber: number): FloorData | undefined => {
         // Returns a direct reference; immer handles immutability within 'set' calls.
         return get().building.floors[floorNumber];
+    },
+
+    getRemainingCapacity: (floorNumber: number): number => {
+        return BUILDING_FOOTPRINT - (get().building.floors[floorNumber]?.sqftUsed ?? 0);
     }
   }))
 );
\ No newline at end of file
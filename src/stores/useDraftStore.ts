@@ -0,0 +1,114 @@
+// stores/useDraftStore.ts
+// Pre-game draft for drafted-deck games: the face-up market, whose pick it is, and the AI's picks.
+// The rules live in engine/draft.ts; this store runs them live and hands the picks to the game flow.
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { CardDefinition, PlayerRole } from '@/data/types';
+import { AI_TURN_DELAY_MS } from '@/data/constants';
+import { getCardDefinitions } from '@/data/deckData';
+import { applyDraftPick, createDraft, DraftPicks, DraftState, draftPicker, isDraftComplete, validateDraftPick } from '@/engine/draft';
+import { useAIStore } from './useAIStore';
+import { gameEvents } from '@/utils/eventBus';
+import { logDebug, logWarn } from '@/utils/logger';
+import { RandomSource } from '@/utils/random';
+import { ValidationResult, validationFailed } from '@/utils/validation';
+
+interface DraftStoreState {
+    draft: DraftState | null;      // null when no draft is running
+    humanRole: PlayerRole | null;
+    aiRole: PlayerRole | null;
+    isAIPicking: boolean;
+    rng: RandomSource;             // Seeded from the game seed: decides who picks first and jitters the AI
+    onComplete: ((picks: DraftPicks) => void) | null;
+
+    startDraft: (humanRole: PlayerRole, rng: RandomSource, onComplete: (picks: DraftPicks) => void) => void;
+    /** The human takes the stack `definitionId` from the market. */
+    pickStack: (definitionId: string) => ValidationResult;
+    aiPick: () => void;
+    resetDraft: () => void;
+
+    getMarket: () => CardDefinition[];
+    getPicks: (role: PlayerRole) => CardDefinition[];
+}
+
+type DraftDefaultState = Omit<DraftStoreState, 'startDraft' | 'pickStack' | 'aiPick' | 'resetDraft' | 'getMarket' | 'getPicks'>;
+
+const getDefaultState = (): DraftDefaultState => ({
+    draft: null,
+    humanRole: null,
+    aiRole: null,
+    isAIPicking: false,
+    rng: Math.random,
+    onComplete: null,
+});
+
+const definitionsFor = (ids: readonly string[]) => getCardDefinitions().filter(definition => ids.includes(definition.id));
+
+export const useDraftStore = create<DraftStoreState>()(
+    immer((set, get) => {
+        /** Records a pick, then either finishes the draft or lets the AI pick if it is up next. */
+        const applyPick = (role: PlayerRole, definitionId: string) => {
+            const draft = applyDraftPick(get().draft!, role, definitionId);
+            set(state => { state.draft = draft; });
+            logDebug(`[Draft] ${role} picks ${definitionId} (${draft.market.length} stacks left).`, 'Draft');
+            gameEvents.emit('draft:picked', { role, cardId: definitionId });
+
+            if (isDraftComplete(draft)) {
+                gameEvents.emit('draft:completed', { picks: draft.picks });
+                get().onComplete?.(draft.picks);
+                return;
+            }
+            if (draftPicker(draft) === get().aiRole) scheduleAIPick();
+        };
+
+        const scheduleAIPick = () => {
+            set(state => { state.isAIPicking = true; });
+            setTimeout(() => get().aiPick(), AI_TURN_DELAY_MS);
+        };
+
+        return {
+            ...getDefaultState(),
+
+            startDraft: (humanRole, rng, onComplete) => {
+                const aiRole = humanRole === PlayerRole.Developer ? PlayerRole.Community : PlayerRole.Developer;
+                const humanFirst = rng() < 0.5;
+                const draft = createDraft(getCardDefinitions(), humanFirst ? humanRole : aiRole, humanFirst ? aiRole : humanRole);
+                set(state => {
+                    Object.assign(state, getDefaultState());
+                    state.draft = draft;
+                    state.humanRole = humanRole;
+                    state.aiRole = aiRole;
+                    state.rng = rng;
+                    state.onComplete = onComplete;
+                });
+                logDebug(`[Draft] Started with ${draft.market.length} stacks; ${draft.order[0]} picks first.`, 'Draft');
+                gameEvents.emit('draft:started', { firstPicker: draft.order[0], stacks: draft.market.length });
+                if (!humanFirst) scheduleAIPick();
+            },
+            pickStack: (definitionId) => {
+                const { draft, humanRole } = get();
+                if (!draft || !humanRole) return validationFailed('No draft is running');
+                const validation = validateDraftPick(draft, humanRole, definitionId);
+                if (!validation.isValid) {
+                    logWarn(`[Draft] Pick of ${definitionId} rejected: ${validation.reason}`, 'Draft');
+                    return validation;
+                }
+                applyPick(humanRole, definitionId);
+                return validation;
+            },
+            aiPick: () => {
+                const { draft, aiRole, rng } = get();
+                set(state => { state.isAIPicking = false; });
+                if (!draft || !aiRole || draftPicker(draft) !== aiRole) return;  // Draft reset or finished while waiting
+                const market = get().getMarket();
+                const choice = useAIStore.getState().aiChooseDraftPick(market, aiRole, rng) ?? market[0];
+                applyPick(aiRole, choice.id);
+            },
+            resetDraft: () => set(getDefaultState()),
+
+            getMarket: () => definitionsFor(get().draft?.market ?? []),
+            getPicks: (role) => definitionsFor(get().draft?.picks[role] ?? []),
+        };
+    })
+);
@@ -3,12 +3,15 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { CardData, FloorState, FloorStatus, Committer, PlayerRole, CardDefinition } from "@/data/types";
-import { MAX_STORIES, RECALL_MAX_FLOOR } from '@/data/constants';
+import { CardData, FloorState, FloorStatus, Committer, PlayerRole, CardDefinition, RuleSet } from "@/data/types";
+import { STANDARD_RULES } from '@/data/rules';
+import { describeBundle, floorCards, occupyFloors, releaseFloors, validateBundlePlacement } from '@/engine/bundles';
+import { checkFloorRequirements, validateBundleRequirements } from '@/engine/floorRules';
 import { usePlayersStore } from './usePlayersStore';
 import { useBuildingStore } from './useBuildingStore';
 import { logDebug, logError, logWarn, logInfo } from '@/utils/logger';
 import { deepCopy } from '@/utils/deepCopy';
+import { ValidationResult, validationFailed } from '@/utils/validation';
 
 const logFloorAction = (message: string): void => {
     logDebug(message, 'Floors');
@@ -18,22 +21,24 @@ export interface FloorStoreState {
     // State
     floors: FloorState[];
     currentFloor: number;
+    recallMaxFloor: number;   // From the game's rule set; the floor count is floors.length
 
     // Actions
     resetFloors: () => void;
-    initializeFloors: (maxFloors?: number) => void;
+    initializeFloors: (rules?: RuleSet) => void;
     setCurrentFloor: (floorNumber: number) => void;
     setProposal: (isPlayerA: boolean, cards: CardData[] | CardData) => void;
     clearCurrentFloorProposals: () => void;
     finalizeFloor: (
         floorNumber: number,
         status: FloorStatus,
-        winnerCard?: CardData,
+        winner?: CardData[] | CardData,
         committedBy?: Committer | null
     ) => void;
     validateRecall: (floorNumber: number) => { isValid: boolean; reason: string };
     applyRecall: (floorNumber: number) => {
         recalledCard?: Readonly<CardData>;
+        recalledCards?: Readonly<CardData>[];
         ownerId?: string;
     };
     resetToDefaults: () => void;
@@ -43,9 +48,14 @@ export interface FloorStoreState {
     getFloorState: (floorNumber: number) => FloorState | undefined;
     getNextPendingFloor: () => number;
     canPlayOnFloor: (card: CardData | CardDefinition, floorNumber: number) => boolean;
+    /** Like canPlayOnFloor, with the reason when the card can't go there. */
+    checkCardOnFloor: (card: CardData | CardDefinition, floorNumber: number) => ValidationResult;
+    /** Checks a whole proposal bundle for `floorNumber`: every card's floor rules, then that it fits the building. */
+    validateBundleOnFloor: (cards: CardDefinition[], floorNumber: number) => ValidationResult;
 }
 
-const createInitialFloors = (maxFloors: number = MAX_STORIES): FloorState[] => {
+// The floors array is built from the active rule set, so its length is the building height.
+const createInitialFloors = (maxFloors: number = STANDARD_RULES.maxStories): FloorState[] => {
     logDebug(`Creating initial state for ${maxFloors} floors.`, 'Floors Init');
     return Array.from({ length: maxFloors }, (_, i) => ({
         floorNumber: i + 1,
@@ -58,9 +68,10 @@ const createInitialFloors = (maxFloors: number = MAX_STORIES): FloorState[] => {
     }));
 };
 
-const getDefaultState = (): { floors: FloorState[]; currentFloor: number } => ({
+const getDefaultState = (): { floors: FloorState[]; currentFloor: number; recallMaxFloor: number } => ({
     floors: createInitialFloors(),
     currentFloor: 1,
+    recallMaxFloor: STANDARD_RULES.recallMaxFloor,
 });
 
 export const useFloorStore = create<FloorStoreState>()(
@@ -72,9 +83,9 @@ export const useFloorStore = create<FloorStoreState>()(
             set(getDefaultState());
         },
 
-        initializeFloors: (maxFloors = MAX_STORIES) => {
-            logDebug(`Initializing floors state (max: ${maxFloors}).`, 'Floors Init');
-            set({ floors: createInitialFloors(maxFloors), currentFloor: 1 });
+        initializeFloors: (rules = STANDARD_RULES) => {
+            logDebug(`Initializing floors state (max: ${rules.maxStories}).`, 'Floors Init');
+            set({ floors: createInitialFloors(rules.maxStories), currentFloor: 1, recallMaxFloor: rules.recallMaxFloor });
         },
 
         resetToDefaults: () => {
@@ -82,7 +93,7 @@ export const useFloorStore = create<FloorStoreState>()(
         },
 
         setCurrentFloor: (floorNumber) => {
-            if (floorNumber < 1 || floorNumber > MAX_STORIES) {
+            if (floorNumber < 1 || floorNumber > get().floors.length) {
                 logError(`Attempted to set invalid current floor: ${floorNumber}`, undefined, 'Floors');
                 return;
             }
@@ -146,9 +157,10 @@ export const useFloorStore = create<FloorStoreState>()(
             });
         },
 
-        finalizeFloor: (floorNumber, status, winnerCard, committedBy = null) => {
-            logFloorAction(`Finalizing floor ${floorNumber}: Status=${status}, Card=${winnerCard?.name ?? 'N/A'}, By=${committedBy ?? 'N/A'}`);
-            const cardToStoreInFloorState = winnerCard ? deepCopy(winnerCard) : undefined;
+        finalizeFloor: (floorNumber, status, winner, committedBy = null) => {
+            const bundle = (winner === undefined ? [] : Array.isArray(winner) ? winner : [winner]).map(card => deepCopy(card));
+            logFloorAction(`Finalizing floor ${floorNumber}: Status=${status}, Cards=${bundle.length ? describeBundle(bundle) : 'N/A'}, By=${committedBy ?? 'N/A'}`);
+            const isPlaced = status === FloorStatus.Agreed && bundle.length > 0;
 
             set(state => {
                 const floor = state.floors.find(f => f.floorNumber === floorNumber);
@@ -157,15 +169,18 @@ export const useFloorStore = create<FloorStoreState>()(
                     return;
                 }
                 floor.status = status;
-                floor.winnerCard = cardToStoreInFloorState;
+                floor.winnerCard = bundle[0];
+                floor.winnerCards = bundle.length ? bundle : undefined;
                 floor.committedBy = committedBy;
                 if (status === FloorStatus.Agreed || status === FloorStatus.Skipped) {
                     floor.proposalA = undefined;
                     floor.proposalB = undefined;
                 }
             });
+            // Oversized uses grow into the floors above, which are then no longer negotiated.
+            if (isPlaced) set({ floors: occupyFloors(get().floors, floorNumber, bundle, committedBy) });
 
-            if (status === FloorStatus.Agreed && cardToStoreInFloorState?.instanceId) {
+            if (isPlaced && bundle.every(card => card.instanceId)) {
                 const buildingStore = useBuildingStore.getState();
                 const playersStore = usePlayersStore.getState();
                 let ownerRole: PlayerRole | 'neutral' = 'neutral';
@@ -175,12 +190,14 @@ export const useFloorStore = create<FloorStoreState>()(
                     ownerRole = playersStore.players[playerIndex]?.role ?? 'neutral';
                 }
                 
-                const unitsForSqFtCalc = cardToStoreInFloorState.units ?? get().getFloorState(floorNumber)?.units ?? 1;
-                logDebug(`Calling addCardToFloor for ${cardToStoreInFloorState.name} on floor ${floorNumber} with ${unitsForSqFtCalc} units. Card baseSqft expected: ${cardToStoreInFloorState.baseSqft}`, "Floors");
-                buildingStore.addCardToFloor(floorNumber, cardToStoreInFloorState, unitsForSqFtCalc, ownerRole as string);
+                bundle.forEach(card => {
+                    const unitsForSqFtCalc = card.units ?? 1;
+                    logDebug(`Calling addCardToFloor for ${card.name} on floor ${floorNumber} with ${unitsForSqFtCalc} units. Card baseSqft expected: ${card.baseSqft}`, "Floors");
+                    buildingStore.addCardToFloor(floorNumber, card, unitsForSqFtCalc, ownerRole as string);
+                });
 
-            } else if (status === FloorStatus.Agreed && !cardToStoreInFloorState?.instanceId) {
-                logWarn(`Floor ${floorNumber} finalized as Agreed, but winnerCard (or its instanceId) is missing. Sqft not added.`, 'Floors');
+            } else if (isPlaced) {
+                logWarn(`Floor ${floorNumber} finalized as Agreed, but a winning card (or its instanceId) is missing. Sqft not added.`, 'Floors');
             }
         },
 
@@ -198,17 +215,27 @@ export const useFloorStore = create<FloorStoreState>()(
                 return { isValid: false, reason: "You have no recall tokens left." };
             }
             
+            // As in the engine: a proposal left open would face its own proposer once the recalled floor is settled
+            const floorInPlay = floors.find(f => f.floorNumber === currentNegotiationFloor);
+            if (floorInPlay?.proposalA?.length || floorInPlay?.proposalB?.length) {
+                return { isValid: false, reason: `Finish the negotiation on floor ${currentNegotiationFloor} before recalling.` };
+            }
+
             const floorToRecall = floors.find(f => f.floorNumber === floorNumber);
             if (!floorToRecall) {
                 return { isValid: false, reason: `Floor ${floorNumber} data not found.` };
             }
 
-            if (RECALL_MAX_FLOOR !== undefined && floorNumber >= RECALL_MAX_FLOOR) {
-                return { isValid: false, reason: `Recall is only usable up to floor ${RECALL_MAX_FLOOR - 1}.` };
+            const { recallMaxFloor } = get();
+            if (floorNumber >= recallMaxFloor) {
+                return { isValid: false, reason: `Recall is only usable up to floor ${recallMaxFloor - 1}.` };
             }
             if (floorToRecall.status !== FloorStatus.Agreed) {
                 return { isValid: false, reason: `Floor ${floorNumber} has not been agreed upon.` };
             }
+            if (floorToRecall.spanOf !== undefined) {
+                return { isValid: false, reason: `Floor ${floorNumber} is part of the use on floor ${floorToRecall.spanOf}. Recall that floor instead.` };
+            }
             if (!floorToRecall.winnerCard?.id) {
                 return { isValid: false, reason: `Floor ${floorNumber} has no placed card to recall.` };
             }
@@ -224,8 +251,8 @@ export const useFloorStore = create<FloorStoreState>()(
             return { isValid: true, reason: "" }; // All checks passed
         },
 
-        applyRecall: (floorNumber: number): { recalledCard?: Readonly<CardData>, ownerId?: string } => {
-            let result: { recalledCard?: Readonly<CardData>, ownerId?: string } = {};
+        applyRecall: (floorNumber: number): { recalledCard?: Readonly<CardData>, recalledCards?: Readonly<CardData>[], ownerId?: string } => {
+            let result: { recalledCard?: Readonly<CardData>, recalledCards?: Readonly<CardData>[], ownerId?: string } = {};
             const floorStateFromStore = get().getFloorState(floorNumber); 
             
             // Validate again before applying, though UI should gate this.
@@ -241,7 +268,8 @@ export const useFloorStore = create<FloorStoreState>()(
                 return {};
             }
             // winnerCard check is also in validateRecall
-            const cardToRemoveFromBuildingAndReturn = floorStateFromStore.winnerCard ? deepCopy(floorStateFromStore.winnerCard) : undefined;
+            const cardsToRemoveAndReturn = floorCards(floorStateFromStore).map(card => deepCopy(card));
+            const cardToRemoveFromBuildingAndReturn = cardsToRemoveAndReturn[0];
             const originalCommitter = floorStateFromStore.committedBy;
             let ownerId: string | undefined = undefined;
 
@@ -250,9 +278,9 @@ export const useFloorStore = create<FloorStoreState>()(
                 ownerId = players[originalCommitter === Committer.PlayerA ? 0 : 1]?.id;
             }
             
-            // Remove card from building store using its unique instanceId
+            // Remove cards from building store using their unique instanceIds
             if (cardToRemoveFromBuildingAndReturn?.instanceId) {
-                useBuildingStore.getState().removeCardFromFloor(floorNumber, cardToRemoveFromBuildingAndReturn.instanceId);
+                cardsToRemoveAndReturn.forEach(card => useBuildingStore.getState().removeCardFromFloor(floorNumber, card.instanceId));
             } else {
                  logWarn(`Recall on floor ${floorNumber}: Winner card or its instanceId missing, nothing to remove from building store. Floor will still reopen.`, undefined, "Floors Recall");
             }
@@ -262,14 +290,16 @@ export const useFloorStore = create<FloorStoreState>()(
                 if (floorToRecall) {
                     floorToRecall.status = FloorStatus.Reopened;
                     floorToRecall.winnerCard = undefined; 
+                    floorToRecall.winnerCards = undefined;
                     floorToRecall.committedBy = null;
                     floorToRecall.proposalA = undefined;
                     floorToRecall.proposalB = undefined;
                     floorToRecall.units = 1; 
                 }
             });
+            set({ floors: releaseFloors(get().floors, floorNumber) });
             
-            result = { recalledCard: cardToRemoveFromBuildingAndReturn, ownerId };
+            result = { recalledCard: cardToRemoveFromBuildingAndReturn, recalledCards: cardsToRemoveAndReturn, ownerId };
             logInfo(`Floor ${floorNumber} recalled and reopened. Card '${cardToRemoveFromBuildingAndReturn?.name}' returned to owner ID ${ownerId}.`, "Floors Recall")
             return result;
         },
@@ -286,34 +316,37 @@ export const useFloorStore = create<FloorStoreState>()(
         getNextPendingFloor: (): number => {
             const { floors, currentFloor } = get();
             const nextNegotiableFloor = floors.find(f => f.floorNumber > currentFloor && (f.status === FloorStatus.Pending || f.status === FloorStatus.Reopened));
-            return nextNegotiableFloor ? nextNegotiableFloor.floorNumber : MAX_STORIES + 1;
+            return nextNegotiableFloor ? nextNegotiableFloor.floorNumber : floors.length + 1;
         },
 
-        canPlayOnFloor: (card: CardData | CardDefinition, floorNumber: number): boolean => {
+        canPlayOnFloor: (card: CardData | CardDefinition, floorNumber: number): boolean => get().checkCardOnFloor(card, floorNumber).isValid,
+
+        checkCardOnFloor: (card: CardData | CardDefinition, floorNumber: number): ValidationResult => {
             if (!card?.id) {
                 logWarn('canPlayOnFloor: Invalid card data provided.', undefined, 'FloorStore Validation');
-                return false;
-            }
-            if (floorNumber < 1 || floorNumber > MAX_STORIES) return false;
-
-            if (card.requiresFloor?.length) {
-                const allowed = card.requiresFloor.some(req => {
-                    if (typeof req === 'string') {
-                        if (req.toLowerCase() === 'ground') return floorNumber === 1;
-                        if (req.toLowerCase() === 'roof') return floorNumber === MAX_STORIES;
-                        logWarn(`Unknown string floor requirement: '${req}' for card ${card.id}`, undefined, 'FloorStore Validation');
-                        return false;
-                    }
-                    return req === floorNumber;
-                });
-                if (!allowed) return false;
+                return validationFailed('Invalid card');
             }
+            const { floors } = get();
+            if (floorNumber < 1 || floorNumber > floors.length) return validationFailed(`Floor ${floorNumber} is not in the building`);
+
+            const requirements = checkFloorRequirements(card, { floorNumber, maxStories: floors.length, floors });
+            if (!requirements.isValid) return requirements;
 
-            const floorData = get().floors.find(f => f.floorNumber === floorNumber);
+            const floorData = floors.find(f => f.floorNumber === floorNumber);
             // Card can only be played on floors that are pending or reopened for negotiation.
-            if (floorData && floorData.status !== FloorStatus.Pending && floorData.status !== FloorStatus.Reopened) return false;
-            
-            return true;
+            if (floorData && floorData.status !== FloorStatus.Pending && floorData.status !== FloorStatus.Reopened) {
+                return validationFailed(`Floor ${floorNumber} is already ${floorData.status}`);
+            }
+
+            // ...and must fit the building, including any floors above it would grow into.
+            return validateBundlePlacement(floors, floorNumber, [card]);
+        },
+
+        validateBundleOnFloor: (cards: CardDefinition[], floorNumber: number): ValidationResult => {
+            const { floors } = get();
+            const requirements = validateBundleRequirements(floors, floorNumber, cards);
+            if (!requirements.isValid) return requirements;
+            return validateBundlePlacement(floors, floorNumber, cards);
         },
     }))
 );
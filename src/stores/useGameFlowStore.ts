@@ -3,21 +3,70 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { CardData, PlayerRole, PlayerType, FloorStatus, Committer, GamePhase, CardInstance } from "@/data/types";
-import { BALANCE_THRESHOLD, RECALL_SCORE_PENALTY, MAX_STORIES, PROPOSAL_TIMER_MS, AI_TURN_DELAY_MS } from '@/data/constants';
+import { PlayerRole, PlayerType, FloorStatus, Committer, GamePhase, CardInstance, RuleSet, DeckMode, PlayerNames } from "@/data/types";
+import { AI_TURN_DELAY_MS } from '@/data/constants';
+import { STANDARD_RULES, validateRuleSet, describeRuleSet } from '@/data/rules';
+import { DEFAULT_SCENARIO, getScenario, scenarioBaseline } from '@/data/scenarios';
 import { usePlayersStore, ProposalBasketItem } from './usePlayersStore';
 import { useFloorStore } from './useFloorStore';
 import { useBuildingStore } from './useBuildingStore';
 import { useTelemetryStore } from './useTelemetryStore';
 import { useAIStore } from './useAIStore';
+import { useDraftStore } from './useDraftStore';
 import { logDebug, logError, logWarn, logInfo } from '@/utils/logger';
+import { createSeededRandom, generateSeed, RandomSource } from '@/utils/random';
+import { ValidationResult } from '@/utils/validation';
+import { axisTotals, isBalanced, scenarioAxisBaseline } from '@/engine/axes';
+import { gameWinners } from '@/engine/standings';
+import { bundleScoreImpact } from '@/engine/bundles';
+import { TIMEOUT_POLICIES } from '@/engine/timeout';
+import { EffectEvent, ongoingEffectChanges, runEffectHook } from '@/engine/effects';
+import { buildProForma, checkFeasibility } from '@/engine/finance';
+import { analyzeReachability, cardSupply, Reachability } from '@/engine/reachability';
+import { allPiles, hasPrivatePiles, isDrawPileMode } from '@/engine/deck';
+import { DraftPicks } from '@/engine/draft';
+import { OpponentEvent } from '@/ai/opponentModel';
+import { saveGameSnapshot, clearSavedGame, loadGameSnapshot, applyGameSnapshot } from '@/persistence/gameSnapshot';
+import { applyEngineOutcome, checkLiveGame, followLiveAction, followLiveBundle, holdLiveTimer, onLiveTimeout, restartLiveTimer, resumeLiveGame, startLiveGame, stopLiveGame, TurnTimeout } from '@/orchestration/liveGame';
 
 const validationFailed = (reason: string): undefined => { /* ... */ return undefined; };
 
+/** Feeds a human move to the AI's opponent model; the AI's own moves teach it nothing. */
+const observeHumanMove = (actor: { type: PlayerType }, event: OpponentEvent, card: CardInstance) => {
+    if (actor.type !== PlayerType.Human) return;
+    useAIStore.getState().observeOpponent(event, card, useBuildingStore.getState().getCurrentNetScore());
+};
+
+const winnerMessageFor = (winner: GameWinResult['winner']) =>
+    winner === 'balanced' ? 'Project BALANCED' : winner === 'infeasible' ? 'Project INFEASIBLE' : `Project FAVORS ${winner?.toUpperCase() ?? 'UNKNOWN'}`;
+
+/** The seated roles that win a game ending with `winner`, each judged by its own objective. */
+const winningRolesFor = (winner: GameWinResult['winner']): PlayerRole[] =>
+    winner ? gameWinners(usePlayersStore.getState().players.map(player => player.role), winner, useFloorStore.getState().floors) : [];
+
+/** The early end to offer: only once balance is out of reach and the score is bound to one side. */
+const earlyEndOfferFor = (reachability: Reachability): Reachability | null =>
+    !reachability.balanceReachable && reachability.winner ? reachability : null;
+
+/** Adds card effect adjustments to the live score and logs each one. */
+const applyCardEffects = (effects: EffectEvent[], logAction: (message: string) => void) => {
+    effects.forEach(effect => {
+        useBuildingStore.getState().applyScorePenalty(effect.amount);
+        logAction(`${effect.reason} (${effect.amount > 0 ? '+' : ''}${effect.amount}).`);
+    });
+};
+
+/** The cards a basket would play, read from the hand without playing them. */
+const basketCards = (hand: CardInstance[], basket: ProposalBasketItem[]): CardInstance[] =>
+    basket.flatMap(item => {
+        const stack = hand.find(c => c.instanceId === item.sourceHandInstanceId);
+        return stack ? Array.from({ length: item.count }, () => stack) : [];
+    });
+
 export interface GameWinResult { /* ... */ 
     isOver: boolean;
     reason?: string | null;
-    winner?: 'developer' | 'community' | 'balanced';
+    winner?: 'developer' | 'community' | 'balanced' | 'infeasible';
 }
 
 interface GameFlowStoreState {
@@ -26,17 +75,28 @@ interface GameFlowStoreState {
     gameLog: string[];
     gameOverReason: string | null;
     winnerMessage: string | null;
+    winningRoles: PlayerRole[] | null;   // The seated roles whose objectives the finished game met; null until it ends
     negotiationStartTime: number | null;
     proposalTimer: number | null;
     waitForPlayerAcknowledgement: boolean;
-
-    startGame: (humanPlayerRole: PlayerRole) => void;
+    seed: number | null;   // Seed of the current game; report it to reproduce a session
+    rng: RandomSource;     // Seeded source shared by the deal and the AI for the current game
+    rules: RuleSet;        // Rule set chosen at game start; every store reads the active rules from here
+    scenarioId: string;    // SCENARIOS key of the site being built; its zoning is checked at game over
+    earlyEndOffer: Reachability | null;  // Set while balance is out of reach; the player may end the game early
+
+    /** With `hotSeatNames` both seats are people sharing this device, and no AI turns are scheduled. */
+    startGame: (humanPlayerRole: PlayerRole, seed?: number, rules?: RuleSet, deckMode?: DeckMode, draft?: DraftPicks, scenarioId?: string, hotSeatNames?: PlayerNames) => void;
+    /** Opens the draft board for a drafted-deck game; the game itself starts when the draft is done. */
+    startDraft: (humanPlayerRole: PlayerRole, seed?: number, rules?: RuleSet, scenarioId?: string) => void;
     resetGame: () => void;
+    resumeGame: () => ValidationResult;
     logAction: (message: string) => void;
     proposeCard: () => void; 
     counterPropose: () => void; 
     acceptProposal: () => void;
     passProposal: () => void;
+    applyTimeout: (timeout: TurnTimeout) => void;  // The engine timed out the current turn: apply the pass or accept it resolved
     useRecallToken: (floorNumber: number) => void;
     advanceToNextFloor: () => void;
     drawCard: () => void; 
@@ -46,20 +106,18 @@ interface GameFlowStoreState {
     evaluateGameEnd: () => GameWinResult;
     determineWinner: (finalScore: number) => 'developer' | 'community' | 'balanced';
     checkImpossibleFinish: () => boolean;
-    analyzeRemainingCards: (cards: CardData[]) => {
-        maxPositiveImpact: number;
-        maxNegativeImpact: number;
-        topPositiveCards: CardData[];
-        topNegativeCards: CardData[];
-    };
+    analyzeRemainingCards: () => Reachability;
+    endGameEarly: () => void;
+    dismissEarlyEnd: () => void;
 }
 
 // Corrected Omit type usage
 type GameFlowDefaultState = Omit<GameFlowStoreState, 
-    'startGame' | 'resetGame' | 'logAction' | 'proposeCard' | 'counterPropose' | 
-    'acceptProposal' | 'passProposal' | 'useRecallToken' | 'advanceToNextFloor' | 
+    'startGame' | 'startDraft' | 'resetGame' | 'resumeGame' | 'logAction' | 'proposeCard' | 'counterPropose' | 
+    'acceptProposal' | 'passProposal' | 'applyTimeout' | 'useRecallToken' | 'advanceToNextFloor' | 
     'drawCard' | 'playerAcknowledgeAndContinue' | 'canAccessDeckSelector' | 
-    'evaluateGameEnd' | 'determineWinner' | 'checkImpossibleFinish' | 'analyzeRemainingCards'
+    'evaluateGameEnd' | 'determineWinner' | 'checkImpossibleFinish' | 'analyzeRemainingCards' |
+    'endGameEarly' | 'dismissEarlyEnd'
 >;
 
 const getDefaultState = (): GameFlowDefaultState => ({
@@ -68,37 +126,70 @@ const getDefaultState = (): GameFlowDefaultState => ({
     gameLog: ["Welcome to Urban Balance"],
     gameOverReason: null,
     winnerMessage: null,
+    winningRoles: null,
     negotiationStartTime: null,
-    proposalTimer: PROPOSAL_TIMER_MS,
+    proposalTimer: STANDARD_RULES.proposalTimerMs,
     waitForPlayerAcknowledgement: false,
+    seed: null,
+    rng: Math.random,
+    rules: STANDARD_RULES,
+    scenarioId: DEFAULT_SCENARIO,
+    earlyEndOffer: null,
 });
 
 export const useGameFlowStore = create<GameFlowStoreState>()(
     immer((set, get) => ({
         ...getDefaultState(),
 
-        startGame: (humanPlayerRole) => { /* ... (Implementation from previous correct version) ... */ 
+        startGame: (humanPlayerRole, seed, requestedRules, deckMode = 'openDraft', draft, scenarioId = DEFAULT_SCENARIO, hotSeatNames) => { /* ... (Implementation from previous correct version) ... */ 
+            let rules = requestedRules ?? STANDARD_RULES;
+            const rulesCheck = validateRuleSet(rules);
+            if (!rulesCheck.isValid) {
+                logWarn(`Invalid rule set (${rulesCheck.reason}); starting with Standard rules.`, 'GameFlow Start');
+                rules = STANDARD_RULES;
+            }
+            const gameSeed = seed ?? generateSeed();
+            const rng = createSeededRandom(gameSeed);
+            const scenario = getScenario(scenarioId);
+            const aiRole = humanPlayerRole === PlayerRole.Developer ? PlayerRole.Community : PlayerRole.Developer;
+            set(state => { state.seed = gameSeed; state.rng = rng; state.rules = rules; state.scenarioId = scenarioId; });
+            // The engine follows along from the same seed, to record the replay and keep the turn clock.
+            startLiveGame({ type: 'START_GAME', humanRole: humanPlayerRole, aiRole, seed: gameSeed, rules, deckMode, draft, scenario: scenarioId, opponent: hotSeatNames ? PlayerType.Human : PlayerType.AI });
+            holdLiveTimer();
+            logInfo(`Starting game with seed ${gameSeed} under ${describeRuleSet(rules)} rules on a ${scenario.label.toLowerCase()}.`, 'GameFlow Start');
+            clearSavedGame();
+
             usePlayersStore.getState().resetToDefaults();
             useFloorStore.getState().resetFloors();
-            useBuildingStore.getState().resetBuilding();
+            useBuildingStore.getState().resetBuilding(scenarioBaseline(scenarioId));
             useTelemetryStore.getState().resetTelemetry();
-            usePlayersStore.getState().initializePlayers(humanPlayerRole);
-            useFloorStore.getState().initializeFloors(MAX_STORIES);
+            useAIStore.getState().resetOpponentModel();
+            usePlayersStore.getState().initializePlayers(humanPlayerRole, rng, rules, hotSeatNames);
+            usePlayersStore.getState().setupDeck(deckMode, rng, gameSeed, draft);
+            useFloorStore.getState().initializeFloors(rules);
 
             const { getCurrentPlayer, players } = usePlayersStore.getState();
             const currentPlayer = getCurrentPlayer();
             const isCurrentlyAiTurn = currentPlayer?.type === PlayerType.AI;
-            const aiRole = humanPlayerRole === PlayerRole.Developer ? PlayerRole.Community : PlayerRole.Developer;
             const { baselineScore } = useBuildingStore.getState().building;
             const recallTokens = players[0]?.recallTokens ?? 0; 
+            const { drawPile } = usePlayersStore.getState();
 
             const startMessages = [
-                `Game started. You: ${humanPlayerRole}. AI: ${aiRole}.`,
-                `Starting score: ${baselineScore >= 0 ? '+' : ''}${baselineScore} (city climate requirements).`,
+                hotSeatNames
+                    ? `Game started on one device: ${players.map(player => `${player.name} (${player.role})`).join(' vs ')}. Pass the device when the turn changes.`
+                    : `Game started. You: ${humanPlayerRole}. AI: ${aiRole}.`,
+                `Site: ${scenario.label}. Starting score: ${baselineScore >= 0 ? '+' : ''}${baselineScore} (mandatory site requirements).`,
+                ...(scenario.zoning.length > 0 ? [`Zoning: ${scenario.zoning.map(requirement => requirement.label).join('; ')}.`] : []),
                 `${players[0]?.name} is Player A (leads odd blocks).`,
                 `${players[1]?.name} is Player B (leads even blocks).`,
                 `Each player has ${recallTokens} recall tokens.`,
-                `Goal: Keep final score within ±${BALANCE_THRESHOLD} for a balanced project.`,
+                hasPrivatePiles(deckMode)
+                    ? `Each player draws from a shuffled pile of the cards they drafted (${players.map(player => `${player.name}: ${player.drawPile?.length ?? 0}`).join(', ')}).`
+                    : isDrawPileMode(deckMode)
+                    ? `Cards are drawn from a shuffled pile of ${drawPile.length}; displaced and recalled cards are discarded.`
+                    : `Open draft: any card can be drawn.`,
+                `Goal: Keep final score within ±${rules.balanceThreshold}${rules.axisBalanceThreshold !== undefined ? ` and every impact axis within ±${rules.axisBalanceThreshold}` : ''} for a balanced project.`,
                 `--- Floor 1: ${currentPlayer?.name}'s Turn to Propose ---`
             ];
             
@@ -108,14 +199,18 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 state.gameLog = [...startMessages].reverse();
                 state.gameOverReason = null;
                 state.winnerMessage = null;
+                state.winningRoles = null;
                 state.negotiationStartTime = Date.now();
-                state.proposalTimer = PROPOSAL_TIMER_MS;
+                state.proposalTimer = get().rules.proposalTimerMs;
                 state.waitForPlayerAcknowledgement = false;
+                state.earlyEndOffer = null;
             });
             startMessages.forEach(msg => logDebug(msg, 'GameFlow Start'));
 
-            usePlayersStore.getState().dealInitialCards().then(success => {
+            usePlayersStore.getState().dealInitialCards(rng, rules.initialHandSize).then(success => {
                 if (!success) { logError("Initial card dealing failed.", 'GameFlow Start'); return; }
+                checkLiveGame();
+                restartLiveTimer();
                 const currentPhase = get().gamePhase;
                 const currentIsAiTurn = get().isAiTurn;
                 if (currentPhase === GamePhase.Playing && currentIsAiTurn) {
@@ -125,12 +220,64 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 }
             });
         },
+        startDraft: (humanPlayerRole, seed, requestedRules, scenarioId) => {
+            let rules = requestedRules ?? STANDARD_RULES;
+            const rulesCheck = validateRuleSet(rules);
+            if (!rulesCheck.isValid) {
+                logWarn(`Invalid rule set (${rulesCheck.reason}); drafting with Standard rules.`, 'GameFlow Draft');
+                rules = STANDARD_RULES;
+            }
+            const gameSeed = seed ?? generateSeed();
+            set(state => {
+                state.gamePhase = GamePhase.Drafting;
+                state.seed = gameSeed;
+                state.rules = rules;
+                state.gameLog = [`Draft started. Pick card stacks in turn with the AI; yours become your draw pile.`];
+            });
+            logInfo(`Starting draft with seed ${gameSeed} under ${describeRuleSet(rules)} rules.`, 'GameFlow Draft');
+            // The game is started with the same seed once the draft is done, so the draft and the game replay together.
+            useDraftStore.getState().startDraft(humanPlayerRole, createSeededRandom(gameSeed), draft =>
+                get().startGame(humanPlayerRole, gameSeed, rules, 'drafted', draft, scenarioId));
+        },
         resetGame: () => { /* ... (Implementation from previous correct version) ... */ 
             logDebug(`Game reset requested.`, 'GameFlow');
+            useDraftStore.getState().resetDraft();
             const telemetryState = useTelemetryStore.getState() as any; 
             if (typeof telemetryState.clear === 'function') telemetryState.clear(); 
+            clearSavedGame();
+            stopLiveGame();
             set(getDefaultState());
         },
+        resumeGame: () => {
+            const result = loadGameSnapshot();
+            if (!result.isValid || !result.snapshot) {
+                logWarn(`Cannot resume saved game: ${result.reason}`, 'GameFlow Resume');
+                return result;
+            }
+            const { snapshot } = result;
+            applyGameSnapshot(snapshot);
+
+            // The RNG position is not persisted, so a resumed game continues on a fresh stream from its seed.
+            const gameSeed = snapshot.gameFlow.seed ?? generateSeed();
+            const reachability = get().analyzeRemainingCards();
+            set(state => {
+                state.seed = gameSeed;
+                state.rng = createSeededRandom(gameSeed);
+                state.negotiationStartTime = Date.now();
+                state.proposalTimer = get().rules.proposalTimerMs;
+                state.earlyEndOffer = earlyEndOfferFor(reachability);
+            });
+            get().logAction(`Game resumed from save of ${new Date(snapshot.savedAt).toLocaleString()}.`);
+            if (!resumeLiveGame(snapshot.replay)) logInfo('The saved game has no replay to continue; it is played on without one, and without a turn timer.', 'GameFlow Resume');
+            if (!get().waitForPlayerAcknowledgement) restartLiveTimer();
+
+            if (get().gamePhase === GamePhase.Playing && get().isAiTurn && !get().waitForPlayerAcknowledgement) {
+                setTimeout(() => {
+                    if (get().gamePhase === GamePhase.Playing && get().isAiTurn) useAIStore.getState().aiPlayTurn();
+                }, AI_TURN_DELAY_MS);
+            }
+            return result;
+        },
         logAction: (message) => { /* ... (Implementation from previous correct version) ... */ 
             logDebug(message, 'GameEvent');
             set(state => { state.gameLog = [`(${new Date().toLocaleTimeString()}) ${message}`, ...state.gameLog.slice(0, 99)]; });
@@ -158,6 +305,12 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const proposalBasket = getCurrentProposalBasket(); 
             if (proposalBasket.length === 0) return validationFailed('No cards selected/counted for proposal.');
 
+            const placement = floorState.validateBundleOnFloor(basketCards(player.hand, proposalBasket), currentFloor);
+            if (!placement.isValid) {
+                get().logAction(placement.reason);
+                return validationFailed(placement.reason);
+            }
+
             const cardsToActuallyPropose: CardInstance[] = [];
             let proposalSuccessful = true;
 
@@ -180,6 +333,10 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             }
 
             floorState.setProposal(checkIsPlayerA(player), cardsToActuallyPropose); 
+            applyCardEffects(runEffectHook('onPropose', cardsToActuallyPropose, floorState.floors, currentFloor, get().rules), get().logAction);
+            followLiveBundle('PROPOSE_CARD', player.id, cardsToActuallyPropose);
+            const [proposedCard] = cardsToActuallyPropose;
+            observeHumanMove(player, { type: 'PROPOSAL_MADE', playerId: player.id, cardInstanceId: proposedCard.instanceId, cardId: proposedCard.id, floor: currentFloor, cardName: proposedCard.name }, proposedCard);
             const proposalSummary = cardsToActuallyPropose.map(c => c.name).join(', ');
             get().logAction(`${player.name} proposes: ${proposalSummary} (total ${cardsToActuallyPropose.length} instances) for floor ${currentFloor}.`);
             
@@ -195,7 +352,7 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             set(state => { 
                 state.isAiTurn = isNowAiTurn; 
                 state.negotiationStartTime = Date.now(); 
-                state.proposalTimer = PROPOSAL_TIMER_MS; 
+                state.proposalTimer = get().rules.proposalTimerMs; 
             });
             get().logAction(`${responder.name} to accept, counter, or pass.`);
 
@@ -222,6 +379,12 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const counterBasket = getCurrentCounterProposalBasket(); 
             if (counterBasket.length === 0) return validationFailed('No cards selected/counted for counter-proposal.');
 
+            const placement = floorState.validateBundleOnFloor(basketCards(currentPlayer.hand, counterBasket), currentFloor);
+            if (!placement.isValid) {
+                get().logAction(placement.reason);
+                return validationFailed(placement.reason);
+            }
+
             const cardsToActuallyCounter: CardInstance[] = [];
             let counterSuccessful = true;
 
@@ -244,6 +407,10 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             }
 
             floorState.setProposal(checkIsPlayerA(currentPlayer), cardsToActuallyCounter);
+            applyCardEffects(runEffectHook('onPropose', cardsToActuallyCounter, floorState.floors, currentFloor, get().rules), get().logAction);
+            followLiveBundle('COUNTER_PROPOSE', currentPlayer.id, cardsToActuallyCounter);
+            const [counterCard] = cardsToActuallyCounter;
+            observeHumanMove(currentPlayer, { type: 'COUNTER_MADE', playerId: currentPlayer.id, cardInstanceId: counterCard.instanceId, cardId: counterCard.id, floor: currentFloor, cardName: counterCard.name }, counterCard);
             const counterSummary = cardsToActuallyCounter.map(c => c.name).join(', ');
             get().logAction(`${currentPlayer.name} counter-proposes: ${counterSummary} (total ${cardsToActuallyCounter.length} instances) for floor ${currentFloor}.`);
             
@@ -259,7 +426,7 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             set(state => { 
                 state.isAiTurn = isNowAiTurn; 
                 state.negotiationStartTime = Date.now(); 
-                state.proposalTimer = PROPOSAL_TIMER_MS; 
+                state.proposalTimer = get().rules.proposalTimerMs; 
             });
             get().logAction(`${lead.name} to accept counter-offer or pass.`);
 
@@ -300,8 +467,16 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const primaryWinnerCard = acceptedProposalArray[0]; 
             const acceptedCardsSummary = acceptedProposalArray.map(c => c.name).join(' + ');
             get().logAction(`${currentPlayer.name} accepted proposal: [${acceptedCardsSummary}] for floor ${currentFloor}.`);
+            observeHumanMove(currentPlayer, { type: 'PROPOSAL_ACCEPTED', acceptedBy: currentPlayer.id, committedBy: committer, cardInstanceId: primaryWinnerCard.instanceId, cardId: primaryWinnerCard.id, floor: currentFloor, cardName: primaryWinnerCard.name }, primaryWinnerCard);
             
-            finalizeFloor(currentFloor, FloorStatus.Agreed, primaryWinnerCard, committer); 
+            const { rules } = get();
+            applyCardEffects(runEffectHook('onAccept', acceptedProposalArray, floorState.floors, currentFloor, rules), get().logAction);
+            finalizeFloor(currentFloor, FloorStatus.Agreed, acceptedProposalArray, committer); 
+            playerState.discardCards((acceptedProposalArray === proposalA_Instances ? proposalB_Instances : proposalA_Instances) ?? []);
+            const floorsAfter = useFloorStore.getState().floors;
+            applyCardEffects(runEffectHook('onFinalize', acceptedProposalArray, floorsAfter, currentFloor, rules), get().logAction);
+            applyCardEffects(ongoingEffectChanges(floorState.floors, floorsAfter, rules), get().logAction);
+            followLiveAction({ type: 'ACCEPT_PROPOSAL', playerId: currentPlayer.id });
 
             if (get().negotiationStartTime) useTelemetryStore.getState().recordNegotiationTime(currentFloor, Math.round((Date.now() - get().negotiationStartTime!) / 1000));
 
@@ -310,9 +485,11 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 set(state => { 
                     state.gamePhase = GamePhase.GameOver; 
                     state.gameOverReason = gameEndResult.reason ?? null; 
-                    state.winnerMessage = gameEndResult.winner === 'balanced' ? 'Project BALANCED' : `Project FAVORS ${gameEndResult.winner?.toUpperCase() ?? 'UNKNOWN'}`; 
+                    state.winnerMessage = winnerMessageFor(gameEndResult.winner); 
+                    state.winningRoles = winningRolesFor(gameEndResult.winner);
                 });
-                if (gameEndResult.winner) useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                if (gameEndResult.winner && gameEndResult.winner !== 'infeasible') useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                clearSavedGame();
                 return;
             }
 
@@ -323,6 +500,8 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                     state.waitForPlayerAcknowledgement = true;
                     state.isAiTurn = false; 
                 });
+                holdLiveTimer();
+                saveGameSnapshot();
                 return; 
             }
             
@@ -346,6 +525,7 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const proposalA_Instances = currentFloorData.proposalA; 
             const proposalB_Instances = currentFloorData.proposalB;
             let finalPrimaryWinnerCard: CardInstance | undefined = undefined; 
+            let finalWinnerCards: CardInstance[] | undefined = undefined;
             let finalStatus: FloorStatus; 
             let finalCommitter: Committer | null = null;
 
@@ -353,16 +533,19 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 const primaryCardA = proposalA_Instances[0]; 
                 const primaryCardB = proposalB_Instances[0];
                 const currentScore = buildingState.getCurrentNetScore();
-                finalPrimaryWinnerCard = Math.abs(currentScore + (primaryCardA.netScoreImpact || 0)) <= Math.abs(currentScore + (primaryCardB.netScoreImpact || 0)) ? primaryCardA : primaryCardB;
-                finalCommitter = finalPrimaryWinnerCard === primaryCardA ? Committer.PlayerA : Committer.PlayerB;
+                finalWinnerCards = Math.abs(currentScore + bundleScoreImpact(proposalA_Instances)) <= Math.abs(currentScore + bundleScoreImpact(proposalB_Instances)) ? proposalA_Instances : proposalB_Instances;
+                finalPrimaryWinnerCard = finalWinnerCards[0];
+                finalCommitter = finalWinnerCards === proposalA_Instances ? Committer.PlayerA : Committer.PlayerB;
                 finalStatus = FloorStatus.Agreed; 
                 get().logAction(`${currentPlayer.name} passes. AI mediator selected proposal with ${finalPrimaryWinnerCard.name} (from Player ${finalCommitter}).`);
             } else if (proposalA_Instances?.length) { 
+                finalWinnerCards = proposalA_Instances;
                 finalPrimaryWinnerCard = proposalA_Instances[0]; 
                 finalCommitter = Committer.PlayerA; 
                 finalStatus = FloorStatus.Agreed; 
                 get().logAction(`${currentPlayer.name} passes. Proposal with ${finalPrimaryWinnerCard.name} (from Player A) automatically accepted.`); 
             } else if (proposalB_Instances?.length) { 
+                finalWinnerCards = proposalB_Instances;
                 finalPrimaryWinnerCard = proposalB_Instances[0]; 
                 finalCommitter = Committer.PlayerB; 
                 finalStatus = FloorStatus.Agreed; 
@@ -372,7 +555,14 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 finalStatus = FloorStatus.Skipped; 
                 get().logAction(`${currentPlayer.name} passes. Skipping floor ${currentFloor}.`); 
             }
-            finalizeFloor(currentFloor, finalStatus, finalPrimaryWinnerCard, finalCommitter); 
+            finalizeFloor(currentFloor, finalStatus, finalWinnerCards, finalCommitter); 
+            [proposalA_Instances, proposalB_Instances].forEach(proposal => { if (proposal && proposal !== finalWinnerCards) playerState.discardCards(proposal); });
+            if (finalWinnerCards) {
+                const floorsAfter = useFloorStore.getState().floors;
+                applyCardEffects(runEffectHook('onFinalize', finalWinnerCards, floorsAfter, currentFloor, get().rules), get().logAction);
+                applyCardEffects(ongoingEffectChanges(floorState.floors, floorsAfter, get().rules), get().logAction);
+            }
+            followLiveAction({ type: 'PASS_PROPOSAL', playerId: currentPlayer.id });
 
             if (get().negotiationStartTime) useTelemetryStore.getState().recordNegotiationTime(currentFloor, Math.round((Date.now() - get().negotiationStartTime!) / 1000));
 
@@ -381,9 +571,11 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                  set(state => { 
                     state.gamePhase = GamePhase.GameOver; 
                     state.gameOverReason = gameEndResult.reason ?? null; 
-                    state.winnerMessage = gameEndResult.winner === 'balanced' ? 'Project BALANCED' : `Project FAVORS ${gameEndResult.winner?.toUpperCase() ?? 'UNKNOWN'}`; 
+                    state.winnerMessage = winnerMessageFor(gameEndResult.winner); 
+                    state.winningRoles = winningRolesFor(gameEndResult.winner);
                 });
-                if (gameEndResult.winner) useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                if (gameEndResult.winner && gameEndResult.winner !== 'infeasible') useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                clearSavedGame();
                 return;
             }
 
@@ -395,10 +587,32 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                     state.waitForPlayerAcknowledgement = true;
                     state.isAiTurn = false; 
                 });
+                holdLiveTimer();
+                saveGameSnapshot();
                 return;
             }
             get().advanceToNextFloor();
         },
+        applyTimeout: ({ playerId, policy, resolution, recallTokenForfeited }) => {
+            const playerState = usePlayersStore.getState();
+            const playerIndex = playerState.players.findIndex(p => p.id === playerId);
+            const player = playerState.players[playerIndex];
+            if (get().gamePhase !== GamePhase.Playing || get().waitForPlayerAcknowledgement || !player || playerIndex !== playerState.currentPlayerIndex) {
+                stopLiveGame(`the engine timed out ${playerId}, whose turn it is not here`);
+                return;
+            }
+            get().logAction(`${player.name} ran out of time (${TIMEOUT_POLICIES[policy].label.toLowerCase()})${recallTokenForfeited ? ' and forfeits a recall token' : ''}.`);
+
+            // The engine has already resolved the turn; the stores only catch up.
+            applyEngineOutcome(() => {
+                const { currentFloor } = useFloorStore.getState();
+                if (resolution === 'accept') get().acceptProposal();
+                else get().passProposal();
+                // The token goes with the pass, so it is only taken once the floor has been decided.
+                const status = useFloorStore.getState().getFloorState(currentFloor)?.status;
+                if (recallTokenForfeited && (status === FloorStatus.Agreed || status === FloorStatus.Skipped)) playerState.decrementRecallToken(playerIndex);
+            });
+        },
         useRecallToken: (floorNumber: number) => { /* ... (Implementation from previous correct version) ... */ 
              logDebug(`useRecallToken: floor ${floorNumber}`, 'GameFlow Recall');
             if (get().gamePhase !== GamePhase.Playing || get().waitForPlayerAcknowledgement) return validationFailed('Game not active or waiting for acknowledgement.');
@@ -419,16 +633,24 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                     return validationFailed(`Recall validation: ${recallValidation.reason}`);
                 }
 
-                playerState.decrementRecallToken(playerState.currentPlayerIndex);
+                // The token is spent once the floor has reopened: applyRecall validates again, and a player's last token must still count
                 const recalledInfo = floorStateHook.applyRecall(floorNumber);
-                if (recalledInfo?.recalledCard && recalledInfo.ownerId) {
-                    const ownerIndex = playerState.players.findIndex(p => p.id === recalledInfo.ownerId);
-                    if (ownerIndex !== -1) playerState.addCardToHand(ownerIndex, recalledInfo.recalledCard);
-                    else logWarn(`Could not find owner for recalled card.`, 'GameFlow Recall');
+                playerState.decrementRecallToken(playerState.currentPlayerIndex);
+                applyCardEffects(ongoingEffectChanges(floorStateHook.floors, useFloorStore.getState().floors, get().rules), get().logAction);
+                if (recalledInfo?.recalledCards?.length && isDrawPileMode(playerState.deckMode)) {
+                    playerState.discardCards(recalledInfo.recalledCards);
+                } else {
+                    // Each card goes back to the player who played it, as in the engine
+                    recalledInfo?.recalledCards?.forEach(card => {
+                        const ownerIndex = playerState.players.findIndex(p => p.id === (card.ownerId ?? recalledInfo.ownerId));
+                        if (ownerIndex !== -1) playerState.addCardToHand(ownerIndex, card);
+                        else logWarn(`Could not find owner for recalled card.`, 'GameFlow Recall');
+                    });
                 }
 
                 const buildingState = useBuildingStore.getState();
-                const scorePenalty = currentPlayerForRecall.role === PlayerRole.Community ? RECALL_SCORE_PENALTY : -RECALL_SCORE_PENALTY;
+                const { recallScorePenalty } = get().rules;
+                const scorePenalty = currentPlayerForRecall.role === PlayerRole.Community ? recallScorePenalty : -recallScorePenalty;
                 buildingState.applyScorePenalty(scorePenalty);
                 get().logAction(`${currentPlayerForRecall.name} used recall. Penalty: ${scorePenalty}. New score: ${buildingState.getCurrentNetScore()}.`);
                 useTelemetryStore.getState().recordRecallUsed(currentPlayerForRecall.role);
@@ -441,13 +663,16 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 if (nextPlayerIndex === -1) return validationFailed('Cannot find lead player index post-recall.');
                 
                 playerState.setCurrentPlayerIndex(nextPlayerIndex);
+                followLiveAction({ type: 'USE_RECALL', playerId: currentPlayerForRecall.id, floorNumber });
                 const isNowAiTurnAfterRecall = leadPlayer.type === PlayerType.AI;
                 set(state => { 
                     state.isAiTurn = isNowAiTurnAfterRecall; 
                     state.negotiationStartTime = Date.now(); 
-                    state.proposalTimer = PROPOSAL_TIMER_MS; 
+                    state.proposalTimer = get().rules.proposalTimerMs; 
                 });
                 get().logAction(`Returning to floor ${floorNumber}. ${leadPlayer.name} to propose.`);
+                const reachability = get().analyzeRemainingCards();
+                set(state => { state.earlyEndOffer = earlyEndOfferFor(reachability); });
 
                 if (isNowAiTurnAfterRecall) {
                     setTimeout(() => { 
@@ -482,9 +707,11 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
                 set(state => { 
                     state.gamePhase = GamePhase.GameOver; 
                     state.gameOverReason = gameEndResult.reason ?? null; 
-                    state.winnerMessage = gameEndResult.winner === 'balanced' ? 'Project BALANCED' : `Project FAVORS ${gameEndResult.winner?.toUpperCase() ?? 'UNKNOWN'}`; 
+                    state.winnerMessage = winnerMessageFor(gameEndResult.winner); 
+                    state.winningRoles = winningRolesFor(gameEndResult.winner);
                 });
-                if (gameEndResult.winner) useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                if (gameEndResult.winner && gameEndResult.winner !== 'infeasible') useTelemetryStore.getState().recordWin(gameEndResult.winner);
+                clearSavedGame();
                 return;
             }
             get().advanceToNextFloor();
@@ -498,16 +725,19 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const nextFloor = floorState.getNextPendingFloor();
             logDebug(`Advancing. Current: ${floorState.currentFloor}, Next pending: ${nextFloor}`, 'GameFlow Advance');
 
-            if (MAX_STORIES > 0 && nextFloor > MAX_STORIES) {
-                 logWarn(`AdvanceToNextFloor: nextFloor (${nextFloor}) is beyond MAX_STORIES (${MAX_STORIES}) but game not flagged as over. This implies no more pending floors. Ending game.`, "GameFlow");
+            const { maxStories } = get().rules;
+            if (maxStories > 0 && nextFloor > maxStories) {
+                 logWarn(`AdvanceToNextFloor: nextFloor (${nextFloor}) is beyond maxStories (${maxStories}) but game not flagged as over. This implies no more pending floors. Ending game.`, "GameFlow");
                  const finalScore = useBuildingStore.getState().getCurrentNetScore();
                  const winnerType = get().determineWinner(finalScore);
                  set(state => { 
                     state.gamePhase = GamePhase.GameOver; 
                     state.gameOverReason = "All playable floors completed or building reached max height.";
                     state.winnerMessage = winnerType === 'balanced' ? 'Project BALANCED' : `Project FAVORS ${winnerType.toUpperCase()}`;
+                    state.winningRoles = winningRolesFor(winnerType);
                  });
                  useTelemetryStore.getState().recordWin(winnerType);
+                 clearSavedGame();
                 return;
             }
 
@@ -531,9 +761,15 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             set(state => { 
                 state.isAiTurn = isNowAiTurn; 
                 state.negotiationStartTime = Date.now(); 
-                state.proposalTimer = PROPOSAL_TIMER_MS; 
+                state.proposalTimer = get().rules.proposalTimerMs; 
             });
             get().logAction(`Moving to floor ${nextFloor}. ${leadPlayer.name} to propose.`);
+            restartLiveTimer();
+            // Balance going out of reach does not end the game; the player is offered an early end instead.
+            const reachability = get().analyzeRemainingCards();
+            set(state => { state.earlyEndOffer = earlyEndOfferFor(reachability); });
+            if (!reachability.balanceReachable) get().logAction(reachability.explanation);
+            saveGameSnapshot();
 
             if (isNowAiTurn) {
                 setTimeout(() => { 
@@ -547,7 +783,7 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             if (get().gamePhase !== GamePhase.Playing || get().isAiTurn || get().waitForPlayerAcknowledgement) return false;
              const playerState = usePlayersStore.getState();
              if (playerState.cardsBeingDealt) return false; 
-             if (!playerState.getHumanPlayer()) return false; 
+             if (!playerState.getSeatedPlayer()) return false; 
              return true; 
         },
         evaluateGameEnd: () => {
@@ -556,17 +792,20 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             const { players, deckCardDefinitions } = usePlayersStore.getState();
             const finalScore = getCurrentNetScore();
             
-            // Corrected: MAX_STORIES comparison for game end logic
-            if (MAX_STORIES <= 0) { 
-                // Game ends immediately if MAX_STORIES isn't positive, assuming setup validation or specific rule.
-                return { isOver: true, reason: `Game setup with MAX_STORIES=${MAX_STORIES}. Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
+            // Corrected: maxStories comparison for game end logic
+            const { maxStories } = get().rules;
+            if (maxStories <= 0) { 
+                // Game ends immediately if maxStories isn't positive, assuming setup validation or specific rule.
+                return { isOver: true, reason: `Game setup with maxStories=${maxStories}. Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
             }
 
-            const lastFloorData = floors.find(f => f.floorNumber === MAX_STORIES);
+            const lastFloorData = floors.find(f => f.floorNumber === maxStories);
             const lastFloorFinalized = !!lastFloorData && (lastFloorData.status === FloorStatus.Agreed || lastFloorData.status === FloorStatus.Skipped);
 
-            if ((currentFloor > MAX_STORIES) || (currentFloor === MAX_STORIES && lastFloorFinalized)) {
-                return { isOver: true, reason: `Building complete (${MAX_STORIES} floors). Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
+            if ((currentFloor > maxStories) || (currentFloor === maxStories && lastFloorFinalized)) {
+                const feasibility = checkFeasibility(buildProForma(floors), get().rules);
+                if (!feasibility.isValid) return { isOver: true, reason: `${feasibility.reason}. Final Score: ${finalScore}`, winner: 'infeasible' };
+                return { isOver: true, reason: `Building complete (${maxStories} floors). Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
             }
             
             // For infinite deck, "no cards left" isn't a primary game end condition unless no player can make a move.
@@ -577,15 +816,59 @@ export const useGameFlowStore = create<GameFlowStoreState>()(
             //     return { isOver: true, reason: `No cards left (finite deck). Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
             // }
 
-            if (get().checkImpossibleFinish()) { // This becomes more important for game end with infinite deck
-                return { isOver: true, reason: `Achieving balance is impossible. Final Score: ${finalScore}`, winner: get().determineWinner(finalScore) };
-            }
+            // Balance being out of reach (checkImpossibleFinish) is offered as an early end by advanceToNextFloor, not forced here.
             return { isOver: false };
         },
-        determineWinner: (finalScore) => (Math.abs(finalScore) <= BALANCE_THRESHOLD ? 'balanced' : (finalScore > BALANCE_THRESHOLD ? 'community' : 'developer')),
-        checkImpossibleFinish: () => { /* ... (This needs a robust implementation based on game rules) ... */ return false; },
-        analyzeRemainingCards: (cards) => { /* ... (This needs a robust implementation) ... */ return { maxPositiveImpact: 0, maxNegativeImpact: 0, topPositiveCards: [], topNegativeCards: []}; }
+        determineWinner: (finalScore) => {
+            const totals = axisTotals(useFloorStore.getState().floors, scenarioAxisBaseline(get().scenarioId));
+            return isBalanced(finalScore, totals, get().rules) ? 'balanced' : (finalScore > 0 ? 'community' : 'developer');
+        },
+        checkImpossibleFinish: () => !get().analyzeRemainingCards().balanceReachable,
+        analyzeRemainingCards: () => {
+            const { players, deckCardDefinitions, deckMode, drawPile, discardPile } = usePlayersStore.getState();
+            const piles = allPiles(players, { drawPile, discardPile }, deckMode);
+            const { floors } = useFloorStore.getState();
+            const recallTokens = players.reduce((sum, player) => sum + player.recallTokens, 0);
+            const hands = players.map(player => player.hand);
+            // In draw pile mode only the cards in the game can come back: the piles and what is on the table.
+            const supply = isDrawPileMode(deckMode)
+                ? cardSupply([...hands, ...piles, ...floors.flatMap(floor => [floor.proposalA ?? [], floor.proposalB ?? []])], [])
+                : cardSupply(hands, deckCardDefinitions);
+            const axes = axisTotals(floors, scenarioAxisBaseline(get().scenarioId));
+            return analyzeReachability(floors, useBuildingStore.getState().getCurrentNetScore(), axes, supply, recallTokens, get().rules);
+        },
+        endGameEarly: () => {
+            if (get().gamePhase !== GamePhase.Playing || !get().earlyEndOffer) return;
+            // Re-check rather than trust the offer: the position may have changed since it was made.
+            const reachability = get().analyzeRemainingCards();
+            if (reachability.balanceReachable || !reachability.winner) {
+                set(state => { state.earlyEndOffer = null; });
+                get().logAction(reachability.balanceReachable ? 'Balance is within reach again; the game goes on.' : 'The score can still end on either side; the game goes on.');
+                return;
+            }
+            const winner = reachability.winner;
+            const finalScore = useBuildingStore.getState().getCurrentNetScore();
+            const endedBy = usePlayersStore.getState().getSeatedPlayer();
+            if (endedBy) followLiveAction({ type: 'END_GAME_EARLY', playerId: endedBy.id });
+            set(state => {
+                state.gamePhase = GamePhase.GameOver;
+                state.gameOverReason = `Ended early. ${reachability.explanation} Final Score: ${finalScore}`;
+                state.winnerMessage = winnerMessageFor(winner);
+                state.winningRoles = winningRolesFor(winner);
+                state.earlyEndOffer = null;
+            });
+            useTelemetryStore.getState().recordWin(winner);
+            clearSavedGame();
+        },
+        dismissEarlyEnd: () => {
+            if (!get().earlyEndOffer) return;
+            set(state => { state.earlyEndOffer = null; });
+            get().logAction('Playing on although balance is out of reach.');
+        },
     }))
 );
 
+// Turns run against the engine's clock; when one runs out, the engine resolves it and the stores apply the result.
+onLiveTimeout(timeout => useGameFlowStore.getState().applyTimeout(timeout));
+
 export { GamePhase };
\ No newline at end of file
@@ -0,0 +1,204 @@
+// stores/useHeadToHeadStore.ts
+// This tab's seat in a head-to-head game. The game itself runs on the relay (lib/server/lobbies.ts);
+// the store sends the seat's actions there and mirrors the redacted state and events it streams back.
+
+import { create } from 'zustand';
+import { immer } from 'zustand/middleware/immer';
+import { GameEvent, GameState } from '@/data/types';
+import { MAX_LOG_ENTRIES } from '@/data/constants';
+import { GameAction } from '@/engine/GameEngine';
+import { describeBundle } from '@/engine/bundles';
+import { LobbySettings, SEAT_STORAGE_KEY, SeatCredentials, SeatPresence, SeatResult, ServerMessage } from '@/multiplayer/protocol';
+import { logDebug, logWarn } from '@/utils/logger';
+import { ValidationResult, validationFailed } from '@/utils/validation';
+
+export type HeadToHeadStatus = 'idle' | 'connecting' | 'waiting' | 'playing' | 'reconnecting';
+
+type GameOverEvent = Extract<GameEvent, { type: 'GAME_OVER' }>;
+type BalanceUnreachableEvent = Extract<GameEvent, { type: 'BALANCE_UNREACHABLE' }>;
+
+interface HeadToHeadStoreState {
+    seat: SeatCredentials | null;
+    status: HeadToHeadStatus;
+    settings: LobbySettings | null;
+    game: GameState | null;            // This seat's view of the engine state; null until every player is in
+    seq: number;
+    seats: SeatPresence[];
+    log: string[];                     // Newest first
+    gameOver: GameOverEvent | null;
+    balanceUnreachable: BalanceUnreachableEvent | null;
+    isSending: boolean;
+    closedReason: string | null;       // Why the relay turned this seat away (e.g. the lobby closed), for the title screen
+
+    createLobby: (settings: LobbySettings) => Promise<ValidationResult>;
+    joinLobby: (code: string) => Promise<ValidationResult>;
+    /** Reconnects to the seat saved in this tab, if any (e.g. after a reload). */
+    resumeSeat: () => boolean;
+    sendAction: (action: GameAction) => Promise<ValidationResult>;
+    leaveLobby: () => void;
+}
+
+type HeadToHeadDefaultState = Omit<HeadToHeadStoreState, 'createLobby' | 'joinLobby' | 'resumeSeat' | 'sendAction' | 'leaveLobby'>;
+
+const getDefaultState = (): HeadToHeadDefaultState => ({
+    seat: null,
+    status: 'idle',
+    settings: null,
+    game: null,
+    seq: 0,
+    seats: [],
+    log: [],
+    gameOver: null,
+    balanceUnreachable: null,
+    isSending: false,
+    closedReason: null,
+});
+
+// The open stream is not state anyone renders, so it lives outside the store.
+let eventSource: EventSource | null = null;
+
+const saveSeat = (seat: SeatCredentials | null) => {
+    if (typeof window === 'undefined') return;
+    if (seat) window.sessionStorage.setItem(SEAT_STORAGE_KEY, JSON.stringify(seat));
+    else window.sessionStorage.removeItem(SEAT_STORAGE_KEY);
+};
+
+const loadSeat = (): SeatCredentials | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        return JSON.parse(window.sessionStorage.getItem(SEAT_STORAGE_KEY) ?? 'null');
+    } catch {
+        return null;
+    }
+};
+
+/** A log line for an event, from `viewerId`'s side of the table; undefined for events not worth a line. */
+function describeEvent(event: GameEvent, viewerId: string, game: GameState | null): string | undefined {
+    const who = (playerId: string) => (playerId === viewerId ? 'You' : game?.players?.find(p => p.id === playerId)?.name ?? playerId);
+    switch (event.type) {
+        case 'GAME_STARTED': return 'Game started.';
+        case 'TURN_STARTED': return `Floor ${event.floor}: ${who(event.playerId)} to move.`;
+        case 'PROPOSAL_MADE': return `${who(event.playerId)} proposed ${event.cardName ?? event.cardId} for floor ${event.floor}.`;
+        case 'COUNTER_MADE': return `${who(event.playerId)} countered with ${event.cardName ?? event.cardId}.`;
+        case 'PROPOSAL_ACCEPTED': return `${who(event.acceptedBy)} accepted ${event.cardName ?? event.cardId}.`;
+        case 'PROPOSAL_PASSED': return `${who(event.passedBy)} passed on floor ${event.floor}.`;
+        case 'TURN_TIMED_OUT': return `${who(event.playerId)} ran out of time${event.recallTokenForfeited ? ', forfeiting a recall token,' : ''} and ${event.resolution === 'accept' ? 'accepted' : 'passed'}.`;
+        case 'VOTE_CAST': return `${who(event.playerId)} voted ${event.inFavor ? 'for' : 'against'} (${event.yes} for, ${event.no} against; ${event.needed} carry it).`;
+        case 'FLOOR_FINALIZED': return `Floor ${event.floor} ${event.status}${event.cards?.length ? `: ${describeBundle(event.cards)}` : ''}.`;
+        case 'CARD_DRAWN': return event.playerId === viewerId ? `You drew ${event.card.name}.` : `${who(event.playerId)} drew a card.`;
+        case 'CARD_DISCARDED': return `${who(event.playerId)} discarded ${event.card.name} to make room.`;
+        case 'RECALL_USED': return `${who(event.playerId)} recalled floor ${event.floor}.`;
+        case 'SCORE_ADJUSTED': return `${event.reason} (${event.amount > 0 ? '+' : ''}${event.amount}).`;
+        case 'DECK_RESHUFFLED': return `The discard pile was shuffled into a new draw pile (${event.cards} cards).`;
+        case 'BALANCE_UNREACHABLE': return event.reason;
+        case 'GAME_OVER': return `Game over: ${event.reason}`;
+        default: return undefined;
+    }
+}
+
+async function postJson<T>(url: string, body: unknown): Promise<T> {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+    return response.json();
+}
+
+export const useHeadToHeadStore = create<HeadToHeadStoreState>()(
+    immer((set, get) => {
+        const applyMessage = (message: ServerMessage) => {
+            const viewerId = get().seat?.playerId ?? '';
+            switch (message.type) {
+                case 'snapshot':
+                    set(state => {
+                        state.status = message.state ? 'playing' : 'waiting';
+                        state.settings = message.settings;
+                        state.game = message.state;
+                        state.seq = message.seq;
+                        state.seats = message.seats;
+                    });
+                    break;
+                case 'events': {
+                    if (message.seq <= get().seq) return; // Already part of the snapshot this stream opened with
+                    const lines = message.events.map(event => describeEvent(event, viewerId, message.state)).filter((line): line is string => !!line);
+                    set(state => {
+                        state.status = 'playing';
+                        state.game = message.state;
+                        state.seq = message.seq;
+                        state.log = [...lines.reverse(), ...state.log].slice(0, MAX_LOG_ENTRIES);
+                        message.events.forEach(event => {
+                            if (event.type === 'GAME_OVER') state.gameOver = event;
+                            if (event.type === 'BALANCE_UNREACHABLE') state.balanceUnreachable = event;
+                        });
+                    });
+                    break;
+                }
+                case 'presence':
+                    set(state => { state.seats = message.seats; });
+                    break;
+            }
+        };
+
+        const connect = (seat: SeatCredentials) => {
+            eventSource?.close();
+            set(state => { Object.assign(state, getDefaultState()); state.seat = seat; state.status = 'connecting'; });
+            const source = new EventSource(`/api/lobbies/${seat.code}/events?token=${encodeURIComponent(seat.token)}`);
+            eventSource = source;
+            source.onmessage = event => applyMessage(JSON.parse(event.data));
+            // EventSource reconnects by itself; the relay answers every new connection with a fresh snapshot.
+            source.onerror = () => {
+                if (eventSource === source && get().status !== 'idle') set(state => { state.status = 'reconnecting'; });
+            };
+            source.addEventListener('rejected', event => {
+                const { reason } = JSON.parse((event as MessageEvent).data);
+                logWarn(`Lobby ${seat.code} refused this seat: ${reason}`, 'HeadToHead');
+                get().leaveLobby();
+                set(state => { state.closedReason = reason; });
+            });
+            saveSeat(seat);
+            logDebug(`Connecting to lobby ${seat.code} as ${seat.role}.`, 'HeadToHead');
+        };
+
+        const takeSeat = async (request: Promise<SeatResult>): Promise<ValidationResult> => {
+            try {
+                const result = await request;
+                if (result.isValid && result.seat) connect(result.seat);
+                return result;
+            } catch (error) {
+                return validationFailed(`The lobby server could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        };
+
+        return {
+            ...getDefaultState(),
+
+            createLobby: settings => takeSeat(postJson<SeatResult>('/api/lobbies', settings)),
+
+            joinLobby: code => takeSeat(postJson<SeatResult>(`/api/lobbies/${encodeURIComponent(code.trim().toUpperCase())}`, {})),
+
+            resumeSeat: () => {
+                const seat = loadSeat();
+                if (!seat) return false;
+                connect(seat);
+                return true;
+            },
+
+            sendAction: async action => {
+                const seat = get().seat;
+                if (!seat) return validationFailed('You are not in a lobby.');
+                set(state => { state.isSending = true; });
+                try {
+                    return await postJson<ValidationResult>(`/api/lobbies/${seat.code}/actions`, { token: seat.token, action });
+                } catch (error) {
+                    return validationFailed(`The lobby server could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+                } finally {
+                    set(state => { state.isSending = false; });
+                }
+            },
+
+            leaveLobby: () => {
+                eventSource?.close();
+                eventSource = null;
+                saveSeat(null);
+                set(getDefaultState());
+            },
+        };
+    })
+);
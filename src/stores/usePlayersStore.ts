@@ -12,17 +12,24 @@ import {
     PlayerRole,
     PlayerType,
     CardInstance,
+    RuleSet,
+    DeckMode,
+    PlayerNames,
 } from "@/data/types";
 import {
-    MAX_RECALL_TOKENS,
     CARD_DEAL_INTERVAL_MS,
 } from "@/data/constants"; 
+import { STANDARD_RULES } from "@/data/rules";
 import { getCardDefinitions } from "@/data/deckData";
 import { logDebug, logError, logWarn } from "@/utils/logger";
 import { v4 as uuidv4 } from 'uuid';
 import { deepCopy } from "@/utils/deepCopy";
+import { RandomSource, randomInt } from "@/utils/random";
+import { buildDrawPile, drawTopCard, hasPrivatePiles, isDrawPileMode, Piles, pilesOf, reshuffleRandom, toDiscard } from "@/engine/deck";
+import { DraftPicks, draftedDefinitions } from "@/engine/draft";
+import { roleLabel } from "@/data/stakeholders";
+import { followLiveAction } from "@/orchestration/liveGame";
 
-const STARTING_HAND_SIZE = 5; 
 const PLAYER_A_INDEX = 0;
 const PLAYER_B_INDEX = 1;
 const HUMAN_PLAYER_ID = "human";
@@ -37,6 +44,8 @@ export interface Player {
     hand: CardInstance[]; 
     recallTokens: number;
     isLeadPlayer: boolean;
+    drawPile?: CardInstance[];     // Drafted mode: this player's own pile, top card first
+    discardPile?: CardInstance[];  // Drafted mode: this player's cards that left play
 }
 
 export interface ProposalBasketItem {
@@ -50,13 +59,20 @@ export interface PlayersStoreState {
     players: Player[];
     currentPlayerIndex: number;
     deckCardDefinitions: Readonly<CardDefinition[]>;
+    deckMode: DeckMode;
+    drawPile: CardInstance[];     // Draw pile mode: cards left to draw, top card first
+    discardPile: CardInstance[];  // Draw pile mode: displaced and recalled cards, shuffled back in when the pile runs out
+    deckSeed: number;             // Game seed; each reshuffle derives its order from it
+    reshuffles: number;
     proposalCounts: Record<string, { definitionId: string, count: number }>;
     counterProposalCounts: Record<string, { definitionId: string, count: number }>;
     cardsBeingDealt: boolean; 
     currentScore: number; 
 
     /* Actions */
-    initializePlayers: (humanPlayerRole: PlayerRole) => void;
+    /** Seats `humanPlayerRole` against the AI, or against a second person on this device when `hotSeatNames` is given. */
+    initializePlayers: (humanPlayerRole: PlayerRole, rng?: RandomSource, rules?: RuleSet, hotSeatNames?: PlayerNames) => void;
+    setupDeck: (mode: DeckMode, rng: RandomSource, seed: number, draft?: DraftPicks) => void;
     resetToDefaults: () => void;
     setCurrentPlayerIndex: (index: number) => void;
 
@@ -72,10 +88,12 @@ export interface PlayersStoreState {
 
     reorderHandCards: (playerIndex: number, activeId: string, overId: string | null) => void;
     drawCardInstanceToHandById: (playerIndex: number, definitionId: string) => CardInstance | undefined;
+    drawTopCardToHand: (playerIndex: number, maxHandSize?: number) => CardInstance | undefined;
+    discardCards: (cards: CardInstance[]) => void;
     addCardToHand: (playerIndex: number, cardInstance: CardInstance) => void; 
     playCardFromHand: (playerIndex: number, instanceIdOfStackInHand: string) => CardInstance | undefined; 
     decrementRecallToken: (playerIndex: number) => void;
-    dealInitialCards: () => Promise<boolean>; 
+    dealInitialCards: (rng?: RandomSource, handSize?: number) => Promise<boolean>; 
     completeInitialDeal: () => void;
     logPlayerState: () => void;
     
@@ -86,29 +104,51 @@ export interface PlayersStoreState {
     isPlayerA: (player: Player) => boolean;
     getHumanPlayer: () => Player | undefined;
     getAIPlayer: () => Player | undefined;
+    isHotSeat: () => boolean;
+    getSeatedPlayer: () => Player | undefined;  // Whoever holds the device: the human, or in hot-seat games the player to move
     getCurrentProposalBasket: () => ProposalBasketItem[];
     getCurrentCounterProposalBasket: () => ProposalBasketItem[];
     getRemainingCards: () => CardInstance[]; 
+    getHandSize: (playerIndex: number) => number;
+    getPiles: (playerIndex: number) => Piles;
     getPlayerById: (playerId: string) => Player | undefined;
     findCardInHandByInstanceId: (playerIndex: number, instanceId: string) => CardInstance | undefined;
 }
 
-const createPlayer = (id: string, type: PlayerType, role: PlayerRole, isDesignatedPlayerA: boolean): Player => ({
-    id, name: type === PlayerType.Human ? `You (${role})` : `AI (${role})`, type, role, hand: [], recallTokens: MAX_RECALL_TOKENS, isLeadPlayer: isDesignatedPlayerA,
+const createPlayer = (id: string, type: PlayerType, role: PlayerRole, isDesignatedPlayerA: boolean, recallTokens: number): Player => ({
+    id, name: type === PlayerType.Human ? `You (${role})` : `AI (${role})`, type, role, hand: [], recallTokens, isLeadPlayer: isDesignatedPlayerA,
 });
-const determinePlayerSetup = (humanPlayerRole: PlayerRole): [Player, Player] => {
+const determinePlayerSetup = (humanPlayerRole: PlayerRole, rng: RandomSource, rules: RuleSet, hotSeatNames?: PlayerNames): [Player, Player] => {
     const humanIsDeveloper = humanPlayerRole === PlayerRole.Developer;
     const aiRole = humanIsDeveloper ? PlayerRole.Community : PlayerRole.Developer;
-    const humanIsPlayerA = Math.random() < 0.5; 
+    const humanIsPlayerA = rng() < 0.5; 
+    if (hotSeatNames) {
+        // Both seats are people; as in the engine's head-to-head games, their ids are their roles
+        const seat = (role: PlayerRole, isPlayerA: boolean): Player => ({
+            ...createPlayer(role, PlayerType.Human, role, isPlayerA, rules.initialRecallTokens),
+            name: hotSeatNames[role]?.trim() || roleLabel(role),
+        });
+        return humanIsPlayerA
+            ? [seat(humanPlayerRole, true), seat(aiRole, false)]
+            : [seat(aiRole, true), seat(humanPlayerRole, false)];
+    }
     const pAInfo = { id: humanIsPlayerA ? HUMAN_PLAYER_ID : AI_PLAYER_ID, type: humanIsPlayerA ? PlayerType.Human : PlayerType.AI, role: humanIsPlayerA ? humanPlayerRole : aiRole};
     const pBInfo = { id: !humanIsPlayerA ? HUMAN_PLAYER_ID : AI_PLAYER_ID, type: !humanIsPlayerA ? PlayerType.Human : PlayerType.AI, role: !humanIsPlayerA ? humanPlayerRole : aiRole};
-    return [createPlayer(pAInfo.id, pAInfo.type, pAInfo.role, true), createPlayer(pBInfo.id, pBInfo.type, pBInfo.role, false)];
+    return [
+        createPlayer(pAInfo.id, pAInfo.type, pAInfo.role, true, rules.initialRecallTokens),
+        createPlayer(pBInfo.id, pBInfo.type, pBInfo.role, false, rules.initialRecallTokens),
+    ];
 };
 
 interface DefaultPlayersState { 
     players: Player[];
     currentPlayerIndex: number;
     deckCardDefinitions: Readonly<CardDefinition[]>; 
+    deckMode: DeckMode;
+    drawPile: CardInstance[];
+    discardPile: CardInstance[];
+    deckSeed: number;
+    reshuffles: number;
     proposalCounts: Record<string, { definitionId: string, count: number }>;
     counterProposalCounts: Record<string, { definitionId: string, count: number }>;
     cardsBeingDealt: boolean;
@@ -117,6 +157,7 @@ interface DefaultPlayersState {
 
 const getDefaultState = (): DefaultPlayersState => ({
     players: [], currentPlayerIndex: PLAYER_A_INDEX, deckCardDefinitions: [], 
+    deckMode: 'openDraft', drawPile: [], discardPile: [], deckSeed: 0, reshuffles: 0,
     proposalCounts: {}, counterProposalCounts: {}, 
     cardsBeingDealt: false, currentScore: 0,
 });
@@ -134,10 +175,10 @@ export const usePlayersStore = create<PlayersStoreState>()(
         return {
             ...getDefaultState(),
 
-            initializePlayers: (humanPlayerRole: PlayerRole): void => {
-                logDebug(`[PlayersStore] Initializing players. Human role: ${humanPlayerRole}`);
+            initializePlayers: (humanPlayerRole: PlayerRole, rng: RandomSource = Math.random, rules: RuleSet = STANDARD_RULES, hotSeatNames?: PlayerNames): void => {
+                logDebug(`[PlayersStore] Initializing players. Human role: ${humanPlayerRole}${hotSeatNames ? ' (hot seat)' : ''}`);
                 try {
-                    const orderedPlayers = determinePlayerSetup(humanPlayerRole);
+                    const orderedPlayers = determinePlayerSetup(humanPlayerRole, rng, rules, hotSeatNames);
                     const allCardDefinitions = getCardDefinitions(); 
                     if (!allCardDefinitions || allCardDefinitions.length === 0) {
                         logError("[PlayersStore] Init failed: Card definitions empty.");
@@ -159,6 +200,25 @@ export const usePlayersStore = create<PlayersStoreState>()(
                     set(getDefaultState());
                 }
             },
+            setupDeck: (mode, rng, seed, draft) => {
+                set(state => {
+                    state.deckMode = mode;
+                    state.deckSeed = seed;
+                    state.reshuffles = 0;
+                    state.discardPile = [];
+                    state.drawPile = isDrawPileMode(mode) && !hasPrivatePiles(mode) ? buildDrawPile(state.deckCardDefinitions, rng) : [];
+                    if (hasPrivatePiles(mode)) {
+                        state.players.forEach(player => {
+                            player.drawPile = buildDrawPile(draftedDefinitions(state.deckCardDefinitions, draft?.[player.role]), rng);
+                            player.discardPile = [];
+                        });
+                    }
+                });
+                const pileSizes = hasPrivatePiles(mode)
+                    ? get().players.map(player => `${player.name} ${player.drawPile?.length ?? 0}`).join(', ')
+                    : `${get().drawPile.length}`;
+                logDebug(`[PlayersStore] Deck mode ${mode}${isDrawPileMode(mode) ? `: draw pile of ${pileSizes} cards` : ''}.`);
+            },
             resetToDefaults: (): void => set(getDefaultState()),
             setCurrentPlayerIndex: (index: number): void => {
                 const numPlayers = get().players.length;
@@ -265,8 +325,42 @@ export const usePlayersStore = create<PlayersStoreState>()(
                         newInstanceClone = deepCopy(newInstanceBase);
                     }
                 });
+                const player = get().players[playerIndex];
+                if (newInstanceClone && player && !get().cardsBeingDealt) followLiveAction({ type: 'DRAW_CARD', playerId: player.id, cardId: definitionId });
                 return newInstanceClone; 
             },
+            drawTopCardToHand: (playerIndex, maxHandSize = Infinity) => {
+                const { deckMode, deckSeed, reshuffles } = get();
+                const player = _getPlayerByIndex(get(), playerIndex, "drawTopCardToHand");
+                if (!player || !isDrawPileMode(deckMode)) return undefined;
+                if (get().getHandSize(playerIndex) >= maxHandSize) {
+                    logDebug(`[PlayersStore] ${player.name} cannot draw: hand is full (${maxHandSize} cards).`);
+                    return undefined;
+                }
+                const { drawPile, discardPile } = get().getPiles(playerIndex);
+                const draw = drawTopCard(drawPile, discardPile, player.id, () => reshuffleRandom(deckSeed, reshuffles + 1));
+                set(state => {
+                    const piles = hasPrivatePiles(deckMode) ? state.players[playerIndex] : state;
+                    piles.drawPile = draw.drawPile;
+                    piles.discardPile = draw.discardPile;
+                    if (draw.reshuffled) state.reshuffles = reshuffles + 1;
+                });
+                if (draw.reshuffled) logDebug(`[PlayersStore] Draw pile empty; shuffled the discard pile into a new one of ${draw.drawPile.length + (draw.card ? 1 : 0)} cards.`);
+                if (draw.card) get().addCardToHand(playerIndex, draw.card);
+                if (draw.card && !get().cardsBeingDealt) followLiveAction({ type: 'DRAW_CARD', playerId: player.id });
+                return draw.card;
+            },
+            discardCards: (cards) => {
+                if (!isDrawPileMode(get().deckMode) || cards.length === 0) return;
+                set(state => {
+                    if (!hasPrivatePiles(state.deckMode)) { state.discardPile.push(...cards.map(toDiscard)); return; }
+                    // Drafted cards go back to the pile of the player who played them.
+                    state.players.forEach(player => {
+                        const owned = cards.filter(card => card.ownerId === player.id);
+                        if (owned.length) player.discardPile = [...(player.discardPile ?? []), ...owned.map(toDiscard)];
+                    });
+                });
+            },
             addCardToHand: (playerIndex, cardInstance) => { /* ... (as in F.3 refactor) ... */ 
                  if (!cardInstance?.id || !cardInstance.instanceId) { logError(`[PlayersStore] addCardToHand: Card instance invalid.`, cardInstance); return; }
                 set(state => {
@@ -308,7 +402,7 @@ export const usePlayersStore = create<PlayersStoreState>()(
                     else if(player) logError(`[PlayersStore] Player ${player.id} no recall tokens.`);
                 });
             },
-            dealInitialCards: async () => { /* ... (as in F.3 refactor) ... */ 
+            dealInitialCards: async (rng: RandomSource = Math.random, handSize: number = STANDARD_RULES.initialHandSize) => { /* ... (as in F.3 refactor) ... */ 
                 set(state => { state.cardsBeingDealt = true; });
                 let success = true;
                 try {
@@ -316,11 +410,16 @@ export const usePlayersStore = create<PlayersStoreState>()(
                     if (numPlayers === 0) throw new Error("No players for initial deal.");
                     const cardDefs = get().deckCardDefinitions;
                     if (cardDefs.length === 0) throw new Error("No card definitions for deal.");
-                    for (let i = 0; i < STARTING_HAND_SIZE; i++) {
-                        for (let pIdx = 0; pIdx < numPlayers; pIdx++) {
+                    // Each player is dealt their whole hand in turn, as the engine deals, so both deal the same cards from the seed.
+                    for (let pIdx = 0; pIdx < numPlayers; pIdx++) {
+                        for (let i = 0; i < handSize; i++) {
                             const player = get().players[pIdx];
                             if (!player) continue;
-                            const randomDefIndex = Math.floor(Math.random() * cardDefs.length);
+                            if (isDrawPileMode(get().deckMode)) {
+                                if (get().drawTopCardToHand(pIdx)) await new Promise(r => setTimeout(r, CARD_DEAL_INTERVAL_MS));
+                                continue;
+                            }
+                            const randomDefIndex = randomInt(rng, cardDefs.length);
                             const selectedDef = cardDefs[randomDefIndex];
                             if (selectedDef) { get().drawCardInstanceToHandById(pIdx, selectedDef.id); await new Promise(r => setTimeout(r, CARD_DEAL_INTERVAL_MS)); }
                         }
@@ -340,23 +439,30 @@ export const usePlayersStore = create<PlayersStoreState>()(
                 }).join('');
                 const proposalBasket = get().getCurrentProposalBasket();
                 const counterBasket = get().getCurrentCounterProposalBasket();
-                logDebug(`[PlayersStore State] CurrP: ${s.currentPlayerIndex}, Dealing: ${s.cardsBeingDealt}, DeckDefs: ${s.deckCardDefinitions.length}\nPropBasket: ${JSON.stringify(proposalBasket)}\nCounterBasket: ${JSON.stringify(counterBasket)}${playerDetails}`);
+                const pileSummary = (hasPrivatePiles(s.deckMode) ? s.players.map((_, i) => i) : [s.currentPlayerIndex])
+                    .map(i => { const piles = s.getPiles(i); return `${hasPrivatePiles(s.deckMode) ? `P${i} ` : ''}draw ${piles.drawPile.length}, discard ${piles.discardPile.length}`; })
+                    .join('; ');
+                logDebug(`[PlayersStore State] CurrP: ${s.currentPlayerIndex}, Dealing: ${s.cardsBeingDealt}, DeckDefs: ${s.deckCardDefinitions.length}, Deck: ${s.deckMode}${isDrawPileMode(s.deckMode) ? ` (${pileSummary})` : ''}\nPropBasket: ${JSON.stringify(proposalBasket)}\nCounterBasket: ${JSON.stringify(counterBasket)}${playerDetails}`);
             },
             
             /* --- Getters --- */
             getCurrentPlayer: () => get().players[get().currentPlayerIndex],
             getLeadPlayer: (floorNum) => { /* ... (as in F.3 refactor) ... */ 
                 const s = get(); if (s.players.length<2) return undefined; 
-                return s.players[Math.ceil(floorNum / LEAD_PLAYER_BLOCK_SIZE) % 2 === 1 ? 0:1];
+                // The lead rotates through the seats block by block, as in the engine's getLeadPlayerId.
+                return s.players[Math.floor((floorNum - 1) / LEAD_PLAYER_BLOCK_SIZE) % s.players.length];
             },
             getRespondingPlayer: (floorNum) => { /* ... (as in F.3 refactor) ... */ 
                 const s = get(); if (s.players.length<2) return undefined; 
                 const lead = get().getLeadPlayer(floorNum); if(!lead) return undefined;
-                return s.players.find(p => p.id !== lead.id);
+                // The seat after the lead, as in the engine's getRespondingPlayerId.
+                return s.players[(s.players.findIndex(p => p.id === lead.id) + 1) % s.players.length];
             },
             isPlayerA: (player) => get().players[0]?.id === player.id,
             getHumanPlayer: () => get().players.find(p => p.type === PlayerType.Human),
             getAIPlayer: () => get().players.find(p => p.type === PlayerType.AI),
+            isHotSeat: () => get().players.length > 1 && get().players.every(p => p.type === PlayerType.Human),
+            getSeatedPlayer: () => (get().isHotSeat() ? get().getCurrentPlayer() : get().getHumanPlayer()),
             
             getCurrentProposalBasket: (): ProposalBasketItem[] => { /* ... (as in F.3 refactor) ... */ 
                 const { proposalCounts } = get();
@@ -378,6 +484,11 @@ export const usePlayersStore = create<PlayersStoreState>()(
                 }));
                 return cardsInHands;
             },
+            getHandSize: (playerIndex) => get().players[playerIndex]?.hand.reduce((sum, stack) => sum + (stack.stack ?? 1), 0) ?? 0,
+            getPiles: (playerIndex) => {
+                const { players, drawPile, discardPile, deckMode } = get();
+                return players[playerIndex] ? pilesOf(players[playerIndex], { drawPile, discardPile }, deckMode) : { drawPile, discardPile };
+            },
             getPlayerById: (id) => get().players.find(p => p.id === id),
             findCardInHandByInstanceId: (idx, id) => get().players[idx]?.hand.find(c => c.instanceId === id)
         };
@@ -1,5 +1,7 @@
 // src/utils/eventBus.ts
 
+import type { TimeoutPolicy } from '@/data/types';
+
 /**
  * A type-safe event bus for game-wide communication
  */
@@ -66,15 +68,23 @@ export class EventBus<EventMap extends Record<string, any>> {
 export interface GameEventMap {
   // Game lifecycle events
   'game:started': { humanRole: string; aiRole: string };
-  'game:ended': { winner: string; reason: string; finalScore: number };
+  'game:ended': { winner: string; reason: string; finalScore: number; endedEarly?: boolean };
+  'game:balanceUnreachable': { minScore: number; maxScore: number; winner: string; reason: string };
   'game:reset': void;
+
+  // Draft events (drafted deck mode, before the game starts)
+  'draft:started': { firstPicker: string; stacks: number };
+  'draft:picked': { role: string; cardId: string };
+  'draft:completed': { picks: Partial<Record<string, string[]>> };
   
   // Turn events
   'turn:changed': { playerId: string; isAI: boolean };
-  'turn:timer': { remainingTime: number; isExpiring: boolean };
+  // timedOut is set once, when the time ran out and the engine resolved the TIMEOUT
+  'turn:timer': { remainingTime: number; isExpiring: boolean; timedOut?: { playerId: string; policy: TimeoutPolicy; resolution: 'pass' | 'accept'; recallTokenForfeited: boolean } };
   
   // Card events
   'card:drawn': { playerId: string; cardId: string; cardName: string };
+  'deck:reshuffled': { cards: number };
   'card:played': { playerId: string; cardId: string; cardName: string; floor: number };
   'card:selected': { cardId: string | null };
   
@@ -0,0 +1,78 @@
+// src/utils/jsonLines.ts
+// Maps values in a JSON document back to the lines they were written on, so validators can report
+// `deck.json:14` rather than just a path.
+
+/**
+ * The 1-based line each value in `json` starts on, keyed by path: `''` for the root, then `name`,
+ * `cards[2]`, `cards[2].requiresFloor[0]` and so on. `json` must already parse.
+ */
+export function jsonValueLines(json: string): Map<string, number> {
+    const lines = new Map<string, number>();
+    let i = 0;
+    let line = 1;
+
+    const skipWhitespace = () => {
+        while (i < json.length && /\s/.test(json[i])) {
+            if (json[i] === '\n') line++;
+            i++;
+        }
+    };
+    const readString = (): string => {
+        const start = i++;
+        while (json[i] !== '"') i += json[i] === '\\' ? 2 : 1;
+        i++;
+        return JSON.parse(json.slice(start, i));
+    };
+    const readValue = (path: string) => {
+        skipWhitespace();
+        lines.set(path, line);
+        if (json[i] === '{') {
+            i++;
+            skipWhitespace();
+            if (json[i] === '}') { i++; return; }
+            for (;;) {
+                skipWhitespace();
+                const key = readString();
+                skipWhitespace();
+                i++; // ':'
+                readValue(path ? `${path}.${key}` : key);
+                skipWhitespace();
+                if (json[i++] === '}') return;
+            }
+        }
+        if (json[i] === '[') {
+            i++;
+            skipWhitespace();
+            if (json[i] === ']') { i++; return; }
+            for (let index = 0; ; index++) {
+                readValue(`${path}[${index}]`);
+                skipWhitespace();
+                if (json[i++] === ']') return;
+            }
+        }
+        if (json[i] === '"') readString();
+        else while (i < json.length && !/[\s,\]}]/.test(json[i])) i++;
+    };
+
+    readValue('');
+    return lines;
+}
+
+/** Line of `path`, or of its nearest enclosing value when `path` itself isn't in the document. */
+export function lineOfPath(lines: ReadonlyMap<string, number>, path: string): number | undefined {
+    for (let current = path; ; ) {
+        const line = lines.get(current);
+        const parent = current.replace(/(^|\.)[^.[\]]+$|\[\d+\]$/, '');
+        if (line !== undefined || parent === current) return line;
+        current = parent;
+    }
+}
+
+/** Line a JSON.parse SyntaxError points at, from the line or position the engine reports. */
+export function syntaxErrorLine(json: string, error: unknown): number | undefined {
+    const message = error instanceof Error ? error.message : String(error);
+    const reportedLine = /line (\d+)/.exec(message);
+    if (reportedLine) return Number(reportedLine[1]);
+    const position = /position (\d+)/.exec(message);
+    return position ? json.slice(0, Number(position[1])).split('\n').length : undefined;
+}
@@ -17,6 +17,23 @@ export type Meta =
   | unknown           // ← lets you pass raw `unknown` without complaint
   | undefined;
 
+/* ---------- quiet sections ---------- */
+// Depth counter so nested quiet sections restore correctly.
+let quietDepth = 0;
+
+/**
+ * Runs `fn` with everything below ERROR dropped. For hot loops (search playouts,
+ * batch simulation) that drive the engine thousands of times per second.
+ */
+export function withQuietLogging<T>(fn: () => T): T {
+  quietDepth++;
+  try {
+    return fn();
+  } finally {
+    quietDepth--;
+  }
+}
+
 /* ---------- internal funnel ---------- */
 function _recordLog(
   level: LogLevel,
@@ -24,6 +41,8 @@ function _recordLog(
   metaOrCat?: Meta,
   cat?: string,
 ): void {
+  if (quietDepth > 0 && level !== LogLevel.ERROR) return;
+
   /* smart param shuffle ------------------------------------------------ */
   let meta: Record<string, unknown> | Error | undefined;
   if (typeof metaOrCat === "string" && cat === undefined) {
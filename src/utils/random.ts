@@ -0,0 +1,36 @@
+// src/utils/random.ts
+
+/**
+ * A source of uniformly distributed floats in [0, 1).
+ * `Math.random` satisfies this type, so it can be used as a fallback.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seedable PRNG (mulberry32). The same seed always yields the same sequence,
+ * which lets a reported game be reproduced exactly from its seed.
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a fresh unsigned 32-bit seed for a new game.
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Returns an integer in [0, maxExclusive) drawn from the given source.
+ */
+export function randomInt(rng: RandomSource, maxExclusive: number): number {
+  return Math.floor(rng() * maxExclusive);
+}
@@ -1,12 +1,14 @@
 // src/utils/shuffle.ts
+import { RandomSource, randomInt } from './random';
+
 /**
  * In-place Fisher-Yates shuffle that returns a *new* array,
- * leaving the original untouched.
+ * leaving the original untouched. Pass a seeded `rng` for reproducible order.
  */
-export function shuffle<T>(input: T[]): T[] {
+export function shuffle<T>(input: T[], rng: RandomSource = Math.random): T[] {
   const arr = [...input];
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = randomInt(rng, i + 1);
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
   return arr;